@@ -0,0 +1,13 @@
+-- Create CustomerAlias table
+CREATE TABLE "CustomerAlias" (
+    "id" SERIAL NOT NULL,
+    "alias" TEXT NOT NULL,
+    "canonicalName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomerAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE UNIQUE INDEX "CustomerAlias_alias_key" ON "CustomerAlias"("alias");
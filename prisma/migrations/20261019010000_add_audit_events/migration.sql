@@ -0,0 +1,30 @@
+-- Create AuditEvent table
+CREATE TABLE "AuditEvent" (
+    "id" SERIAL NOT NULL,
+    "action" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" INTEGER,
+    "actorId" INTEGER,
+    "actorEmail" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE INDEX "AuditEvent_entityType_entityId_idx" ON "AuditEvent"("entityType", "entityId");
+CREATE INDEX "AuditEvent_actorId_idx" ON "AuditEvent"("actorId");
+CREATE INDEX "AuditEvent_createdAt_idx" ON "AuditEvent"("createdAt");
+
+-- Append-only: reject any UPDATE or DELETE on audit rows
+CREATE FUNCTION "AuditEvent_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'AuditEvent is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "AuditEvent_no_update_or_delete"
+    BEFORE UPDATE OR DELETE ON "AuditEvent"
+    FOR EACH ROW EXECUTE FUNCTION "AuditEvent_append_only"();
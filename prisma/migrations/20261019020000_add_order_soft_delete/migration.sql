@@ -0,0 +1,9 @@
+-- Soft delete: trashed orders keep their row (and line items) until purged
+ALTER TABLE "Order" ADD COLUMN "deletedAt" TIMESTAMP(3);
+ALTER TABLE "Order" ADD COLUMN "deletedById" INTEGER;
+
+-- Indexes
+CREATE INDEX "Order_deletedAt_idx" ON "Order"("deletedAt");
+
+-- Foreign key
+ALTER TABLE "Order" ADD CONSTRAINT "Order_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- Running balance per venue
+ALTER TABLE "Venue" ADD COLUMN "ledgerBalance" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Create LedgerEntry table
+CREATE TABLE "LedgerEntry" (
+    "id" SERIAL NOT NULL,
+    "venueId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "sourceId" INTEGER,
+    "description" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "balanceAfter" DOUBLE PRECISION NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE INDEX "LedgerEntry_venueId_id_idx" ON "LedgerEntry"("venueId", "id");
+CREATE INDEX "LedgerEntry_type_sourceId_idx" ON "LedgerEntry"("type", "sourceId");
+
+-- Foreign key
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "Venue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill one opening entry per existing source, oldest first.
+-- Order payout mirrors calculatePayoutFromOrder: EGP × (1 - 1.75%) / aedEgpRate / 3.6725 AED per USD.
+INSERT INTO "LedgerEntry" ("venueId", "type", "sourceId", "description", "amount", "balanceAfter", "occurredAt")
+SELECT "venueId", "type", "sourceId", "description", "amount", 0, "occurredAt"
+FROM (
+    SELECT "id" AS "venueId", 'ADJUSTMENT' AS "type", "id" AS "sourceId", 'Balance adjustment' AS "description",
+           "balanceAdjustment" AS "amount", "createdAt" AS "occurredAt"
+    FROM "Venue"
+    WHERE "balanceAdjustment" <> 0
+    UNION ALL
+    SELECT "venueId", 'ORDER', "id", 'Order ' || "orderNumber",
+           "originalAmount" * (1 - 0.0175) / "aedEgpRate" / 3.6725, "processedAt"
+    FROM "Order"
+    WHERE "deletedAt" IS NULL AND "originalAmount" > 0 AND "aedEgpRate" > 0
+    UNION ALL
+    SELECT "venueId", 'PAYOUT', "id", "description", -"amount", "processedAt"
+    FROM "Payout"
+    UNION ALL
+    SELECT "venueId", 'DEDUCTION', "id", 'Deduction' || COALESCE(': ' || "note", ''),
+           -"amount" / 3.6725, "date"::timestamp
+    FROM "DailyDeduction"
+) AS "opening"
+ORDER BY "venueId", "occurredAt", "type", "sourceId";
+
+UPDATE "LedgerEntry" AS "entry"
+SET "balanceAfter" = "running"."balance"
+FROM (
+    SELECT "id", SUM("amount") OVER (PARTITION BY "venueId" ORDER BY "id") AS "balance"
+    FROM "LedgerEntry"
+) AS "running"
+WHERE "entry"."id" = "running"."id";
+
+UPDATE "Venue" AS "venue"
+SET "ledgerBalance" = "totals"."balance"
+FROM (
+    SELECT "venueId", SUM("amount") AS "balance" FROM "LedgerEntry" GROUP BY "venueId"
+) AS "totals"
+WHERE "venue"."id" = "totals"."venueId";
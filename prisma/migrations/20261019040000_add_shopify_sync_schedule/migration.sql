@@ -0,0 +1,28 @@
+-- Per-store sync schedule
+ALTER TABLE "ShopifyStore" ADD COLUMN "syncEnabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "ShopifyStore" ADD COLUMN "syncIntervalMinutes" INTEGER NOT NULL DEFAULT 60;
+ALTER TABLE "ShopifyStore" ADD COLUMN "syncSinceId" TEXT;
+ALTER TABLE "ShopifyStore" ADD COLUMN "lastSyncedAt" TIMESTAMP(3);
+
+-- Create ShopifySyncRun table
+CREATE TABLE "ShopifySyncRun" (
+    "id" SERIAL NOT NULL,
+    "storeId" INTEGER NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "sinceId" TEXT,
+    "fetched" INTEGER NOT NULL DEFAULT 0,
+    "queued" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ShopifySyncRun_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE INDEX "ShopifySyncRun_storeId_startedAt_idx" ON "ShopifySyncRun"("storeId", "startedAt");
+
+-- Foreign key
+ALTER TABLE "ShopifySyncRun" ADD CONSTRAINT "ShopifySyncRun_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "ShopifyStore"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- Shopify refunds already reflected in originalAmount
+ALTER TABLE "Order" ADD COLUMN "refundedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -0,0 +1,21 @@
+-- Create ShopifyWebhookDelivery table
+CREATE TABLE "ShopifyWebhookDelivery" (
+    "id" SERIAL NOT NULL,
+    "webhookId" TEXT,
+    "topic" TEXT NOT NULL,
+    "shopDomain" TEXT,
+    "hmacStatus" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'received',
+    "message" TEXT,
+    "error" TEXT,
+    "rawBody" TEXT NOT NULL,
+    "replayCount" INTEGER NOT NULL DEFAULT 0,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ShopifyWebhookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE INDEX "ShopifyWebhookDelivery_receivedAt_idx" ON "ShopifyWebhookDelivery"("receivedAt");
+CREATE INDEX "ShopifyWebhookDelivery_status_receivedAt_idx" ON "ShopifyWebhookDelivery"("status", "receivedAt");
@@ -0,0 +1,5 @@
+-- Per-store webhook signing secret (encrypted)
+ALTER TABLE "ShopifyStore" ADD COLUMN "webhookSecret" TEXT;
+
+-- Keep the delivery signature so replays can re-verify it
+ALTER TABLE "ShopifyWebhookDelivery" ADD COLUMN "hmac" TEXT;
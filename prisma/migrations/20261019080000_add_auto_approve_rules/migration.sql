@@ -0,0 +1,27 @@
+-- Reason an auto-approve rule held a queued order
+ALTER TABLE "ShopifyImportQueue" ADD COLUMN "holdReason" TEXT;
+
+-- Create AutoApproveRule table
+CREATE TABLE "AutoApproveRule" (
+    "id" SERIAL NOT NULL,
+    "storeId" INTEGER,
+    "venueId" INTEGER,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "requireCatalogMatch" BOOLEAN NOT NULL DEFAULT true,
+    "requirePaid" BOOLEAN NOT NULL DEFAULT true,
+    "requireDailyRate" BOOLEAN NOT NULL DEFAULT true,
+    "tzOffsetMinutes" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AutoApproveRule_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "AutoApproveRule_scope_check" CHECK (("storeId" IS NULL) <> ("venueId" IS NULL))
+);
+
+-- Indexes
+CREATE UNIQUE INDEX "AutoApproveRule_storeId_key" ON "AutoApproveRule"("storeId");
+CREATE UNIQUE INDEX "AutoApproveRule_venueId_key" ON "AutoApproveRule"("venueId");
+
+-- Foreign keys
+ALTER TABLE "AutoApproveRule" ADD CONSTRAINT "AutoApproveRule_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "ShopifyStore"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "AutoApproveRule" ADD CONSTRAINT "AutoApproveRule_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "Venue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- Classification and triage state for queued Shopify orders
+ALTER TABLE "ShopifyImportQueue" ADD COLUMN "issues" TEXT[] DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "ShopifyImportQueue" ADD COLUMN "issueDetails" JSONB;
+ALTER TABLE "ShopifyImportQueue" ADD COLUMN "triageState" TEXT NOT NULL DEFAULT 'new';
+ALTER TABLE "ShopifyImportQueue" ADD COLUMN "snoozedUntil" TIMESTAMP(3);
+ALTER TABLE "ShopifyImportQueue" ADD COLUMN "ignoreReason" TEXT;
+
+-- Indexes
+CREATE INDEX "ShopifyImportQueue_triageState_idx" ON "ShopifyImportQueue"("triageState");
@@ -0,0 +1,18 @@
+-- Create ProductAlias table
+CREATE TABLE "ProductAlias" (
+    "id" SERIAL NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "venueId" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE UNIQUE INDEX "ProductAlias_venueId_kind_value_key" ON "ProductAlias"("venueId", "kind", "value");
+CREATE INDEX "ProductAlias_productId_idx" ON "ProductAlias"("productId");
+
+-- Foreign keys
+ALTER TABLE "ProductAlias" ADD CONSTRAINT "ProductAlias_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- Create ProductPrice table
+CREATE TABLE "ProductPrice" (
+    "id" SERIAL NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "egpPrice" DOUBLE PRECISION NOT NULL,
+    "validFrom" TIMESTAMP(3) NOT NULL,
+    "validTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE UNIQUE INDEX "ProductPrice_productId_validFrom_key" ON "ProductPrice"("productId", "validFrom");
+
+-- Foreign keys
+ALTER TABLE "ProductPrice" ADD CONSTRAINT "ProductPrice_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Start every existing product's history with its current price
+INSERT INTO "ProductPrice" ("productId", "egpPrice", "validFrom")
+SELECT "id", "egpPrice", "createdAt" FROM "Product";
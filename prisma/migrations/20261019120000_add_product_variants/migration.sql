@@ -0,0 +1,14 @@
+-- Shopify variant details on products
+ALTER TABLE "Product" ADD COLUMN "shopifyParentId" TEXT;
+ALTER TABLE "Product" ADD COLUMN "variantTitle" TEXT;
+ALTER TABLE "Product" ADD COLUMN "shopifyStatus" TEXT;
+ALTER TABLE "Product" ADD COLUMN "shopifyStoreId" INTEGER;
+
+-- Last applied catalog sync per store
+ALTER TABLE "ShopifyStore" ADD COLUMN "catalogSyncedAt" TIMESTAMP(3);
+
+-- Indexes
+CREATE INDEX "Product_shopifyStoreId_idx" ON "Product"("shopifyStoreId");
+
+-- Foreign keys
+ALTER TABLE "Product" ADD CONSTRAINT "Product_shopifyStoreId_fkey" FOREIGN KEY ("shopifyStoreId") REFERENCES "ShopifyStore"("id") ON DELETE SET NULL ON UPDATE CASCADE;
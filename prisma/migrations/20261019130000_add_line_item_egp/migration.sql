@@ -0,0 +1,10 @@
+-- Catalog product and EGP amounts each line item was priced with
+ALTER TABLE "OrderLineItem" ADD COLUMN "productId" INTEGER;
+ALTER TABLE "OrderLineItem" ADD COLUMN "egpUnitPrice" DOUBLE PRECISION;
+ALTER TABLE "OrderLineItem" ADD COLUMN "egpTotal" DOUBLE PRECISION;
+
+-- Indexes
+CREATE INDEX "OrderLineItem_productId_idx" ON "OrderLineItem"("productId");
+
+-- Foreign keys
+ALTER TABLE "OrderLineItem" ADD CONSTRAINT "OrderLineItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- Create DailyVenueStats table; rows are built on first read, per venue and timezone offset
+CREATE TABLE "DailyVenueStats" (
+    "id" SERIAL NOT NULL,
+    "venueId" INTEGER NOT NULL,
+    "tzOffsetMinutes" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "ordersCount" INTEGER NOT NULL DEFAULT 0,
+    "revenue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "payout" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "egpTotal" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "aedPayout" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "deductions" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DailyVenueStats_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE UNIQUE INDEX "DailyVenueStats_venueId_tzOffsetMinutes_date_key" ON "DailyVenueStats"("venueId", "tzOffsetMinutes", "date");
+
+-- Foreign keys
+ALTER TABLE "DailyVenueStats" ADD CONSTRAINT "DailyVenueStats_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "Venue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
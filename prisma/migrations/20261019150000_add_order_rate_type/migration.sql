@@ -0,0 +1,6 @@
+-- Which rate an order's payout uses. Existing orders stay NULL until the rate migration classifies them;
+-- every writer sets it on new orders.
+ALTER TABLE "Order" ADD COLUMN "rateType" TEXT;
+
+-- The analytics rollup no longer reads small exchange rates as AED rates; rebuild it on next read
+DELETE FROM "DailyVenueStats";
@@ -0,0 +1,19 @@
+-- Per-venue fee and commission terms with effective dates; venues without one use the global defaults
+CREATE TABLE "FeeSchedule" (
+    "id" SERIAL NOT NULL,
+    "venueId" INTEGER NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "platformFeeMultiplier" DOUBLE PRECISION NOT NULL,
+    "commissionRate" DOUBLE PRECISION NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FeeSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE UNIQUE INDEX "FeeSchedule_venueId_effectiveFrom_key" ON "FeeSchedule"("venueId", "effectiveFrom");
+
+-- Foreign keys
+ALTER TABLE "FeeSchedule" ADD CONSTRAINT "FeeSchedule_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "Venue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- Each venue draws its business days in its own timezone, turning over at its cutoff hour
+ALTER TABLE "Venue" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'Africa/Cairo';
+ALTER TABLE "Venue" ADD COLUMN "businessDayCutoffHour" INTEGER NOT NULL DEFAULT 6;
+
+-- The analytics rollup follows the venue's calendar instead of the viewer's timezone; rebuild it on next read
+DELETE FROM "DailyVenueStats";
+DROP INDEX "DailyVenueStats_venueId_tzOffsetMinutes_date_key";
+ALTER TABLE "DailyVenueStats" DROP COLUMN "tzOffsetMinutes";
+CREATE UNIQUE INDEX "DailyVenueStats_venueId_date_key" ON "DailyVenueStats"("venueId", "date");
+
+-- Auto-approve rules look up daily rates on the venue's business day
+ALTER TABLE "AutoApproveRule" DROP COLUMN "tzOffsetMinutes";
@@ -135,6 +135,7 @@ async function main() {
       data: {
         ...order,
         tags: order.tags,
+        rateType: "USD_EGP",
         createdById: admin.id
       }
     });
@@ -0,0 +1,255 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import useSWR from "swr";
+import { ChevronDown, ChevronRight, History } from "lucide-react";
+import type { AuditEventDto } from "@/types/audit";
+import { cn, formatDateTime } from "@/lib/utils";
+
+type EventsResponse = {
+  events: AuditEventDto[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalCount: number;
+    totalPages: number;
+  };
+};
+
+type UsersResponse = {
+  users: Array<{ id: number; email: string; name: string | null }>;
+};
+
+const ENTITY_TYPES = ["Order", "Payout", "Venue", "FeeSchedule", "User"] as const;
+
+const ACTION_BADGES: Record<AuditEventDto["action"], string> = {
+  create: "bg-emerald-100 text-emerald-700",
+  update: "bg-blue-100 text-blue-700",
+  delete: "bg-rose-100 text-rose-700",
+  restore: "bg-amber-100 text-amber-700",
+  purge: "bg-slate-200 text-synvora-text-secondary"
+};
+
+// Bookkeeping fields that change on every write and add noise to diffs
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+const fetcher = (url: string) =>
+  fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error("Request failed");
+    }
+    return response.json();
+  });
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const getChangedFields = (event: AuditEventDto) => {
+  const before = event.before ?? {};
+  const after = event.after ?? {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(
+    (key) => !IGNORED_FIELDS.has(key)
+  );
+
+  return keys
+    .filter((key) => event.action !== "update" || JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => ({ key, before: before[key], after: after[key] }));
+};
+
+const describeEvent = (event: AuditEventDto) => {
+  const snapshot = event.after ?? event.before ?? {};
+  const label =
+    (snapshot.orderNumber as string | undefined) ??
+    (snapshot.name as string | undefined) ??
+    (snapshot.email as string | undefined) ??
+    (snapshot.description as string | undefined);
+
+  return `${event.entityType}${event.entityId ? ` #${event.entityId}` : ""}${label ? ` · ${label}` : ""}`;
+};
+
+export default function ActivityPage() {
+  const [entityType, setEntityType] = useState("");
+  const [actorId, setActorId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const params = new URLSearchParams({
+    page: String(page),
+    tzOffset: String(new Date().getTimezoneOffset())
+  });
+  if (entityType) params.set("entityType", entityType);
+  if (actorId) params.set("actorId", actorId);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  const { data, isLoading, error } = useSWR<EventsResponse>(`/api/audit-events?${params.toString()}`, fetcher);
+  const { data: usersData } = useSWR<UsersResponse>("/api/users", fetcher);
+
+  const events = data?.events ?? [];
+  const totalPages = data?.pagination.totalPages ?? 1;
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const inputClass =
+    "rounded-lg border border-synvora-border bg-white px-3 py-2 text-sm shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-synvora-text">Activity</h1>
+        <p className="mt-1 text-sm text-synvora-text-secondary">
+          Every change to orders, payouts, venues and users, with who made it and what it looked like before.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <select value={entityType} onChange={(e) => updateFilter(setEntityType)(e.target.value)} className={inputClass}>
+          <option value="">All entities</option>
+          {ENTITY_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}s
+            </option>
+          ))}
+        </select>
+        <select value={actorId} onChange={(e) => updateFilter(setActorId)(e.target.value)} className={inputClass}>
+          <option value="">All users</option>
+          {(usersData?.users ?? []).map((user) => (
+            <option key={user.id} value={user.id}>
+              {user.name || user.email}
+            </option>
+          ))}
+        </select>
+        <label className="flex flex-col gap-1 text-xs font-medium text-synvora-text-secondary">
+          From
+          <input type="date" value={from} onChange={(e) => updateFilter(setFrom)(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-synvora-text-secondary">
+          To
+          <input type="date" value={to} onChange={(e) => updateFilter(setTo)(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      <div className="rounded-xl border border-synvora-border bg-white shadow-sm">
+        {isLoading ? (
+          <div className="py-12 text-center text-sm text-synvora-text-secondary">Loading activity...</div>
+        ) : error ? (
+          <div className="py-12 text-center text-sm text-rose-600">Failed to load activity</div>
+        ) : events.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 px-6 py-12 text-center">
+            <History className="h-6 w-6 text-synvora-text-secondary" />
+            <p className="text-sm text-synvora-text-secondary">No activity matches these filters.</p>
+          </div>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="border-b border-synvora-border bg-synvora-surface">
+              <tr className="text-left text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+                <th className="w-10 px-4 py-3" />
+                <th className="px-3 py-3">When</th>
+                <th className="px-3 py-3">Action</th>
+                <th className="px-3 py-3">Record</th>
+                <th className="px-3 py-3">By</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-synvora-border">
+              {events.map((event) => {
+                const expanded = expandedId === event.id;
+                return (
+                  <Fragment key={event.id}>
+                    <tr
+                      onClick={() => setExpandedId(expanded ? null : event.id)}
+                      className="cursor-pointer transition hover:bg-synvora-surface-hover"
+                    >
+                      <td className="px-4 py-3 text-synvora-text-secondary">
+                        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-3 text-synvora-text-secondary">
+                        {formatDateTime(event.createdAt)}
+                      </td>
+                      <td className="px-3 py-3">
+                        <span
+                          className={cn(
+                            "inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-semibold capitalize",
+                            ACTION_BADGES[event.action]
+                          )}
+                        >
+                          {event.action}
+                        </span>
+                      </td>
+                      <td className="px-3 py-3 font-medium text-synvora-text">{describeEvent(event)}</td>
+                      <td className="px-3 py-3 text-synvora-text-secondary">{event.actorEmail ?? "System"}</td>
+                    </tr>
+                    {expanded && (
+                      <tr className="bg-synvora-surface">
+                        <td />
+                        <td colSpan={4} className="px-3 py-3">
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="text-left font-semibold uppercase tracking-wide text-synvora-text-secondary">
+                                <th className="py-1 pr-4">Field</th>
+                                {event.before && <th className="py-1 pr-4">Before</th>}
+                                {event.after && <th className="py-1">After</th>}
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {getChangedFields(event).map((field) => (
+                                <tr key={field.key} className="align-top">
+                                  <td className="py-1 pr-4 font-medium text-synvora-text">{field.key}</td>
+                                  {event.before && (
+                                    <td className="max-w-xs break-all py-1 pr-4 text-synvora-text-secondary">
+                                      {formatValue(field.before)}
+                                    </td>
+                                  )}
+                                  {event.after && (
+                                    <td className="max-w-xs break-all py-1 text-synvora-text">{formatValue(field.after)}</td>
+                                  )}
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between border-t border-synvora-border px-5 py-3 text-sm">
+            <span className="text-synvora-text-secondary">
+              Page {page} of {totalPages}
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setPage((current) => current - 1)}
+                disabled={page <= 1}
+                className="rounded-lg border border-synvora-border px-3 py-1.5 text-xs font-medium text-synvora-text-secondary transition hover:bg-synvora-surface-hover disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                type="button"
+                onClick={() => setPage((current) => current + 1)}
+                disabled={page >= totalPages}
+                className="rounded-lg border border-synvora-border px-3 py-1.5 text-xs font-medium text-synvora-text-secondary transition hover:bg-synvora-surface-hover disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,11 +5,16 @@ import { useState } from "react";
 import { useSession } from "next-auth/react";
 import {
   TrendingUp, TrendingDown, ShoppingCart, DollarSign, BarChart2,
-  Wallet, ChevronDown, ChevronUp, ChevronRight
+  Wallet, ChevronDown, ChevronUp, ChevronRight, Columns3
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
 import { DayOrdersPanel } from "@/components/analytics/day-orders-panel";
+import { ProductPerformance } from "@/components/analytics/product-performance";
+import { ForecastPanel } from "@/components/analytics/forecast-panel";
+import { IssuesPanel } from "@/components/analytics/issues-panel";
+import { VenuePicker } from "@/components/analytics/venue-picker";
+import { VenueComparison, type VenueComparisonEntry } from "@/components/analytics/venue-comparison";
 
 const fetcher = (url: string) => fetch(url).then((r) => r.json());
 
@@ -21,6 +26,19 @@ const fmtNum = (n: number) =>
 
 const fmtPct = (n: number) => `${n > 0 ? "+" : ""}${n.toFixed(1)}%`;
 
+const MONTH_SHORT = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// Axis label for a series period key: "2026-01-05", "2026-01" or "2026-Q1"
+const shortPeriodLabel = (period: string, granularity: Granularity) => {
+  const [year, part, day] = period.split("-");
+  if (granularity === "quarter") return `${part} ${year.slice(-2)}`;
+  if (granularity === "month") return `${MONTH_SHORT[Number(part) - 1]} ${year.slice(-2)}`;
+  return `${MONTH_SHORT[Number(part) - 1]} ${Number(day)}`;
+};
+
+const filterClass =
+  "rounded-lg border border-synvora-border bg-white px-3 py-1.5 text-sm shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary";
+
 type DayData = {
   date: string;
   label: string;
@@ -49,6 +67,18 @@ type AnalyticsData = {
   momPayoutChange: number | null;
   momOrdersChange: number | null;
   allMonths: MonthData[];
+  range: { from: string; to: string; granularity: Granularity };
+  series: { period: string; label: string; orders: number; egpTotal: number; aedTotal: number | null; revenue: number; payout: number }[];
+  venues: VenueComparisonEntry[];
+};
+
+type Granularity = "day" | "week" | "month" | "quarter";
+
+const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+  quarter: "Quarterly"
 };
 
 const BADGE_COLORS: Record<string, string> = {
@@ -60,8 +90,27 @@ const BADGE_COLORS: Record<string, string> = {
 export default function AnalyticsPage() {
   const { data: session } = useSession();
   const isAdmin = session?.user.role === "ADMIN";
-  const tzOffset = new Date().getTimezoneOffset();
-  const { data, isLoading } = useSWR<AnalyticsData>(`/api/analytics?tzOffset=${tzOffset}`, fetcher);
+
+  const [venueIds, setVenueIds] = useState<number[]>([]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [granularity, setGranularity] = useState<Granularity>("month");
+  const [compare, setCompare] = useState(false);
+
+  // A range applies once both ends are set
+  const hasRange = Boolean(from && to && from <= to);
+  const params = new URLSearchParams({ granularity });
+  venueIds.forEach((id) => params.append("venueId", String(id)));
+  if (hasRange) {
+    params.set("from", from);
+    params.set("to", to);
+  }
+
+  const { data, isLoading } = useSWR<AnalyticsData>(`/api/analytics?${params.toString()}`, fetcher);
+  const { data: venuesData } = useSWR<{ venues: Array<{ id: number; name: string }> }>(
+    isAdmin ? "/api/venues" : null,
+    fetcher
+  );
 
   const [expandedMonths, setExpandedMonths] = useState<Set<string>>(new Set());
   const [selectedDay, setSelectedDay] = useState<{ date: string; label: string } | null>(null);
@@ -70,7 +119,9 @@ export default function AnalyticsPage() {
   const totals = data?.totals;
   const breakdown = data?.breakdown ?? {};
   const allMonths = data?.allMonths ?? [];
-  const maxPayout = Math.max(...months.map((m) => m.payout), 1);
+  const series = data?.series ?? [];
+  const comparedVenues = data?.venues ?? [];
+  const maxPayout = Math.max(...series.map((p) => p.payout), 1);
   const totalBreakdown = Object.values(breakdown).reduce((s, n) => s + n, 0);
 
   const toggleMonth = (month: string) => {
@@ -83,11 +134,70 @@ export default function AnalyticsPage() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-semibold text-synvora-text">Analytics</h1>
-        <p className="mt-1 text-sm text-synvora-text-secondary">
-          {isAdmin ? "Platform-wide performance overview" : "Your earnings and order performance"}
-        </p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-synvora-text">Analytics</h1>
+          <p className="mt-1 text-sm text-synvora-text-secondary">
+            {isAdmin ? "Platform-wide performance overview" : "Your earnings and order performance"}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {isAdmin && (
+            <VenuePicker venues={venuesData?.venues ?? []} value={venueIds} onChange={setVenueIds} />
+          )}
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className={filterClass}
+            aria-label="From"
+          />
+          <span className="text-xs text-synvora-text-secondary">to</span>
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className={filterClass}
+            aria-label="To"
+          />
+          {(from || to) && (
+            <button
+              type="button"
+              onClick={() => { setFrom(""); setTo(""); }}
+              className="text-xs text-synvora-text-secondary hover:text-synvora-text"
+            >
+              All time
+            </button>
+          )}
+          <select
+            value={granularity}
+            onChange={(e) => setGranularity(e.target.value as Granularity)}
+            className={filterClass}
+            aria-label="Granularity"
+          >
+            <option value="day">Day</option>
+            <option value="week">Week</option>
+            <option value="month">Business month</option>
+            <option value="quarter">Quarter</option>
+          </select>
+          {(isAdmin || comparedVenues.length > 1) && (
+            <button
+              type="button"
+              onClick={() => setCompare((value) => !value)}
+              className={cn(
+                "inline-flex items-center gap-1.5 rounded-lg border px-3 py-1.5 text-sm font-medium shadow-sm transition",
+                compare
+                  ? "border-synvora-primary bg-synvora-primary text-white"
+                  : "border-synvora-border bg-white text-synvora-text hover:border-synvora-primary"
+              )}
+            >
+              <Columns3 className="h-4 w-4" />
+              Compare venues
+            </button>
+          )}
+        </div>
       </div>
 
       {/* KPI cards */}
@@ -96,7 +206,7 @@ export default function AnalyticsPage() {
           label="Total orders"
           icon={ShoppingCart}
           value={isLoading ? null : String(totals?.totalOrders ?? 0)}
-          change={data?.momOrdersChange ?? null}
+          change={hasRange ? null : data?.momOrdersChange ?? null}
           isLoading={isLoading}
         />
         <StatCard
@@ -109,7 +219,7 @@ export default function AnalyticsPage() {
           label={isAdmin ? "Total client payout" : "Your earnings (USD)"}
           icon={Wallet}
           value={isLoading ? null : fmt(totals?.totalPayout ?? 0)}
-          change={data?.momPayoutChange ?? null}
+          change={hasRange ? null : data?.momPayoutChange ?? null}
           highlight
           isLoading={isLoading}
         />
@@ -122,12 +232,14 @@ export default function AnalyticsPage() {
       </div>
 
       <div className="grid gap-6 lg:grid-cols-3">
-        {/* Monthly payout bar chart */}
+        {/* Payout bar chart */}
         <div className="lg:col-span-2 rounded-2xl border border-synvora-border bg-white p-6 shadow-sm">
           <h2 className="text-sm font-semibold text-synvora-text">
-            {isAdmin ? "Monthly payout (USD)" : "Monthly earnings (USD)"}
+            {GRANULARITY_LABELS[granularity]} {isAdmin ? "payout" : "earnings"} (USD)
           </h2>
-          <p className="mt-0.5 text-xs text-synvora-text-secondary">Last 12 months</p>
+          <p className="mt-0.5 text-xs text-synvora-text-secondary">
+            {hasRange ? `${from} to ${to}` : "Last 12 months"}
+          </p>
 
           {isLoading ? (
             <div className="mt-6 flex items-end gap-2 h-40">
@@ -136,28 +248,35 @@ export default function AnalyticsPage() {
               ))}
             </div>
           ) : (
-            <div className="mt-6 flex items-end gap-1.5 h-40">
-              {months.map((m) => {
-                const heightPct = maxPayout > 0 ? (m.payout / maxPayout) * 100 : 0;
-                const isCurrentMonth = m.month === new Date().toISOString().slice(0, 7);
+            <div className={cn("mt-6 flex items-end h-40", series.length > 31 ? "gap-px" : "gap-1.5")}>
+              {series.map((p, index) => {
+                const heightPct = maxPayout > 0 ? (p.payout / maxPayout) * 100 : 0;
+                const isCurrent = !hasRange && index === series.length - 1;
+                const showLabel = series.length <= 16 || index === 0 || index === series.length - 1;
                 return (
-                  <div key={m.month} className="group relative flex flex-1 flex-col items-center gap-1">
+                  <div key={p.period} className="group relative flex flex-1 flex-col items-center gap-1">
                     <div className="absolute bottom-full mb-2 hidden group-hover:flex flex-col items-center z-10">
                       <div className="rounded-lg border border-synvora-border bg-white px-3 py-2 text-xs shadow-lg whitespace-nowrap">
-                        <p className="font-semibold text-synvora-text">{fmt(m.payout)}</p>
-                        <p className="text-synvora-text-secondary">{m.orders} order{m.orders !== 1 ? "s" : ""}</p>
+                        <p className="text-synvora-text-secondary">{p.label}</p>
+                        <p className="font-semibold text-synvora-text">{fmt(p.payout)}</p>
+                        <p className="text-synvora-text-secondary">{p.orders} order{p.orders !== 1 ? "s" : ""}</p>
                       </div>
                       <div className="h-1.5 w-px bg-synvora-border" />
                     </div>
                     <div
                       className={cn(
                         "w-full rounded-t transition-all",
-                        isCurrentMonth ? "bg-synvora-primary" : "bg-synvora-primary/20 group-hover:bg-synvora-primary/40"
+                        isCurrent ? "bg-synvora-primary" : "bg-synvora-primary/20 group-hover:bg-synvora-primary/40"
                       )}
                       style={{ height: `${Math.max(heightPct, 2)}%` }}
                     />
-                    <span className={cn("text-[10px]", isCurrentMonth ? "font-semibold text-synvora-primary" : "text-synvora-text-secondary")}>
-                      {m.label}
+                    <span
+                      className={cn(
+                        "h-3 whitespace-nowrap text-[10px]",
+                        isCurrent ? "font-semibold text-synvora-primary" : "text-synvora-text-secondary"
+                      )}
+                    >
+                      {showLabel ? shortPeriodLabel(p.period, granularity) : ""}
                     </span>
                   </div>
                 );
@@ -169,7 +288,7 @@ export default function AnalyticsPage() {
         {/* Payment status breakdown */}
         <div className="rounded-2xl border border-synvora-border bg-white p-6 shadow-sm">
           <h2 className="text-sm font-semibold text-synvora-text">Payment status</h2>
-          <p className="mt-0.5 text-xs text-synvora-text-secondary">All-time breakdown</p>
+          <p className="mt-0.5 text-xs text-synvora-text-secondary">{hasRange ? "Selected range" : "All-time breakdown"}</p>
 
           {isLoading ? (
             <div className="mt-6 space-y-3">
@@ -237,10 +356,34 @@ export default function AnalyticsPage() {
         </div>
       </div>
 
+      {compare && (
+        <div>
+          <div className="mb-3 flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-synvora-text">Venue comparison</h2>
+            <p className="text-xs text-synvora-text-secondary">
+              {hasRange ? `${from} to ${to}` : "All-time totals"} · bars share one scale
+            </p>
+          </div>
+          {isLoading ? (
+            <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+              {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-56 rounded-2xl" />)}
+            </div>
+          ) : (
+            <VenueComparison venues={comparedVenues} isAdmin={isAdmin} />
+          )}
+        </div>
+      )}
+
+      <ForecastPanel venueIds={venueIds} isAdmin={isAdmin} />
+
+      {isAdmin && <IssuesPanel venueIds={venueIds} />}
+
+      <ProductPerformance isAdmin={isAdmin} />
+
       {/* All-time accordion: Month → Day → Orders panel */}
       <div>
         <div className="mb-3 flex items-center justify-between">
-          <h2 className="text-sm font-semibold text-synvora-text">All-time breakdown</h2>
+          <h2 className="text-sm font-semibold text-synvora-text">{hasRange ? "Breakdown for the range" : "All-time breakdown"}</h2>
           <p className="text-xs text-synvora-text-secondary">Click a month to expand, then a day to view orders</p>
         </div>
 
@@ -1,11 +1,249 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import useSWR from "swr";
+import { Search, Users, Merge } from "lucide-react";
+import type { CustomerDto } from "@/types/customers";
+import { CustomerDrawer } from "@/components/customers/customer-drawer";
+import { MergeCustomersDialog } from "@/components/customers/merge-customers-dialog";
+import { cn, formatCurrency, formatDate } from "@/lib/utils";
+
+type SortKey = "lastVisit" | "lifetimeUSD" | "orderCount" | "name";
+
+const SORT_OPTIONS: Array<{ value: SortKey; label: string }> = [
+  { value: "lastVisit", label: "Last visit" },
+  { value: "lifetimeUSD", label: "Lifetime spend" },
+  { value: "orderCount", label: "Orders" },
+  { value: "name", label: "Name" }
+];
+
+const fetcher = async (url: string) => {
+  const response = await fetch(url);
+  const data = await response.json();
+
+  if (!response.ok) {
+    const error: any = new Error(data.message || "Failed to fetch");
+    error.status = response.status;
+    error.info = data;
+    throw error;
+  }
+
+  return data;
+};
+
+const compareCustomers = (sortKey: SortKey) => (a: CustomerDto, b: CustomerDto) => {
+  switch (sortKey) {
+    case "name":
+      return a.name.localeCompare(b.name);
+    case "lifetimeUSD":
+      return b.lifetimeUSD - a.lifetimeUSD;
+    case "orderCount":
+      return b.orderCount - a.orderCount;
+    default:
+      return (b.lastVisit ?? "").localeCompare(a.lastVisit ?? "");
+  }
+};
+
 export default function CustomersPage() {
+  const [search, setSearch] = useState("");
+  const [sortKey, setSortKey] = useState<SortKey>("lastVisit");
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const [mergeOpen, setMergeOpen] = useState(false);
+
+  const { data, error, isLoading, mutate } = useSWR<{ customers: CustomerDto[] }>("/api/customers", fetcher);
+  const customers = useMemo(() => data?.customers ?? [], [data]);
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const filtered = term
+      ? customers.filter(
+        (customer) =>
+          customer.name.toLowerCase().includes(term) ||
+          customer.mergedNames.some((name) => name.toLowerCase().includes(term)) ||
+          customer.email?.toLowerCase().includes(term)
+      )
+      : customers;
+    return [...filtered].sort(compareCustomers(sortKey));
+  }, [customers, search, sortKey]);
+
+  const selected = useMemo(
+    () => customers.filter((customer) => selectedKeys.has(customer.key)),
+    [customers, selectedKeys]
+  );
+  const activeCustomer = customers.find((customer) => customer.key === activeKey) ?? null;
+  const repeatCustomers = customers.filter((customer) => customer.orderCount > 1).length;
+  const lifetimeTotal = customers.reduce((sum, customer) => sum + customer.lifetimeUSD, 0);
+
+  const toggleSelected = (key: string) => {
+    setSelectedKeys((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleMerged = () => {
+    setSelectedKeys(new Set());
+    mutate();
+  };
+
   return (
-    <div className="rounded-2xl border border-dashed border-slate-300 bg-white/70 p-12 text-center">
-      <h2 className="text-xl font-semibold text-slate-900">Customers</h2>
-      <p className="mt-2 text-sm text-slate-500">
-        Customer insights will live here. For now, manage customer profiles directly in Shopify or import
-        via CSV.
-      </p>
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-synvora-text">Customers</h1>
+          <p className="mt-1 text-sm text-synvora-text-secondary">
+            Profiles built from order history. Merge duplicate spellings into one customer.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setMergeOpen(true)}
+          disabled={selected.length < 2}
+          className="inline-flex items-center gap-2 rounded-lg bg-synvora-primary px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-synvora-primary/90 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-400"
+        >
+          <Merge className="h-4 w-4" />
+          Merge{selected.length > 1 ? ` ${selected.length}` : ""}
+        </button>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="rounded-xl border border-synvora-border bg-white px-5 py-4 shadow-sm">
+          <p className="text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">Customers</p>
+          <p className="mt-1 text-2xl font-semibold text-synvora-text">{customers.length}</p>
+        </div>
+        <div className="rounded-xl border border-synvora-border bg-white px-5 py-4 shadow-sm">
+          <p className="text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">Repeat customers</p>
+          <p className="mt-1 text-2xl font-semibold text-synvora-text">
+            {repeatCustomers}
+            {customers.length > 0 && (
+              <span className="ml-2 text-sm font-medium text-synvora-text-secondary">
+                {Math.round((repeatCustomers / customers.length) * 100)}%
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="rounded-xl border border-synvora-border bg-white px-5 py-4 shadow-sm">
+          <p className="text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">Lifetime revenue</p>
+          <p className="mt-1 text-2xl font-semibold text-synvora-text">{formatCurrency(lifetimeTotal)}</p>
+        </div>
+      </div>
+
+      <div className="rounded-xl border border-synvora-border bg-white shadow-sm">
+        <div className="flex flex-col gap-3 border-b border-synvora-border px-5 py-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="relative w-full sm:max-w-xs">
+            <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-synvora-text-secondary" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search customers"
+              className="w-full rounded-lg border border-synvora-border py-2 pl-9 pr-3 text-sm shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary"
+            />
+          </div>
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as SortKey)}
+            className="rounded-lg border border-synvora-border bg-white px-3 py-2 text-sm shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary"
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                Sort by {option.label.toLowerCase()}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {isLoading ? (
+          <div className="py-12 text-center text-sm text-synvora-text-secondary">Loading customers...</div>
+        ) : error ? (
+          <div className="py-12 text-center text-sm text-rose-600">
+            {(error as any)?.info?.message || "Failed to load customers"}
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 px-6 py-12 text-center">
+            <Users className="h-6 w-6 text-synvora-text-secondary" />
+            <p className="text-sm text-synvora-text-secondary">
+              {search ? "No customers match your search." : "Customers appear here once orders are imported."}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="border-b border-synvora-border bg-synvora-surface">
+                <tr className="text-left text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+                  <th className="w-10 px-5 py-3" />
+                  <th className="px-3 py-3">Customer</th>
+                  <th className="px-3 py-3 text-right">Orders</th>
+                  <th className="px-3 py-3 text-right">Lifetime (EGP)</th>
+                  <th className="px-3 py-3 text-right">Lifetime (USD)</th>
+                  <th className="px-3 py-3">First visit</th>
+                  <th className="px-3 py-3">Last visit</th>
+                  <th className="px-3 py-3">Favourite venue</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-synvora-border">
+                {visible.map((customer) => (
+                  <tr
+                    key={customer.key}
+                    onClick={() => setActiveKey(customer.key)}
+                    className={cn(
+                      "cursor-pointer transition hover:bg-synvora-surface-hover",
+                      selectedKeys.has(customer.key) && "bg-synvora-primary/5"
+                    )}
+                  >
+                    <td className="px-5 py-3" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        checked={selectedKeys.has(customer.key)}
+                        onChange={() => toggleSelected(customer.key)}
+                        className="h-4 w-4 rounded border-synvora-border text-synvora-primary focus:ring-synvora-primary"
+                      />
+                    </td>
+                    <td className="px-3 py-3">
+                      <p className="font-medium text-synvora-text">{customer.name}</p>
+                      {customer.mergedNames.length > 0 && (
+                        <p className="text-xs text-synvora-text-secondary">
+                          also {customer.mergedNames.join(", ")}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-3 py-3 text-right text-synvora-text">{customer.orderCount}</td>
+                    <td className="px-3 py-3 text-right text-synvora-text">
+                      {customer.lifetimeEGP.toLocaleString("en-US", { maximumFractionDigits: 0 })}
+                    </td>
+                    <td className="px-3 py-3 text-right font-semibold text-synvora-text">
+                      {formatCurrency(customer.lifetimeUSD)}
+                    </td>
+                    <td className="px-3 py-3 text-synvora-text-secondary">{formatDate(customer.firstVisit)}</td>
+                    <td className="px-3 py-3 text-synvora-text-secondary">{formatDate(customer.lastVisit)}</td>
+                    <td className="px-3 py-3 text-synvora-text-secondary">{customer.favouriteVenue?.name ?? "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <CustomerDrawer
+        open={activeCustomer !== null}
+        customer={activeCustomer}
+        onClose={() => setActiveKey(null)}
+        onChanged={() => mutate()}
+      />
+
+      <MergeCustomersDialog
+        open={mergeOpen}
+        customers={selected}
+        onClose={() => setMergeOpen(false)}
+        onMerged={handleMerged}
+      />
     </div>
   );
 }
@@ -0,0 +1,275 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { ChevronLeft, ChevronRight, CalendarDays, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { RerateDayDialog } from "@/components/daily-rates/rerate-day-dialog";
+
+type VenuesResponse = {
+  venues: Array<{ id: number; name: string; slug: string }>;
+};
+
+type DailyRateDto = {
+  id: number;
+  venueId: number;
+  date: string;
+  aedEgpRate: number;
+  updatedAt: string;
+};
+
+type RatesResponse = {
+  rates: DailyRateDto[];
+};
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const fetcher = (url: string) =>
+  fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error("Request failed");
+    }
+    return response.json();
+  });
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const toKey = (year: number, monthIndex: number, day: number) =>
+  `${year}-${pad(monthIndex + 1)}-${pad(day)}`;
+
+export default function DailyRatesPage() {
+  const today = new Date();
+  const todayKey = toKey(today.getFullYear(), today.getMonth(), today.getDate());
+  const [cursor, setCursor] = useState({ year: today.getFullYear(), monthIndex: today.getMonth() });
+  const [selectedVenueId, setSelectedVenueId] = useState<number | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [rerateKey, setRerateKey] = useState<string | null>(null);
+
+  const { data: venuesData } = useSWR<VenuesResponse>("/api/venues", fetcher);
+  const venues = venuesData?.venues ?? [];
+  const venueId = selectedVenueId ?? venues[0]?.id ?? null;
+  const venue = venues.find((item) => item.id === venueId) ?? null;
+
+  const daysInMonth = new Date(cursor.year, cursor.monthIndex + 1, 0).getDate();
+  const from = toKey(cursor.year, cursor.monthIndex, 1);
+  const to = toKey(cursor.year, cursor.monthIndex, daysInMonth);
+
+  const { data, isLoading, mutate } = useSWR<RatesResponse>(
+    venueId ? `/api/daily-rates?venueId=${venueId}&from=${from}&to=${to}` : null,
+    fetcher
+  );
+
+  const ratesByDate = new Map((data?.rates ?? []).map((rate) => [rate.date, rate]));
+  const recordedValues = (data?.rates ?? []).map((rate) => rate.aedEgpRate);
+  const averageRate = recordedValues.length
+    ? recordedValues.reduce((sum, value) => sum + value, 0) / recordedValues.length
+    : null;
+
+  // Monday-first calendar: blank cells before the 1st
+  const leadingBlanks = (new Date(cursor.year, cursor.monthIndex, 1).getDay() + 6) % 7;
+  const monthLabel = new Date(cursor.year, cursor.monthIndex, 1).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric"
+  });
+
+  const shiftMonth = (delta: number) => {
+    setDrafts({});
+    setCursor((current) => {
+      const next = new Date(current.year, current.monthIndex + delta, 1);
+      return { year: next.getFullYear(), monthIndex: next.getMonth() };
+    });
+  };
+
+  const clearDraft = (dateKey: string) => {
+    setDrafts((current) => {
+      const next = { ...current };
+      delete next[dateKey];
+      return next;
+    });
+  };
+
+  const saveRate = async (dateKey: string) => {
+    if (!venueId || drafts[dateKey] === undefined) {
+      return;
+    }
+
+    const raw = drafts[dateKey].trim();
+    const existing = ratesByDate.get(dateKey);
+
+    if (!raw && !existing) {
+      clearDraft(dateKey);
+      return;
+    }
+
+    const value = Number(raw);
+    if (raw && (Number.isNaN(value) || value <= 0)) {
+      toast.error("Enter a valid AED/EGP rate.");
+      return;
+    }
+
+    if (existing && raw && value === existing.aedEgpRate) {
+      clearDraft(dateKey);
+      return;
+    }
+
+    setSavingKey(dateKey);
+    const response = await fetch("/api/daily-rates", {
+      method: raw ? "POST" : "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(raw ? { venueId, date: dateKey, aedEgpRate: value } : { venueId, date: dateKey })
+    });
+    setSavingKey(null);
+
+    if (!response.ok) {
+      toast.error("Failed to save daily rate.");
+      return;
+    }
+
+    await mutate();
+    clearDraft(dateKey);
+    toast.success(raw ? "Daily rate saved." : "Daily rate removed.");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-synvora-text">Daily Rates</h1>
+          <p className="mt-1 text-sm text-synvora-text-secondary">
+            One AED/EGP rate per venue per business day. Imports pre-fill rates from this ledger; re-rate a day to correct its orders.
+          </p>
+        </div>
+        {venues.length > 1 && (
+          <select
+            value={venueId ?? ""}
+            onChange={(e) => {
+              setDrafts({});
+              setSelectedVenueId(Number(e.target.value));
+            }}
+            className="rounded-lg border border-synvora-border bg-white px-3 py-2 text-sm shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary"
+          >
+            {venues.map((venue) => (
+              <option key={venue.id} value={venue.id}>
+                {venue.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="rounded-xl border border-synvora-border bg-white shadow-sm">
+        <div className="flex items-center justify-between border-b border-synvora-border px-5 py-4">
+          <button
+            type="button"
+            onClick={() => shiftMonth(-1)}
+            className="inline-flex items-center gap-1 rounded-lg border border-synvora-border px-3 py-1.5 text-xs font-medium text-synvora-text-secondary transition hover:bg-synvora-surface-hover"
+          >
+            <ChevronLeft className="h-3.5 w-3.5" />
+            Prev
+          </button>
+          <div className="text-center">
+            <p className="text-sm font-semibold text-synvora-text">{monthLabel}</p>
+            <p className="text-xs text-synvora-text-secondary">
+              {recordedValues.length} of {daysInMonth} days recorded
+              {averageRate !== null ? ` · avg ${averageRate.toFixed(2)} EGP/AED` : ""}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => shiftMonth(1)}
+            className="inline-flex items-center gap-1 rounded-lg border border-synvora-border px-3 py-1.5 text-xs font-medium text-synvora-text-secondary transition hover:bg-synvora-surface-hover"
+          >
+            Next
+            <ChevronRight className="h-3.5 w-3.5" />
+          </button>
+        </div>
+
+        {!venueId ? (
+          <div className="flex flex-col items-center gap-3 px-6 py-12 text-center">
+            <CalendarDays className="h-6 w-6 text-synvora-text-secondary" />
+            <p className="text-sm text-synvora-text-secondary">Create a venue to start recording daily rates.</p>
+          </div>
+        ) : (
+          <div className="p-4">
+            <div className="grid grid-cols-7 gap-2 text-center text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+              {WEEKDAYS.map((weekday) => (
+                <div key={weekday} className="py-1">
+                  {weekday}
+                </div>
+              ))}
+            </div>
+            <div className="mt-2 grid grid-cols-7 gap-2">
+              {Array.from({ length: leadingBlanks }).map((_, i) => (
+                <div key={`blank-${i}`} />
+              ))}
+              {Array.from({ length: daysInMonth }).map((_, i) => {
+                const day = i + 1;
+                const dateKey = toKey(cursor.year, cursor.monthIndex, day);
+                const recorded = ratesByDate.get(dateKey);
+                const draft = drafts[dateKey];
+                const value = draft ?? (recorded ? String(recorded.aedEgpRate) : "");
+
+                return (
+                  <div
+                    key={dateKey}
+                    className={cn(
+                      "flex flex-col gap-1.5 rounded-lg border p-2",
+                      recorded ? "border-synvora-primary/40 bg-synvora-primary/5" : "border-synvora-border bg-white",
+                      dateKey === todayKey && "ring-1 ring-synvora-primary"
+                    )}
+                  >
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="font-semibold text-synvora-text">{day}</span>
+                      {savingKey === dateKey ? (
+                        <Loader2 className="h-3 w-3 animate-spin text-synvora-primary" />
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => setRerateKey(dateKey)}
+                          title="Re-rate this day's orders"
+                          className="text-synvora-text-secondary transition hover:text-synvora-primary"
+                        >
+                          <RefreshCw className="h-3 w-3" />
+                        </button>
+                      )}
+                    </div>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={value}
+                      disabled={isLoading || savingKey === dateKey}
+                      onChange={(e) => setDrafts((current) => ({ ...current, [dateKey]: e.target.value }))}
+                      onBlur={() => saveRate(dateKey)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                          e.currentTarget.blur();
+                        }
+                      }}
+                      placeholder="—"
+                      className="w-full rounded border border-synvora-border/60 bg-white px-1.5 py-1 text-right text-xs font-semibold text-synvora-text focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <RerateDayDialog
+        open={rerateKey !== null}
+        venue={venue}
+        date={rerateKey}
+        currentRate={rerateKey ? ratesByDate.get(rerateKey)?.aedEgpRate ?? null : null}
+        onClose={() => setRerateKey(null)}
+        onApplied={() => {
+          if (rerateKey) clearDraft(rerateKey);
+          mutate();
+        }}
+      />
+    </div>
+  );
+}
@@ -2,10 +2,10 @@
 
 import { useEffect, useState } from "react";
 import useSWR from "swr";
-import { formatCurrency, formatDate } from "@/lib/utils";
+import { cn, formatCurrency, formatDate } from "@/lib/utils";
 import { useSession } from "next-auth/react";
-import { Plus, CloudDownload, TrendingDown, TrendingUp, Wallet, Settings2, Receipt, CreditCard, ChevronLeft, ChevronRight } from "lucide-react";
-import type { PayoutDto, VenueBalance } from "@/types/payouts";
+import { Plus, CloudDownload, TrendingDown, TrendingUp, Wallet, Settings2, Receipt, CreditCard, ChevronLeft, ChevronRight, FileText, Download, RefreshCw, BookOpen } from "lucide-react";
+import type { LedgerEntryDto, PayoutDto, VenueBalance } from "@/types/payouts";
 import { SyncMercuryDialog } from "@/components/mercury/sync-mercury-dialog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
@@ -30,9 +30,24 @@ type BalanceResponse = {
   venues: VenueBalance[];
 };
 
+type LedgerResponse = {
+  venue: { id: number; name: string; balance: number };
+  entries: LedgerEntryDto[];
+  pagination: PayoutsResponse["pagination"];
+};
+
 const fmt = (n: number) =>
   new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 2 }).format(n);
 
+// Business months are calendar months of business days, so this month's statement is the one in progress
+const currentBusinessMonth = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+};
+
+const statementUrl = (venueId: number, month: string, format: "html" | "pdf") =>
+  `/api/venues/${venueId}/statement?month=${month}&format=${format}`;
+
 export default function PayoutsPage() {
   const { data: session } = useSession();
   const isAdmin = session?.user.role === "ADMIN";
@@ -54,6 +69,8 @@ export default function PayoutsPage() {
   const [isAdjustOpen, setAdjustOpen] = useState(false);
   const [adjustVenue, setAdjustVenue] = useState<VenueBalance | null>(null);
   const [deleteConfirmId, setDeleteConfirmId] = useState<number | null>(null);
+  const [statementMonth, setStatementMonth] = useState(currentBusinessMonth);
+  const [tab, setTab] = useState<"history" | "ledger">("history");
 
   const openCreate = () => {
     setEditingPayout(null);
@@ -187,7 +204,9 @@ export default function PayoutsPage() {
                   <p className="mt-1 text-lg font-semibold text-synvora-text">
                     {fmt(venue.totalPaidOut)}
                   </p>
-                  <p className="text-xs text-synvora-text-secondary">Payouts sent</p>
+                  <p className="text-xs text-synvora-text-secondary">
+                    Payouts sent{venue.totalDeductions > 0 ? ` · ${fmt(venue.totalDeductions)} deducted` : ""}
+                  </p>
                 </div>
                 {isAdmin ? (
                   <div className="pt-4 sm:pt-0 sm:pl-4">
@@ -213,16 +232,62 @@ export default function PayoutsPage() {
                   </div>
                 )}
               </div>
+
+              <div className="mt-5 flex flex-wrap items-center gap-2 border-t border-synvora-border pt-4">
+                <span className="mr-auto text-xs font-medium text-synvora-text-secondary">Monthly statement</span>
+                <input
+                  type="month"
+                  value={statementMonth}
+                  onChange={(event) => setStatementMonth(event.target.value || currentBusinessMonth())}
+                  className="rounded-lg border border-synvora-border px-2 py-1 text-xs text-synvora-text focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary"
+                />
+                <a
+                  href={statementUrl(venue.id, statementMonth, "html")}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1.5 rounded-lg border border-synvora-border px-3 py-1.5 text-xs font-medium text-synvora-text-secondary transition hover:border-synvora-primary hover:text-synvora-primary"
+                >
+                  <FileText className="h-3.5 w-3.5" />
+                  View Statement
+                </a>
+                <a
+                  href={statementUrl(venue.id, statementMonth, "pdf")}
+                  className="inline-flex items-center gap-1.5 rounded-lg border border-synvora-border px-3 py-1.5 text-xs font-medium text-synvora-text-secondary transition hover:border-synvora-primary hover:text-synvora-primary"
+                >
+                  <Download className="h-3.5 w-3.5" />
+                  Download PDF
+                </a>
+              </div>
             </div>
           ))}
         </div>
       )}
 
+      <div className="flex items-center gap-1 border-b border-synvora-border">
+        {([
+          ["history", "Payout History"],
+          ["ledger", "Ledger"]
+        ] as const).map(([key, label]) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => setTab(key)}
+            className={cn(
+              "-mb-px border-b-2 px-3 py-2 text-sm font-medium transition",
+              tab === key
+                ? "border-synvora-primary text-synvora-primary"
+                : "border-transparent text-synvora-text-secondary hover:text-synvora-text"
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tab === "ledger" && <LedgerPanel venues={balances} isAdmin={isAdmin} onReconciled={mutateBalance} />}
+
       {/* Payout history */}
-      <div>
-        <h2 className="mb-3 text-sm font-semibold uppercase tracking-wide text-synvora-text-secondary">
-          Payout History
-        </h2>
+      <div className={cn(tab !== "history" && "hidden")}>
         {error ? (
           <div className="rounded-xl border border-rose-100 bg-rose-50 px-6 py-8 text-center text-sm text-rose-600">
             Could not load payouts. Try again later.
@@ -338,7 +403,7 @@ export default function PayoutsPage() {
         )}
       </div>
 
-      {data && data.pagination.totalCount > data.pagination.pageSize && (
+      {tab === "history" && data && data.pagination.totalCount > data.pagination.pageSize && (
         <PaginationControls
           pagination={data.pagination}
           onPageChange={setCurrentPage}
@@ -372,6 +437,164 @@ export default function PayoutsPage() {
   );
 }
 
+// ── Ledger ────────────────────────────────────────────────────────────────────
+
+const LEDGER_TYPE_LABELS: Record<LedgerEntryDto["type"], string> = {
+  ORDER: "Order",
+  PAYOUT: "Payout",
+  DEDUCTION: "Deduction",
+  ADJUSTMENT: "Adjustment"
+};
+
+function LedgerPanel({
+  venues,
+  isAdmin,
+  onReconciled
+}: {
+  venues: VenueBalance[];
+  isAdmin: boolean;
+  onReconciled: () => void;
+}) {
+  const [venueId, setVenueId] = useState<number | null>(null);
+  const [page, setPage] = useState(1);
+  const [reconciling, setReconciling] = useState(false);
+  const activeVenueId = venueId ?? venues[0]?.id ?? null;
+
+  const { data, error, isLoading, mutate } = useSWR<LedgerResponse>(
+    activeVenueId ? `/api/venues/${activeVenueId}/ledger?page=${page}` : null,
+    fetcher
+  );
+
+  const reconcile = async () => {
+    if (!activeVenueId) return;
+    setReconciling(true);
+    const res = await fetch(`/api/venues/${activeVenueId}/ledger`, { method: "POST" });
+    setReconciling(false);
+    const payload = await res.json().catch(() => null);
+    if (!res.ok) {
+      toast.error(payload?.message ?? "Failed to reconcile ledger.");
+      return;
+    }
+    toast.success(payload?.message ?? "Ledger reconciled.");
+    mutate();
+    onReconciled();
+  };
+
+  if (!venues.length) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        {venues.length > 1 && (
+          <select
+            value={activeVenueId ?? ""}
+            onChange={(event) => {
+              setVenueId(Number(event.target.value));
+              setPage(1);
+            }}
+            className="rounded-lg border border-synvora-border px-3 py-2 text-sm text-synvora-text focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary"
+          >
+            {venues.map((venue) => (
+              <option key={venue.id} value={venue.id}>
+                {venue.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {data && (
+          <span className="text-sm text-synvora-text-secondary">
+            Balance <span className="font-semibold text-synvora-text">{fmt(data.venue.balance)}</span>
+          </span>
+        )}
+        {isAdmin && (
+          <button
+            type="button"
+            onClick={reconcile}
+            disabled={reconciling}
+            className="ml-auto inline-flex items-center gap-1.5 rounded-lg border border-synvora-border px-3 py-1.5 text-xs font-medium text-synvora-text-secondary transition hover:border-synvora-primary hover:text-synvora-primary disabled:opacity-50"
+          >
+            <RefreshCw className={cn("h-3.5 w-3.5", reconciling && "animate-spin")} />
+            Reconcile
+          </button>
+        )}
+      </div>
+
+      {error ? (
+        <div className="rounded-xl border border-rose-100 bg-rose-50 px-6 py-8 text-center text-sm text-rose-600">
+          Could not load the ledger. Try again later.
+        </div>
+      ) : (
+        <div className="overflow-hidden rounded-xl border border-synvora-border bg-white shadow-sm">
+          <table className="min-w-full divide-y divide-synvora-border text-sm">
+            <thead className="bg-synvora-surface text-left text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+              <tr>
+                <th className="px-5 py-3">Date</th>
+                <th className="px-5 py-3">Type</th>
+                <th className="px-5 py-3">Description</th>
+                <th className="px-5 py-3 text-right">Amount</th>
+                <th className="px-5 py-3 text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-synvora-border/60">
+              {isLoading || !data ? (
+                Array.from({ length: 4 }).map((_, i) => (
+                  <tr key={i}>
+                    <td className="px-5 py-3.5"><Skeleton className="h-4 w-24" /></td>
+                    <td className="px-5 py-3.5"><Skeleton className="h-4 w-16" /></td>
+                    <td className="px-5 py-3.5"><Skeleton className="h-4 w-40" /></td>
+                    <td className="px-5 py-3.5 text-right"><Skeleton className="ml-auto h-4 w-16" /></td>
+                    <td className="px-5 py-3.5 text-right"><Skeleton className="ml-auto h-4 w-16" /></td>
+                  </tr>
+                ))
+              ) : data.entries.length ? (
+                data.entries.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-synvora-surface-active/40">
+                    <td className="px-5 py-3.5 text-synvora-text">
+                      <p>{formatDate(entry.occurredAt)}</p>
+                      {entry.occurredAt.slice(0, 10) !== entry.createdAt.slice(0, 10) && (
+                        <p className="text-xs text-synvora-text-secondary">posted {formatDate(entry.createdAt)}</p>
+                      )}
+                    </td>
+                    <td className="px-5 py-3.5 text-synvora-text-secondary">{LEDGER_TYPE_LABELS[entry.type]}</td>
+                    <td className="px-5 py-3.5 text-synvora-text">{entry.description}</td>
+                    <td
+                      className={cn(
+                        "px-5 py-3.5 text-right font-semibold",
+                        entry.amount >= 0 ? "text-emerald-600" : "text-rose-600"
+                      )}
+                    >
+                      {entry.amount >= 0 ? "+" : ""}
+                      {fmt(entry.amount)}
+                    </td>
+                    <td className="px-5 py-3.5 text-right text-synvora-text">{fmt(entry.balanceAfter)}</td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={5}>
+                    <div className="flex flex-col items-center gap-3 px-6 py-12 text-center">
+                      <div className="flex h-12 w-12 items-center justify-center rounded-full bg-synvora-surface-active">
+                        <BookOpen className="h-6 w-6 text-synvora-text-secondary" />
+                      </div>
+                      <p className="text-sm font-medium text-synvora-text">No ledger entries yet</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {data && data.pagination.totalCount > data.pagination.pageSize && (
+        <PaginationControls pagination={data.pagination} onPageChange={setPage} />
+      )}
+    </div>
+  );
+}
+
 // ── Payout Dialog ─────────────────────────────────────────────────────────────
 
 type PayoutDialogProps = {
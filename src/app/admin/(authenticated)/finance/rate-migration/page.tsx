@@ -0,0 +1,317 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import useSWR from "swr";
+import { CheckCircle2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn, formatCurrency } from "@/lib/utils";
+import { calculatePayoutFromOrder } from "@/lib/order-rates";
+import type { FeeTerms } from "@/lib/fee-terms";
+
+type RateType = "AED_EGP" | "USD_EGP";
+
+type RateProposal = {
+  id: number;
+  orderNumber: string;
+  venueId: number;
+  venueName: string;
+  date: string;
+  originalAmount: number | null;
+  current: { aedEgpRate: number | null; exchangeRate: number };
+  dailyRate: number | null;
+  proposed: { rateType: RateType; aedEgpRate: number | null; exchangeRate: number; needsReview: boolean; reason: string };
+  feeTerms: FeeTerms;
+  payoutBefore: number;
+  payoutAfter: number;
+};
+
+type PlanResponse = {
+  proposals: RateProposal[];
+  totals: { orders: number; review: number; payoutBefore: number; payoutAfter: number };
+};
+
+type Decision = { approved: boolean; rateType: RateType; rate: string };
+
+const RATE_TYPE_LABELS: Record<RateType, string> = {
+  AED_EGP: "AED/EGP",
+  USD_EGP: "USD/EGP"
+};
+
+const fetcher = (url: string) =>
+  fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error("Request failed");
+    }
+    return response.json();
+  });
+
+const proposedRate = (proposal: RateProposal) =>
+  proposal.proposed.rateType === "AED_EGP" ? proposal.proposed.aedEgpRate : proposal.proposed.exchangeRate;
+
+// Payout with the admin's rate in place of the proposed one
+const decidedPayout = (proposal: RateProposal, decision: Decision) => {
+  const rate = Number(decision.rate);
+  if (!(rate > 0)) {
+    return null;
+  }
+  return calculatePayoutFromOrder({
+    originalAmount: proposal.originalAmount,
+    rateType: decision.rateType,
+    aedEgpRate: decision.rateType === "AED_EGP" ? rate : proposal.current.aedEgpRate,
+    exchangeRate: decision.rateType === "USD_EGP" ? rate : proposal.proposed.exchangeRate
+  }, proposal.feeTerms);
+};
+
+const formatEgp = (value: number | null) =>
+  value === null ? "—" : new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(value);
+
+export default function RateMigrationPage() {
+  const [decisions, setDecisions] = useState<Record<number, Decision>>({});
+  const [applying, setApplying] = useState<"automatic" | "reviewed" | null>(null);
+
+  const { data, isLoading, error, mutate } = useSWR<PlanResponse>("/api/orders/rate-migration", fetcher);
+
+  const proposals = useMemo(() => data?.proposals ?? [], [data]);
+  const review = proposals.filter((proposal) => proposal.proposed.needsReview);
+  const automatic = proposals.filter((proposal) => !proposal.proposed.needsReview);
+
+  const automaticReasons = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const proposal of proposals) {
+      if (!proposal.proposed.needsReview) {
+        counts.set(proposal.proposed.reason, (counts.get(proposal.proposed.reason) ?? 0) + 1);
+      }
+    }
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [proposals]);
+
+  const decisionFor = (proposal: RateProposal): Decision =>
+    decisions[proposal.id] ?? {
+      approved: false,
+      rateType: proposal.proposed.rateType,
+      rate: String(proposedRate(proposal) ?? "")
+    };
+
+  const updateDecision = (proposal: RateProposal, patch: Partial<Decision>) =>
+    setDecisions((current) => ({ ...current, [proposal.id]: { ...decisionFor(proposal), ...patch } }));
+
+  const approved = review.filter((proposal) => decisionFor(proposal).approved);
+  const invalid = approved.filter((proposal) => !(Number(decisionFor(proposal).rate) > 0));
+
+  const apply = async (kind: "automatic" | "reviewed") => {
+    setApplying(kind);
+    const response = await fetch("/api/orders/rate-migration", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        includeAutomatic: kind === "automatic",
+        decisions:
+          kind === "reviewed"
+            ? approved.map((proposal) => {
+                const decision = decisionFor(proposal);
+                return { orderId: proposal.id, rateType: decision.rateType, rate: Number(decision.rate) };
+              })
+            : []
+      })
+    });
+    setApplying(null);
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      toast.error(body?.message ?? "Failed to apply the migration.");
+      return;
+    }
+
+    setDecisions({});
+    await mutate();
+    toast.success(body?.message ?? "Orders classified.");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-synvora-text">Rate Migration</h1>
+        <p className="mt-1 text-sm text-synvora-text-secondary">
+          Older orders keep an AED/EGP rate in the exchange rate field, or only a USD/EGP rate. Classify them so every
+          payout uses one explicit rate. Until then they pay out only at a recorded AED/EGP rate.
+        </p>
+      </div>
+
+      {error ? (
+        <div className="rounded-xl border border-synvora-border bg-white p-10 text-center text-sm text-rose-600">
+          Failed to load the migration plan
+        </div>
+      ) : isLoading || !data ? (
+        <div className="flex items-center justify-center rounded-xl border border-synvora-border bg-white p-10">
+          <Loader2 className="h-5 w-5 animate-spin text-synvora-text-secondary" />
+        </div>
+      ) : data.totals.orders === 0 ? (
+        <div className="flex flex-col items-center gap-3 rounded-xl border border-synvora-border bg-white px-6 py-12 text-center">
+          <CheckCircle2 className="h-6 w-6 text-emerald-500" />
+          <p className="text-sm text-synvora-text-secondary">Every order has an explicit rate type.</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="rounded-xl border border-synvora-border bg-white p-5 shadow-sm">
+              <p className="text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">Orders to classify</p>
+              <p className="mt-1 text-2xl font-semibold text-synvora-text">{data.totals.orders}</p>
+              <p className="text-xs text-synvora-text-secondary">{data.totals.review} need review</p>
+            </div>
+            <div className="rounded-xl border border-synvora-border bg-white p-5 shadow-sm">
+              <p className="text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">Payout today</p>
+              <p className="mt-1 text-2xl font-semibold text-synvora-text">{formatCurrency(data.totals.payoutBefore, "USD")}</p>
+            </div>
+            <div className="rounded-xl border border-synvora-border bg-white p-5 shadow-sm">
+              <p className="text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">Payout as proposed</p>
+              <p className="mt-1 text-2xl font-semibold text-synvora-text">{formatCurrency(data.totals.payoutAfter, "USD")}</p>
+            </div>
+          </div>
+
+          {/* Orders the classifier is sure about */}
+          <div className="rounded-xl border border-synvora-border bg-white shadow-sm">
+            <div className="flex flex-wrap items-center justify-between gap-3 border-b border-synvora-border px-5 py-4">
+              <div>
+                <h2 className="text-sm font-semibold text-synvora-text">Automatic</h2>
+                <p className="text-xs text-synvora-text-secondary">{automatic.length} orders with a clear rate</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => apply("automatic")}
+                disabled={!automatic.length || applying !== null}
+                className="inline-flex items-center gap-2 rounded-lg bg-synvora-primary px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-synvora-primary/90 disabled:opacity-50"
+              >
+                {applying === "automatic" && <Loader2 className="h-4 w-4 animate-spin" />}
+                Apply {automatic.length} automatic
+              </button>
+            </div>
+            <ul className="divide-y divide-synvora-border text-sm">
+              {automaticReasons.map(([reason, count]) => (
+                <li key={reason} className="flex justify-between gap-3 px-5 py-2.5">
+                  <span className="text-synvora-text">{reason}</span>
+                  <span className="tabular-nums text-synvora-text-secondary">{count}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Orders an admin has to decide */}
+          <div className="rounded-xl border border-synvora-border bg-white shadow-sm">
+            <div className="flex flex-wrap items-center justify-between gap-3 border-b border-synvora-border px-5 py-4">
+              <div>
+                <h2 className="text-sm font-semibold text-synvora-text">Needs review</h2>
+                <p className="text-xs text-synvora-text-secondary">
+                  Check the rate, change it if needed, and tick the orders to apply
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => apply("reviewed")}
+                disabled={!approved.length || invalid.length > 0 || applying !== null}
+                className="inline-flex items-center gap-2 rounded-lg bg-synvora-primary px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-synvora-primary/90 disabled:opacity-50"
+              >
+                {applying === "reviewed" && <Loader2 className="h-4 w-4 animate-spin" />}
+                Apply {approved.length} reviewed
+              </button>
+            </div>
+
+            {review.length === 0 ? (
+              <p className="px-5 py-8 text-center text-sm text-synvora-text-secondary">Nothing to review.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-synvora-surface text-left text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+                    <tr>
+                      <th className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={approved.length === review.length}
+                          onChange={(e) =>
+                            setDecisions(
+                              Object.fromEntries(
+                                review.map((proposal) => [proposal.id, { ...decisionFor(proposal), approved: e.target.checked }])
+                              )
+                            )
+                          }
+                        />
+                      </th>
+                      <th className="px-4 py-3">Order</th>
+                      <th className="px-4 py-3 text-right">EGP</th>
+                      <th className="px-4 py-3">Stored rates</th>
+                      <th className="px-4 py-3">Why</th>
+                      <th className="px-4 py-3">Rate type</th>
+                      <th className="px-4 py-3">Rate</th>
+                      <th className="px-4 py-3 text-right">Payout</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-synvora-border">
+                    {review.map((proposal) => {
+                      const decision = decisionFor(proposal);
+                      const payoutAfter = decidedPayout(proposal, decision);
+                      return (
+                        <tr key={proposal.id} className={cn(decision.approved && "bg-synvora-primary/5")}>
+                          <td className="px-4 py-3">
+                            <input
+                              type="checkbox"
+                              checked={decision.approved}
+                              onChange={(e) => updateDecision(proposal, { approved: e.target.checked })}
+                            />
+                          </td>
+                          <td className="whitespace-nowrap px-4 py-3">
+                            <p className="font-medium text-synvora-text">{proposal.orderNumber}</p>
+                            <p className="text-xs text-synvora-text-secondary">
+                              {proposal.venueName} · {proposal.date}
+                            </p>
+                          </td>
+                          <td className="px-4 py-3 text-right tabular-nums">{formatEgp(proposal.originalAmount)}</td>
+                          <td className="whitespace-nowrap px-4 py-3 text-xs text-synvora-text-secondary">
+                            <p>AED/EGP {proposal.current.aedEgpRate ?? "—"}</p>
+                            <p>Exchange {proposal.current.exchangeRate}</p>
+                            <p>Daily {proposal.dailyRate ?? "—"}</p>
+                          </td>
+                          <td className="max-w-xs px-4 py-3 text-xs text-synvora-text">{proposal.proposed.reason}</td>
+                          <td className="px-4 py-3">
+                            <select
+                              value={decision.rateType}
+                              onChange={(e) => updateDecision(proposal, { rateType: e.target.value as RateType })}
+                              className="rounded-lg border border-synvora-border bg-white px-2 py-1 text-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary"
+                            >
+                              {(Object.keys(RATE_TYPE_LABELS) as RateType[]).map((value) => (
+                                <option key={value} value={value}>
+                                  {RATE_TYPE_LABELS[value]}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-4 py-3">
+                            <input
+                              type="number"
+                              step="0.0001"
+                              min="0"
+                              value={decision.rate}
+                              onChange={(e) => updateDecision(proposal, { rate: e.target.value })}
+                              className={cn(
+                                "w-24 rounded-lg border bg-white px-2 py-1 text-sm focus:outline-none focus:ring-1",
+                                decision.approved && !(Number(decision.rate) > 0)
+                                  ? "border-rose-400 focus:ring-rose-400"
+                                  : "border-synvora-border focus:border-synvora-primary focus:ring-synvora-primary"
+                              )}
+                            />
+                          </td>
+                          <td className="whitespace-nowrap px-4 py-3 text-right text-xs tabular-nums">
+                            <p className="text-synvora-text-secondary">{formatCurrency(proposal.payoutBefore, "USD")}</p>
+                            <p className="font-medium text-synvora-text">→ {payoutAfter !== null ? formatCurrency(payoutAfter, "USD") : "—"}</p>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
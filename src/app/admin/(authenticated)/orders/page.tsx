@@ -99,7 +99,6 @@ const toDateInputValue = (value: string) => {
 export default function OrdersPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const tzOffset = new Date().getTimezoneOffset();
   const monthFilter = searchParams.get("month") ?? "all";
   const startDateFilter = searchParams.get("startDate") ?? "";
   const endDateFilter = searchParams.get("endDate") ?? "";
@@ -107,9 +106,7 @@ export default function OrdersPage() {
   // Memoize date input values to prevent unnecessary re-renders and flickering
   const startDateInputValue = useMemo(() => toDateInputValue(startDateFilter), [startDateFilter]);
   const endDateInputValue = useMemo(() => toDateInputValue(endDateFilter), [endDateFilter]);
-  const paramsWithTz = new URLSearchParams(searchParams.toString());
-  paramsWithTz.set("tzOffset", String(tzOffset));
-  const queryString = paramsWithTz.toString();
+  const queryString = searchParams.toString();
   const { data, error, mutate, isLoading } = useSWR<OrdersResponse>(`/api/orders${queryString ? `?${queryString}` : ""}`, fetcher);
   const { data: session } = useSession();
   const isAdmin = session?.user.role === "ADMIN";
@@ -148,7 +145,6 @@ export default function OrdersPage() {
       params.delete("search");
       params.delete("page");
     }
-    params.set("tzOffset", String(tzOffset));
     const qs = params.toString();
     router.replace((qs ? `/admin/orders?${qs}` : "/admin/orders") as Route);
   };
@@ -163,18 +159,6 @@ export default function OrdersPage() {
   const [selectedOrders, setSelectedOrders] = useState<Set<number>>(new Set());
   const [lastSelectedIndex, setLastSelectedIndex] = useState<number | null>(null);
 
-  // Update timezone offset in URL if it changed, but avoid infinite loops
-  useEffect(() => {
-    const currentTzOffset = searchParams.get("tzOffset");
-    if (currentTzOffset !== String(tzOffset)) {
-      const params = new URLSearchParams(searchParams.toString());
-      params.set("tzOffset", String(tzOffset));
-      const qs = params.toString();
-      router.replace(qs ? (`/admin/orders?${qs}` as Route) : ("/admin/orders" as Route));
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [tzOffset]); // Only depend on tzOffset to avoid re-triggering on every searchParams change
-
   // Default to current month when no filter is active
   useEffect(() => {
     if (!session) return;
@@ -184,7 +168,6 @@ export default function OrdersPage() {
     const currentMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
     const params = new URLSearchParams(searchParams.toString());
     params.set("month", currentMonth);
-    params.set("tzOffset", String(tzOffset));
     router.replace(`/admin/orders?${params.toString()}` as Route);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [session]);
@@ -238,7 +221,6 @@ export default function OrdersPage() {
       params.delete("startDate");
       params.delete("endDate");
     }
-    params.set("tzOffset", String(tzOffset));
     params.delete("page");
 
     const qs = params.toString();
@@ -259,7 +241,6 @@ export default function OrdersPage() {
     }
 
     params.delete("month");
-    params.set("tzOffset", String(tzOffset));
     params.delete("page");
 
     const qs = params.toString();
@@ -270,7 +251,6 @@ export default function OrdersPage() {
     const params = new URLSearchParams(searchParams.toString());
     params.delete("startDate");
     params.delete("endDate");
-    params.set("tzOffset", String(tzOffset));
     params.delete("page");
     const qs = params.toString();
     router.replace((qs ? `/admin/orders?${qs}` : "/admin/orders") as Route);
@@ -295,7 +275,6 @@ export default function OrdersPage() {
     try {
       setIsPrinting(true);
       const params = new URLSearchParams(searchParams.toString());
-      params.set("tzOffset", String(tzOffset));
       params.set("page", "all");
       const query = params.toString();
       const response = await fetch(`/api/orders${query ? `?${query}` : ""}`);
@@ -355,7 +334,6 @@ export default function OrdersPage() {
     }
 
     const params = new URLSearchParams(searchParams.toString());
-    params.set("tzOffset", String(tzOffset));
 
     if (nextPage === 1) {
       params.delete("page");
@@ -468,7 +446,7 @@ export default function OrdersPage() {
       }
 
       await response.json();
-      toast.success(`Successfully deleted ${selectedOrders.size} order(s)`);
+      toast.success(`Moved ${selectedOrders.size} order(s) to trash`);
       setSelectedOrders(new Set());
       setLastSelectedIndex(null);
       setEditMode(false);
@@ -498,8 +476,6 @@ export default function OrdersPage() {
   const handleExportCSV = async () => {
     try {
       const params = new URLSearchParams(searchParams.toString());
-      params.set("tzOffset", String(tzOffset));
-
       const response = await fetch(`/api/orders/export?${params.toString()}`);
 
       if (!response.ok) {
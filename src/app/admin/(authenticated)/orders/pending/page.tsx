@@ -1,9 +1,10 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import useSWR from "swr";
-import { formatCurrency, formatDateTime } from "@/lib/utils";
-import { Loader2, CheckCircle2, XCircle, Filter, CloudDownload } from "lucide-react";
+import { cn, formatCurrency, formatDateTime } from "@/lib/utils";
+import { Loader2, CheckCircle2, XCircle, Filter, CloudDownload, Wand2, Settings2, AlarmClock, Inbox, Trash2 } from "lucide-react";
 import { toast } from "sonner";
 import { SyncShopifyDialog } from "@/components/orders/sync-shopify-dialog";
 
@@ -12,6 +13,29 @@ type Venue = {
     name: string;
 };
 
+type TriageView = "inbox" | "new" | "needs_attention" | "snoozed" | "ignored";
+
+const VIEWS: Array<{ value: TriageView; label: string }> = [
+    { value: "inbox", label: "Inbox" },
+    { value: "needs_attention", label: "Needs attention" },
+    { value: "snoozed", label: "Snoozed" },
+    { value: "ignored", label: "Ignored" },
+];
+
+const ISSUE_LABELS: Record<string, string> = {
+    unknown_store: "Unknown store",
+    unmatched_products: "Unmatched products",
+    missing_daily_rate: "No daily rate",
+    currency_mismatch: "Currency mismatch",
+    duplicate_order: "Duplicate",
+};
+
+const SNOOZE_OPTIONS = [
+    { label: "1 day", days: 1 },
+    { label: "3 days", days: 3 },
+    { label: "1 week", days: 7 },
+];
+
 const fetcher = async (url: string) => {
     const res = await fetch(url);
     if (!res.ok) throw new Error("Failed to fetch");
@@ -23,7 +47,10 @@ export default function PendingImportsPage() {
     const [selectedOrders, setSelectedOrders] = useState<Set<number>>(new Set());
     const [isProcessing, setIsProcessing] = useState(false);
     const [isSyncOpen, setIsSyncOpen] = useState(false);
-    const [confirmIgnore, setConfirmIgnore] = useState(false);
+    const [confirmDelete, setConfirmDelete] = useState(false);
+    const [ignoreReason, setIgnoreReason] = useState<string | null>(null);
+    const [view, setView] = useState<TriageView>("inbox");
+    const [issueFilter, setIssueFilter] = useState("");
     const [selectedVenueId, setSelectedVenueId] = useState<number | null>(null);
 
     // Fetch available venues
@@ -35,8 +62,8 @@ export default function PendingImportsPage() {
 
     // Fetch pending orders with filters
     const { data, error, mutate } = useSWR(
-        `/api/shopify/pending?amount=${amountFilter}`,
-        async (url) => {
+        `/api/shopify/pending?amount=${amountFilter}&state=${view}&issue=${issueFilter}`,
+        async (url: string) => {
             const res = await fetch(url);
             if (!res.ok) throw new Error("Failed to fetch pending orders");
             return res.json();
@@ -44,6 +71,7 @@ export default function PendingImportsPage() {
     );
 
     const pendingOrders = data?.orders || [];
+    const counts: Partial<Record<TriageView, number>> = data?.counts ?? {};
     const isLoading = !data && !error;
 
     const toggleSelectAll = () => {
@@ -97,10 +125,63 @@ export default function PendingImportsPage() {
         }
     };
 
-    const handleIgnore = async () => {
+    const handleApplyRules = async () => {
+        setIsProcessing(true);
+        try {
+            const res = await fetch("/api/shopify/pending/auto-approve", { method: "POST" });
+            const result = await res.json().catch(() => null);
+
+            if (!res.ok) throw new Error(result?.message ?? "Failed to apply rules");
+
+            toast.success(result.message);
+            setSelectedOrders(new Set());
+            mutate();
+        } catch (err) {
+            toast.error("Failed to apply auto-approve rules");
+            console.error(err);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const changeView = (next: TriageView) => {
+        setView(next);
+        setSelectedOrders(new Set());
+        setIgnoreReason(null);
+        setConfirmDelete(false);
+    };
+
+    const triage = async (body: Record<string, unknown>) => {
         if (selectedOrders.size === 0) return;
-        if (!confirmIgnore) { setConfirmIgnore(true); return; }
-        setConfirmIgnore(false);
+        setIsProcessing(true);
+        try {
+            const res = await fetch("/api/shopify/pending", {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ ...body, orderIds: Array.from(selectedOrders) }),
+            });
+            const result = await res.json().catch(() => null);
+
+            if (!res.ok) throw new Error(result?.message ?? "Triage failed");
+
+            toast.success(result.message);
+            setSelectedOrders(new Set());
+            setIgnoreReason(null);
+            mutate();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to update orders");
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleSnooze = (days: number) =>
+        triage({ action: "snooze", snoozedUntil: new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() });
+
+    const handleDelete = async () => {
+        if (selectedOrders.size === 0) return;
+        if (!confirmDelete) { setConfirmDelete(true); return; }
+        setConfirmDelete(false);
         setIsProcessing(true);
         try {
             const res = await fetch("/api/shopify/pending", {
@@ -131,6 +212,21 @@ export default function PendingImportsPage() {
                     </p>
                 </div>
                 <div className="flex gap-2">
+                    <Link
+                        href={"/admin/orders/pending/rules" as any}
+                        className="inline-flex items-center justify-center gap-2 rounded-lg border border-synvora-border bg-white px-4 py-2 text-sm font-medium text-synvora-text hover:bg-synvora-surface-hover"
+                    >
+                        <Settings2 className="h-4 w-4" />
+                        Rules
+                    </Link>
+                    <button
+                        onClick={handleApplyRules}
+                        disabled={isProcessing || pendingOrders.length === 0}
+                        className="inline-flex items-center justify-center gap-2 rounded-lg border border-synvora-border bg-white px-4 py-2 text-sm font-medium text-synvora-text hover:bg-synvora-surface-hover disabled:opacity-50"
+                    >
+                        <Wand2 className="h-4 w-4" />
+                        Apply Rules
+                    </button>
                     <button
                         onClick={() => setIsSyncOpen(true)}
                         className="inline-flex items-center justify-center gap-2 rounded-lg border border-synvora-border bg-white px-4 py-2 text-sm font-medium text-synvora-text hover:bg-synvora-surface-hover"
@@ -138,26 +234,92 @@ export default function PendingImportsPage() {
                         <CloudDownload className="h-4 w-4" />
                         Fetch from Shopify
                     </button>
-                    {confirmIgnore ? (
-                        <div className="flex items-center gap-2">
-                            <span className="text-sm text-synvora-text-secondary">Remove {selectedOrders.size} order{selectedOrders.size !== 1 ? "s" : ""}?</span>
+                    {view === "snoozed" || view === "ignored" ? (
+                        <button
+                            onClick={() => triage({ action: "restore" })}
+                            disabled={selectedOrders.size === 0 || isProcessing}
+                            className="inline-flex items-center justify-center gap-2 rounded-lg border border-synvora-border bg-white px-4 py-2 text-sm font-medium text-synvora-text hover:bg-synvora-surface-hover disabled:opacity-50"
+                        >
+                            <Inbox className="h-4 w-4" />
+                            Move to Inbox
+                        </button>
+                    ) : (
+                        <select
+                            value=""
+                            onChange={(e) => e.target.value && handleSnooze(Number(e.target.value))}
+                            disabled={selectedOrders.size === 0 || isProcessing}
+                            className="rounded-lg border border-synvora-border bg-white px-3 py-2 text-sm font-medium text-synvora-text hover:bg-synvora-surface-hover disabled:opacity-50"
+                            aria-label="Snooze selected"
+                        >
+                            <option value="">Snooze…</option>
+                            {SNOOZE_OPTIONS.map((option) => (
+                                <option key={option.days} value={option.days}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                    {view === "ignored" ? (
+                        confirmDelete ? (
+                            <div className="flex items-center gap-2">
+                                <span className="text-sm text-synvora-text-secondary">Delete {selectedOrders.size} order{selectedOrders.size !== 1 ? "s" : ""}?</span>
+                                <button
+                                    onClick={handleDelete}
+                                    disabled={isProcessing}
+                                    className="inline-flex items-center justify-center gap-1 rounded-lg bg-rose-600 px-3 py-2 text-sm font-medium text-white hover:bg-rose-700 disabled:opacity-50"
+                                >
+                                    Confirm
+                                </button>
+                                <button
+                                    onClick={() => setConfirmDelete(false)}
+                                    className="inline-flex items-center justify-center rounded-lg border border-synvora-border px-3 py-2 text-sm font-medium text-synvora-text-secondary hover:bg-synvora-surface-hover"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        ) : (
                             <button
-                                onClick={handleIgnore}
-                                disabled={isProcessing}
+                                onClick={handleDelete}
+                                disabled={selectedOrders.size === 0 || isProcessing}
+                                className="inline-flex items-center justify-center gap-2 rounded-lg border border-rose-200 bg-rose-50 px-4 py-2 text-sm font-medium text-rose-700 hover:bg-rose-100 disabled:opacity-50"
+                            >
+                                <Trash2 className="h-4 w-4" />
+                                Delete Selected
+                            </button>
+                        )
+                    ) : ignoreReason !== null ? (
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                triage({ action: "ignore", reason: ignoreReason });
+                            }}
+                            className="flex items-center gap-2"
+                        >
+                            <input
+                                autoFocus
+                                value={ignoreReason}
+                                onChange={(e) => setIgnoreReason(e.target.value)}
+                                placeholder="Reason, e.g. test order"
+                                className="rounded-lg border border-synvora-border px-3 py-2 text-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary"
+                            />
+                            <button
+                                type="submit"
+                                disabled={!ignoreReason.trim() || isProcessing}
                                 className="inline-flex items-center justify-center gap-1 rounded-lg bg-rose-600 px-3 py-2 text-sm font-medium text-white hover:bg-rose-700 disabled:opacity-50"
                             >
-                                Confirm
+                                Ignore
                             </button>
                             <button
-                                onClick={() => setConfirmIgnore(false)}
+                                type="button"
+                                onClick={() => setIgnoreReason(null)}
                                 className="inline-flex items-center justify-center rounded-lg border border-synvora-border px-3 py-2 text-sm font-medium text-synvora-text-secondary hover:bg-synvora-surface-hover"
                             >
                                 Cancel
                             </button>
-                        </div>
+                        </form>
                     ) : (
                         <button
-                            onClick={handleIgnore}
+                            onClick={() => setIgnoreReason("")}
                             disabled={selectedOrders.size === 0 || isProcessing}
                             className="inline-flex items-center justify-center gap-2 rounded-lg border border-rose-200 bg-rose-50 px-4 py-2 text-sm font-medium text-rose-700 hover:bg-rose-100 disabled:opacity-50"
                         >
@@ -180,6 +342,25 @@ export default function PendingImportsPage() {
                 </div>
             </div>
 
+            {/* Triage tabs */}
+            <div className="flex gap-1 border-b border-synvora-border">
+                {VIEWS.map((tab) => (
+                    <button
+                        key={tab.value}
+                        onClick={() => changeView(tab.value)}
+                        className={cn(
+                            "-mb-px border-b-2 px-4 py-2 text-sm font-medium transition",
+                            view === tab.value
+                                ? "border-synvora-primary text-synvora-primary"
+                                : "border-transparent text-synvora-text-secondary hover:text-synvora-text"
+                        )}
+                    >
+                        {tab.label}
+                        <span className="ml-2 rounded-full bg-synvora-surface px-2 py-0.5 text-xs">{counts[tab.value] ?? 0}</span>
+                    </button>
+                ))}
+            </div>
+
             {/* Filters */}
             <div className="flex flex-wrap items-center gap-4 rounded-xl border border-synvora-border bg-white p-4 shadow-sm">
                 <div className="flex items-center gap-2 text-synvora-text-secondary">
@@ -196,6 +377,21 @@ export default function PendingImportsPage() {
                         className="rounded-lg border border-synvora-border px-3 py-1.5 text-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary"
                     />
                 </div>
+                <div className="flex items-center gap-2">
+                    <label className="text-sm text-synvora-text-secondary">Issue:</label>
+                    <select
+                        value={issueFilter}
+                        onChange={(e) => setIssueFilter(e.target.value)}
+                        className="rounded-lg border border-synvora-border px-3 py-1.5 text-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary"
+                    >
+                        <option value="">Any</option>
+                        {Object.entries(ISSUE_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
                 {venues.length > 1 && (
                     <div className="flex items-center gap-2">
                         <label className="text-sm text-synvora-text-secondary">Import to Venue:</label>
@@ -235,22 +431,24 @@ export default function PendingImportsPage() {
                             <th className="px-6 py-4">Order Number</th>
                             <th className="px-6 py-4">Date</th>
                             <th className="px-6 py-4">Amount</th>
+                            <th className="px-6 py-4">Daily Rate</th>
                             <th className="px-6 py-4">Status</th>
+                            <th className="px-6 py-4">Issues</th>
                             <th className="px-6 py-4">Store</th>
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
                         {isLoading ? (
                             <tr>
-                                <td colSpan={6} className="py-8 text-center text-synvora-text-secondary">
+                                <td colSpan={8} className="py-8 text-center text-synvora-text-secondary">
                                     <Loader2 className="mx-auto h-6 w-6 animate-spin" />
                                     <span className="mt-2 block">Loading pending orders...</span>
                                 </td>
                             </tr>
                         ) : pendingOrders.length === 0 ? (
                             <tr>
-                                <td colSpan={6} className="py-8 text-center text-synvora-text-secondary">
-                                    No pending orders found.
+                                <td colSpan={8} className="py-8 text-center text-synvora-text-secondary">
+                                    {view === "inbox" ? "Inbox zero — no pending orders." : "No orders here."}
                                 </td>
                             </tr>
                         ) : (
@@ -271,10 +469,45 @@ export default function PendingImportsPage() {
                                     <td className="px-6 py-4 font-medium text-synvora-text">
                                         {formatCurrency(order.totalAmount, order.currency)}
                                     </td>
+                                    <td className="px-6 py-4 text-synvora-text-secondary">
+                                        {order.aedEgpRate ? (
+                                            <span className="font-medium text-synvora-text">{order.aedEgpRate} EGP/AED</span>
+                                        ) : (
+                                            <span className="text-amber-600">Not set</span>
+                                        )}
+                                    </td>
                                     <td className="px-6 py-4">
                                         <span className="inline-flex rounded-full bg-slate-100 px-2.5 py-0.5 text-xs font-medium text-slate-800">
                                             {order.financialStatus}
                                         </span>
+                                        {order.holdReason && (
+                                            <p className="mt-1 max-w-xs text-xs text-amber-700">Held: {order.holdReason}</p>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        <div className="flex max-w-xs flex-wrap gap-1">
+                                            {order.issues.length === 0 && (
+                                                <span className="text-xs text-emerald-700">Ready to import</span>
+                                            )}
+                                            {order.issues.map((issue: string) => (
+                                                <span
+                                                    key={issue}
+                                                    title={order.issueDetails?.[issue]}
+                                                    className="inline-flex rounded-full bg-amber-50 px-2 py-0.5 text-xs font-medium text-amber-700"
+                                                >
+                                                    {ISSUE_LABELS[issue] ?? issue}
+                                                </span>
+                                            ))}
+                                        </div>
+                                        {order.triageState === "snoozed" && order.snoozedUntil && (
+                                            <p className="mt-1 inline-flex items-center gap-1 text-xs text-synvora-text-secondary">
+                                                <AlarmClock className="h-3 w-3" />
+                                                Until {formatDateTime(order.snoozedUntil)}
+                                            </p>
+                                        )}
+                                        {order.triageState === "ignored" && order.ignoreReason && (
+                                            <p className="mt-1 text-xs text-synvora-text-secondary">Ignored: {order.ignoreReason}</p>
+                                        )}
                                     </td>
                                     <td className="px-6 py-4 text-synvora-text-secondary">{order.storeDomain}</td>
                                 </tr>
@@ -0,0 +1,240 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import { ArrowLeft, Loader2, Plus, Trash2, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+
+type Rule = {
+  id: number;
+  storeId: number | null;
+  venueId: number | null;
+  enabled: boolean;
+  requireCatalogMatch: boolean;
+  requirePaid: boolean;
+  requireDailyRate: boolean;
+  store: { id: number; storeDomain: string; nickname: string | null } | null;
+  venue: { id: number; name: string } | null;
+};
+
+type RuleFlags = Pick<Rule, "enabled" | "requireCatalogMatch" | "requirePaid" | "requireDailyRate">;
+
+const CHECKS: Array<{ key: Exclude<keyof RuleFlags, "enabled">; label: string; description: string }> = [
+  { key: "requireCatalogMatch", label: "Catalog match", description: "Every line item matches a product" },
+  { key: "requirePaid", label: "Paid", description: "Financial status is paid" },
+  { key: "requireDailyRate", label: "Daily rate", description: "A daily rate exists for the order's business day" }
+];
+
+const fetcher = (url: string) =>
+  fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error("Request failed");
+    }
+    return response.json();
+  });
+
+export default function AutoApproveRulesPage() {
+  const [scope, setScope] = useState("");
+  const [checks, setChecks] = useState({ requireCatalogMatch: true, requirePaid: true, requireDailyRate: true });
+  const [saving, setSaving] = useState(false);
+
+  const { data, isLoading, error, mutate } = useSWR<{ rules: Rule[] }>("/api/auto-approve-rules", fetcher);
+  const { data: storesData } = useSWR<{ stores: Array<{ id: number; storeDomain: string; nickname: string | null }> }>(
+    "/api/shopify-stores",
+    fetcher
+  );
+  const { data: venuesData } = useSWR<{ venues: Array<{ id: number; name: string }> }>("/api/venues", fetcher);
+
+  const rules = data?.rules ?? [];
+  const stores = (storesData?.stores ?? []).filter((store) => !rules.some((rule) => rule.storeId === store.id));
+  const venues = (venuesData?.venues ?? []).filter((venue) => !rules.some((rule) => rule.venueId === venue.id));
+
+  const createRule = async () => {
+    const [kind, id] = scope.split(":");
+    if (!id) return;
+
+    setSaving(true);
+    const response = await fetch("/api/auto-approve-rules", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ [kind === "store" ? "storeId" : "venueId"]: Number(id), ...checks })
+    });
+    setSaving(false);
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      toast.error(payload?.message ?? "Failed to create rule.");
+      return;
+    }
+
+    toast.success("Rule created. New orders will be checked as they arrive.");
+    setScope("");
+    mutate();
+  };
+
+  const updateRule = async (rule: Rule, changes: Partial<RuleFlags>) => {
+    const response = await fetch(`/api/auto-approve-rules/${rule.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes)
+    });
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      toast.error(payload?.message ?? "Failed to update rule.");
+    }
+    mutate();
+  };
+
+  const deleteRule = async (rule: Rule) => {
+    if (!confirm("Delete this rule? Its orders will go back to manual review.")) return;
+
+    const response = await fetch(`/api/auto-approve-rules/${rule.id}`, { method: "DELETE" });
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      toast.error(payload?.message ?? "Failed to delete rule.");
+    }
+    mutate();
+  };
+
+  const inputClass =
+    "rounded-lg border border-synvora-border bg-white px-3 py-2 text-sm shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          href={"/admin/orders/pending" as any}
+          className="inline-flex items-center gap-1 text-sm text-synvora-text-secondary hover:text-synvora-text"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Pending Imports
+        </Link>
+        <h1 className="mt-2 text-2xl font-semibold text-synvora-text">Auto-approve Rules</h1>
+        <p className="mt-1 text-sm text-synvora-text-secondary">
+          Queued Shopify orders that pass every enabled check are imported into the store&apos;s venue without review.
+          Orders that fail stay in Pending Imports with the reason. A store&apos;s own rule overrides its venue&apos;s.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 rounded-xl border border-synvora-border bg-white p-4 shadow-sm">
+        <label className="flex flex-col gap-1 text-xs font-medium text-synvora-text-secondary">
+          Applies to
+          <select value={scope} onChange={(e) => setScope(e.target.value)} className={inputClass}>
+            <option value="">Select a store or venue</option>
+            {stores.length > 0 && (
+              <optgroup label="Stores">
+                {stores.map((store) => (
+                  <option key={store.id} value={`store:${store.id}`}>
+                    {store.nickname || store.storeDomain}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            {venues.length > 0 && (
+              <optgroup label="Venues">
+                {venues.map((venue) => (
+                  <option key={venue.id} value={`venue:${venue.id}`}>
+                    {venue.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        {CHECKS.map((check) => (
+          <label key={check.key} className="flex items-center gap-2 py-2 text-sm text-synvora-text" title={check.description}>
+            <input
+              type="checkbox"
+              checked={checks[check.key]}
+              onChange={(e) => setChecks({ ...checks, [check.key]: e.target.checked })}
+              className="rounded border-synvora-border text-synvora-primary focus:ring-synvora-primary"
+            />
+            {check.label}
+          </label>
+        ))}
+        <button
+          type="button"
+          onClick={createRule}
+          disabled={!scope || saving}
+          className="inline-flex items-center gap-2 rounded-lg bg-synvora-primary px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-synvora-primary/90 disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          Add Rule
+        </button>
+      </div>
+
+      <div className="rounded-xl border border-synvora-border bg-white shadow-sm">
+        {isLoading ? (
+          <div className="py-12 text-center text-sm text-synvora-text-secondary">Loading rules...</div>
+        ) : error ? (
+          <div className="py-12 text-center text-sm text-rose-600">Failed to load rules</div>
+        ) : rules.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 px-6 py-12 text-center">
+            <Wand2 className="h-6 w-6 text-synvora-text-secondary" />
+            <p className="text-sm text-synvora-text-secondary">No rules yet. Every queued order needs manual approval.</p>
+          </div>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="border-b border-synvora-border bg-synvora-surface">
+              <tr className="text-left text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+                <th className="px-5 py-3">Applies to</th>
+                <th className="px-3 py-3">Enabled</th>
+                {CHECKS.map((check) => (
+                  <th key={check.key} className="px-3 py-3" title={check.description}>
+                    {check.label}
+                  </th>
+                ))}
+                <th className="px-5 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-synvora-border">
+              {rules.map((rule) => (
+                <tr key={rule.id}>
+                  <td className="px-5 py-3">
+                    <div className="font-medium text-synvora-text">
+                      {rule.store ? rule.store.nickname || rule.store.storeDomain : rule.venue?.name}
+                    </div>
+                    <div className="text-xs text-synvora-text-secondary">{rule.store ? "Store" : "Venue"}</div>
+                  </td>
+                  <td className="px-3 py-3">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(rule, { enabled: e.target.checked })}
+                      className="rounded border-synvora-border text-synvora-primary focus:ring-synvora-primary"
+                      aria-label="Enabled"
+                    />
+                  </td>
+                  {CHECKS.map((check) => (
+                    <td key={check.key} className="px-3 py-3">
+                      <input
+                        type="checkbox"
+                        checked={rule[check.key]}
+                        onChange={(e) => updateRule(rule, { [check.key]: e.target.checked })}
+                        disabled={!rule.enabled}
+                        className="rounded border-synvora-border text-synvora-primary focus:ring-synvora-primary disabled:opacity-50"
+                        aria-label={check.label}
+                      />
+                    </td>
+                  ))}
+                  <td className="px-5 py-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => deleteRule(rule)}
+                      className="inline-flex items-center gap-1 text-xs font-medium text-synvora-text-secondary transition hover:text-rose-600"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn, formatCurrency, formatDate, formatDateTime } from "@/lib/utils";
+
+type TrashedOrder = {
+  id: number;
+  orderNumber: string;
+  customerName: string;
+  totalAmount: number;
+  currency: string;
+  processedAt: string;
+  venue: { id: number; name: string };
+  deletedAt: string;
+  deletedBy: { id: number; name: string | null; email: string } | null;
+  purgeAt: string;
+};
+
+type TrashResponse = {
+  retentionDays: number;
+  orders: TrashedOrder[];
+};
+
+const fetcher = (url: string) =>
+  fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error("Request failed");
+    }
+    return response.json();
+  });
+
+const daysUntil = (iso: string) => Math.max(0, Math.ceil((new Date(iso).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+export default function OrdersTrashPage() {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [restoring, setRestoring] = useState(false);
+
+  const { data, isLoading, error, mutate } = useSWR<TrashResponse>("/api/orders/trash", fetcher);
+  const orders = data?.orders ?? [];
+  const allSelected = orders.length > 0 && selected.size === orders.length;
+
+  const toggle = (id: number) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const restore = async (ids: number[]) => {
+    setRestoring(true);
+    const response = await fetch("/api/orders/trash/restore", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids })
+    });
+    setRestoring(false);
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      toast.error(payload?.message ?? "Failed to restore orders.");
+      return;
+    }
+
+    toast.success(payload?.message ?? "Orders restored.");
+    setSelected(new Set());
+    mutate();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-synvora-text">Trash</h1>
+          <p className="mt-1 text-sm text-synvora-text-secondary">
+            Deleted orders are kept for {data?.retentionDays ?? "—"} days and left out of totals, analytics and balances,
+            then removed permanently.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => restore(Array.from(selected))}
+          disabled={selected.size === 0 || restoring}
+          className="inline-flex items-center gap-2 rounded-lg bg-synvora-primary px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-synvora-primary/90 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-400"
+        >
+          {restoring ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+          Restore{selected.size > 0 ? ` ${selected.size}` : ""}
+        </button>
+      </div>
+
+      <div className="rounded-xl border border-synvora-border bg-white shadow-sm">
+        {isLoading ? (
+          <div className="py-12 text-center text-sm text-synvora-text-secondary">Loading trash...</div>
+        ) : error ? (
+          <div className="py-12 text-center text-sm text-rose-600">Failed to load trash</div>
+        ) : orders.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 px-6 py-12 text-center">
+            <Trash2 className="h-6 w-6 text-synvora-text-secondary" />
+            <p className="text-sm text-synvora-text-secondary">The trash is empty.</p>
+          </div>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="border-b border-synvora-border bg-synvora-surface">
+              <tr className="text-left text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+                <th className="w-10 px-5 py-3">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={() => setSelected(allSelected ? new Set() : new Set(orders.map((order) => order.id)))}
+                    className="h-4 w-4 rounded border-synvora-border text-synvora-primary focus:ring-synvora-primary"
+                  />
+                </th>
+                <th className="px-3 py-3">Order</th>
+                <th className="px-3 py-3">Venue</th>
+                <th className="px-3 py-3 text-right">Total</th>
+                <th className="px-3 py-3">Deleted</th>
+                <th className="px-3 py-3">Purged in</th>
+                <th className="px-3 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-synvora-border">
+              {orders.map((order) => {
+                const remaining = daysUntil(order.purgeAt);
+                return (
+                  <tr key={order.id} className={cn("transition", selected.has(order.id) && "bg-synvora-primary/5")}>
+                    <td className="px-5 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(order.id)}
+                        onChange={() => toggle(order.id)}
+                        className="h-4 w-4 rounded border-synvora-border text-synvora-primary focus:ring-synvora-primary"
+                      />
+                    </td>
+                    <td className="px-3 py-3">
+                      <p className="font-medium text-synvora-text">{order.orderNumber}</p>
+                      <p className="text-xs text-synvora-text-secondary">
+                        {order.customerName} · {formatDate(order.processedAt)}
+                      </p>
+                    </td>
+                    <td className="px-3 py-3 text-synvora-text-secondary">{order.venue.name}</td>
+                    <td className="px-3 py-3 text-right font-semibold text-synvora-text">
+                      {formatCurrency(order.totalAmount, order.currency)}
+                    </td>
+                    <td className="px-3 py-3 text-synvora-text-secondary">
+                      <p>{formatDateTime(order.deletedAt)}</p>
+                      {order.deletedBy && (
+                        <p className="text-xs">by {order.deletedBy.name || order.deletedBy.email}</p>
+                      )}
+                    </td>
+                    <td className={cn("px-3 py-3", remaining <= 3 ? "text-rose-600" : "text-synvora-text-secondary")}>
+                      {remaining} day{remaining !== 1 ? "s" : ""}
+                    </td>
+                    <td className="px-3 py-3 text-right">
+                      <button
+                        type="button"
+                        onClick={() => restore([order.id])}
+                        disabled={restoring}
+                        className="inline-flex items-center gap-1 text-xs font-medium text-synvora-text-secondary transition hover:text-synvora-primary disabled:opacity-50"
+                      >
+                        <RotateCcw className="h-3.5 w-3.5" />
+                        Restore
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import { ArrowLeft, CheckCircle2, Link2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatDateTime } from "@/lib/utils";
+
+type UnmatchedLineItem = {
+  venueId: number;
+  venueName: string;
+  productName: string;
+  sku: string | null;
+  shopifyProductId: string | null;
+  orderCount: number;
+  queuedCount: number;
+  quantity: number;
+  lastSeenAt: string;
+};
+
+type Product = {
+  id: number;
+  name: string;
+  sku: string | null;
+  active: boolean;
+  venue: { id: number; name: string };
+};
+
+const fetcher = (url: string) =>
+  fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error("Request failed");
+    }
+    return response.json();
+  });
+
+const itemKey = (item: UnmatchedLineItem) =>
+  [item.venueId, item.shopifyProductId, item.sku, item.productName.toLowerCase()].join("|");
+
+export default function ProductMatchingPage() {
+  const [venueId, setVenueId] = useState("");
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const [linkingKey, setLinkingKey] = useState<string | null>(null);
+
+  const { data, isLoading, error, mutate } = useSWR<{ items: UnmatchedLineItem[] }>(
+    `/api/products/matching${venueId ? `?venueId=${venueId}` : ""}`,
+    fetcher
+  );
+  const { data: productsData } = useSWR<{ products: Product[] }>("/api/products", fetcher);
+  const { data: venuesData } = useSWR<{ venues: Array<{ id: number; name: string }> }>("/api/venues", fetcher);
+
+  const items = data?.items ?? [];
+  const products = (productsData?.products ?? []).filter((product) => product.active);
+
+  const link = async (item: UnmatchedLineItem) => {
+    const key = itemKey(item);
+    const productId = selection[key];
+    if (!productId) return;
+
+    setLinkingKey(key);
+    const response = await fetch(`/api/products/${productId}/aliases`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        productName: item.productName,
+        sku: item.sku,
+        shopifyProductId: item.shopifyProductId
+      })
+    });
+    setLinkingKey(null);
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      toast.error(payload?.message ?? "Failed to link line item.");
+      return;
+    }
+
+    const skipped = payload.skipped ? `, ${payload.skipped} left as they were` : "";
+    toast.success(`Linked. ${payload.repriced} order(s) re-priced${skipped}.`);
+    mutate();
+  };
+
+  const inputClass =
+    "rounded-lg border border-synvora-border bg-white px-3 py-2 text-sm shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          href={"/admin/products" as any}
+          className="inline-flex items-center gap-1 text-sm text-synvora-text-secondary hover:text-synvora-text"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Products
+        </Link>
+        <h1 className="mt-2 text-2xl font-semibold text-synvora-text">Product Matching</h1>
+        <p className="mt-1 text-sm text-synvora-text-secondary">
+          Line items on Shopify orders and pending imports that match no product, so their orders were priced as
+          custom sales. Linking one to a product adds an alias and re-prices the venue&apos;s orders that carry it.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <select value={venueId} onChange={(e) => setVenueId(e.target.value)} className={inputClass}>
+          <option value="">All venues</option>
+          {(venuesData?.venues ?? []).map((venue) => (
+            <option key={venue.id} value={venue.id}>
+              {venue.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="rounded-xl border border-synvora-border bg-white shadow-sm">
+        {isLoading ? (
+          <div className="py-12 text-center text-sm text-synvora-text-secondary">Loading line items...</div>
+        ) : error ? (
+          <div className="py-12 text-center text-sm text-rose-600">Failed to load matching report</div>
+        ) : items.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 px-6 py-12 text-center">
+            <CheckCircle2 className="h-6 w-6 text-emerald-600" />
+            <p className="text-sm text-synvora-text-secondary">Every line item matches a product.</p>
+          </div>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="border-b border-synvora-border bg-synvora-surface">
+              <tr className="text-left text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+                <th className="px-5 py-3">Line item</th>
+                <th className="px-3 py-3">Venue</th>
+                <th className="px-3 py-3 text-right">Orders</th>
+                <th className="px-3 py-3 text-right">Queued</th>
+                <th className="px-3 py-3">Last seen</th>
+                <th className="px-5 py-3">Link to product</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-synvora-border">
+              {items.map((item) => {
+                const key = itemKey(item);
+                return (
+                  <tr key={key}>
+                    <td className="px-5 py-3">
+                      <div className="font-medium text-synvora-text">{item.productName}</div>
+                      <div className="font-mono text-xs text-synvora-text-secondary">
+                        {[item.sku && `SKU ${item.sku}`, item.shopifyProductId && `ID ${item.shopifyProductId}`]
+                          .filter(Boolean)
+                          .join(" · ") || "No SKU or Shopify ID"}
+                      </div>
+                    </td>
+                    <td className="px-3 py-3 text-synvora-text-secondary">{item.venueName}</td>
+                    <td className="px-3 py-3 text-right text-synvora-text">{item.orderCount}</td>
+                    <td className="px-3 py-3 text-right text-synvora-text">{item.queuedCount}</td>
+                    <td className="whitespace-nowrap px-3 py-3 text-synvora-text-secondary">
+                      {formatDateTime(item.lastSeenAt)}
+                    </td>
+                    <td className="px-5 py-3">
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={selection[key] ?? ""}
+                          onChange={(e) => setSelection({ ...selection, [key]: e.target.value })}
+                          className={inputClass}
+                        >
+                          <option value="">Select a product</option>
+                          {products
+                            .filter((product) => product.venue.id === item.venueId)
+                            .map((product) => (
+                              <option key={product.id} value={product.id}>
+                                {product.name}
+                                {product.sku ? ` (${product.sku})` : ""}
+                              </option>
+                            ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => link(item)}
+                          disabled={!selection[key] || linkingKey !== null}
+                          className="inline-flex items-center gap-1 rounded-lg bg-synvora-primary px-3 py-2 text-xs font-semibold text-white shadow-sm transition hover:bg-synvora-primary/90 disabled:opacity-50"
+                        >
+                          {linkingKey === key ? (
+                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                          ) : (
+                            <Link2 className="h-3.5 w-3.5" />
+                          )}
+                          Link
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,25 +1,35 @@
 "use client";
 
-import { useState } from "react";
+import { Fragment, useState } from "react";
+import Link from "next/link";
 import useSWR from "swr";
-import { Plus, Package, Trash2, Edit2, RefreshCw } from "lucide-react";
+import { Plus, Package, Trash2, Edit2, RefreshCw, Link2, X, History } from "lucide-react";
 import { ProductDialog } from "@/components/products/product-dialog";
 import { ShopifySyncDialog } from "@/components/products/shopify-sync-dialog";
+import { PriceTimeline } from "@/components/products/price-timeline";
 
 type Product = {
   id: number;
   name: string;
   sku: string | null;
   shopifyProductId: string | null;
+  shopifyStatus: string | null;
   egpPrice: number;
   active: boolean;
   venue: {
     id: number;
     name: string;
   };
+  aliases: Array<{ id: number; kind: string; value: string }>;
   createdAt: string;
 };
 
+const ALIAS_KIND_LABELS: Record<string, string> = {
+  shopify_id: "ID",
+  sku: "SKU",
+  name: "Name"
+};
+
 const fetcher = async (url: string) => {
   const response = await fetch(url);
   const data = await response.json();
@@ -38,6 +48,7 @@ export default function ProductsPage() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [syncDialogOpen, setSyncDialogOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [historyProductId, setHistoryProductId] = useState<number | null>(null);
 
   const { data, error, isLoading, mutate } = useSWR<{ products: Product[] }>(
     "/api/products",
@@ -66,6 +77,22 @@ export default function ProductsPage() {
     }
   };
 
+  const handleDeleteAlias = async (product: Product, aliasId: number) => {
+    if (!confirm("Remove this alias? Orders already re-priced through it keep their amount.")) {
+      return;
+    }
+
+    const response = await fetch(`/api/products/${product.id}/aliases/${aliasId}`, {
+      method: "DELETE"
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      alert(data?.message || "Failed to remove alias");
+    }
+    mutate();
+  };
+
   const handleEdit = (product: Product) => {
     setEditingProduct(product);
     setDialogOpen(true);
@@ -100,12 +127,19 @@ export default function ProductsPage() {
           </p>
         </div>
         <div className="flex items-center gap-3">
+          <Link
+            href={"/admin/products/matching" as any}
+            className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:bg-slate-50"
+          >
+            <Link2 className="h-4 w-4" />
+            Matching
+          </Link>
           <button
             onClick={() => setSyncDialogOpen(true)}
             className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:bg-slate-50"
           >
             <RefreshCw className="h-4 w-4" />
-            Sync from Shopify
+            Sync with Shopify
           </button>
           <button
             onClick={() => {
@@ -186,60 +220,98 @@ export default function ProductsPage() {
             </thead>
             <tbody className="divide-y divide-slate-200 bg-white">
               {data.products.map((product) => (
-                <tr key={product.id} className="hover:bg-slate-50 transition">
-                  <td className="px-6 py-4">
-                    <div className="text-sm font-medium text-slate-900">
-                      {product.name}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-slate-600">
-                      {product.sku || "-"}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-slate-600 font-mono">
-                      {product.shopifyProductId || "-"}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm font-semibold text-slate-900">
-                      EGP {formatEGP(product.egpPrice)}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-slate-900">{product.venue.name}</div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <span
-                      className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${
-                        product.active
-                          ? "bg-green-100 text-green-800"
-                          : "bg-gray-100 text-gray-800"
-                      }`}
-                    >
-                      {product.active ? "Active" : "Inactive"}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 text-right">
-                    <div className="flex items-center justify-end gap-2">
-                      <button
-                        onClick={() => handleEdit(product)}
-                        className="inline-flex items-center gap-1 rounded px-2 py-1 text-sm text-slate-600 hover:bg-slate-100 transition"
-                      >
-                        <Edit2 className="h-4 w-4" />
-                        Edit
-                      </button>
-                      <button
-                        onClick={() => handleDelete(product)}
-                        className="inline-flex items-center gap-1 rounded px-2 py-1 text-sm text-red-600 hover:bg-red-50 transition"
+                <Fragment key={product.id}>
+                  <tr className="hover:bg-slate-50 transition">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-slate-900">
+                        {product.name}
+                      </div>
+                      {product.aliases.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {product.aliases.map((alias) => (
+                            <span
+                              key={alias.id}
+                              className="inline-flex items-center gap-1 rounded bg-slate-100 px-1.5 py-0.5 text-xs text-slate-600"
+                            >
+                              {ALIAS_KIND_LABELS[alias.kind] ?? alias.kind}: {alias.value}
+                              <button
+                                onClick={() => handleDeleteAlias(product, alias.id)}
+                                className="text-slate-400 hover:text-red-600"
+                                aria-label="Remove alias"
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-slate-600">
+                        {product.sku || "-"}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-slate-600 font-mono">
+                        {product.shopifyProductId || "-"}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-semibold text-slate-900">
+                        EGP {formatEGP(product.egpPrice)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-slate-900">{product.venue.name}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${
+                          product.active
+                            ? "bg-green-100 text-green-800"
+                            : "bg-gray-100 text-gray-800"
+                        }`}
                       >
-                        <Trash2 className="h-4 w-4" />
-                        Delete
-                      </button>
-                    </div>
-                  </td>
-                </tr>
+                        {product.active ? "Active" : "Inactive"}
+                      </span>
+                      {product.shopifyStatus && product.shopifyStatus !== "active" && (
+                        <div className="mt-1 text-xs capitalize text-slate-500">{product.shopifyStatus} in Shopify</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => setHistoryProductId(historyProductId === product.id ? null : product.id)}
+                          className="inline-flex items-center gap-1 rounded px-2 py-1 text-sm text-slate-600 hover:bg-slate-100 transition"
+                        >
+                          <History className="h-4 w-4" />
+                          History
+                        </button>
+                        <button
+                          onClick={() => handleEdit(product)}
+                          className="inline-flex items-center gap-1 rounded px-2 py-1 text-sm text-slate-600 hover:bg-slate-100 transition"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(product)}
+                          className="inline-flex items-center gap-1 rounded px-2 py-1 text-sm text-red-600 hover:bg-red-50 transition"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {historyProductId === product.id && (
+                    <tr className="bg-slate-50">
+                      <td colSpan={7} className="px-6 py-4">
+                        <PriceTimeline productId={product.id} onChange={() => mutate()} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               ))}
             </tbody>
           </table>
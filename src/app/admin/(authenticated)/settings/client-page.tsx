@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import useSWR, { type KeyedMutator } from "swr";
 import { useSession } from "next-auth/react";
+import { FeeScheduleDialog } from "@/components/venues/fee-schedule-dialog";
 
 const fetcher = (url: string) =>
   fetch(url).then((response) => {
@@ -16,6 +17,8 @@ type VenueSummary = {
   id: number;
   name: string;
   slug: string;
+  timezone: string;
+  businessDayCutoffHour: number;
   createdAt: string;
   updatedAt: string;
   userCount: number;
@@ -73,6 +76,7 @@ type VenuesSectionProps = {
 
 function VenuesSection({ venues, isLoading, mutate }: VenuesSectionProps) {
   const [name, setName] = useState("");
+  const [feeScheduleVenue, setFeeScheduleVenue] = useState<VenueSummary | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -124,6 +128,42 @@ function VenuesSection({ venues, isLoading, mutate }: VenuesSectionProps) {
     mutate();
   };
 
+  // Sales before the cutoff hour count toward the previous business day
+  const handleCalendar = async (venue: VenueSummary) => {
+    const timezone = prompt("Venue timezone (e.g. Africa/Cairo)", venue.timezone)?.trim();
+    if (!timezone) {
+      return;
+    }
+    const cutoff = prompt("Hour the business day ends, local time (0-12)", String(venue.businessDayCutoffHour))?.trim();
+    if (!cutoff) {
+      return;
+    }
+
+    const businessDayCutoffHour = Number(cutoff);
+    if (!Number.isInteger(businessDayCutoffHour) || businessDayCutoffHour < 0 || businessDayCutoffHour > 12) {
+      alert("The business day has to end on a whole hour from 0 to 12.");
+      return;
+    }
+    if (timezone === venue.timezone && businessDayCutoffHour === venue.businessDayCutoffHour) {
+      return;
+    }
+
+    const response = await fetch(`/api/venues/${venue.id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ timezone, businessDayCutoffHour })
+    });
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      alert(payload?.issues?.fieldErrors?.timezone?.[0] ?? payload?.message ?? "Unable to update the business day");
+    }
+
+    mutate();
+  };
+
   const handleDelete = async (venue: VenueSummary) => {
     if (venue.orderCount > 0) {
       alert("This venue still has orders and cannot be removed.");
@@ -143,7 +183,7 @@ function VenuesSection({ venues, isLoading, mutate }: VenuesSectionProps) {
       <header className="mb-6 flex flex-col gap-2">
         <h2 className="text-xl font-semibold text-slate-900">Venues</h2>
         <p className="text-sm text-slate-500">
-          Create venues and keep their names up to date. Venues control which orders a user can access.
+          Create venues and keep their names, business days and fee terms up to date. Venues control which orders a user can access.
         </p>
       </header>
 
@@ -171,13 +211,14 @@ function VenuesSection({ venues, isLoading, mutate }: VenuesSectionProps) {
               <th className="px-4 py-3">Venue</th>
               <th className="px-4 py-3">Orders</th>
               <th className="px-4 py-3">Users</th>
+              <th className="px-4 py-3">Business day</th>
               <th className="px-4 py-3 text-right">Actions</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-100 bg-white">
             {isLoading && venues.length === 0 ? (
               <tr>
-                <td colSpan={4} className="px-4 py-6 text-center text-slate-500">
+                <td colSpan={5} className="px-4 py-6 text-center text-slate-500">
                   Loading venues…
                 </td>
               </tr>
@@ -187,6 +228,9 @@ function VenuesSection({ venues, isLoading, mutate }: VenuesSectionProps) {
                 <td className="px-4 py-3 font-medium text-slate-900">{venue.name}</td>
                 <td className="px-4 py-3 text-slate-600">{venue.orderCount}</td>
                 <td className="px-4 py-3 text-slate-600">{venue.userCount}</td>
+                <td className="px-4 py-3 text-slate-600">
+                  Ends {String(venue.businessDayCutoffHour).padStart(2, "0")}:00 · {venue.timezone}
+                </td>
                 <td className="px-4 py-3 text-right">
                   <button
                     type="button"
@@ -195,6 +239,20 @@ function VenuesSection({ venues, isLoading, mutate }: VenuesSectionProps) {
                   >
                     Rename
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => setFeeScheduleVenue(venue)}
+                    className="ml-2 inline-flex items-center rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-600 transition hover:border-synvora-primary hover:text-synvora-primary"
+                  >
+                    Fees
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleCalendar(venue)}
+                    className="ml-2 inline-flex items-center rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-600 transition hover:border-synvora-primary hover:text-synvora-primary"
+                  >
+                    Business day
+                  </button>
                   <button
                     type="button"
                     onClick={() => handleDelete(venue)}
@@ -208,7 +266,7 @@ function VenuesSection({ venues, isLoading, mutate }: VenuesSectionProps) {
             ))}
             {!isLoading && venues.length === 0 ? (
               <tr>
-                <td colSpan={4} className="px-4 py-6 text-center text-slate-500">
+                <td colSpan={5} className="px-4 py-6 text-center text-slate-500">
                   No venues yet. Create one to get started.
                 </td>
               </tr>
@@ -216,6 +274,12 @@ function VenuesSection({ venues, isLoading, mutate }: VenuesSectionProps) {
           </tbody>
         </table>
       </div>
+
+      <FeeScheduleDialog
+        open={feeScheduleVenue !== null}
+        venue={feeScheduleVenue}
+        onClose={() => setFeeScheduleVenue(null)}
+      />
     </section>
   );
 }
@@ -1,24 +1,61 @@
 "use client";
 
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import useSWR from "swr";
-import { Plus, Store, Trash2, Edit2 } from "lucide-react";
+import { Plus, Store, Trash2, Edit2, RefreshCw, History, Webhook, Loader2 } from "lucide-react";
+import { toast } from "sonner";
 import { StoreDialog } from "@/components/shopify/store-dialog";
+import { SHOPIFY_SYNC_INTERVALS } from "@/lib/constants";
 
 type ShopifyStore = {
   id: number;
   storeDomain: string;
   nickname: string | null;
+  hasWebhookSecret: boolean;
   venue: {
     id: number;
     name: string;
   };
   createdAt: string;
+  syncEnabled: boolean;
+  syncIntervalMinutes: number;
+  lastSyncedAt: string | null;
+  syncRuns: SyncRun[];
   _count: {
     orders: number;
   };
 };
 
+type WebhookRegistration = {
+  address: string;
+  hasWebhookSecret: boolean;
+  subscriptions: Array<{ id: number; topic: string; address: string; format: string; api_version?: string }>;
+  drift: Array<{ topic: string; issue: "missing" | "other_address" | "not_json" | "unhandled_topic"; detail: string }>;
+  created: string[];
+  errors: Array<{ topic: string; message: string }>;
+};
+
+type SyncRun = {
+  id: number;
+  trigger: "cron" | "manual";
+  status: "running" | "success" | "failed";
+  fetched: number;
+  queued: number;
+  skipped: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+const formatInterval = (minutes: number) =>
+  minutes % 1440 === 0 ? `${minutes / 1440}d` : minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+
+const RUN_STATUS_STYLES: Record<SyncRun["status"], string> = {
+  running: "bg-amber-50 text-amber-700",
+  success: "bg-emerald-50 text-emerald-700",
+  failed: "bg-red-50 text-red-700"
+};
+
 const fetcher = async (url: string) => {
   const response = await fetch(url);
   const data = await response.json();
@@ -36,6 +73,9 @@ const fetcher = async (url: string) => {
 export default function ShopifyStoresPage() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingStore, setEditingStore] = useState<ShopifyStore | null>(null);
+  const [syncingId, setSyncingId] = useState<number | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [webhooksId, setWebhooksId] = useState<number | null>(null);
 
   const { data, error, isLoading, mutate } = useSWR<{ stores: ShopifyStore[] }>(
     "/api/shopify-stores",
@@ -71,6 +111,44 @@ export default function ShopifyStoresPage() {
     }
   };
 
+  const updateSchedule = async (
+    store: ShopifyStore,
+    changes: Partial<Pick<ShopifyStore, "syncEnabled" | "syncIntervalMinutes">>
+  ) => {
+    const response = await fetch(`/api/shopify-stores/${store.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes)
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      toast.error(data?.message || "Failed to update sync schedule");
+    }
+    mutate();
+  };
+
+  const handleSyncNow = async (store: ShopifyStore) => {
+    setSyncingId(store.id);
+    try {
+      const response = await fetch(`/api/shopify-stores/${store.id}/sync`, { method: "POST" });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        toast.error(data?.message || "Failed to sync store");
+      } else if (data.run.status === "failed") {
+        toast.error(`Sync failed: ${data.run.error}`);
+      } else if (data.run.status === "running") {
+        toast.info("A sync for this store is already running");
+      } else {
+        toast.success(`Fetched ${data.run.fetched} orders, ${data.run.queued} new in Pending Imports`);
+      }
+    } finally {
+      setSyncingId(null);
+      mutate();
+    }
+  };
+
   const handleEdit = (store: ShopifyStore) => {
     setEditingStore(store);
     setDialogOpen(true);
@@ -168,6 +246,12 @@ export default function ShopifyStoresPage() {
                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wide text-slate-500">
                   Orders
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wide text-slate-500">
+                  Auto Sync
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wide text-slate-500">
+                  Last Run
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wide text-slate-500">
                   Added
                 </th>
@@ -177,49 +261,130 @@ export default function ShopifyStoresPage() {
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-200 bg-white">
-              {data.stores.map((store) => (
-                <tr key={store.id} className="hover:bg-slate-50 transition">
-                  <td className="px-6 py-4">
-                    <div>
-                      <div className="text-sm font-medium text-slate-900">
-                        {store.nickname || store.storeDomain}
-                      </div>
-                      {store.nickname && (
-                        <div className="text-sm text-slate-500">{store.storeDomain}</div>
-                      )}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-slate-900">{store.venue.name}</div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-slate-900">{store._count.orders}</div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-slate-500">
-                      {new Date(store.createdAt).toLocaleDateString()}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 text-right">
-                    <div className="flex items-center justify-end gap-2">
-                      <button
-                        onClick={() => handleEdit(store)}
-                        className="inline-flex items-center gap-1 rounded px-2 py-1 text-sm text-slate-600 hover:bg-slate-100 transition"
-                      >
-                        <Edit2 className="h-4 w-4" />
-                        Edit
-                      </button>
-                      <button
-                        onClick={() => handleDelete(store)}
-                        className="inline-flex items-center gap-1 rounded px-2 py-1 text-sm text-red-600 hover:bg-red-50 transition"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                        Delete
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
+              {data.stores.map((store) => {
+                const lastRun = store.syncRuns[0];
+                return (
+                  <Fragment key={store.id}>
+                    <tr className="hover:bg-slate-50 transition">
+                      <td className="px-6 py-4">
+                        <div>
+                          <div className="text-sm font-medium text-slate-900">
+                            {store.nickname || store.storeDomain}
+                          </div>
+                          {store.nickname && (
+                            <div className="text-sm text-slate-500">{store.storeDomain}</div>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-sm text-slate-900">{store.venue.name}</div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-sm text-slate-900">{store._count.orders}</div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={store.syncEnabled}
+                            onChange={(e) => updateSchedule(store, { syncEnabled: e.target.checked })}
+                            className="h-4 w-4 rounded border-slate-300 text-synvora-primary focus:ring-synvora-primary"
+                            aria-label="Enable scheduled sync"
+                          />
+                          <select
+                            value={store.syncIntervalMinutes}
+                            onChange={(e) => updateSchedule(store, { syncIntervalMinutes: Number(e.target.value) })}
+                            disabled={!store.syncEnabled}
+                            className="rounded border border-slate-200 px-2 py-1 text-sm text-slate-700 disabled:opacity-50"
+                          >
+                            {SHOPIFY_SYNC_INTERVALS.map((minutes) => (
+                              <option key={minutes} value={minutes}>
+                                Every {formatInterval(minutes)}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        {lastRun ? (
+                          <div className="text-sm">
+                            <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${RUN_STATUS_STYLES[lastRun.status]}`}>
+                              {lastRun.status}
+                            </span>
+                            <span className="ml-2 text-slate-500">{new Date(lastRun.startedAt).toLocaleString()}</span>
+                            <div className="mt-1 text-xs text-slate-500">
+                              {lastRun.status === "failed"
+                                ? lastRun.error
+                                : `${lastRun.fetched} fetched · ${lastRun.queued} queued`}
+                            </div>
+                          </div>
+                        ) : (
+                          <span className="text-sm text-slate-400">Never</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-sm text-slate-500">
+                          {new Date(store.createdAt).toLocaleDateString()}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() => handleSyncNow(store)}
+                            disabled={syncingId === store.id}
+                            className="inline-flex items-center gap-1 rounded px-2 py-1 text-sm text-slate-600 hover:bg-slate-100 transition disabled:opacity-50"
+                          >
+                            <RefreshCw className={`h-4 w-4 ${syncingId === store.id ? "animate-spin" : ""}`} />
+                            Sync now
+                          </button>
+                          <button
+                            onClick={() => setHistoryId(historyId === store.id ? null : store.id)}
+                            className="inline-flex items-center gap-1 rounded px-2 py-1 text-sm text-slate-600 hover:bg-slate-100 transition"
+                          >
+                            <History className="h-4 w-4" />
+                            Runs
+                          </button>
+                          <button
+                            onClick={() => setWebhooksId(webhooksId === store.id ? null : store.id)}
+                            className="inline-flex items-center gap-1 rounded px-2 py-1 text-sm text-slate-600 hover:bg-slate-100 transition"
+                          >
+                            <Webhook className="h-4 w-4" />
+                            Webhooks
+                          </button>
+                          <button
+                            onClick={() => handleEdit(store)}
+                            className="inline-flex items-center gap-1 rounded px-2 py-1 text-sm text-slate-600 hover:bg-slate-100 transition"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDelete(store)}
+                            className="inline-flex items-center gap-1 rounded px-2 py-1 text-sm text-red-600 hover:bg-red-50 transition"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            Delete
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                    {historyId === store.id && (
+                      <tr>
+                        <td colSpan={7} className="bg-slate-50 px-6 py-4">
+                          <SyncRunHistory storeId={store.id} />
+                        </td>
+                      </tr>
+                    )}
+                    {webhooksId === store.id && (
+                      <tr>
+                        <td colSpan={7} className="bg-slate-50 px-6 py-4">
+                          <WebhookRegistrationPanel storeId={store.id} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
             </tbody>
           </table>
         </div>
@@ -234,3 +399,178 @@ export default function ShopifyStoresPage() {
     </div>
   );
 }
+
+function SyncRunHistory({ storeId }: { storeId: number }) {
+  const { data, error, isLoading } = useSWR<{ runs: SyncRun[] }>(`/api/shopify-stores/${storeId}/sync`, fetcher);
+
+  if (isLoading) {
+    return <div className="text-sm text-slate-500">Loading runs...</div>;
+  }
+
+  if (error) {
+    return <div className="text-sm text-red-600">Failed to load sync runs</div>;
+  }
+
+  if (!data?.runs.length) {
+    return <div className="text-sm text-slate-500">No sync runs yet.</div>;
+  }
+
+  return (
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs font-medium uppercase tracking-wide text-slate-500">
+          <th className="py-2 pr-4">Started</th>
+          <th className="py-2 pr-4">Trigger</th>
+          <th className="py-2 pr-4">Status</th>
+          <th className="py-2 pr-4 text-right">Fetched</th>
+          <th className="py-2 pr-4 text-right">Queued</th>
+          <th className="py-2 pr-4 text-right">Skipped</th>
+          <th className="py-2">Error</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-200">
+        {data.runs.map((run) => (
+          <tr key={run.id}>
+            <td className="py-2 pr-4 text-slate-700">{new Date(run.startedAt).toLocaleString()}</td>
+            <td className="py-2 pr-4 text-slate-500">{run.trigger}</td>
+            <td className="py-2 pr-4">
+              <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${RUN_STATUS_STYLES[run.status]}`}>
+                {run.status}
+              </span>
+            </td>
+            <td className="py-2 pr-4 text-right text-slate-700">{run.fetched}</td>
+            <td className="py-2 pr-4 text-right text-slate-700">{run.queued}</td>
+            <td className="py-2 pr-4 text-right text-slate-700">{run.skipped}</td>
+            <td className="py-2 text-red-600">{run.error}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+const DRIFT_LABELS: Record<WebhookRegistration["drift"][number]["issue"], string> = {
+  missing: "Missing",
+  other_address: "Other address",
+  not_json: "Wrong format",
+  unhandled_topic: "Not handled"
+};
+
+function WebhookRegistrationPanel({ storeId }: { storeId: number }) {
+  const [registering, setRegistering] = useState(false);
+  const { data, error, isLoading, mutate } = useSWR<WebhookRegistration>(
+    `/api/shopify-stores/${storeId}/webhooks`,
+    fetcher
+  );
+
+  const handleRegister = async () => {
+    setRegistering(true);
+    try {
+      const response = await fetch(`/api/shopify-stores/${storeId}/webhooks`, { method: "POST" });
+      const result = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        toast.error(result?.message || "Failed to register webhooks");
+        return;
+      }
+
+      if (result.errors.length) {
+        toast.error(`Could not subscribe ${result.errors.map((e: { topic: string }) => e.topic).join(", ")}`);
+      } else if (result.created.length) {
+        toast.success(`Subscribed ${result.created.join(", ")}`);
+      } else {
+        toast.info("All webhook topics were already subscribed");
+      }
+      mutate(result, { revalidate: false });
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-sm text-slate-500">Loading webhooks...</div>;
+  }
+
+  if (error) {
+    return <div className="text-sm text-red-600">{(error as any)?.info?.message || "Failed to load webhooks"}</div>;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="text-sm text-slate-600">
+          <div>
+            Delivering to <span className="font-mono text-xs text-slate-900">{data.address}</span>
+          </div>
+          <div className={`mt-1 text-xs ${data.hasWebhookSecret ? "text-slate-500" : "text-amber-700"}`}>
+            {data.hasWebhookSecret
+              ? "Signatures are verified with this store's webhook secret."
+              : "No webhook secret for this store; signatures are checked with SHOPIFY_WEBHOOK_SECRET if set. Add one under Edit."}
+          </div>
+        </div>
+        <button
+          onClick={handleRegister}
+          disabled={registering}
+          className="inline-flex flex-none items-center gap-2 rounded-lg bg-synvora-primary px-3 py-1.5 text-sm font-semibold text-white shadow-sm transition hover:bg-synvora-primary/90 disabled:opacity-50"
+        >
+          {registering ? <Loader2 className="h-4 w-4 animate-spin" /> : <Webhook className="h-4 w-4" />}
+          Register webhooks
+        </button>
+      </div>
+
+      {data.drift.length > 0 ? (
+        <div className="rounded-md border border-amber-200 bg-amber-50 p-3">
+          <div className="text-xs font-semibold uppercase tracking-wide text-amber-800">Drift</div>
+          <ul className="mt-2 space-y-1 text-sm text-amber-900">
+            {data.drift.map((drift) => (
+              <li key={`${drift.issue}-${drift.topic}`}>
+                <span className="font-medium">{drift.topic}</span>
+                <span className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs">{DRIFT_LABELS[drift.issue]}</span>
+                <span className="ml-2 text-amber-800">{drift.detail}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <div className="text-sm text-emerald-700">All required topics are subscribed at this address.</div>
+      )}
+
+      {data.errors.length > 0 && (
+        <ul className="space-y-1 text-sm text-red-600">
+          {data.errors.map((registrationError) => (
+            <li key={registrationError.topic}>
+              {registrationError.topic}: {registrationError.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {data.subscriptions.length > 0 && (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-medium uppercase tracking-wide text-slate-500">
+              <th className="py-2 pr-4">Topic</th>
+              <th className="py-2 pr-4">Address</th>
+              <th className="py-2 pr-4">Format</th>
+              <th className="py-2">API Version</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            {data.subscriptions.map((subscription) => (
+              <tr key={subscription.id}>
+                <td className="py-2 pr-4 text-slate-700">{subscription.topic}</td>
+                <td className="py-2 pr-4 font-mono text-xs text-slate-500">{subscription.address}</td>
+                <td className="py-2 pr-4 text-slate-500">{subscription.format}</td>
+                <td className="py-2 text-slate-500">{subscription.api_version ?? "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import useSWR from "swr";
+import { ChevronDown, ChevronRight, Loader2, RotateCcw, Webhook } from "lucide-react";
+import { toast } from "sonner";
+import { cn, formatDateTime } from "@/lib/utils";
+
+type DeliveryStatus = "received" | "processed" | "ignored" | "failed" | "rejected";
+
+type Delivery = {
+  id: number;
+  webhookId: string | null;
+  topic: string;
+  shopDomain: string | null;
+  hmacStatus: "verified" | "invalid" | "missing" | "unchecked";
+  status: DeliveryStatus;
+  message: string | null;
+  error: string | null;
+  replayCount: number;
+  receivedAt: string;
+  processedAt: string | null;
+};
+
+type DeliveriesResponse = {
+  deliveries: Delivery[];
+  topics: string[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalCount: number;
+    totalPages: number;
+  };
+};
+
+const STATUSES: DeliveryStatus[] = ["processed", "failed", "rejected", "ignored", "received"];
+
+const STATUS_BADGES: Record<DeliveryStatus, string> = {
+  received: "bg-slate-200 text-synvora-text-secondary",
+  processed: "bg-emerald-100 text-emerald-700",
+  ignored: "bg-slate-200 text-synvora-text-secondary",
+  failed: "bg-rose-100 text-rose-700",
+  rejected: "bg-amber-100 text-amber-700"
+};
+
+const HMAC_LABELS: Record<Delivery["hmacStatus"], string> = {
+  verified: "Verified",
+  invalid: "Invalid",
+  missing: "Missing",
+  unchecked: "Not checked"
+};
+
+const fetcher = (url: string) =>
+  fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error("Request failed");
+    }
+    return response.json();
+  });
+
+const prettyPrint = (body: string) => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+// Payloads can be large, so they're only fetched once a row is opened
+function DeliveryPayload({ deliveryId }: { deliveryId: number }) {
+  const { data, isLoading, error } = useSWR<{ delivery: Delivery & { rawBody: string } }>(
+    `/api/shopify-webhooks/${deliveryId}`,
+    fetcher
+  );
+
+  if (isLoading) {
+    return <p className="text-xs text-synvora-text-secondary">Loading payload...</p>;
+  }
+
+  if (error || !data) {
+    return <p className="text-xs text-rose-600">Failed to load payload</p>;
+  }
+
+  return (
+    <pre className="max-h-96 overflow-auto rounded-lg border border-synvora-border bg-white p-3 text-xs text-synvora-text">
+      {prettyPrint(data.delivery.rawBody)}
+    </pre>
+  );
+}
+
+export default function WebhookDeliveriesPage() {
+  const [status, setStatus] = useState("");
+  const [topic, setTopic] = useState("");
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [replayingId, setReplayingId] = useState<number | null>(null);
+
+  const params = new URLSearchParams({ page: String(page) });
+  if (status) params.set("status", status);
+  if (topic) params.set("topic", topic);
+
+  const { data, isLoading, error, mutate } = useSWR<DeliveriesResponse>(
+    `/api/shopify-webhooks?${params.toString()}`,
+    fetcher
+  );
+
+  const deliveries = data?.deliveries ?? [];
+  const totalPages = data?.pagination.totalPages ?? 1;
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const replay = async (delivery: Delivery) => {
+    setReplayingId(delivery.id);
+    const response = await fetch(`/api/shopify-webhooks/${delivery.id}/replay`, { method: "POST" });
+    setReplayingId(null);
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      toast.error(payload?.message ?? "Failed to replay delivery.");
+      return;
+    }
+
+    const replayed = payload?.delivery as Delivery | undefined;
+    if (replayed?.status === "failed") {
+      toast.error(replayed.error ?? replayed.message ?? "Replay failed.");
+    } else {
+      toast.success(replayed?.message ?? "Delivery replayed.");
+    }
+    mutate();
+  };
+
+  const inputClass =
+    "rounded-lg border border-synvora-border bg-white px-3 py-2 text-sm shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-synvora-text">Webhooks</h1>
+        <p className="mt-1 text-sm text-synvora-text-secondary">
+          Every Shopify webhook delivery with its signature check and outcome. Signed deliveries can be replayed once
+          the underlying problem, such as a missing store, is fixed.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <select value={status} onChange={(e) => updateFilter(setStatus)(e.target.value)} className={inputClass}>
+          <option value="">All outcomes</option>
+          {STATUSES.map((value) => (
+            <option key={value} value={value} className="capitalize">
+              {value}
+            </option>
+          ))}
+        </select>
+        <select value={topic} onChange={(e) => updateFilter(setTopic)(e.target.value)} className={inputClass}>
+          <option value="">All topics</option>
+          {(data?.topics ?? []).map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="rounded-xl border border-synvora-border bg-white shadow-sm">
+        {isLoading ? (
+          <div className="py-12 text-center text-sm text-synvora-text-secondary">Loading deliveries...</div>
+        ) : error ? (
+          <div className="py-12 text-center text-sm text-rose-600">Failed to load deliveries</div>
+        ) : deliveries.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 px-6 py-12 text-center">
+            <Webhook className="h-6 w-6 text-synvora-text-secondary" />
+            <p className="text-sm text-synvora-text-secondary">No webhook deliveries match these filters.</p>
+          </div>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="border-b border-synvora-border bg-synvora-surface">
+              <tr className="text-left text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+                <th className="w-10 px-4 py-3" />
+                <th className="px-3 py-3">Received</th>
+                <th className="px-3 py-3">Topic</th>
+                <th className="px-3 py-3">Shop</th>
+                <th className="px-3 py-3">Signature</th>
+                <th className="px-3 py-3">Outcome</th>
+                <th className="px-3 py-3 text-right">Replay</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-synvora-border">
+              {deliveries.map((delivery) => {
+                const expanded = expandedId === delivery.id;
+                // Invalid signatures are re-checked on replay, in case the store's secret was fixed since
+                const replayable = delivery.hmacStatus !== "missing";
+                return (
+                  <Fragment key={delivery.id}>
+                    <tr
+                      onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                      className="cursor-pointer transition hover:bg-synvora-surface-hover"
+                    >
+                      <td className="px-4 py-3 text-synvora-text-secondary">
+                        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-3 text-synvora-text-secondary">
+                        {formatDateTime(delivery.receivedAt)}
+                      </td>
+                      <td className="px-3 py-3 font-medium text-synvora-text">{delivery.topic}</td>
+                      <td className="px-3 py-3 text-synvora-text-secondary">{delivery.shopDomain ?? "—"}</td>
+                      <td
+                        className={cn(
+                          "px-3 py-3 text-xs font-medium",
+                          delivery.hmacStatus === "verified"
+                            ? "text-emerald-700"
+                            : delivery.hmacStatus === "unchecked"
+                              ? "text-synvora-text-secondary"
+                              : "text-rose-600"
+                        )}
+                      >
+                        {HMAC_LABELS[delivery.hmacStatus]}
+                      </td>
+                      <td className="px-3 py-3">
+                        <div className="flex flex-col gap-0.5">
+                          <span
+                            className={cn(
+                              "inline-flex w-fit items-center rounded-full px-2.5 py-0.5 text-xs font-semibold capitalize",
+                              STATUS_BADGES[delivery.status]
+                            )}
+                          >
+                            {delivery.status}
+                          </span>
+                          {(delivery.error || delivery.message) && (
+                            <span
+                              className={cn(
+                                "max-w-xs truncate text-xs",
+                                delivery.error ? "text-rose-600" : "text-synvora-text-secondary"
+                              )}
+                              title={delivery.error ?? delivery.message ?? undefined}
+                            >
+                              {delivery.error ?? delivery.message}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-3 py-3 text-right">
+                        <button
+                          type="button"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            replay(delivery);
+                          }}
+                          disabled={!replayable || replayingId !== null}
+                          title={replayable ? undefined : "Unsigned deliveries can't be replayed"}
+                          className="inline-flex items-center gap-1 text-xs font-medium text-synvora-text-secondary transition hover:text-synvora-primary disabled:opacity-50"
+                        >
+                          {replayingId === delivery.id ? (
+                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                          ) : (
+                            <RotateCcw className="h-3.5 w-3.5" />
+                          )}
+                          Replay
+                        </button>
+                        {delivery.replayCount > 0 && (
+                          <p className="mt-0.5 text-xs text-synvora-text-secondary">
+                            Replayed {delivery.replayCount}×
+                          </p>
+                        )}
+                      </td>
+                    </tr>
+                    {expanded && (
+                      <tr className="bg-synvora-surface">
+                        <td />
+                        <td colSpan={6} className="space-y-2 px-3 py-3">
+                          <p className="text-xs text-synvora-text-secondary">
+                            Delivery #{delivery.id}
+                            {delivery.webhookId && ` · Shopify webhook ${delivery.webhookId}`}
+                            {delivery.processedAt && ` · processed ${formatDateTime(delivery.processedAt)}`}
+                          </p>
+                          <DeliveryPayload deliveryId={delivery.id} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between border-t border-synvora-border px-5 py-3 text-sm">
+            <span className="text-synvora-text-secondary">
+              Page {page} of {totalPages}
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setPage((current) => current - 1)}
+                disabled={page <= 1}
+                className="rounded-lg border border-synvora-border px-3 py-1.5 text-xs font-medium text-synvora-text-secondary transition hover:bg-synvora-surface-hover disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                type="button"
+                onClick={() => setPage((current) => current + 1)}
+                disabled={page >= totalPages}
+                className="rounded-lg border border-synvora-border px-3 py-1.5 text-xs font-medium text-synvora-text-secondary transition hover:bg-synvora-surface-hover disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { buildForecast } from "@/lib/forecast";
+
+const querySchema = z.object({
+  venueIds: z.array(z.coerce.number().int().positive())
+});
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const parsed = querySchema.safeParse({
+    venueIds: url.searchParams.getAll("venueId")
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const isAdmin = session.user.role === "ADMIN";
+  const accessibleVenueIds = (session.user.venueIds ?? []).map(Number).filter((n) => !Number.isNaN(n));
+
+  if (!isAdmin && parsed.data.venueIds.some((id) => !accessibleVenueIds.includes(id))) {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  let venueIds: number[];
+  if (parsed.data.venueIds.length) {
+    venueIds = Array.from(new Set(parsed.data.venueIds));
+  } else if (isAdmin) {
+    const all = await prisma.venue.findMany({ select: { id: true } });
+    venueIds = all.map((v) => v.id);
+  } else {
+    venueIds = accessibleVenueIds;
+  }
+
+  try {
+    // AED payout liability is an admin figure, as on the rest of the analytics page
+    const forecast = await buildForecast(venueIds, isAdmin);
+    return NextResponse.json(forecast);
+  } catch (error: any) {
+    console.error("Failed to build forecast", error);
+    return NextResponse.json({ message: "Failed to build forecast", error: error?.message }, { status: 500 });
+  }
+}
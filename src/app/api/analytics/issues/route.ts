@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { detectAnomalies } from "@/lib/anomalies";
+
+const querySchema = z.object({
+  venueIds: z.array(z.coerce.number().int().positive()),
+  days: z.coerce.number().int().min(1).max(365).default(30)
+});
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const url = new URL(request.url);
+  const parsed = querySchema.safeParse({
+    venueIds: url.searchParams.getAll("venueId"),
+    days: url.searchParams.get("days") ?? undefined
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  let venueIds = Array.from(new Set(parsed.data.venueIds));
+  if (!venueIds.length) {
+    const all = await prisma.venue.findMany({ select: { id: true } });
+    venueIds = all.map((v) => v.id);
+  }
+
+  try {
+    const anomalies = await detectAnomalies(venueIds, parsed.data.days);
+    return NextResponse.json({ days: parsed.data.days, anomalies });
+  } catch (error: any) {
+    console.error("Failed to detect anomalies", error);
+    return NextResponse.json({ message: "Failed to detect anomalies", error: error?.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { buildProductPerformance } from "@/lib/product-analytics";
+
+const querySchema = z.object({
+  venueId: z.coerce.number().int().positive().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "From must be YYYY-MM-DD"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "To must be YYYY-MM-DD")
+});
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsed = querySchema.safeParse({
+    venueId: searchParams.get("venueId") ?? undefined,
+    from: searchParams.get("from") ?? undefined,
+    to: searchParams.get("to") ?? undefined
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { venueId, from, to } = parsed.data;
+  if (from > to) {
+    return NextResponse.json({ message: "The range must start before it ends" }, { status: 400 });
+  }
+
+  const isAdmin = session.user.role === "ADMIN";
+  const accessibleVenueIds = (session.user.venueIds ?? []).map(Number).filter((n) => !Number.isNaN(n));
+  if (venueId && !isAdmin && !accessibleVenueIds.includes(venueId)) {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  let venueIds: number[];
+  if (venueId) {
+    venueIds = [venueId];
+  } else if (isAdmin) {
+    const all = await prisma.venue.findMany({ select: { id: true } });
+    venueIds = all.map((v) => v.id);
+  } else {
+    venueIds = accessibleVenueIds;
+  }
+
+  try {
+    const report = await buildProductPerformance(venueIds, from, to);
+    return NextResponse.json(report);
+  } catch (error: any) {
+    console.error("Failed to build product analytics", error);
+    return NextResponse.json(
+      { message: "Failed to build product analytics", error: error?.message },
+      { status: 500 }
+    );
+  }
+}
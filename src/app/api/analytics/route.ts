@@ -1,30 +1,105 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
+import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
-import { calculatePayoutFromOrder } from "@/lib/order-utils";
-import { BUSINESS_MONTH_START_DAY, CLIENT_COMMISSION_RATE } from "@/lib/constants";
+import {
+  BUSINESS_PERIOD_GRANULARITIES,
+  type BusinessPeriodGranularity,
+  businessDaysWhere,
+  getBusinessMonth,
+  getBusinessMonthWindow,
+  getBusinessPeriod,
+  isDateKey,
+  loadBusinessCalendars,
+  todayBusinessDayKey,
+  toUtcDate
+} from "@/lib/business-calendar";
+import { loadDailyVenueStats } from "@/lib/daily-venue-stats";
 
-const MONTH_NAMES = [
-  "January", "February", "March", "April", "May", "June",
-  "July", "August", "September", "October", "November", "December"
-];
 const MONTH_SHORT = ["Jan", "Feb", "Mar", "Apr", "May", "Jun",
   "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The series walks every day of the range, overall and per venue, so ranges are capped
+const MAX_RANGE_YEARS: Record<BusinessPeriodGranularity, number> = { day: 5, week: 5, month: 20, quarter: 20 };
+
+const querySchema = z
+  .object({
+    venueIds: z.array(z.coerce.number().int().positive()),
+    from: z.string().refine(isDateKey, "From must be YYYY-MM-DD").optional(),
+    to: z.string().refine(isDateKey, "To must be YYYY-MM-DD").optional(),
+    granularity: z.enum(BUSINESS_PERIOD_GRANULARITIES).default("month")
+  })
+  .refine((query) => !query.from === !query.to, { message: "From and to must be given together", path: ["to"] })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "The range must start before it ends",
+    path: ["to"]
+  })
+  .refine(
+    (query) =>
+      !query.from ||
+      !query.to ||
+      toUtcDate(query.to).getTime() - toUtcDate(query.from).getTime() <=
+        MAX_RANGE_YEARS[query.granularity] * 366 * DAY_MS,
+    { message: "The range is too long for this granularity", path: ["to"] }
+  );
+
+type DayTotals = {
+  ordersCount: number;
+  egpTotal: number;
+  aedPayout: number;
+  deductions: number;
+  revenue: number;
+  payout: number;
+};
+
+const emptyTotals = (): DayTotals => ({ ordersCount: 0, egpTotal: 0, aedPayout: 0, deductions: 0, revenue: 0, payout: 0 });
+
+const addTotals = (target: DayTotals, source: DayTotals) => {
+  target.ordersCount += source.ordersCount;
+  target.egpTotal += source.egpTotal;
+  target.aedPayout += source.aedPayout;
+  target.deductions += source.deductions;
+  target.revenue += source.revenue;
+  target.payout += source.payout;
+};
+
+const addToDay = (days: Map<string, DayTotals>, dateKey: string, totals: DayTotals) => {
+  const day = days.get(dateKey) ?? emptyTotals();
+  addTotals(day, totals);
+  days.set(dateKey, day);
+};
+
 export async function GET(request: Request) {
   const session = await getServerSession(authOptions);
   if (!session) return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
 
   const url = new URL(request.url);
-  const tzOffsetMinutes = Number(url.searchParams.get("tzOffset") ?? "0");
-  const tzOffsetMs = Number.isFinite(tzOffsetMinutes) ? tzOffsetMinutes * 60 * 1000 : 0;
+  const parsed = querySchema.safeParse({
+    venueIds: url.searchParams.getAll("venueId"),
+    from: url.searchParams.get("from") ?? undefined,
+    to: url.searchParams.get("to") ?? undefined,
+    granularity: url.searchParams.get("granularity") ?? undefined
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
 
+  const { from, to, granularity } = parsed.data;
   const isAdmin = session.user.role === "ADMIN";
   const accessibleVenueIds = (session.user.venueIds ?? []).map(Number).filter((n) => !Number.isNaN(n));
 
+  if (!isAdmin && parsed.data.venueIds.some((id) => !accessibleVenueIds.includes(id))) {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
   let venueIds: number[];
-  if (isAdmin) {
+  if (parsed.data.venueIds.length) {
+    venueIds = Array.from(new Set(parsed.data.venueIds));
+  } else if (isAdmin) {
     const all = await prisma.venue.findMany({ select: { id: true } });
     venueIds = all.map((v) => v.id);
   } else {
@@ -32,166 +107,91 @@ export async function GET(request: Request) {
     venueIds = accessibleVenueIds;
   }
 
-  const orders = await prisma.order.findMany({
-    where: { venueId: { in: venueIds } },
-    select: {
-      id: true,
-      processedAt: true,
-      totalAmount: true,
-      originalAmount: true,
-      exchangeRate: true,
-      aedEgpRate: true,
-      financialStatus: true,
-      currency: true,
-      orderNumber: true
-    },
-    orderBy: { processedAt: "asc" }
-  });
-
-  const deductions = await prisma.dailyDeduction.findMany({
-    where: { venueId: { in: venueIds } },
-    select: {
-      venueId: true,
-      date: true,
-      amount: true
-    },
-    orderBy: { date: "asc" }
-  });
-
-  // Helper: resolve AED/EGP rate from order (aedEgpRate if set, else exchangeRate if it looks like AED rate ≤20)
-  const getAedRate = (o: { aedEgpRate?: number | null; exchangeRate?: number | null }) =>
-    o.aedEgpRate ?? (o.exchangeRate && o.exchangeRate <= 20 ? o.exchangeRate : null);
-
-  const calculateNetAedPayout = (o: {
-    originalAmount?: number | null;
-    aedEgpRate?: number | null;
-    exchangeRate?: number | null;
-  }) => {
-    const rate = getAedRate(o);
-    if (typeof o.originalAmount === "number" && o.originalAmount > 0 && rate && rate > 0) {
-      return o.originalAmount * (1 - CLIENT_COMMISSION_RATE) / rate;
-    }
-    return 0;
-  };
-
-  const getLocalDateParts = (value: Date) => {
-    const localDate = new Date(value.getTime() - tzOffsetMs);
-
-    return {
-      year: localDate.getUTCFullYear(),
-      monthIndex: localDate.getUTCMonth(),
-      day: localDate.getUTCDate()
-    };
-  };
-
-  const getBusinessMonthStart = (year: number, monthIndex: number) =>
-    new Date(Date.UTC(year, monthIndex, BUSINESS_MONTH_START_DAY, 0, 0, 0, 0) + tzOffsetMs);
-
-  const getBusinessMonthEnd = (year: number, monthIndex: number) =>
-    new Date(Date.UTC(year, monthIndex + 1, BUSINESS_MONTH_START_DAY - 1, 23, 59, 59, 999) + tzOffsetMs);
-
-  const getBusinessMonthMeta = (value: Date) => {
-    const { year, monthIndex, day } = getLocalDateParts(value);
-
-    return getBusinessMonthMetaFromParts(year, monthIndex, day);
-  };
-
-  const getBusinessMonthMetaFromParts = (year: number, monthIndex: number, day: number) => {
-    let businessYear = year;
-    let businessMonthIndex = monthIndex;
+  const inRange = (dateKey: string) => !from || !to || (dateKey >= from && dateKey <= to);
+
+  // Daily rollup per venue, each on its own business calendar; orders and deductions are summed in SQL when the
+  // rollup is (re)built
+  const calendars = await loadBusinessCalendars(venueIds);
+  const [stats, statusCounts, venues] = await Promise.all([
+    loadDailyVenueStats(venueIds),
+    prisma.order.groupBy({
+      by: ["financialStatus"],
+      where: {
+        venueId: { in: venueIds },
+        deletedAt: null,
+        ...(from && to ? businessDaysWhere(calendars, from, to) : {})
+      },
+      _count: { _all: true }
+    }),
+    prisma.venue.findMany({ where: { id: { in: venueIds } }, select: { id: true, name: true }, orderBy: { name: "asc" } })
+  ]);
+
+  // Per business day: every venue combined, and each venue on its own
+  const allDays = new Map<string, DayTotals>();
+  const venueDays = new Map<number, Map<string, DayTotals>>(venues.map((venue) => [venue.id, new Map()]));
+  for (const row of stats) {
+    const dateKey = row.date.toISOString().slice(0, 10);
+    addToDay(allDays, dateKey, row);
+    addToDay(venueDays.get(row.venueId) ?? new Map(), dateKey, row);
+  }
 
-    if (day < BUSINESS_MONTH_START_DAY) {
-      businessMonthIndex -= 1;
-      if (businessMonthIndex < 0) {
-        businessMonthIndex = 11;
-        businessYear -= 1;
-      }
+  const monthTotals = (days: Map<string, DayTotals>) => {
+    const months = new Map<string, DayTotals>();
+    for (const [dateKey, day] of Array.from(days.entries())) {
+      addToDay(months, getBusinessMonth(dateKey).key, day);
     }
-
-    return {
-      year: businessYear,
-      monthIndex: businessMonthIndex,
-      key: `${businessYear}-${String(businessMonthIndex + 1).padStart(2, "0")}`,
-      label: `${MONTH_NAMES[businessMonthIndex]} ${businessYear}`
-    };
+    return months;
   };
 
-  const getStoredDateParts = (value: Date) => ({
-    year: value.getUTCFullYear(),
-    monthIndex: value.getUTCMonth(),
-    day: value.getUTCDate()
+  const netAed = (totals: DayTotals) => totals.aedPayout - totals.deductions;
+  const serializeTotals = (totals: DayTotals) => ({
+    orders: totals.ordersCount,
+    egpTotal: totals.egpTotal,
+    aedTotal: isAdmin ? netAed(totals) : null,
+    revenue: totals.revenue,
+    payout: totals.payout
   });
 
-  const deductionMonthTotals = new Map<string, number>();
-  const deductionDayTotals = new Map<string, number>();
-
-  for (const deduction of deductions) {
-    const { year, monthIndex, day } = getStoredDateParts(deduction.date);
-    const monthMeta = getBusinessMonthMetaFromParts(year, monthIndex, day);
-    deductionMonthTotals.set(
-      monthMeta.key,
-      (deductionMonthTotals.get(monthMeta.key) ?? 0) + deduction.amount
-    );
-
-    const dateKey = `${year}-${String(monthIndex + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
-    deductionDayTotals.set(dateKey, (deductionDayTotals.get(dateKey) ?? 0) + deduction.amount);
-  }
-
   // --- Last 12 months (for KPI cards + bar chart) ---
-  const localNow = new Date(Date.now() - tzOffsetMs);
-  const currentLocalYear = localNow.getUTCFullYear();
-  const currentLocalMonthIndex = localNow.getUTCMonth();
+  const allMonthTotals = monthTotals(allDays);
+  const today = todayBusinessDayKey(calendars);
+  const { year: currentYear, monthIndex: currentMonthIndex } = getBusinessMonth(today);
   const months: {
     month: string; label: string; orders: number; egpTotal: number;
     aedTotal: number | null; revenue: number; payout: number;
   }[] = [];
 
   for (let i = 11; i >= 0; i--) {
-    const d = new Date(Date.UTC(currentLocalYear, currentLocalMonthIndex - i, 1));
+    const d = new Date(Date.UTC(currentYear, currentMonthIndex - i, 1));
     const key = `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, "0")}`;
     const label = `${MONTH_SHORT[d.getUTCMonth()]} ${String(d.getUTCFullYear()).slice(-2)}`;
 
-    const bizStart = getBusinessMonthStart(d.getUTCFullYear(), d.getUTCMonth());
-    const bizEnd = getBusinessMonthEnd(d.getUTCFullYear(), d.getUTCMonth());
-
-    const mo = orders.filter((o) => {
-      const pd = new Date(o.processedAt);
-      return pd >= bizStart && pd <= bizEnd;
-    });
-
-    const revenue = mo.reduce((s, o) => s + o.totalAmount, 0);
-    const payout = mo.reduce((s, o) => s + calculatePayoutFromOrder(o), 0);
-    const egpTotal = mo.reduce((s, o) =>
-      typeof o.originalAmount === "number" && o.originalAmount > 0 ? s + o.originalAmount : s, 0);
-    const aedTotal = mo.reduce((s, o) => s + calculateNetAedPayout(o), 0);
-
-    months.push({
-      month: key,
-      label,
-      orders: mo.length,
-      egpTotal,
-      aedTotal: isAdmin ? aedTotal - (deductionMonthTotals.get(key) ?? 0) : null,
-      revenue,
-      payout
-    });
+    months.push({ month: key, label, ...serializeTotals(allMonthTotals.get(key) ?? emptyTotals()) });
   }
 
-  // --- All-time totals ---
-  const totalOrders = orders.length;
-  const totalRevenue = orders.reduce((s, o) => s + o.totalAmount, 0);
-  const totalPayout = orders.reduce((s, o) => s + calculatePayoutFromOrder(o), 0);
+  // --- Totals over the range, or all-time ---
+  const rangeDays = new Map(Array.from(allDays.entries()).filter(([dateKey]) => inRange(dateKey)));
+  const rangeTotals = (days: Map<string, DayTotals>) => {
+    const totals = emptyTotals();
+    for (const [dateKey, day] of Array.from(days.entries())) {
+      if (inRange(dateKey)) addTotals(totals, day);
+    }
+    return totals;
+  };
+
+  const overall = rangeTotals(allDays);
+  const totalOrders = overall.ordersCount;
+  const totalRevenue = overall.revenue;
+  const totalPayout = overall.payout;
   const avgOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
-  const allTimeEGP = orders.reduce((s, o) =>
-    typeof o.originalAmount === "number" && o.originalAmount > 0 ? s + o.originalAmount : s, 0);
-  const allTimeAED =
-    orders.reduce((s, o) => s + calculateNetAedPayout(o), 0) -
-    deductions.reduce((s, deduction) => s + deduction.amount, 0);
+  const allTimeEGP = overall.egpTotal;
+  const allTimeAED = netAed(overall);
 
   // --- Payment status breakdown ---
   const breakdown: Record<string, number> = {};
-  for (const o of orders) {
-    const status = o.financialStatus ?? "Unknown";
-    breakdown[status] = (breakdown[status] ?? 0) + 1;
+  for (const row of statusCounts) {
+    const status = row.financialStatus ?? "Unknown";
+    breakdown[status] = (breakdown[status] ?? 0) + row._count._all;
   }
 
   // --- Month-over-month ---
@@ -202,92 +202,77 @@ export async function GET(request: Request) {
   const momOrdersChange =
     prevMonth.orders > 0 ? ((currentMonth.orders - prevMonth.orders) / prevMonth.orders) * 100 : null;
 
-  // --- All-time accordion (month → days) for drill-down UI ---
+  // --- Series at the requested granularity; the last 12 business months unless a range is given ---
+  const seriesFrom = from ?? getBusinessMonthWindow(months[0].month).startKey;
+  const seriesTo = to ?? today;
+  const buildSeries = (days: Map<string, DayTotals>) => {
+    const periods = new Map<string, { label: string; totals: DayTotals }>();
+    for (let time = toUtcDate(seriesFrom).getTime(); time <= toUtcDate(seriesTo).getTime(); time += DAY_MS) {
+      const dateKey = new Date(time).toISOString().slice(0, 10);
+      const { key, label } = getBusinessPeriod(dateKey, granularity);
+      const period = periods.get(key) ?? { label, totals: emptyTotals() };
+      const day = days.get(dateKey);
+      if (day) addTotals(period.totals, day);
+      periods.set(key, period);
+    }
+    return Array.from(periods.entries()).map(([period, { label, totals }]) => ({
+      period,
+      label,
+      ...serializeTotals(totals)
+    }));
+  };
+
+  // --- Side-by-side venue comparison ---
+  const venueComparison = venues.map((venue) => {
+    const days = venueDays.get(venue.id)!;
+    return {
+      venueId: venue.id,
+      venueName: venue.name,
+      totals: serializeTotals(rangeTotals(days)),
+      series: buildSeries(days)
+    };
+  });
+
+  // --- Accordion (month → days) for drill-down UI, over the range ---
+  const rangeMonthTotals = monthTotals(rangeDays);
   const allMonthMap = new Map<string, {
     label: string; ordersCount: number; egpTotal: number; aedTotal: number | null; revenue: number; payout: number;
-    days: Map<string, { label: string; ordersCount: number; egpTotal: number; aedTotal: number | null; revenue: number; payout: number }>;
+    days: Array<{ date: string; label: string; ordersCount: number; egpTotal: number; aedTotal: number | null; revenue: number; payout: number }>;
   }>();
 
-  const ensureMonthEntry = (monthKey: string, monthLabel: string) => {
+  for (const [dateKey, day] of Array.from(rangeDays.entries())) {
+    const [year, month, dayOfMonth] = dateKey.split("-").map(Number);
+    const { key: monthKey, label: monthLabel } = getBusinessMonth(dateKey);
     if (!allMonthMap.has(monthKey)) {
+      const totals = rangeMonthTotals.get(monthKey)!;
       allMonthMap.set(monthKey, {
         label: monthLabel,
-        ordersCount: 0,
-        egpTotal: 0,
-        aedTotal: isAdmin ? 0 : null,
-        revenue: 0,
-        payout: 0,
-        days: new Map()
+        ordersCount: totals.ordersCount,
+        egpTotal: totals.egpTotal,
+        aedTotal: isAdmin ? netAed(totals) : null,
+        revenue: totals.revenue,
+        payout: totals.payout,
+        days: []
       });
     }
-    return allMonthMap.get(monthKey)!;
-  };
 
-  const ensureDayEntry = (
-    monthEntry: {
-      label: string; ordersCount: number; egpTotal: number; aedTotal: number | null; revenue: number; payout: number;
-      days: Map<string, { label: string; ordersCount: number; egpTotal: number; aedTotal: number | null; revenue: number; payout: number }>;
-    },
-    dateKey: string,
-    label: string
-  ) => {
-    if (!monthEntry.days.has(dateKey)) {
-      monthEntry.days.set(dateKey, {
-        label,
-        ordersCount: 0,
-        egpTotal: 0,
-        aedTotal: isAdmin ? 0 : null,
-        revenue: 0,
-        payout: 0
-      });
-    }
-    return monthEntry.days.get(dateKey)!;
-  };
-
-  for (const o of orders) {
-    const processedAt = new Date(o.processedAt);
-    const { key: monthKey, label: monthLabel } = getBusinessMonthMeta(processedAt);
-    const { year: localYear, monthIndex: localMonthIndex, day: localDay } = getLocalDateParts(processedAt);
-    const dateKey = `${localYear}-${String(localMonthIndex + 1).padStart(2, "0")}-${String(localDay).padStart(2, "0")}`;
-    const dayLabel = `${MONTH_SHORT[localMonthIndex]} ${localDay}`;
-    const m = ensureMonthEntry(monthKey, monthLabel);
-    m.ordersCount++;
-    m.revenue += o.totalAmount;
-    m.payout += calculatePayoutFromOrder(o);
-    if (typeof o.originalAmount === "number" && o.originalAmount > 0) m.egpTotal += o.originalAmount;
-    if (m.aedTotal !== null) m.aedTotal += calculateNetAedPayout(o);
-    const day = ensureDayEntry(m, dateKey, dayLabel);
-    day.ordersCount++;
-    day.revenue += o.totalAmount;
-    day.payout += calculatePayoutFromOrder(o);
-    if (typeof o.originalAmount === "number" && o.originalAmount > 0) day.egpTotal += o.originalAmount;
-    if (day.aedTotal !== null) day.aedTotal += calculateNetAedPayout(o);
-  }
-
-  for (const deduction of deductions) {
-    const { year, monthIndex, day } = getStoredDateParts(deduction.date);
-    const monthMeta = getBusinessMonthMetaFromParts(year, monthIndex, day);
-    const dateKey = `${year}-${String(monthIndex + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
-    const monthEntry = ensureMonthEntry(monthMeta.key, monthMeta.label);
-    if (monthEntry.aedTotal !== null) monthEntry.aedTotal -= deduction.amount;
-
-    const dayEntry = ensureDayEntry(monthEntry, dateKey, `${MONTH_SHORT[monthIndex]} ${day}`);
-    if (dayEntry.aedTotal !== null) dayEntry.aedTotal -= deduction.amount;
+    allMonthMap.get(monthKey)!.days.push({
+      date: dateKey,
+      label: `${MONTH_SHORT[month - 1]} ${dayOfMonth}`,
+      ordersCount: day.ordersCount,
+      egpTotal: day.egpTotal,
+      aedTotal: isAdmin ? netAed(day) : null,
+      revenue: day.revenue,
+      payout: day.payout
+    });
   }
 
   const allMonths = Array.from(allMonthMap.entries())
     .sort((a, b) => b[0].localeCompare(a[0]))
     .map(([month, data]) => ({
       month,
-      label: data.label,
-      ordersCount: data.ordersCount,
-      egpTotal: data.egpTotal,
-      aedTotal: data.aedTotal,
-      revenue: data.revenue,
-      payout: data.payout,
-      days: Array.from(data.days.entries())
-        .map(([date, d]) => ({ date, ...d }))
-        .sort((a, b) => a.date.localeCompare(b.date))
+      ...data,
+      days: data.days.sort((a, b) => a.date.localeCompare(b.date))
     }));
 
   return NextResponse.json({
@@ -303,6 +288,9 @@ export async function GET(request: Request) {
     breakdown,
     momPayoutChange,
     momOrdersChange,
-    allMonths
+    allMonths,
+    range: { from: seriesFrom, to: seriesTo, granularity },
+    series: buildSeries(allDays),
+    venues: venueComparison
   });
 }
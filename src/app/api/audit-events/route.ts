@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { AUDIT_ENTITY_TYPES } from "@/lib/audit";
+
+const PAGE_SIZE = 50;
+
+const filterSchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  actorId: z.coerce.number().int().positive().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  tzOffset: z.coerce.number().optional(),
+  page: z.coerce.number().int().positive().default(1)
+});
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsed = filterSchema.safeParse(
+    Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ""))
+  );
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid filters", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { entityType, entityId, actorId, from, to, page } = parsed.data;
+  const tzOffsetMs = (parsed.data.tzOffset ?? 0) * 60 * 1000;
+
+  const where: Prisma.AuditEventWhereInput = {};
+  if (entityType) where.entityType = entityType;
+  if (entityId) where.entityId = entityId;
+  if (actorId) where.actorId = actorId;
+  if (from || to) {
+    where.createdAt = {
+      ...(from ? { gte: new Date(new Date(`${from}T00:00:00.000Z`).getTime() + tzOffsetMs) } : {}),
+      ...(to ? { lte: new Date(new Date(`${to}T23:59:59.999Z`).getTime() + tzOffsetMs) } : {})
+    };
+  }
+
+  const [totalCount, events] = await Promise.all([
+    prisma.auditEvent.count({ where }),
+    prisma.auditEvent.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      skip: (page - 1) * PAGE_SIZE,
+      take: PAGE_SIZE
+    })
+  ]);
+
+  return NextResponse.json({
+    events: events.map((event) => ({
+      id: event.id,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      actorId: event.actorId,
+      actorEmail: event.actorEmail,
+      before: event.before,
+      after: event.after,
+      createdAt: event.createdAt.toISOString()
+    })),
+    pagination: {
+      page,
+      pageSize: PAGE_SIZE,
+      totalCount,
+      totalPages: Math.ceil(totalCount / PAGE_SIZE)
+    }
+  });
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+
+const updateSchema = z.object({
+  enabled: z.boolean().optional(),
+  requireCatalogMatch: z.boolean().optional(),
+  requirePaid: z.boolean().optional(),
+  requireDailyRate: z.boolean().optional()
+});
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const ruleId = Number(params.id);
+  if (Number.isNaN(ruleId)) {
+    return NextResponse.json({ message: "Invalid rule id" }, { status: 400 });
+  }
+
+  const body = await request.json();
+  const parsed = updateSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const existing = await prisma.autoApproveRule.findUnique({ where: { id: ruleId }, select: { id: true } });
+  if (!existing) {
+    return NextResponse.json({ message: "Rule not found" }, { status: 404 });
+  }
+
+  try {
+    const rule = await prisma.autoApproveRule.update({
+      where: { id: ruleId },
+      data: parsed.data,
+      include: {
+        store: { select: { id: true, storeDomain: true, nickname: true } },
+        venue: { select: { id: true, name: true } }
+      }
+    });
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error("Failed to update auto-approve rule", error);
+    return NextResponse.json({ message: "Failed to update rule" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const ruleId = Number(params.id);
+  if (Number.isNaN(ruleId)) {
+    return NextResponse.json({ message: "Invalid rule id" }, { status: 400 });
+  }
+
+  const existing = await prisma.autoApproveRule.findUnique({ where: { id: ruleId }, select: { id: true } });
+  if (!existing) {
+    return NextResponse.json({ message: "Rule not found" }, { status: 404 });
+  }
+
+  await prisma.autoApproveRule.delete({ where: { id: ruleId } });
+  return NextResponse.json({ message: "Rule deleted" });
+}
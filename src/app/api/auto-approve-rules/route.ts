@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+
+const createSchema = z
+  .object({
+    storeId: z.number().int().positive().optional(),
+    venueId: z.number().int().positive().optional(),
+    enabled: z.boolean().default(true),
+    requireCatalogMatch: z.boolean().default(true),
+    requirePaid: z.boolean().default(true),
+    requireDailyRate: z.boolean().default(true)
+  })
+  .refine((data) => Boolean(data.storeId) !== Boolean(data.venueId), "A rule applies to exactly one store or venue");
+
+const ruleInclude = {
+  store: { select: { id: true, storeDomain: true, nickname: true } },
+  venue: { select: { id: true, name: true } }
+};
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const rules = await prisma.autoApproveRule.findMany({
+    include: ruleInclude,
+    orderBy: { createdAt: "asc" }
+  });
+
+  return NextResponse.json({ rules });
+}
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const parsed = createSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { storeId, venueId } = parsed.data;
+
+  const [store, venue, existing] = await Promise.all([
+    storeId ? prisma.shopifyStore.findUnique({ where: { id: storeId }, select: { id: true } }) : null,
+    venueId ? prisma.venue.findUnique({ where: { id: venueId }, select: { id: true } }) : null,
+    prisma.autoApproveRule.findFirst({ where: storeId ? { storeId } : { venueId } })
+  ]);
+
+  if (storeId && !store) {
+    return NextResponse.json({ message: "Store not found" }, { status: 404 });
+  }
+  if (venueId && !venue) {
+    return NextResponse.json({ message: "Venue not found" }, { status: 404 });
+  }
+  if (existing) {
+    return NextResponse.json(
+      { message: `This ${storeId ? "store" : "venue"} already has an auto-approve rule` },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const rule = await prisma.autoApproveRule.create({
+      data: parsed.data,
+      include: ruleInclude
+    });
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create auto-approve rule", error);
+    return NextResponse.json({ message: "Failed to create rule" }, { status: 500 });
+  }
+}
@@ -2,7 +2,6 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
-import { calculatePayoutFromOrder } from "@/lib/order-utils";
 
 export async function GET() {
   const session = await getServerSession(authOptions);
@@ -15,54 +14,38 @@ export async function GET() {
     .map((id) => Number(id))
     .filter((id) => !Number.isNaN(id));
 
-  // Determine which venues to compute balances for
-  let venueIds: number[];
-  if (isAdmin) {
-    const allVenues = await prisma.venue.findMany({ select: { id: true } });
-    venueIds = allVenues.map((v) => v.id);
-  } else {
-    if (!accessibleVenueIds.length) {
-      return NextResponse.json({ venues: [] });
-    }
-    venueIds = accessibleVenueIds;
+  if (!isAdmin && !accessibleVenueIds.length) {
+    return NextResponse.json({ venues: [] });
   }
 
-  const venues = await prisma.venue.findMany({
-    where: { id: { in: venueIds } },
-    select: { id: true, name: true, slug: true, balanceAdjustment: true }
-  });
-
-  const results = await Promise.all(
-    venues.map(async (venue) => {
-      const [orders, payouts] = await Promise.all([
-        prisma.order.findMany({
-          where: { venueId: venue.id },
-          select: { totalAmount: true, originalAmount: true, aedEgpRate: true }
-        }),
-        prisma.payout.findMany({
-          where: { venueId: venue.id },
-          select: { amount: true }
-        })
-      ]);
-
-      const totalOrdersPayout = orders.reduce(
-        (sum, order) => sum + calculatePayoutFromOrder(order),
-        0
-      );
-      const totalPaidOut = payouts.reduce((sum, p) => sum + p.amount, 0);
-      const pendingBalance = totalOrdersPayout + venue.balanceAdjustment - totalPaidOut;
-
-      return {
-        id: venue.id,
-        name: venue.name,
-        slug: venue.slug,
-        balanceAdjustment: venue.balanceAdjustment,
-        totalOrdersPayout,
-        totalPaidOut,
-        pendingBalance
-      };
+  const venueWhere = isAdmin ? {} : { id: { in: accessibleVenueIds } };
+
+  // The pending balance is kept on the venue by the ledger; totals come from one grouped query
+  const [venues, totals] = await Promise.all([
+    prisma.venue.findMany({
+      where: venueWhere,
+      select: { id: true, name: true, slug: true, balanceAdjustment: true, ledgerBalance: true }
+    }),
+    prisma.ledgerEntry.groupBy({
+      by: ["venueId", "type"],
+      where: isAdmin ? {} : { venueId: { in: accessibleVenueIds } },
+      _sum: { amount: true }
     })
-  );
+  ]);
+
+  const totalFor = (venueId: number, type: string) =>
+    totals.find((row) => row.venueId === venueId && row.type === type)?._sum.amount ?? 0;
+
+  const results = venues.map((venue) => ({
+    id: venue.id,
+    name: venue.name,
+    slug: venue.slug,
+    balanceAdjustment: venue.balanceAdjustment,
+    totalOrdersPayout: totalFor(venue.id, "ORDER"),
+    totalPaidOut: -totalFor(venue.id, "PAYOUT"),
+    totalDeductions: -totalFor(venue.id, "DEDUCTION"),
+    pendingBalance: venue.ledgerBalance
+  }));
 
   return NextResponse.json({ venues: results });
 }
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { purgeExpiredOrders } from "@/lib/order-trash";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const purged = await purgeExpiredOrders();
+    return NextResponse.json({ purged });
+  } catch (error) {
+    console.error("Purge trash error:", error);
+    return NextResponse.json({ message: "Failed to purge trash" }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { runDueShopifySyncs } from "@/lib/shopify-sync";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const runs = await runDueShopifySyncs();
+    return NextResponse.json({
+      runs: runs.map((run) => ({
+        storeId: run.storeId,
+        status: run.status,
+        fetched: run.fetched,
+        queued: run.queued,
+        error: run.error
+      }))
+    });
+  } catch (error) {
+    console.error("Scheduled Shopify sync error:", error);
+    return NextResponse.json({ message: "Failed to run Shopify sync" }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { mergeCustomers, unmergeCustomerName } from "@/lib/customers";
+
+const mergeSchema = z.object({
+  names: z.array(z.string().min(1)).min(2),
+  canonicalName: z.string().trim().min(1)
+});
+
+const unmergeSchema = z.object({
+  name: z.string().min(1)
+});
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const parsed = mergeSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const merged = await mergeCustomers(parsed.data.names, parsed.data.canonicalName);
+    return NextResponse.json({
+      merged,
+      message: `Merged ${merged} customer${merged !== 1 ? "s" : ""} into ${parsed.data.canonicalName}`
+    });
+  } catch (error) {
+    console.error("Error merging customers:", error);
+    return NextResponse.json({ message: "Failed to merge customers" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const parsed = unmergeSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const removed = await unmergeCustomerName(parsed.data.name);
+    if (!removed) {
+      return NextResponse.json({ message: "Name is not merged into another customer" }, { status: 404 });
+    }
+    return NextResponse.json({ message: `${parsed.data.name} is a separate customer again` });
+  } catch (error) {
+    console.error("Error unmerging customer:", error);
+    return NextResponse.json({ message: "Failed to unmerge customer" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getCustomerOrders } from "@/lib/customers";
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const key = new URL(request.url).searchParams.get("key");
+  if (!key) {
+    return NextResponse.json({ message: "Customer key is required" }, { status: 400 });
+  }
+
+  try {
+    const orders = await getCustomerOrders(key);
+    return NextResponse.json({ orders });
+  } catch (error) {
+    console.error("Error loading customer orders:", error);
+    return NextResponse.json({ message: "Failed to load customer orders" }, { status: 500 });
+  }
+}
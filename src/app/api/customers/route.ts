@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { buildCustomerDirectory } from "@/lib/customers";
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const customers = await buildCustomerDirectory();
+    return NextResponse.json({ customers });
+  } catch (error) {
+    console.error("Error building customer directory:", error);
+    return NextResponse.json({ message: "Failed to load customers" }, { status: 500 });
+  }
+}
@@ -3,25 +3,25 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { syncLedger } from "@/lib/ledger";
+import { isDateKey, toUtcDate } from "@/lib/business-calendar";
 
 const querySchema = z.object({
-  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+  date: z.string().refine(isDateKey, "Date must be YYYY-MM-DD")
 });
 
 const mutationSchema = z.object({
-  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  date: z.string().refine(isDateKey, "Date must be YYYY-MM-DD"),
   venueId: z.number().int().positive(),
   amount: z.number().nonnegative(),
   note: z.string().max(500).optional().nullable()
 });
 
 const deleteSchema = z.object({
-  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  date: z.string().refine(isDateKey, "Date must be YYYY-MM-DD"),
   venueId: z.number().int().positive()
 });
 
-const toUtcDate = (value: string) => new Date(`${value}T00:00:00.000Z`);
-
 const serializeDeduction = (deduction: {
   id: number;
   venueId: number;
@@ -38,6 +38,19 @@ const serializeDeduction = (deduction: {
   venue: deduction.venue
 });
 
+// Reverses the ledger debit along with the row
+const deleteDeductions = async (venueId: number, date: Date) => {
+  const existing = await prisma.dailyDeduction.findMany({
+    where: { venueId, date },
+    select: { id: true }
+  });
+
+  await prisma.$transaction(async (tx) => {
+    await tx.dailyDeduction.deleteMany({ where: { venueId, date } });
+    await syncLedger({ deductions: existing.map((deduction) => deduction.id) }, tx);
+  });
+};
+
 export async function GET(request: Request) {
   const session = await getServerSession(authOptions);
   if (!session) {
@@ -103,12 +116,7 @@ export async function POST(request: Request) {
   const date = toUtcDate(parsed.data.date);
 
   if (parsed.data.amount === 0) {
-    await prisma.dailyDeduction.deleteMany({
-      where: {
-        venueId: parsed.data.venueId,
-        date
-      }
-    });
+    await deleteDeductions(parsed.data.venueId, date);
 
     return NextResponse.json({ deduction: null });
   }
@@ -137,6 +145,8 @@ export async function POST(request: Request) {
     }
   });
 
+  await syncLedger({ deductions: [deduction.id] });
+
   return NextResponse.json({ deduction: serializeDeduction(deduction) });
 }
 
@@ -153,12 +163,7 @@ export async function DELETE(request: Request) {
     return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
   }
 
-  await prisma.dailyDeduction.deleteMany({
-    where: {
-      venueId: parsed.data.venueId,
-      date: toUtcDate(parsed.data.date)
-    }
-  });
+  await deleteDeductions(parsed.data.venueId, toUtcDate(parsed.data.date));
 
   return NextResponse.json(null, { status: 204 });
 }
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { applyRerateDayPlan, buildRerateDayPlan } from "@/lib/rerate-day";
+import { isDateKey } from "@/lib/business-calendar";
+
+const rerateSchema = z.object({
+  venueId: z.number().int().positive(),
+  date: z.string().refine(isDateKey, "Date must be YYYY-MM-DD"),
+  aedEgpRate: z.number().positive(),
+  // false → preview only, true → write the new amounts
+  apply: z.boolean().default(false)
+});
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const parsed = rerateSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { venueId, date, aedEgpRate, apply } = parsed.data;
+
+  const venue = await prisma.venue.findUnique({
+    where: { id: venueId },
+    select: { id: true }
+  });
+
+  if (!venue) {
+    return NextResponse.json({ message: "Venue not found" }, { status: 404 });
+  }
+
+  try {
+    const plan = await buildRerateDayPlan(venueId, date, aedEgpRate);
+
+    if (!apply) {
+      return NextResponse.json({ plan, applied: false });
+    }
+
+    const updated = await applyRerateDayPlan(plan, session);
+
+    return NextResponse.json({
+      plan,
+      applied: true,
+      updated,
+      message: `Re-rated ${updated} order${updated !== 1 ? "s" : ""}`
+    });
+  } catch (error) {
+    console.error("Re-rate day error:", error);
+    return NextResponse.json({ message: "Failed to re-rate day" }, { status: 500 });
+  }
+}
@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { isDateKey, toUtcDate } from "@/lib/business-calendar";
+
+const querySchema = z.object({
+  venueId: z.coerce.number().int().positive().optional(),
+  from: z.string().refine(isDateKey, "Date must be YYYY-MM-DD"),
+  to: z.string().refine(isDateKey, "Date must be YYYY-MM-DD")
+});
+
+const mutationSchema = z.object({
+  date: z.string().refine(isDateKey, "Date must be YYYY-MM-DD"),
+  venueId: z.number().int().positive(),
+  aedEgpRate: z.number().positive()
+});
+
+const deleteSchema = z.object({
+  date: z.string().refine(isDateKey, "Date must be YYYY-MM-DD"),
+  venueId: z.number().int().positive()
+});
+
+const serializeRate = (rate: {
+  id: number;
+  venueId: number;
+  date: Date;
+  aedEgpRate: number;
+  updatedAt: Date;
+  venue: { id: number; name: string; slug: string };
+}) => ({
+  id: rate.id,
+  venueId: rate.venueId,
+  date: rate.date.toISOString().slice(0, 10),
+  aedEgpRate: rate.aedEgpRate,
+  updatedAt: rate.updatedAt.toISOString(),
+  venue: rate.venue
+});
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const parsed = querySchema.safeParse({
+    venueId: url.searchParams.get("venueId") ?? undefined,
+    from: url.searchParams.get("from"),
+    to: url.searchParams.get("to")
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid filters" }, { status: 400 });
+  }
+
+  const rates = await prisma.dailyRate.findMany({
+    where: {
+      ...(parsed.data.venueId ? { venueId: parsed.data.venueId } : {}),
+      date: {
+        gte: toUtcDate(parsed.data.from),
+        lte: toUtcDate(parsed.data.to)
+      }
+    },
+    include: {
+      venue: {
+        select: { id: true, name: true, slug: true }
+      }
+    },
+    orderBy: [{ date: "asc" }, { venueId: "asc" }]
+  });
+
+  return NextResponse.json({ rates: rates.map(serializeRate) });
+}
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const parsed = mutationSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const venue = await prisma.venue.findUnique({
+    where: { id: parsed.data.venueId },
+    select: { id: true }
+  });
+
+  if (!venue) {
+    return NextResponse.json({ message: "Venue not found" }, { status: 404 });
+  }
+
+  const date = toUtcDate(parsed.data.date);
+
+  const rate = await prisma.dailyRate.upsert({
+    where: {
+      venueId_date: {
+        venueId: parsed.data.venueId,
+        date
+      }
+    },
+    update: {
+      aedEgpRate: parsed.data.aedEgpRate
+    },
+    create: {
+      venueId: parsed.data.venueId,
+      date,
+      aedEgpRate: parsed.data.aedEgpRate
+    },
+    include: {
+      venue: {
+        select: { id: true, name: true, slug: true }
+      }
+    }
+  });
+
+  return NextResponse.json({ rate: serializeRate(rate) });
+}
+
+export async function DELETE(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const parsed = deleteSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  await prisma.dailyRate.deleteMany({
+    where: {
+      venueId: parsed.data.venueId,
+      date: toUtcDate(parsed.data.date)
+    }
+  });
+
+  return NextResponse.json(null, { status: 204 });
+}
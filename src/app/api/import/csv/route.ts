@@ -9,6 +9,9 @@ import {
   ensureVenue,
   generateNextOrderNumber
 } from "@/lib/order-utils";
+import { syncLedger } from "@/lib/ledger";
+import { recordAuditEvent } from "@/lib/audit";
+import { loadFeeTerms } from "@/lib/fee-schedules";
 
 const importSchema = z.object({
   customerName: z.string().optional(),
@@ -50,6 +53,7 @@ export async function POST(request: Request) {
       : DEFAULT_EXCHANGE_RATE;
 
   let imported = 0;
+  const feeTerms = await loadFeeTerms([venueRecord.id]);
 
   for (const item of parsed.data.orders) {
     const processedAt =
@@ -62,28 +66,38 @@ export async function POST(request: Request) {
     const originalAmount = Number(item.originalAmount);
     const exchangeRate = batchExchangeRate;
 
-    const { totalAmount } = calculateFromOriginalAmount(originalAmount, exchangeRate);
+    const { totalAmount } = calculateFromOriginalAmount(
+      originalAmount,
+      exchangeRate,
+      feeTerms(venueRecord.id, processedAt)
+    );
     const orderNumber = await generateNextOrderNumber();
 
-    await prisma.order.create({
-      data: {
-        orderNumber,
-        customerName,
-        venueId: venueRecord.id,
-        status: "Open",
-        financialStatus: "Paid",
-        totalAmount,
-        currency: "USD",
-        processedAt,
-        originalAmount,
-        exchangeRate,
-        notes: "Imported via CSV",
-        createdById: Number(session.user.id),
-        tags: "",
-        lineItems: {
-          create: []
+    await prisma.$transaction(async (tx) => {
+      const created = await tx.order.create({
+        data: {
+          orderNumber,
+          customerName,
+          venueId: venueRecord.id,
+          status: "Open",
+          financialStatus: "Paid",
+          totalAmount,
+          currency: "USD",
+          processedAt,
+          originalAmount,
+          rateType: "USD_EGP",
+          exchangeRate,
+          notes: "Imported via CSV",
+          createdById: Number(session.user.id),
+          tags: "",
+          lineItems: {
+            create: []
+          }
         }
-      }
+      });
+
+      await recordAuditEvent(session, { action: "create", entityType: "Order", entityId: created.id, after: created }, tx);
+      await syncLedger({ orders: [created.id] }, tx);
     });
 
     imported += 1;
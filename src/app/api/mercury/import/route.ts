@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { syncLedger } from "@/lib/ledger";
+import { recordAuditEvent } from "@/lib/audit";
 
 const schema = z.object({
   transactions: z.array(z.object({
@@ -84,22 +86,27 @@ export async function POST(request: Request) {
       const counterpartyName = transaction.counterparty?.name || transaction.merchant?.name || "Unknown";
 
       // Create payout from transaction
-      await prisma.payout.create({
-        data: {
-          amount: Math.abs(transaction.amount), // Store as positive value for payout record
-          currency: "USD",
-          status: "Posted",
-          description: transaction.memo || `Mercury: ${counterpartyName}`,
-          account: "Mercury",
-          bank: null,
-          processedAt: new Date(transaction.postedAt || transaction.createdAt || new Date().toISOString()),
-          notes: transaction.memo || null,
-          venueId,
-          createdById: Number(session.user.id),
-          mercuryTransactionId: transaction.id,
-          syncedToMercury: true, // Already synced since it came from Mercury
-          syncedAt: new Date()
-        }
+      await prisma.$transaction(async (tx) => {
+        const payout = await tx.payout.create({
+          data: {
+            amount: Math.abs(transaction.amount), // Store as positive value for payout record
+            currency: "USD",
+            status: "Posted",
+            description: transaction.memo || `Mercury: ${counterpartyName}`,
+            account: "Mercury",
+            bank: null,
+            processedAt: new Date(transaction.postedAt || transaction.createdAt || new Date().toISOString()),
+            notes: transaction.memo || null,
+            venueId,
+            createdById: Number(session.user.id),
+            mercuryTransactionId: transaction.id,
+            syncedToMercury: true, // Already synced since it came from Mercury
+            syncedAt: new Date()
+          }
+        });
+
+        await recordAuditEvent(session, { action: "create", entityType: "Payout", entityId: payout.id, after: payout }, tx);
+        await syncLedger({ payouts: [payout.id] }, tx);
       });
 
       imported++;
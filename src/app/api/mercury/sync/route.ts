@@ -4,6 +4,7 @@ import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { MercuryClient } from "@/lib/mercury";
+import { recordAuditEvent } from "@/lib/audit";
 
 const syncSchema = z.object({
   payoutIds: z.array(z.number()).optional(),
@@ -92,13 +93,17 @@ export async function POST(request: Request) {
       });
 
       // Update payout with Mercury transaction ID
-      await prisma.payout.update({
-        where: { id: payout.id },
-        data: {
-          mercuryTransactionId: transaction.id,
-          syncedToMercury: true,
-          syncedAt: new Date()
-        }
+      const { venue: _venue, ...before } = payout;
+      await prisma.$transaction(async (tx) => {
+        const after = await tx.payout.update({
+          where: { id: payout.id },
+          data: {
+            mercuryTransactionId: transaction.id,
+            syncedToMercury: true,
+            syncedAt: new Date()
+          }
+        });
+        await recordAuditEvent(session, { action: "update", entityType: "Payout", entityId: payout.id, before, after }, tx);
       });
 
       results.synced++;
@@ -4,7 +4,11 @@ import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { ensureVenue } from "@/lib/order-utils";
 import { authOptions } from "@/lib/auth";
-import { PLATFORM_FEE_MULTIPLIER } from "@/lib/constants";
+import { recordAuditEvent } from "@/lib/audit";
+import { syncLedger } from "@/lib/ledger";
+import { trashOrders } from "@/lib/order-trash";
+import { getFeeTerms } from "@/lib/fee-schedules";
+import type { FeeTerms } from "@/lib/fee-terms";
 
 const updateSchema = z
   .object({
@@ -26,7 +30,7 @@ const updateSchema = z
   })
   .strict();
 
-const serializeOrder = (order: any) => ({
+const serializeOrder = (order: any, feeTerms: FeeTerms) => ({
   id: order.id,
   externalId: order.externalId,
   orderNumber: order.orderNumber,
@@ -61,10 +65,53 @@ const serializeOrder = (order: any) => ({
   source: order.source,
   exchangeRate: order.exchangeRate,
   aedEgpRate: order.aedEgpRate,
+  rateType: order.rateType,
+  feeTerms,
   originalAmount: order.originalAmount,
+  lineItems: (order.lineItems ?? []).map((item: any) => ({
+    id: item.id,
+    productName: item.productName,
+    quantity: item.quantity,
+    sku: item.sku,
+    price: item.price,
+    total: item.total,
+    productId: item.productId,
+    egpUnitPrice: item.egpUnitPrice,
+    egpTotal: item.egpTotal
+  })),
   shopifyStoreId: order.shopifyStoreId
 });
 
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const orderId = Number(params.id);
+  if (Number.isNaN(orderId)) {
+    return NextResponse.json({ message: "Invalid order id" }, { status: 400 });
+  }
+
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, deletedAt: null },
+    include: { venue: true, lineItems: true }
+  });
+  if (!order) {
+    return NextResponse.json({ message: "Order not found" }, { status: 404 });
+  }
+
+  const venueIds = (session.user.venueIds ?? []).map((id) => Number(id));
+  if (session.user.role !== "ADMIN" && !venueIds.includes(order.venueId)) {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  return NextResponse.json(serializeOrder(order, await getFeeTerms(order.venueId, order.processedAt)));
+}
+
 export async function PATCH(
   request: Request,
   { params }: { params: { id: string } }
@@ -95,8 +142,8 @@ export async function PATCH(
 
   const data = parsed.data;
 
-  const existing = await prisma.order.findUnique({
-    where: { id: orderId },
+  const existing = await prisma.order.findFirst({
+    where: { id: orderId, deletedAt: null },
     include: { venue: true }
   });
 
@@ -132,17 +179,34 @@ export async function PATCH(
       : existing.originalAmount !== null
         ? existing.originalAmount
         : null;
+  const processedAt =
+    data.processedAt instanceof Date
+      ? data.processedAt
+      : data.processedAt
+        ? new Date(data.processedAt)
+        : existing.processedAt;
+  // Only the USD/EGP rate can be edited here, so a classified order without an AED/EGP rate pays out at a new one.
+  // The drawer always sends a rate, so an unchanged one says nothing; unclassified orders are left to the rate migration.
+  const rateType =
+    existing.rateType !== null &&
+    !existing.aedEgpRate &&
+    typeof data.exchangeRate === "number" &&
+    data.exchangeRate > 0 &&
+    data.exchangeRate !== existing.exchangeRate
+      ? "USD_EGP"
+      : existing.rateType;
+  const feeTerms = await getFeeTerms(venueRecord.id, processedAt);
   const baseAmount =
     typeof originalAmount === "number" && exchangeRate > 0
       ? Number((originalAmount / exchangeRate).toFixed(4))
       : null;
   const computedTotal =
     baseAmount !== null
-      ? Number((baseAmount * PLATFORM_FEE_MULTIPLIER).toFixed(2))
+      ? Number((baseAmount * feeTerms.platformFeeMultiplier).toFixed(2))
       : data.totalAmount ?? existing.totalAmount;
 
   await prisma.$transaction(async (tx) => {
-    await tx.order.update({
+    const saved = await tx.order.update({
       where: { id: orderId },
       data: {
         orderNumber,
@@ -152,32 +216,39 @@ export async function PATCH(
         financialStatus,
         fulfillmentStatus: data.fulfillmentStatus ?? existing.fulfillmentStatus,
         totalAmount: computedTotal,
+        rateType,
         exchangeRate,
         currency: data.currency ?? existing.currency,
-        processedAt:
-          data.processedAt instanceof Date
-            ? data.processedAt
-            : data.processedAt
-              ? new Date(data.processedAt)
-              : existing.processedAt,
+        processedAt,
         tags: Array.isArray(data.tags) ? data.tags.join(",") : existing.tags,
         notes: data.notes ?? existing.notes,
         originalAmount:
           typeof originalAmount === "number" ? originalAmount : null
-      }
+      },
+      include: { venue: true }
     });
+
+    await recordAuditEvent(
+      session,
+      { action: "update", entityType: "Order", entityId: orderId, before: existing, after: saved },
+      tx
+    );
+    await syncLedger(
+      { orders: [orderId], previousOrders: [{ venueId: existing.venueId, processedAt: existing.processedAt }] },
+      tx
+    );
   });
 
   const updated = await prisma.order.findUnique({
     where: { id: orderId },
-    include: { venue: true }
+    include: { venue: true, lineItems: true }
   });
 
   if (!updated) {
     return NextResponse.json({ message: "Order not found after update" }, { status: 404 });
   }
 
-  return NextResponse.json(serializeOrder(updated));
+  return NextResponse.json(serializeOrder(updated, feeTerms));
 }
 
 export async function DELETE(
@@ -199,11 +270,12 @@ export async function DELETE(
   }
 
   try {
-    await prisma.order.delete({
-      where: { id: orderId }
-    });
+    const trashed = await trashOrders([orderId], session);
+    if (!trashed) {
+      return NextResponse.json({ message: "Order not found" }, { status: 404 });
+    }
 
-    return NextResponse.json({ success: true, message: "Order deleted successfully" }, { status: 200 });
+    return NextResponse.json({ success: true, message: "Order moved to trash" }, { status: 200 });
   } catch (error) {
     console.error("Delete order error:", error);
     return NextResponse.json({ message: "Failed to delete order" }, { status: 500 });
@@ -4,6 +4,7 @@ import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { z } from "zod";
 import { rateLimit, getClientIp } from "@/lib/rate-limit";
+import { trashOrders } from "@/lib/order-trash";
 
 const bulkDeleteSchema = z.object({
     ids: z.array(z.number()).min(1),
@@ -39,19 +40,12 @@ export async function POST(request: Request) {
 
         const { ids } = parsed.data;
 
-        // Delete orders and their associated line items (handled by DB cascade or manually)
-        // Check if lineItems have cascade delete in schema
-        const deletedCount = await prisma.order.deleteMany({
-            where: {
-                id: {
-                    in: ids,
-                },
-            },
-        });
+        // Orders go to the trash; the purge job removes them after the retention period
+        const trashed = await trashOrders(ids, session);
 
         return NextResponse.json({
-            message: `Successfully deleted ${deletedCount.count} orders`,
-            count: deletedCount.count,
+            message: `Moved ${trashed} orders to trash`,
+            count: trashed,
         });
     } catch (error) {
         console.error("Bulk delete error:", error);
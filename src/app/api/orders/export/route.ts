@@ -3,21 +3,28 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import {
+  BUSINESS_MONTH_PATTERN,
+  businessDayRangeOf,
+  businessDaysWhere,
+  isFilterDate,
+  loadBusinessCalendars
+} from "@/lib/business-calendar";
 import { calculatePayoutFromOrder } from "@/lib/order-utils";
-import { BUSINESS_MONTH_START_DAY } from "@/lib/constants";
+import { loadFeeTerms } from "@/lib/fee-schedules";
 
 const dateRangeSchema = z.object({
   month: z
     .string()
-    .regex(/^\d{4}-\d{2}$/)
+    .regex(BUSINESS_MONTH_PATTERN)
     .optional(),
   startDate: z
     .string()
-    .regex(/^\d{2}\/\d{2}\/\d{4}$/)
+    .refine(isFilterDate)
     .optional(),
   endDate: z
     .string()
-    .regex(/^\d{2}\/\d{2}\/\d{4}$/)
+    .refine(isFilterDate)
     .optional()
 });
 
@@ -65,64 +72,18 @@ export async function GET(request: Request) {
     startDate: searchParams.get("startDate") ?? undefined,
     endDate: searchParams.get("endDate") ?? undefined
   });
-  const tzOffsetMinutes = Number(searchParams.get("tzOffset") ?? "0");
-  const tzOffsetMs = tzOffsetMinutes * 60 * 1000;
 
   if (!parseResult.success) {
     return NextResponse.json({ message: "Invalid filters" }, { status: 400 });
   }
 
-  const where: any = {};
-  let rangeStart: Date | undefined;
-  let rangeEnd: Date | undefined;
-
-  const parseLocalDate = (value?: string | null) => {
-    if (!value) return undefined;
-    const parts = value.split('/');
-    if (parts.length !== 3) return undefined;
-    const [day, month, year] = parts.map((segment) => Number(segment));
-    if (Number.isNaN(day) || Number.isNaN(month) || Number.isNaN(year)) {
-      return undefined;
-    }
-    return { day, month, year };
-  };
-
-  const startPayload = parseLocalDate(parseResult.data.startDate);
-  const endPayload = parseLocalDate(parseResult.data.endDate);
-
-  if (startPayload || endPayload) {
-    const start = startPayload ?? endPayload!;
-    const end = endPayload ?? startPayload!;
+  const where: any = { deletedAt: null };
 
-    // Convert local dates to UTC by adding timezone offset
-    // tzOffset is positive for timezones behind UTC (e.g., EST = +300 minutes)
-    let startDate = new Date(Date.UTC(start.year, start.month - 1, start.day, 0, 0, 0, 0) + tzOffsetMs);
-    let endDate = new Date(Date.UTC(end.year, end.month - 1, end.day, 23, 59, 59, 999) + tzOffsetMs);
-
-    if (startDate > endDate) {
-      const temp = startDate;
-      startDate = endDate;
-      endDate = temp;
-    }
-
-    rangeStart = startDate;
-    rangeEnd = endDate;
-  } else if (parseResult.data.month) {
-    const [year, month] = parseResult.data.month.split('-').map((value) => Number(value));
-    // Business month starts on BUSINESS_MONTH_START_DAY (2nd) because the club
-    // operates past midnight — post-midnight orders land on the next calendar day.
-    // "January 2026" = Jan 2 00:00 → Feb 1 23:59 in Shopify timestamps.
-    const startDate = new Date(Date.UTC(year, month - 1, BUSINESS_MONTH_START_DAY, 0, 0, 0, 0) + tzOffsetMs);
-    const endDate = new Date(Date.UTC(year, month, BUSINESS_MONTH_START_DAY - 1, 23, 59, 59, 999) + tzOffsetMs);
-    rangeStart = startDate;
-    rangeEnd = endDate;
-  }
-
-  if (rangeStart && rangeEnd) {
-    where.processedAt = {
-      gte: rangeStart,
-      lte: rangeEnd
-    };
+  // Each venue's orders are matched on its own business days
+  const range = businessDayRangeOf(parseResult.data);
+  if (range) {
+    const calendars = await loadBusinessCalendars(isAdmin ? undefined : venueIds);
+    where.AND = [...(where.AND ?? []), businessDaysWhere(calendars, range.fromKey, range.toKey)];
   }
 
   if (!isAdmin) {
@@ -173,12 +134,9 @@ export async function GET(request: Request) {
   ];
 
   // Generate CSV rows
+  const feeTerms = await loadFeeTerms(orders.map((order) => order.venueId));
   const rows = orders.map((order) => {
-    const payoutAmount = calculatePayoutFromOrder({
-      originalAmount: order.originalAmount,
-      aedEgpRate: order.aedEgpRate,
-      totalAmount: order.totalAmount
-    });
+    const payoutAmount = calculatePayoutFromOrder(order, feeTerms(order.venueId, order.processedAt));
 
     return [
       escapeCsvValue(order.orderNumber),
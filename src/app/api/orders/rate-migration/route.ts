@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { ORDER_RATE_TYPES } from "@/lib/order-rates";
+import { applyRateMigration, buildRateMigrationPlan } from "@/lib/rate-migration";
+
+const applySchema = z.object({
+  decisions: z
+    .array(
+      z.object({
+        orderId: z.number().int().positive(),
+        rateType: z.enum(ORDER_RATE_TYPES),
+        rate: z.number().positive()
+      })
+    )
+    .default([]),
+  // true → also rewrite every order that needs no review, as proposed
+  includeAutomatic: z.boolean().default(false)
+});
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const plan = await buildRateMigrationPlan();
+    return NextResponse.json(plan);
+  } catch (error: any) {
+    console.error("Failed to build rate migration plan", error);
+    return NextResponse.json({ message: "Failed to build rate migration plan", error: error?.message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const parsed = applySchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { decisions, includeAutomatic } = parsed.data;
+
+  try {
+    const updated = await applyRateMigration(decisions, includeAutomatic, session);
+    return NextResponse.json({
+      updated,
+      message: `Classified ${updated} order${updated !== 1 ? "s" : ""}`
+    });
+  } catch (error: any) {
+    console.error("Failed to apply rate migration", error);
+    return NextResponse.json({ message: "Failed to apply rate migration", error: error?.message }, { status: 500 });
+  }
+}
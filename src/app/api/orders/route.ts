@@ -3,7 +3,13 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
-import { BUSINESS_MONTH_START_DAY } from "@/lib/constants";
+import {
+  BUSINESS_MONTH_PATTERN,
+  businessDayRangeOf,
+  businessDaysWhere,
+  isFilterDate,
+  loadBusinessCalendars
+} from "@/lib/business-calendar";
 import {
   calculateFromOriginalAmount,
   calculatePayoutFromOrder,
@@ -12,6 +18,10 @@ import {
   generateNextOrderNumber
 } from "@/lib/order-utils";
 import { getCurrentExchangeRate } from "@/lib/exchange-rate";
+import { recordAuditEvent } from "@/lib/audit";
+import { syncLedger } from "@/lib/ledger";
+import { getFeeTerms, loadFeeTerms } from "@/lib/fee-schedules";
+import type { FeeTerms } from "@/lib/fee-terms";
 
 const lineItemSchema = z.object({
   productName: z.string().min(1),
@@ -42,15 +52,15 @@ const orderSchema = z.object({
 const dateRangeSchema = z.object({
   month: z
     .string()
-    .regex(/^\d{4}-\d{2}$/)
+    .regex(BUSINESS_MONTH_PATTERN)
     .optional(),
   startDate: z
     .string()
-    .regex(/^\d{2}\/\d{2}\/\d{4}$/)
+    .refine(isFilterDate)
     .optional(),
   endDate: z
     .string()
-    .regex(/^\d{2}\/\d{2}\/\d{4}$/)
+    .refine(isFilterDate)
     .optional()
 });
 
@@ -81,7 +91,11 @@ const mapTags = (tags: unknown): string[] => {
   return [];
 };
 
-const serializeOrder = (order: any, { includeShopifyOrderNumber = false }: { includeShopifyOrderNumber?: boolean } = {}) => ({
+const serializeOrder = (
+  order: any,
+  feeTerms: FeeTerms,
+  { includeShopifyOrderNumber = false }: { includeShopifyOrderNumber?: boolean } = {}
+) => ({
   id: order.id,
   externalId: order.externalId,
   orderNumber: order.orderNumber,
@@ -112,7 +126,20 @@ const serializeOrder = (order: any, { includeShopifyOrderNumber = false }: { inc
   source: order.source,
   exchangeRate: order.exchangeRate,
   aedEgpRate: order.aedEgpRate,
+  rateType: order.rateType,
+  feeTerms,
   originalAmount: order.originalAmount,
+  lineItems: (order.lineItems ?? []).map((item: any) => ({
+    id: item.id,
+    productName: item.productName,
+    quantity: item.quantity,
+    sku: item.sku,
+    price: item.price,
+    total: item.total,
+    productId: item.productId,
+    egpUnitPrice: item.egpUnitPrice,
+    egpTotal: item.egpTotal
+  })),
   shopifyStoreId: order.shopifyStoreId
 });
 
@@ -151,64 +178,18 @@ export async function GET(request: Request) {
     startDate: searchParams.get("startDate") ?? undefined,
     endDate: searchParams.get("endDate") ?? undefined
   });
-  const tzOffsetMinutes = Number(searchParams.get("tzOffset") ?? "0");
-  const tzOffsetMs = tzOffsetMinutes * 60 * 1000;
 
   if (!parseResult.success) {
     return NextResponse.json({ message: "Invalid filters" }, { status: 400 });
   }
 
-  const where: any = {};
-  let rangeStart: Date | undefined;
-  let rangeEnd: Date | undefined;
-
-  const parseLocalDate = (value?: string | null) => {
-    if (!value) return undefined;
-    const parts = value.split('/');
-    if (parts.length !== 3) return undefined;
-    const [day, month, year] = parts.map((segment) => Number(segment));
-    if (Number.isNaN(day) || Number.isNaN(month) || Number.isNaN(year)) {
-      return undefined;
-    }
-    return { day, month, year };
-  };
-
-  const startPayload = parseLocalDate(parseResult.data.startDate);
-  const endPayload = parseLocalDate(parseResult.data.endDate);
+  const where: any = { deletedAt: null };
 
-  if (startPayload || endPayload) {
-    const start = startPayload ?? endPayload!;
-    const end = endPayload ?? startPayload!;
-
-    // Convert local dates to UTC by adding timezone offset
-    // tzOffset is positive for timezones behind UTC (e.g., EST = +300 minutes)
-    let startDate = new Date(Date.UTC(start.year, start.month - 1, start.day, 0, 0, 0, 0) + tzOffsetMs);
-    let endDate = new Date(Date.UTC(end.year, end.month - 1, end.day, 23, 59, 59, 999) + tzOffsetMs);
-
-    if (startDate > endDate) {
-      const temp = startDate;
-      startDate = endDate;
-      endDate = temp;
-    }
-
-    rangeStart = startDate;
-    rangeEnd = endDate;
-  } else if (parseResult.data.month) {
-    const [year, month] = parseResult.data.month.split('-').map((value) => Number(value));
-    // Business month starts on BUSINESS_MONTH_START_DAY (2nd) because the club
-    // operates past midnight — post-midnight orders land on the next calendar day.
-    // "January 2026" = Jan 2 00:00 → Feb 1 23:59 in Shopify timestamps.
-    const startDate = new Date(Date.UTC(year, month - 1, BUSINESS_MONTH_START_DAY, 0, 0, 0, 0) + tzOffsetMs);
-    const endDate = new Date(Date.UTC(year, month, BUSINESS_MONTH_START_DAY - 1, 23, 59, 59, 999) + tzOffsetMs);
-    rangeStart = startDate;
-    rangeEnd = endDate;
-  }
-
-  if (rangeStart && rangeEnd) {
-    where.processedAt = {
-      gte: rangeStart,
-      lte: rangeEnd
-    };
+  // Each venue's orders are matched on its own business days
+  const range = businessDayRangeOf(parseResult.data);
+  if (range) {
+    const calendars = await loadBusinessCalendars(isAdmin ? undefined : venueIds);
+    where.AND = [...(where.AND ?? []), businessDaysWhere(calendars, range.fromKey, range.toKey)];
   }
 
   if (!isAdmin) {
@@ -290,9 +271,13 @@ export async function GET(request: Request) {
   const metricOrders = await prisma.order.findMany({
     where,
     select: {
+      venueId: true,
+      processedAt: true,
       totalAmount: true,
       originalAmount: true,
+      rateType: true,
       aedEgpRate: true,
+      exchangeRate: true,
       fulfillmentStatus: true
     }
   });
@@ -319,14 +304,18 @@ export async function GET(request: Request) {
       })
   });
 
+  const feeTermsFor = await loadFeeTerms(Array.from(new Set(metricOrders.map((order) => order.venueId))));
   const serialized = orders.map((order) =>
-    serializeOrder(order, { includeShopifyOrderNumber: isAdmin })
+    serializeOrder(order, feeTermsFor(order.venueId, order.processedAt), { includeShopifyOrderNumber: isAdmin })
   );
 
   const ordersCount = totalCount;
   const totalRevenue = metricOrders.reduce((sum, order) => sum + Number(order.totalAmount ?? 0), 0);
   const averageOrderValue = ordersCount ? totalRevenue / ordersCount : 0;
-  const totalPayout = metricOrders.reduce((sum, order) => sum + calculatePayoutFromOrder(order), 0);
+  const totalPayout = metricOrders.reduce(
+    (sum, order) => sum + calculatePayoutFromOrder(order, feeTermsFor(order.venueId, order.processedAt)),
+    0
+  );
   const pendingFulfillment = metricOrders.filter(
     (order) => !order.fulfillmentStatus || order.fulfillmentStatus.toLowerCase() !== "fulfilled"
   ).length;
@@ -399,31 +388,42 @@ export async function POST(request: Request) {
 
   const originalAmount =
     typeof data.originalAmount === "number" && data.originalAmount >= 0 ? data.originalAmount : null;
-  const { totalAmount: computedTotal } = calculateFromOriginalAmount(originalAmount, exchangeRate);
+  const processedAt = data.processedAt instanceof Date ? data.processedAt : new Date(data.processedAt);
+  const feeTerms = await getFeeTerms(venueRecord.id, processedAt);
+  const { totalAmount: computedTotal } = calculateFromOriginalAmount(originalAmount, exchangeRate, feeTerms);
   const totalAmount = computedTotal > 0 ? computedTotal : data.totalAmount ?? 0;
-  const created = await prisma.order.create({
-    data: {
-      orderNumber,
-      customerName,
-      venueId: venueRecord.id,
-      status: data.status ?? "Open",
-      financialStatus,
-      fulfillmentStatus: data.fulfillmentStatus,
-      totalAmount,
-      currency: data.currency,
-      processedAt: data.processedAt instanceof Date ? data.processedAt : new Date(data.processedAt),
-      shippingCity: data.shippingCity,
-      shippingCountry: data.shippingCountry,
-      tags: (data.tags ?? []).join(","),
-      notes: data.notes,
-      originalAmount: typeof data.originalAmount === "number" ? data.originalAmount : null,
-      exchangeRate,
-      createdById: Number(session.user.id)
-    },
-    include: {
-      venue: true
-    }
+  const created = await prisma.$transaction(async (tx) => {
+    const order = await tx.order.create({
+      data: {
+        orderNumber,
+        customerName,
+        venueId: venueRecord.id,
+        status: data.status ?? "Open",
+        financialStatus,
+        fulfillmentStatus: data.fulfillmentStatus,
+        totalAmount,
+        currency: data.currency,
+        processedAt,
+        shippingCity: data.shippingCity,
+        shippingCountry: data.shippingCountry,
+        tags: (data.tags ?? []).join(","),
+        notes: data.notes,
+        originalAmount: typeof data.originalAmount === "number" ? data.originalAmount : null,
+        // Manual orders only carry a USD/EGP rate
+        rateType: "USD_EGP",
+        exchangeRate,
+        createdById: Number(session.user.id)
+      },
+      include: {
+        venue: true
+      }
+    });
+
+    await recordAuditEvent(session, { action: "create", entityType: "Order", entityId: order.id, after: order }, tx);
+    await syncLedger({ orders: [order.id] }, tx);
+
+    return order;
   });
 
-  return NextResponse.json(serializeOrder(created), { status: 201 });
+  return NextResponse.json(serializeOrder(created, feeTerms), { status: 201 });
 }
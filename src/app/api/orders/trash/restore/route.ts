@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { restoreOrders } from "@/lib/order-trash";
+
+const restoreSchema = z.object({
+  ids: z.array(z.number()).min(1)
+});
+
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await request.json();
+  const parsed = restoreSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const restored = await restoreOrders(parsed.data.ids, session);
+    return NextResponse.json({
+      message: `Restored ${restored} order${restored !== 1 ? "s" : ""}`,
+      count: restored
+    });
+  } catch (error) {
+    console.error("Restore orders error:", error);
+    return NextResponse.json({ message: "Failed to restore orders" }, { status: 500 });
+  }
+}
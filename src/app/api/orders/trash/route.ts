@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { ORDER_TRASH_RETENTION_DAYS } from "@/lib/constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const orders = await prisma.order.findMany({
+    where: { deletedAt: { not: null } },
+    include: {
+      venue: { select: { id: true, name: true } },
+      deletedBy: { select: { id: true, name: true, email: true } }
+    },
+    orderBy: { deletedAt: "desc" }
+  });
+
+  return NextResponse.json({
+    retentionDays: ORDER_TRASH_RETENTION_DAYS,
+    orders: orders.map((order) => ({
+      id: order.id,
+      orderNumber: order.orderNumber,
+      customerName: order.customerName,
+      totalAmount: order.totalAmount,
+      currency: order.currency,
+      processedAt: order.processedAt.toISOString(),
+      venue: order.venue,
+      deletedAt: order.deletedAt!.toISOString(),
+      deletedBy: order.deletedBy,
+      purgeAt: new Date(order.deletedAt!.getTime() + ORDER_TRASH_RETENTION_DAYS * DAY_MS).toISOString()
+    }))
+  });
+}
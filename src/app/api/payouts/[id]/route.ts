@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { syncLedger } from "@/lib/ledger";
 
 const payoutSchema = z.object({
   amount: z.number().optional(),
@@ -78,13 +80,26 @@ export async function PATCH(request: Request, { params }: { params: { id: string
     data.processedAt = parsed.data.processedAt instanceof Date ? parsed.data.processedAt : new Date(parsed.data.processedAt);
   }
 
-  const payout = await prisma.payout.update({
-    where: { id: payoutId },
-    data,
-    include: {
-      venue: true,
-      createdBy: true
-    }
+  const existing = await prisma.payout.findUnique({ where: { id: payoutId } });
+  if (!existing) {
+    return NextResponse.json({ message: "Payout not found" }, { status: 404 });
+  }
+
+  const payout = await prisma.$transaction(async (tx) => {
+    const saved = await tx.payout.update({
+      where: { id: payoutId },
+      data,
+      include: {
+        venue: true,
+        createdBy: true
+      }
+    });
+
+    const { venue: _venue, createdBy: _createdBy, ...after } = saved;
+    await recordAuditEvent(session, { action: "update", entityType: "Payout", entityId: payoutId, before: existing, after }, tx);
+    await syncLedger({ payouts: [payoutId] }, tx);
+
+    return saved;
   });
 
   return NextResponse.json({ payout: serialize(payout) });
@@ -101,7 +116,16 @@ export async function DELETE(_request: Request, { params }: { params: { id: stri
     return NextResponse.json({ message: "Invalid payout id" }, { status: 400 });
   }
 
-  await prisma.payout.delete({ where: { id: payoutId } });
+  const existing = await prisma.payout.findUnique({ where: { id: payoutId } });
+  if (!existing) {
+    return NextResponse.json({ message: "Payout not found" }, { status: 404 });
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.payout.delete({ where: { id: payoutId } });
+    await recordAuditEvent(session, { action: "delete", entityType: "Payout", entityId: payoutId, before: existing }, tx);
+    await syncLedger({ payouts: [payoutId] }, tx);
+  });
 
   return NextResponse.json(null, { status: 204 });
 }
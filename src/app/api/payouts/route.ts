@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { syncLedger } from "@/lib/ledger";
 
 const paginationSchema = z.object({
   page: z.coerce.number().int().positive().optional(),
@@ -168,5 +170,9 @@ export async function POST(request: Request) {
     }
   });
 
+  const { venue: _venue, createdBy: _createdBy, ...after } = payout;
+  await recordAuditEvent(session, { action: "create", entityType: "Payout", entityId: payout.id, after });
+  await syncLedger({ payouts: [payout.id] });
+
   return NextResponse.json({ payout: serialize(payout) }, { status: 201 });
 }
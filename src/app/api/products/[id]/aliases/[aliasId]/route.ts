@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+
+// Orders already re-priced through the alias keep their amount
+export async function DELETE(request: Request, { params }: { params: { id: string; aliasId: string } }) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const productId = parseInt(params.id, 10);
+  const aliasId = parseInt(params.aliasId, 10);
+  if (isNaN(productId) || isNaN(aliasId)) {
+    return NextResponse.json({ message: "Invalid alias ID" }, { status: 400 });
+  }
+
+  try {
+    const alias = await prisma.productAlias.findUnique({
+      where: { id: aliasId }
+    });
+
+    if (!alias || alias.productId !== productId) {
+      return NextResponse.json({ message: "Alias not found" }, { status: 404 });
+    }
+
+    await prisma.productAlias.delete({
+      where: { id: aliasId }
+    });
+
+    return NextResponse.json({ message: "Alias deleted successfully" });
+  } catch (error: any) {
+    console.error("Failed to delete product alias:", error);
+    return NextResponse.json(
+      { message: "Failed to delete product alias", error: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { PRODUCT_ALIAS_KINDS } from "@/lib/product-pricing";
+import { aliasForLineItem, linkLineItemToProduct } from "@/lib/product-aliases";
+
+// The unmatched line item as listed by the matching report
+const linkSchema = z.object({
+  productName: z.string().min(1),
+  sku: z.string().nullable().optional(),
+  shopifyProductId: z.string().nullable().optional(),
+  kind: z.enum(PRODUCT_ALIAS_KINDS).optional() // defaults to the most precise identifier the item carries
+});
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const productId = parseInt(params.id, 10);
+  if (isNaN(productId)) {
+    return NextResponse.json({ message: "Invalid product ID" }, { status: 400 });
+  }
+
+  try {
+    const aliases = await prisma.productAlias.findMany({
+      where: { productId },
+      orderBy: { createdAt: "asc" }
+    });
+
+    return NextResponse.json({ aliases });
+  } catch (error: any) {
+    console.error("Failed to fetch product aliases:", error);
+    return NextResponse.json(
+      { message: "Failed to fetch product aliases", error: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const productId = parseInt(params.id, 10);
+  if (isNaN(productId)) {
+    return NextResponse.json({ message: "Invalid product ID" }, { status: 400 });
+  }
+
+  const payload = await request.json();
+  const parsed = linkSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { message: "Invalid payload", issues: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { kind, ...item } = parsed.data;
+  const alias = aliasForLineItem({ ...item, quantity: 1 }, kind);
+  if (!alias) {
+    return NextResponse.json({ message: "The line item has no identifier of that kind" }, { status: 400 });
+  }
+
+  try {
+    const product = await prisma.product.findUnique({
+      where: { id: productId }
+    });
+
+    if (!product) {
+      return NextResponse.json({ message: "Product not found" }, { status: 404 });
+    }
+
+    const existing = await prisma.productAlias.findUnique({
+      where: { venueId_kind_value: { venueId: product.venueId, ...alias } }
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { message: "This line item is already linked to a product in this venue" },
+        { status: 409 }
+      );
+    }
+
+    const result = await linkLineItemToProduct(product, alias, session);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error: any) {
+    console.error("Failed to link line item to product:", error);
+    return NextResponse.json(
+      { message: "Failed to link line item to product", error: error?.message },
+      { status: 500 }
+    );
+  }
+}
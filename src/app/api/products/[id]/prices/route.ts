@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { setProductPrice } from "@/lib/product-prices";
+
+const priceSchema = z.object({
+  egpPrice: z.number().min(0),
+  // Back-dating corrects history. Future prices aren't allowed, since Product.egpPrice only follows changes as made
+  validFrom: z.coerce.date().refine((date) => date <= new Date(), "Price changes can't be scheduled ahead")
+});
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const productId = parseInt(params.id, 10);
+  if (isNaN(productId)) {
+    return NextResponse.json({ message: "Invalid product ID" }, { status: 400 });
+  }
+
+  try {
+    const prices = await prisma.productPrice.findMany({
+      where: { productId },
+      orderBy: { validFrom: "desc" }
+    });
+
+    return NextResponse.json({ prices });
+  } catch (error: any) {
+    console.error("Failed to fetch product prices:", error);
+    return NextResponse.json(
+      { message: "Failed to fetch product prices", error: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const productId = parseInt(params.id, 10);
+  if (isNaN(productId)) {
+    return NextResponse.json({ message: "Invalid product ID" }, { status: 400 });
+  }
+
+  const payload = await request.json();
+  const parsed = priceSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { message: "Invalid payload", issues: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const product = await prisma.product.findUnique({
+      where: { id: productId }
+    });
+
+    if (!product) {
+      return NextResponse.json({ message: "Product not found" }, { status: 404 });
+    }
+
+    const price = await prisma.$transaction((tx) =>
+      setProductPrice(productId, parsed.data.egpPrice, parsed.data.validFrom, tx)
+    );
+
+    return NextResponse.json({ price }, { status: 201 });
+  } catch (error: any) {
+    console.error("Failed to set product price:", error);
+    return NextResponse.json(
+      { message: "Failed to set product price", error: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { setProductPrice } from "@/lib/product-prices";
 
 const updateSchema = z.object({
   name: z.string().min(1).optional(),
@@ -66,18 +67,26 @@ export async function PATCH(request: Request, { params }: { params: { id: string
       }
     }
 
-    const updated = await prisma.product.update({
-      where: { id: productId },
-      data: parsed.data,
-      include: {
-        venue: {
-          select: {
-            id: true,
-            name: true,
-            slug: true
+    // A new price takes effect now; earlier orders keep pricing from the history
+    const { egpPrice, ...changes } = parsed.data;
+    const updated = await prisma.$transaction(async (tx) => {
+      if (egpPrice !== undefined) {
+        await setProductPrice(productId, egpPrice, new Date(), tx);
+      }
+
+      return tx.product.update({
+        where: { id: productId },
+        data: changes,
+        include: {
+          venue: {
+            select: {
+              id: true,
+              name: true,
+              slug: true
+            }
           }
         }
-      }
+      });
     });
 
     return NextResponse.json({ product: updated });
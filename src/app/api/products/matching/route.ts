@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { buildMatchingReport } from "@/lib/product-aliases";
+
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const venueParam = new URL(request.url).searchParams.get("venueId");
+  const venueId = venueParam ? parseInt(venueParam, 10) : undefined;
+  if (venueId !== undefined && isNaN(venueId)) {
+    return NextResponse.json({ message: "Invalid venue ID" }, { status: 400 });
+  }
+
+  try {
+    const items = await buildMatchingReport(venueId);
+    return NextResponse.json({ items });
+  } catch (error: any) {
+    console.error("Failed to build matching report:", error);
+    return NextResponse.json(
+      { message: "Failed to build matching report", error: error?.message },
+      { status: 500 }
+    );
+  }
+}
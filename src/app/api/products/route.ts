@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { setProductPrice } from "@/lib/product-prices";
 
 const createSchema = z.object({
   name: z.string().min(1),
@@ -33,6 +34,10 @@ export async function GET() {
             name: true,
             slug: true
           }
+        },
+        aliases: {
+          select: { id: true, kind: true, value: true },
+          orderBy: { createdAt: "asc" }
         }
       },
       orderBy: {
@@ -102,25 +107,29 @@ export async function POST(request: Request) {
       }
     }
 
-    // Create the product
-    const product = await prisma.product.create({
-      data: {
-        name,
-        sku,
-        shopifyProductId,
-        egpPrice,
-        venueId,
-        active
-      },
-      include: {
-        venue: {
-          select: {
-            id: true,
-            name: true,
-            slug: true
+    // Create the product and start its price history
+    const product = await prisma.$transaction(async (tx) => {
+      const created = await tx.product.create({
+        data: {
+          name,
+          sku,
+          shopifyProductId,
+          egpPrice,
+          venueId,
+          active
+        },
+        include: {
+          venue: {
+            select: {
+              id: true,
+              name: true,
+              slug: true
+            }
           }
         }
-      }
+      });
+      await setProductPrice(created.id, egpPrice, created.createdAt, tx);
+      return created;
     });
 
     return NextResponse.json({ product }, { status: 201 });
@@ -4,12 +4,21 @@ import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { encrypt } from "@/lib/encryption";
+import { SHOPIFY_SYNC_INTERVALS } from "@/lib/constants";
 
 const updateSchema = z.object({
   storeDomain: z.string().min(5).optional(),
   accessToken: z.string().min(10).optional(),
+  // null removes the store's secret so verification falls back to SHOPIFY_WEBHOOK_SECRET
+  webhookSecret: z.string().min(1).nullable().optional(),
   nickname: z.string().optional(),
-  venueId: z.number().optional()
+  venueId: z.number().optional(),
+  syncEnabled: z.boolean().optional(),
+  syncIntervalMinutes: z
+    .number()
+    .int()
+    .refine((value) => (SHOPIFY_SYNC_INTERVALS as readonly number[]).includes(value), "Unsupported sync interval")
+    .optional()
 });
 
 export async function PATCH(
@@ -46,6 +55,9 @@ export async function PATCH(
   if (updates.accessToken) {
     updates.accessToken = encrypt(updates.accessToken);
   }
+  if (updates.webhookSecret) {
+    updates.webhookSecret = encrypt(updates.webhookSecret);
+  }
 
   try {
     // Check if store exists
@@ -83,7 +95,7 @@ export async function PATCH(
     }
 
     // Update the store
-    const store = await prisma.shopifyStore.update({
+    const { webhookSecret: _secret, ...store } = await prisma.shopifyStore.update({
       where: { id: storeId },
       data: updates,
       include: {
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { runShopifySync } from "@/lib/shopify-sync";
+
+const RECENT_RUNS = 20;
+
+const parseStoreId = (value: string) => {
+  const storeId = parseInt(value, 10);
+  return isNaN(storeId) ? null : storeId;
+};
+
+/** Recent scheduled and manual sync runs for a store */
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const storeId = parseStoreId(params.id);
+  if (storeId === null) {
+    return NextResponse.json({ message: "Invalid store ID" }, { status: 400 });
+  }
+
+  const runs = await prisma.shopifySyncRun.findMany({
+    where: { storeId },
+    orderBy: { startedAt: "desc" },
+    take: RECENT_RUNS
+  });
+
+  return NextResponse.json({ runs });
+}
+
+/** Run the store's sync now instead of waiting for its schedule */
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const storeId = parseStoreId(params.id);
+  if (storeId === null) {
+    return NextResponse.json({ message: "Invalid store ID" }, { status: 400 });
+  }
+
+  const store = await prisma.shopifyStore.findUnique({ where: { id: storeId }, select: { id: true } });
+  if (!store) {
+    return NextResponse.json({ message: "Store not found" }, { status: 404 });
+  }
+
+  try {
+    const run = await runShopifySync(storeId, "manual");
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error("Manual Shopify sync error:", error);
+    return NextResponse.json({ message: "Failed to run Shopify sync" }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { getShopifyWebhookRegistration } from "@/lib/shopify-webhooks";
+
+const parseStoreId = (value: string) => {
+  const storeId = parseInt(value, 10);
+  return isNaN(storeId) ? null : storeId;
+};
+
+async function handle(params: { id: string }, register: boolean) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const storeId = parseStoreId(params.id);
+  if (storeId === null) {
+    return NextResponse.json({ message: "Invalid store ID" }, { status: 400 });
+  }
+
+  const store = await prisma.shopifyStore.findUnique({
+    where: { id: storeId },
+    select: { storeDomain: true, accessToken: true, webhookSecret: true }
+  });
+  if (!store) {
+    return NextResponse.json({ message: "Store not found" }, { status: 404 });
+  }
+
+  try {
+    const report = await getShopifyWebhookRegistration(store, { register });
+    return NextResponse.json({ ...report, hasWebhookSecret: Boolean(store.webhookSecret) });
+  } catch (error) {
+    console.error("Shopify webhook registration error:", error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : "Failed to reach Shopify" },
+      { status: 502 }
+    );
+  }
+}
+
+/** The store's webhook subscriptions and how they drift from the topics we handle */
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  return handle(params, false);
+}
+
+/** Subscribe the store to any missing topics, then report as GET does */
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  return handle(params, true);
+}
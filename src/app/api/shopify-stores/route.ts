@@ -8,6 +8,7 @@ import { encrypt } from "@/lib/encryption";
 const createSchema = z.object({
   storeDomain: z.string().min(5),
   accessToken: z.string().min(10),
+  webhookSecret: z.string().min(1).optional(),
   nickname: z.string().optional(),
   venueId: z.number()
 });
@@ -37,6 +38,10 @@ export async function GET() {
           select: {
             orders: true
           }
+        },
+        syncRuns: {
+          orderBy: { startedAt: "desc" },
+          take: 1
         }
       },
       orderBy: {
@@ -44,10 +49,11 @@ export async function GET() {
       }
     });
 
-    // Mask access tokens for security
-    const safeStores = stores.map(store => ({
+    // Mask access tokens for security; webhook secrets are never sent back
+    const safeStores = stores.map(({ webhookSecret, ...store }) => ({
       ...store,
-      accessToken: store.accessToken ? `${store.accessToken.substring(0, 4)}... (encrypted)` : ""
+      accessToken: store.accessToken ? `${store.accessToken.substring(0, 4)}... (encrypted)` : "",
+      hasWebhookSecret: Boolean(webhookSecret)
     }));
 
     return NextResponse.json({ stores: safeStores });
@@ -95,7 +101,7 @@ export async function POST(request: Request) {
     );
   }
 
-  const { storeDomain, accessToken, nickname, venueId } = parsed.data;
+  const { storeDomain, accessToken, webhookSecret, nickname, venueId } = parsed.data;
 
   try {
     // Check if venue exists
@@ -120,10 +126,11 @@ export async function POST(request: Request) {
     }
 
     // Create the store
-    const store = await prisma.shopifyStore.create({
+    const { webhookSecret: _secret, ...store } = await prisma.shopifyStore.create({
       data: {
         storeDomain,
         accessToken: encrypt(accessToken),
+        webhookSecret: webhookSecret ? encrypt(webhookSecret) : null,
         nickname,
         venueId,
         ownerId: Number(session.user.id)
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { processShopifyWebhookDelivery, verifyShopifyWebhook } from "@/lib/shopify-webhooks";
+
+/** Run a logged delivery through the webhook handler again, e.g. after adding a missing store */
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const deliveryId = Number(params.id);
+  if (Number.isNaN(deliveryId)) {
+    return NextResponse.json({ message: "Invalid delivery id" }, { status: 400 });
+  }
+
+  const delivery = await prisma.shopifyWebhookDelivery.findUnique({
+    where: { id: deliveryId },
+    select: { id: true, rawBody: true, shopDomain: true, hmac: true, hmacStatus: true }
+  });
+  if (!delivery) {
+    return NextResponse.json({ message: "Delivery not found" }, { status: 404 });
+  }
+
+  // Re-check against the current secrets, e.g. a store added (with its secret) after the delivery arrived
+  const hmacStatus = delivery.hmac
+    ? await verifyShopifyWebhook(delivery.rawBody, delivery.hmac, delivery.shopDomain)
+    : delivery.hmacStatus;
+  if (hmacStatus !== delivery.hmacStatus) {
+    await prisma.shopifyWebhookDelivery.update({ where: { id: deliveryId }, data: { hmacStatus } });
+  }
+
+  // A payload that failed verification could have come from anyone
+  if (hmacStatus === "invalid" || hmacStatus === "missing") {
+    return NextResponse.json({ message: "Only signed deliveries can be replayed" }, { status: 400 });
+  }
+
+  if (hmacStatus === "unchecked") {
+    return NextResponse.json({ message: "Set a webhook secret before replaying this delivery" }, { status: 400 });
+  }
+
+  try {
+    await prisma.shopifyWebhookDelivery.update({
+      where: { id: deliveryId },
+      data: { replayCount: { increment: 1 } }
+    });
+    const replayed = await processShopifyWebhookDelivery(deliveryId, session);
+    const { rawBody: _rawBody, ...summary } = replayed;
+    return NextResponse.json({ delivery: summary });
+  } catch (error) {
+    console.error("Webhook replay error:", error);
+    return NextResponse.json({ message: "Failed to replay delivery" }, { status: 500 });
+  }
+}
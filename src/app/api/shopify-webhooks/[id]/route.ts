@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+
+/** One logged delivery with its raw payload */
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const deliveryId = Number(params.id);
+  if (Number.isNaN(deliveryId)) {
+    return NextResponse.json({ message: "Invalid delivery id" }, { status: 400 });
+  }
+
+  const delivery = await prisma.shopifyWebhookDelivery.findUnique({ where: { id: deliveryId } });
+  if (!delivery) {
+    return NextResponse.json({ message: "Delivery not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ delivery });
+}
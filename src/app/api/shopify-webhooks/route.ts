@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { WEBHOOK_DELIVERY_STATUSES } from "@/lib/shopify-webhooks";
+
+const PAGE_SIZE = 50;
+
+const filterSchema = z.object({
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  topic: z.string().optional(),
+  shopDomain: z.string().optional(),
+  page: z.coerce.number().int().positive().default(1)
+});
+
+/** Logged webhook deliveries, newest first; payloads are left out of the list */
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsed = filterSchema.safeParse(
+    Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ""))
+  );
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid filters", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { status, topic, shopDomain, page } = parsed.data;
+
+  const where: Prisma.ShopifyWebhookDeliveryWhereInput = {};
+  if (status) where.status = status;
+  if (topic) where.topic = topic;
+  if (shopDomain) where.shopDomain = shopDomain;
+
+  const [totalCount, deliveries, topics] = await Promise.all([
+    prisma.shopifyWebhookDelivery.count({ where }),
+    prisma.shopifyWebhookDelivery.findMany({
+      where,
+      orderBy: [{ receivedAt: "desc" }, { id: "desc" }],
+      skip: (page - 1) * PAGE_SIZE,
+      take: PAGE_SIZE,
+      select: {
+        id: true,
+        webhookId: true,
+        topic: true,
+        shopDomain: true,
+        hmacStatus: true,
+        status: true,
+        message: true,
+        error: true,
+        replayCount: true,
+        receivedAt: true,
+        processedAt: true
+      }
+    }),
+    prisma.shopifyWebhookDelivery.findMany({
+      distinct: ["topic"],
+      select: { topic: true },
+      orderBy: { topic: "asc" }
+    })
+  ]);
+
+  return NextResponse.json({
+    deliveries,
+    topics: topics.map((row) => row.topic),
+    pagination: {
+      page,
+      pageSize: PAGE_SIZE,
+      totalCount,
+      totalPages: Math.ceil(totalCount / PAGE_SIZE)
+    }
+  });
+}
@@ -85,7 +85,7 @@ export async function POST(request: Request) {
         const newShopifyOrders = shopifyOrders.filter(o => !existingExternalIds.has(String(o.id)));
         const existingCount = shopifyOrders.length - newShopifyOrders.length;
 
-        // Transform ONLY the new orders (daily rate entered later in review dialog)
+        // Transform ONLY the new orders (daily rate pre-filled from the ledger, or entered in review dialog)
         const transformedNewOrders = await transformShopifyOrders(newShopifyOrders, store.venueId, store.id);
 
         // Add storeName to each order for display in review
@@ -4,6 +4,8 @@ import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { generateNextOrderNumber, extractOrderNumber } from "@/lib/order-utils";
+import { syncLedger } from "@/lib/ledger";
+import { recordAuditEvent } from "@/lib/audit";
 
 const lineItemSchema = z.object({
   productName: z.string(),
@@ -11,7 +13,11 @@ const lineItemSchema = z.object({
   sku: z.string().optional(),
   shopifyProductId: z.string().optional(),
   price: z.number(),
-  total: z.number()
+  total: z.number(),
+  // Catalog pricing from the fetch; absent or null when the line matched no product
+  productId: z.number().nullable().optional(),
+  egpUnitPrice: z.number().nullable().optional(),
+  egpTotal: z.number().nullable().optional()
 });
 
 const orderSchema = z.object({
@@ -138,7 +144,8 @@ export async function POST(request: Request) {
         }
 
         await prisma.$transaction(async (tx) => {
-          await tx.order.update({
+          const before = await tx.order.findUniqueOrThrow({ where: { id: order.dbId } });
+          const after = await tx.order.update({
             where: { id: order.dbId },
             data: {
               shopifyOrderNumber: order.orderNumber,
@@ -148,6 +155,7 @@ export async function POST(request: Request) {
               fulfillmentStatus: order.fulfillmentStatus,
               totalAmount: order.totalAmount,
               originalAmount: order.originalAmount,
+              rateType: "AED_EGP",
               aedEgpRate: order.aedEgpRate ?? null,
               currency: order.currency,
               processedAt: new Date(order.processedAt),
@@ -172,10 +180,23 @@ export async function POST(request: Request) {
                 sku: item.sku,
                 shopifyProductId: item.shopifyProductId,
                 price: item.price,
-                total: item.total
+                total: item.total,
+                productId: item.productId ?? null,
+                egpUnitPrice: item.egpUnitPrice ?? null,
+                egpTotal: item.egpTotal ?? null
               }))
             });
           }
+
+          await recordAuditEvent(
+            session,
+            { action: "update", entityType: "Order", entityId: order.dbId, before, after },
+            tx
+          );
+          await syncLedger(
+            { orders: [order.dbId], previousOrders: [{ venueId: before.venueId, processedAt: before.processedAt }] },
+            tx
+          );
         });
         updated++;
       } catch (error) {
@@ -198,39 +219,52 @@ export async function POST(request: Request) {
 
         const generatedNum = (order as any)._generatedOrderNumber;
 
-        await prisma.order.create({
-          data: {
-            externalId: order.externalId,
-            orderNumber: generatedNum,
-            shopifyOrderNumber: order.orderNumber,
-            customerName: order.customerName,
-            status: order.status,
-            financialStatus: order.financialStatus,
-            fulfillmentStatus: order.fulfillmentStatus,
-            totalAmount: order.totalAmount,
-            originalAmount: order.originalAmount,
-            aedEgpRate: order.aedEgpRate ?? null,
-            currency: order.currency,
-            processedAt: new Date(order.processedAt),
-            shippingCity: order.shippingCity,
-            shippingCountry: order.shippingCountry,
-            tags: order.tags.join(","),
-            notes: order.notes,
-            createdById: Number(session.user.id),
-            shopifyStoreId: currentStore.id,
-            source: "shopify",
-            venueId: currentStore.venueId,
-            lineItems: {
-              create: order.lineItems.map((item) => ({
-                productName: item.productName,
-                quantity: item.quantity,
-                sku: item.sku,
-                shopifyProductId: item.shopifyProductId,
-                price: item.price,
-                total: item.total
-              }))
+        await prisma.$transaction(async (tx) => {
+          const created = await tx.order.create({
+            data: {
+              externalId: order.externalId,
+              orderNumber: generatedNum,
+              shopifyOrderNumber: order.orderNumber,
+              customerName: order.customerName,
+              status: order.status,
+              financialStatus: order.financialStatus,
+              fulfillmentStatus: order.fulfillmentStatus,
+              totalAmount: order.totalAmount,
+              originalAmount: order.originalAmount,
+              rateType: "AED_EGP",
+              aedEgpRate: order.aedEgpRate ?? null,
+              currency: order.currency,
+              processedAt: new Date(order.processedAt),
+              shippingCity: order.shippingCity,
+              shippingCountry: order.shippingCountry,
+              tags: order.tags.join(","),
+              notes: order.notes,
+              createdById: Number(session.user.id),
+              shopifyStoreId: currentStore.id,
+              source: "shopify",
+              venueId: currentStore.venueId,
+              lineItems: {
+                create: order.lineItems.map((item) => ({
+                  productName: item.productName,
+                  quantity: item.quantity,
+                  sku: item.sku,
+                  shopifyProductId: item.shopifyProductId,
+                  price: item.price,
+                  total: item.total,
+                  productId: item.productId ?? null,
+                  egpUnitPrice: item.egpUnitPrice ?? null,
+                  egpTotal: item.egpTotal ?? null
+                }))
+              }
             }
-          }
+          });
+
+          await recordAuditEvent(
+            session,
+            { action: "create", entityType: "Order", entityId: created.id, after: created },
+            tx
+          );
+          await syncLedger({ orders: [created.id] }, tx);
         });
         imported++;
       } catch (error) {
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { autoApproveQueue } from "@/lib/auto-approve";
+
+/** Re-apply auto-approve rules to the whole queue, e.g. after adding a missing daily rate or product */
+export async function POST() {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "ADMIN") {
+        return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const counts = await autoApproveQueue();
+        return NextResponse.json({
+            ...counts,
+            message: `Imported ${counts.imported} order${counts.imported === 1 ? "" : "s"}; ${counts.held} held for review.`
+        });
+    } catch (error) {
+        console.error("Error applying auto-approve rules:", error);
+        return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+    }
+}
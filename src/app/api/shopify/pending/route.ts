@@ -3,13 +3,19 @@ import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { z } from "zod";
-import { transformShopifyOrders } from "@/lib/shopify";
-
-// Schema for filtering pending orders
-const getParamsSchema = z.object({
-    amount: z.string().optional(), // Filter by exact total amount
-    currency: z.string().optional(),
-});
+import { getDailyRateMap } from "@/lib/daily-rates";
+import { loadBusinessCalendars } from "@/lib/business-calendar";
+import { importQueuedShopifyOrders } from "@/lib/shopify-import";
+import {
+    QUEUE_TRIAGE_STATES,
+    classifyQueuedOrders,
+    derivedTriageState,
+    queuedBusinessDayKey,
+    type QueueTriageState
+} from "@/lib/import-queue";
+
+// Inbox is everything nobody has snoozed or ignored
+const TRIAGE_VIEWS = ["inbox", ...QUEUE_TRIAGE_STATES] as const;
 
 // Schema for approving/importing orders
 const approveSchema = z.object({
@@ -17,11 +23,18 @@ const approveSchema = z.object({
     venueId: z.number(), // Target venue for the import
 });
 
-// Schema for ignoring/deleting orders
+// Schema for deleting orders from the queue for good
 const ignoreSchema = z.object({
     orderIds: z.array(z.number()),
 });
 
+// Schema for triage: snooze until a time, ignore with a reason, or send back to the inbox
+const triageSchema = z.discriminatedUnion("action", [
+    z.object({ action: z.literal("snooze"), orderIds: z.array(z.number()).min(1), snoozedUntil: z.coerce.date() }),
+    z.object({ action: z.literal("ignore"), orderIds: z.array(z.number()).min(1), reason: z.string().trim().min(1).max(500) }),
+    z.object({ action: z.literal("restore"), orderIds: z.array(z.number()).min(1) }),
+]);
+
 export async function GET(request: Request) {
     const session = await getServerSession(authOptions);
     if (!session || session.user.role !== "ADMIN") {
@@ -31,41 +44,75 @@ export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
     const amount = searchParams.get("amount");
     const currency = searchParams.get("currency");
+    const issue = searchParams.get("issue");
+    const view = (TRIAGE_VIEWS as readonly string[]).includes(searchParams.get("state") ?? "")
+        ? (searchParams.get("state") as (typeof TRIAGE_VIEWS)[number])
+        : "inbox";
 
     try {
-        const whereClause: any = {};
-
-        if (amount) {
-            whereClause.totalAmount = parseFloat(amount);
-        }
-        if (currency) {
-            whereClause.currency = currency;
-        }
-
-        // Exclude any queue items whose shopifyOrderId already exists in the Order table
-        const existingExternalIds = (
+        // Queue items whose order is live in the Order table are stale; trashed ones stay and are flagged as duplicates
+        const liveExternalIds = (
             await prisma.order.findMany({
                 select: { externalId: true },
-                where: { externalId: { not: null } },
+                where: { externalId: { not: null }, deletedAt: null },
             })
         ).map((o) => o.externalId as string);
 
-        const pendingOrders = await prisma.shopifyImportQueue.findMany({
-            where: {
-                ...whereClause,
-                shopifyOrderId: { notIn: existingExternalIds },
-            },
-            orderBy: { createdAt: "desc" },
-        });
-
         // Clean up any stale queue entries that were already imported (best-effort)
-        if (existingExternalIds.length > 0) {
+        if (liveExternalIds.length > 0) {
             await prisma.shopifyImportQueue.deleteMany({
-                where: { shopifyOrderId: { in: existingExternalIds } },
+                where: { shopifyOrderId: { in: liveExternalIds } },
             }).catch(() => {}); // non-blocking, ignore if it fails
         }
 
-        return NextResponse.json({ orders: pendingOrders });
+        // Re-classify against current catalog, rates and orders, so fixes show up without re-fetching
+        const queued = await classifyQueuedOrders(
+            await prisma.shopifyImportQueue.findMany({
+                where: { shopifyOrderId: { notIn: liveExternalIds } },
+                orderBy: { createdAt: "desc" },
+            })
+        );
+
+        const counts = Object.fromEntries(TRIAGE_VIEWS.map((state) => [state, 0])) as Record<(typeof TRIAGE_VIEWS)[number], number>;
+        for (const entry of queued) {
+            counts[entry.triageState as QueueTriageState]++;
+            if (entry.triageState === "new" || entry.triageState === "needs_attention") counts.inbox++;
+        }
+
+        const pendingOrders = queued.filter((order) =>
+            (view === "inbox" ? order.triageState === "new" || order.triageState === "needs_attention" : order.triageState === view) &&
+            (!amount || order.totalAmount === parseFloat(amount)) &&
+            (!currency || order.currency === currency) &&
+            (!issue || order.issues.includes(issue))
+        );
+
+        // Pre-fill each order's AED/EGP rate from its store venue's DailyRate ledger
+        const stores = await prisma.shopifyStore.findMany({
+            where: { storeDomain: { in: [...new Set(pendingOrders.map((o) => o.storeDomain))] } },
+            select: { storeDomain: true, venueId: true }
+        });
+        const venueByDomain = new Map(stores.map((s) => [s.storeDomain, s.venueId]));
+        const calendars = await loadBusinessCalendars([...new Set(venueByDomain.values())]);
+        const dateKeys = pendingOrders.map((o) => queuedBusinessDayKey(o, venueByDomain.get(o.storeDomain), calendars));
+        const sortedKeys = [...dateKeys].sort();
+        const rateMap = sortedKeys.length
+            ? await getDailyRateMap(
+                [...new Set(venueByDomain.values())],
+                sortedKeys[0],
+                sortedKeys[sortedKeys.length - 1]
+            )
+            : new Map<string, number>();
+
+        return NextResponse.json({
+            counts,
+            orders: pendingOrders.map((order, index) => {
+                const venueId = venueByDomain.get(order.storeDomain);
+                return {
+                    ...order,
+                    aedEgpRate: venueId ? rateMap.get(`${venueId}:${dateKeys[index]}`) ?? null : null,
+                };
+            }),
+        });
     } catch (error) {
         console.error("Error fetching pending orders:", error);
         return NextResponse.json({ message: "Internal server error" }, { status: 500 });
@@ -88,83 +135,15 @@ export async function POST(request: Request) {
 
         const { orderIds, venueId } = parsed.data;
 
-        // 1. Fetch the queued orders
-        const queuedOrders = await prisma.shopifyImportQueue.findMany({
-            where: { id: { in: orderIds } },
-        });
+        const { found, imported, errors } = await importQueuedShopifyOrders(orderIds, venueId, { session });
 
-        if (queuedOrders.length === 0) {
+        if (found === 0) {
             return NextResponse.json({ message: "No orders found to import" }, { status: 404 });
         }
 
-        // 2. Transform them using existing logic
-        const domains = [...new Set(queuedOrders.map(o => o.storeDomain))];
-        const stores = await prisma.shopifyStore.findMany({
-            where: { storeDomain: { in: domains } }
-        });
-
-        const storeMap = new Map(stores.map(s => [s.storeDomain, s.id]));
-
-        const importResults = [];
-        const successfulIds: number[] = [];
-        const errors: string[] = [];
-
-        for (const queueItem of queuedOrders) {
-            const storeId = storeMap.get(queueItem.storeDomain);
-            if (!storeId) {
-                const msg = `Store not found for domain: ${queueItem.storeDomain} (Order ID: ${queueItem.id})`;
-                console.error(msg);
-                errors.push(msg);
-                continue;
-            }
-
-            try {
-                // queueItem.orderData is the raw shopify object.
-                const rawOrder = queueItem.orderData as any;
-
-                // Transform single order
-                const [transformed] = await transformShopifyOrders([rawOrder], venueId);
-
-                if (transformed) {
-                    // Create the Order in DB
-                    const orderData = {
-                        ...transformed,
-                        tags: Array.isArray(transformed.tags) ? transformed.tags.join(", ") : transformed.tags || "",
-                        shopifyStoreId: storeId,
-                        venueId: venueId,
-                    };
-
-                    const { lineItems, ...rest } = orderData;
-
-                    const createdOrder = await prisma.order.create({
-                        data: {
-                            ...rest,
-                            lineItems: {
-                                create: lineItems
-                            }
-                        }
-                    });
-                    importResults.push(createdOrder);
-                    successfulIds.push(queueItem.id);
-                } else {
-                    errors.push(`Transformation failed for Order ID: ${queueItem.id}`);
-                }
-            } catch (err: any) {
-                console.error(`Error processing order ${queueItem.id}:`, err);
-                errors.push(`Error processing Order ID ${queueItem.id}: ${err.message}`);
-            }
-        }
-
-        // 3. Delete ONLY successfully imported orders from Queue
-        if (successfulIds.length > 0) {
-            await prisma.shopifyImportQueue.deleteMany({
-                where: { id: { in: successfulIds } }
-            });
-        }
-
         return NextResponse.json({
-            message: `Successfully imported ${importResults.length} orders. ${errors.length > 0 ? `${errors.length} failed.` : ""}`,
-            count: importResults.length,
+            message: `Successfully imported ${imported.length} orders. ${errors.length > 0 ? `${errors.length} failed.` : ""}`,
+            count: imported.length,
             errors: errors.length > 0 ? errors : undefined
         });
 
@@ -201,3 +180,58 @@ export async function DELETE(request: Request) {
         return NextResponse.json({ message: "Internal server error" }, { status: 500 });
     }
 }
+
+export async function PATCH(request: Request) {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "ADMIN") {
+        return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const payload = await request.json();
+        const parsed = triageSchema.safeParse(payload);
+
+        if (!parsed.success) {
+            return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+        }
+
+        const { orderIds } = parsed.data;
+
+        if (parsed.data.action === "snooze") {
+            if (parsed.data.snoozedUntil <= new Date()) {
+                return NextResponse.json({ message: "Snooze time must be in the future" }, { status: 400 });
+            }
+            await prisma.shopifyImportQueue.updateMany({
+                where: { id: { in: orderIds } },
+                data: { triageState: "snoozed", snoozedUntil: parsed.data.snoozedUntil, ignoreReason: null },
+            });
+            return NextResponse.json({ message: `Snoozed ${orderIds.length} order${orderIds.length === 1 ? "" : "s"}` });
+        }
+
+        if (parsed.data.action === "ignore") {
+            await prisma.shopifyImportQueue.updateMany({
+                where: { id: { in: orderIds } },
+                data: { triageState: "ignored", ignoreReason: parsed.data.reason, snoozedUntil: null },
+            });
+            return NextResponse.json({ message: `Ignored ${orderIds.length} order${orderIds.length === 1 ? "" : "s"}` });
+        }
+
+        // Back to the inbox, in whichever state the order's current issues call for
+        const entries = await prisma.shopifyImportQueue.findMany({
+            where: { id: { in: orderIds } },
+            select: { id: true, issues: true },
+        });
+        await prisma.$transaction(
+            entries.map((entry) =>
+                prisma.shopifyImportQueue.update({
+                    where: { id: entry.id },
+                    data: { triageState: derivedTriageState(entry.issues), snoozedUntil: null, ignoreReason: null },
+                })
+            )
+        );
+        return NextResponse.json({ message: `Moved ${entries.length} order${entries.length === 1 ? "" : "s"} back to the inbox` });
+    } catch (error) {
+        console.error("Error triaging pending orders:", error);
+        return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+    }
+}
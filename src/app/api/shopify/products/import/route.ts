@@ -3,21 +3,17 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { applyCatalogDiff } from "@/lib/catalog-sync";
 
 const schema = z.object({
   storeId: z.number(),
-  products: z.array(
-    z.object({
-      shopifyProductId: z.string(),
-      name: z.string(),
-      sku: z.string().nullable(),
-      egpPrice: z.number().min(0)
-    })
-  )
+  keys: z.array(z.string()), // diff items to apply
+  egpPrices: z.record(z.number().min(0)).default({}) // for new products, by item key
 });
 
 /**
- * Import products from Shopify into the database
+ * Apply the chosen items of the store's catalog diff. The diff is rebuilt here, so only what
+ * Shopify still reports is applied.
  */
 export async function POST(request: Request) {
   const session = await getServerSession(authOptions);
@@ -40,95 +36,23 @@ export async function POST(request: Request) {
     );
   }
 
-  const { storeId, products } = parsed.data;
+  const { storeId, keys, egpPrices } = parsed.data;
 
   try {
-    // Fetch the Shopify store to get venueId
     const store = await prisma.shopifyStore.findUnique({
-      where: { id: storeId },
-      select: { venueId: true }
+      where: { id: storeId }
     });
 
     if (!store) {
       return NextResponse.json({ message: "Store not found" }, { status: 404 });
     }
 
-    let created = 0;
-    let updated = 0;
-    let skipped = 0;
-    const errors: string[] = [];
-
-    for (const product of products) {
-      try {
-        // Normalize empty string SKUs to null for database consistency
-        const productSku = product.sku && product.sku.trim() !== "" ? product.sku.trim() : null;
-
-        // Check if product already exists by Shopify Product ID
-        const existing = await prisma.product.findFirst({
-          where: {
-            shopifyProductId: product.shopifyProductId,
-            venueId: store.venueId
-          }
-        });
-
-        if (existing) {
-          // Update existing product
-          await prisma.product.update({
-            where: { id: existing.id },
-            data: {
-              name: product.name,
-              sku: productSku,
-              egpPrice: product.egpPrice
-            }
-          });
-          updated += 1;
-        } else {
-          // Check for SKU conflicts if SKU is provided
-          if (productSku) {
-            const skuConflict = await prisma.product.findUnique({
-              where: {
-                sku_venueId: {
-                  sku: productSku,
-                  venueId: store.venueId
-                }
-              }
-            });
-
-            if (skuConflict) {
-              errors.push(
-                `Product "${product.name}" has SKU conflict with existing product`
-              );
-              skipped += 1;
-              continue;
-            }
-          }
-
-          // Create new product
-          await prisma.product.create({
-            data: {
-              name: product.name,
-              sku: productSku,
-              shopifyProductId: product.shopifyProductId,
-              egpPrice: product.egpPrice,
-              venueId: store.venueId,
-              active: true
-            }
-          });
-          created += 1;
-        }
-      } catch (error: any) {
-        console.error(`Failed to import product ${product.name}:`, error);
-        errors.push(`${product.name}: ${error.message}`);
-        skipped += 1;
-      }
-    }
+    const result = await applyCatalogDiff(store, keys, egpPrices);
 
     return NextResponse.json({
-      created,
-      updated,
-      skipped,
-      totalProcessed: products.length,
-      errors: errors.length > 0 ? errors : undefined
+      ...result,
+      totalProcessed: keys.length,
+      errors: result.errors.length > 0 ? result.errors : undefined
     });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : "Failed to import products";
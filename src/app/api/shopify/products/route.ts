@@ -3,26 +3,14 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
-import { SHOPIFY_API_VERSION } from "@/lib/shopify";
-import { decrypt } from "@/lib/encryption";
+import { buildCatalogDiff } from "@/lib/catalog-sync";
 
 const schema = z.object({
   storeId: z.number()
 });
 
-type ShopifyProduct = {
-  id: number;
-  title: string;
-  variants: Array<{
-    id: number;
-    sku: string | null;
-    price: string;
-  }>;
-  status: string;
-};
-
 /**
- * Fetch products from Shopify store
+ * Diff the store's Shopify catalog against the venue's products, without changing anything
  */
 export async function POST(request: Request) {
   const session = await getServerSession(authOptions);
@@ -60,64 +48,21 @@ export async function POST(request: Request) {
       return NextResponse.json({ message: "Store not found" }, { status: 404 });
     }
 
-    // Fetch products from Shopify
-    let allProducts: ShopifyProduct[] = [];
-    let nextUrl: string | null = `https://${store.storeDomain}/admin/api/${SHOPIFY_API_VERSION}/products.json?limit=250&status=active`;
-
-    while (nextUrl) {
-      const res: Response = await fetch(nextUrl, {
-        headers: {
-          "Content-Type": "application/json",
-          "X-Shopify-Access-Token": decrypt(store.accessToken)
-        },
-        cache: "no-store"
-      });
-
-      if (!res.ok) {
-        const message = await res.text();
-        throw new Error(`Shopify request failed: ${res.status} ${message}`);
-      }
-
-      const data = (await res.json()) as { products: ShopifyProduct[] };
-      allProducts = allProducts.concat(data.products);
-
-      // Parse Link header for pagination
-      const linkHeader = res.headers.get("Link");
-      nextUrl = null;
-      if (linkHeader) {
-        const links: string[] = linkHeader.split(",");
-        const nextLink: string | undefined = links.find((link: string) => link.includes('rel="next"'));
-        if (nextLink) {
-          const match: RegExpMatchArray | null = nextLink.match(/<(.*)>/);
-          if (match) nextUrl = match[1];
-        }
-      }
-    }
-
-    // Transform products for easier consumption
-    const products = allProducts.flatMap((product) =>
-      product.variants.map((variant) => ({
-        // CRITICAL: Use variant.id for precise matching
-        shopifyProductId: String(variant.id),
-        name: product.title,
-        sku: variant.sku,
-        price: parseFloat(variant.price),
-        status: product.status
-      }))
-    );
+    const { items, unchanged } = await buildCatalogDiff(store);
 
     return NextResponse.json({
-      products,
+      items,
+      unchanged,
       store: {
         id: store.id,
         domain: store.storeDomain,
         nickname: store.nickname,
+        catalogSyncedAt: store.catalogSyncedAt,
         venue: {
           id: store.venue.id,
           name: store.venue.name
         }
-      },
-      count: products.length
+      }
     });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : "Failed to fetch products from Shopify";
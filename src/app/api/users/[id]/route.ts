@@ -5,6 +5,7 @@ import bcrypt from "bcryptjs";
 import type { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
 
 const updateUserSchema = z.object({
   name: z.string().optional().nullable(),
@@ -104,13 +105,39 @@ export async function PATCH(request: Request, { params }: { params: { id: string
     };
   }
 
+  const existing = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { venues: { select: { id: true, name: true } } }
+  });
+
+  if (!existing) {
+    return NextResponse.json({ message: "User not found" }, { status: 404 });
+  }
+
   try {
-    const user = await prisma.user.update({
-      where: { id: userId },
-      data,
-      include: {
-        venues: true
-      }
+    const user = await prisma.$transaction(async (tx) => {
+      const saved = await tx.user.update({
+        where: { id: userId },
+        data,
+        include: {
+          venues: true
+        }
+      });
+
+      await recordAuditEvent(
+        session,
+        {
+          action: "update",
+          entityType: "User",
+          entityId: userId,
+          before: existing,
+          // The hash itself is redacted; record only that it changed
+          after: { ...saved, passwordChanged: data.password !== undefined }
+        },
+        tx
+      );
+
+      return saved;
     });
 
     return NextResponse.json({
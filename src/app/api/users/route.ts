@@ -4,6 +4,7 @@ import { z } from "zod";
 import bcrypt from "bcryptjs";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
 
 const createUserSchema = z.object({
   email: z.string().email(),
@@ -78,6 +79,8 @@ export async function POST(request: Request) {
       }
     });
 
+    await recordAuditEvent(session, { action: "create", entityType: "User", entityId: user.id, after: user });
+
     return NextResponse.json(
       {
         user: {
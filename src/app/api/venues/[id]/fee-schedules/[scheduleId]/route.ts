@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { syncOrdersInBatches } from "@/lib/ledger";
+import { ordersAffectedByFeeSchedule } from "@/lib/fee-schedules";
+
+const updateSchema = z
+  .object({
+    effectiveFrom: z.coerce.date().optional(),
+    platformFeeMultiplier: z.number().min(1, "The platform fee can't lower the order value").optional(),
+    commissionRate: z.number().min(0).lt(1).optional(),
+    notes: z.string().trim().max(500).optional().nullable()
+  })
+  .strict();
+
+const parseIds = (params: { id: string; scheduleId: string }) => {
+  const venueId = Number(params.id);
+  const scheduleId = Number(params.scheduleId);
+  return Number.isNaN(venueId) || Number.isNaN(scheduleId) ? null : { venueId, scheduleId };
+};
+
+// Payouts are re-posted from the earlier of the old and new effectiveFrom
+export async function PATCH(request: Request, { params }: { params: { id: string; scheduleId: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const ids = parseIds(params);
+  if (!ids) {
+    return NextResponse.json({ message: "Invalid fee schedule id" }, { status: 400 });
+  }
+
+  const body = await request.json();
+  const parsed = updateSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const existing = await prisma.feeSchedule.findUnique({ where: { id: ids.scheduleId } });
+  if (!existing || existing.venueId !== ids.venueId) {
+    return NextResponse.json({ message: "Fee schedule not found" }, { status: 404 });
+  }
+
+  const { notes, ...data } = parsed.data;
+  const effectiveFrom = data.effectiveFrom ?? existing.effectiveFrom;
+  if (effectiveFrom.getTime() !== existing.effectiveFrom.getTime()) {
+    const clash = await prisma.feeSchedule.findUnique({
+      where: { venueId_effectiveFrom: { venueId: ids.venueId, effectiveFrom } }
+    });
+    if (clash) {
+      return NextResponse.json({ message: "This venue already has a schedule starting then" }, { status: 409 });
+    }
+  }
+
+  try {
+    const schedule = await prisma.$transaction(async (tx) => {
+      const saved = await tx.feeSchedule.update({
+        where: { id: ids.scheduleId },
+        data: { ...data, ...(notes !== undefined ? { notes: notes || null } : {}) }
+      });
+
+      await recordAuditEvent(
+        session,
+        { action: "update", entityType: "FeeSchedule", entityId: saved.id, before: existing, after: saved },
+        tx
+      );
+
+      return saved;
+    });
+    const from = effectiveFrom < existing.effectiveFrom ? effectiveFrom : existing.effectiveFrom;
+    await syncOrdersInBatches(await ordersAffectedByFeeSchedule(ids.venueId, from));
+
+    return NextResponse.json({ schedule });
+  } catch (error: unknown) {
+    console.error("Failed to update fee schedule:", error instanceof Error ? error.message : error);
+    return NextResponse.json({ message: "Failed to update fee schedule" }, { status: 500 });
+  }
+}
+
+// Orders it covered fall back to the schedule before it, or the defaults
+export async function DELETE(_request: Request, { params }: { params: { id: string; scheduleId: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const ids = parseIds(params);
+  if (!ids) {
+    return NextResponse.json({ message: "Invalid fee schedule id" }, { status: 400 });
+  }
+
+  const existing = await prisma.feeSchedule.findUnique({ where: { id: ids.scheduleId } });
+  if (!existing || existing.venueId !== ids.venueId) {
+    return NextResponse.json({ message: "Fee schedule not found" }, { status: 404 });
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await tx.feeSchedule.delete({ where: { id: ids.scheduleId } });
+      await recordAuditEvent(
+        session,
+        { action: "delete", entityType: "FeeSchedule", entityId: existing.id, before: existing },
+        tx
+      );
+    });
+    await syncOrdersInBatches(await ordersAffectedByFeeSchedule(ids.venueId, existing.effectiveFrom));
+
+    return NextResponse.json({ message: "Fee schedule deleted" });
+  } catch (error: unknown) {
+    console.error("Failed to delete fee schedule:", error instanceof Error ? error.message : error);
+    return NextResponse.json({ message: "Failed to delete fee schedule" }, { status: 500 });
+  }
+}
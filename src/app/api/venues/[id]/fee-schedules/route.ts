@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { syncOrdersInBatches } from "@/lib/ledger";
+import { ordersAffectedByFeeSchedule } from "@/lib/fee-schedules";
+import { DEFAULT_FEE_TERMS } from "@/lib/fee-terms";
+
+const scheduleSchema = z.object({
+  effectiveFrom: z.coerce.date(),
+  platformFeeMultiplier: z.number().min(1, "The platform fee can't lower the order value"),
+  commissionRate: z.number().min(0).lt(1),
+  notes: z.string().trim().max(500).optional().nullable()
+});
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const venueId = Number(params.id);
+  if (Number.isNaN(venueId)) {
+    return NextResponse.json({ message: "Invalid venue id" }, { status: 400 });
+  }
+
+  const schedules = await prisma.feeSchedule.findMany({
+    where: { venueId },
+    orderBy: { effectiveFrom: "desc" }
+  });
+
+  return NextResponse.json({ schedules, defaults: DEFAULT_FEE_TERMS });
+}
+
+// Payouts from effectiveFrom on are re-posted; USD revenue already recorded on those orders is left as charged
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const venueId = Number(params.id);
+  if (Number.isNaN(venueId)) {
+    return NextResponse.json({ message: "Invalid venue id" }, { status: 400 });
+  }
+
+  const body = await request.json();
+  const parsed = scheduleSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { effectiveFrom, platformFeeMultiplier, commissionRate, notes } = parsed.data;
+
+  const venue = await prisma.venue.findUnique({ where: { id: venueId } });
+  if (!venue) {
+    return NextResponse.json({ message: "Venue not found" }, { status: 404 });
+  }
+
+  const clash = await prisma.feeSchedule.findUnique({ where: { venueId_effectiveFrom: { venueId, effectiveFrom } } });
+  if (clash) {
+    return NextResponse.json({ message: "This venue already has a schedule starting then" }, { status: 409 });
+  }
+
+  try {
+    const schedule = await prisma.$transaction(async (tx) => {
+      const created = await tx.feeSchedule.create({
+        data: { venueId, effectiveFrom, platformFeeMultiplier, commissionRate, notes: notes || null }
+      });
+
+      await recordAuditEvent(
+        session,
+        { action: "create", entityType: "FeeSchedule", entityId: created.id, after: created },
+        tx
+      );
+
+      return created;
+    });
+    // Outside the write: a long history is re-synced in batches rather than under one transaction
+    await syncOrdersInBatches(await ordersAffectedByFeeSchedule(venueId, effectiveFrom));
+
+    return NextResponse.json({ schedule }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("Failed to create fee schedule:", error instanceof Error ? error.message : error);
+    return NextResponse.json({ message: "Failed to create fee schedule" }, { status: 500 });
+  }
+}
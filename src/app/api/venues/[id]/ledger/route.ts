@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { LEDGER_ENTRY_TYPES, reconcileVenueLedger } from "@/lib/ledger";
+
+const PAGE_SIZE = 50;
+
+const querySchema = z.object({
+  type: z.enum(LEDGER_ENTRY_TYPES).optional(),
+  page: z.coerce.number().int().positive().default(1)
+});
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const venueId = Number(params.id);
+  if (Number.isNaN(venueId)) {
+    return NextResponse.json({ message: "Invalid venue id" }, { status: 400 });
+  }
+
+  const isAdmin = session.user.role === "ADMIN";
+  const venueIds = (session.user.venueIds ?? []).map((id) => Number(id));
+  if (!isAdmin && !venueIds.includes(venueId)) {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsed = querySchema.safeParse({
+    type: searchParams.get("type") ?? undefined,
+    page: searchParams.get("page") ?? undefined
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { type, page } = parsed.data;
+  const where = { venueId, ...(type ? { type } : {}) };
+
+  const [venue, totalCount, entries] = await Promise.all([
+    prisma.venue.findUnique({ where: { id: venueId }, select: { id: true, name: true, ledgerBalance: true } }),
+    prisma.ledgerEntry.count({ where }),
+    prisma.ledgerEntry.findMany({
+      where,
+      orderBy: { id: "desc" },
+      skip: (page - 1) * PAGE_SIZE,
+      take: PAGE_SIZE
+    })
+  ]);
+
+  if (!venue) {
+    return NextResponse.json({ message: "Venue not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    venue: { id: venue.id, name: venue.name, balance: venue.ledgerBalance },
+    entries: entries.map((entry) => ({
+      id: entry.id,
+      type: entry.type,
+      sourceId: entry.sourceId,
+      description: entry.description,
+      amount: entry.amount,
+      balanceAfter: entry.balanceAfter,
+      occurredAt: entry.occurredAt.toISOString(),
+      createdAt: entry.createdAt.toISOString()
+    })),
+    pagination: {
+      page,
+      pageSize: PAGE_SIZE,
+      totalCount,
+      totalPages: Math.ceil(totalCount / PAGE_SIZE)
+    }
+  });
+}
+
+/** Re-check every order, payout, deduction and the adjustment against the ledger and post any missing entries */
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user.role !== "ADMIN") {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const venueId = Number(params.id);
+  if (Number.isNaN(venueId)) {
+    return NextResponse.json({ message: "Invalid venue id" }, { status: 400 });
+  }
+
+  const venue = await prisma.venue.findUnique({ where: { id: venueId }, select: { id: true } });
+  if (!venue) {
+    return NextResponse.json({ message: "Venue not found" }, { status: 404 });
+  }
+
+  try {
+    const posted = await reconcileVenueLedger(venueId);
+    return NextResponse.json({
+      posted,
+      message: posted ? `Posted ${posted} correcting entr${posted === 1 ? "y" : "ies"}.` : "Ledger is up to date."
+    });
+  } catch (error) {
+    console.error("Failed to reconcile venue ledger", error);
+    return NextResponse.json({ message: "Failed to reconcile ledger" }, { status: 500 });
+  }
+}
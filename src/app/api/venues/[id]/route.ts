@@ -4,10 +4,16 @@ import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { slugify } from "@/lib/order-utils";
+import { recordAuditEvent } from "@/lib/audit";
+import { syncLedger } from "@/lib/ledger";
+import { refreshDailyVenueStats } from "@/lib/daily-venue-stats";
+import { isValidTimezone, MAX_BUSINESS_DAY_CUTOFF_HOUR } from "@/lib/business-calendar";
 
 const venueSchema = z.object({
   name: z.string().min(1, "Name is required").max(100, "Name is too long").optional(),
-  balanceAdjustment: z.number().optional()
+  balanceAdjustment: z.number().optional(),
+  timezone: z.string().trim().refine(isValidTimezone, "Unknown timezone").optional(),
+  businessDayCutoffHour: z.number().int().min(0).max(MAX_BUSINESS_DAY_CUTOFF_HOUR).optional()
 });
 
 export async function PATCH(request: Request, { params }: { params: { id: string } }) {
@@ -45,21 +51,46 @@ export async function PATCH(request: Request, { params }: { params: { id: string
     updateData.balanceAdjustment = parsed.data.balanceAdjustment;
   }
 
+  if (parsed.data.timezone !== undefined) {
+    updateData.timezone = parsed.data.timezone;
+  }
+
+  if (parsed.data.businessDayCutoffHour !== undefined) {
+    updateData.businessDayCutoffHour = parsed.data.businessDayCutoffHour;
+  }
+
   if (Object.keys(updateData).length === 0) {
     return NextResponse.json({ message: "No fields to update" }, { status: 400 });
   }
 
-  const updated = await prisma.venue.update({
-    where: { id: venueId },
-    data: updateData,
-    include: {
-      _count: {
-        select: {
-          users: true,
-          orders: true
+  const existing = await prisma.venue.findUnique({ where: { id: venueId } });
+  if (!existing) {
+    return NextResponse.json({ message: "Venue not found" }, { status: 404 });
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const saved = await tx.venue.update({
+      where: { id: venueId },
+      data: updateData,
+      include: {
+        _count: {
+          select: {
+            users: true,
+            orders: true
+          }
         }
       }
+    });
+
+    const { _count, ...after } = saved;
+    await recordAuditEvent(session, { action: "update", entityType: "Venue", entityId: venueId, before: existing, after }, tx);
+    await syncLedger({ adjustments: [venueId] }, tx);
+    // A new calendar moves orders between business days
+    if (saved.timezone !== existing.timezone || saved.businessDayCutoffHour !== existing.businessDayCutoffHour) {
+      await refreshDailyVenueStats([venueId], tx);
     }
+
+    return saved;
   });
 
   return NextResponse.json({
@@ -67,6 +98,8 @@ export async function PATCH(request: Request, { params }: { params: { id: string
       id: updated.id,
       name: updated.name,
       slug: updated.slug,
+      timezone: updated.timezone,
+      businessDayCutoffHour: updated.businessDayCutoffHour,
       createdAt: updated.createdAt.toISOString(),
       updatedAt: updated.updatedAt.toISOString(),
       userCount: updated._count.users,
@@ -103,10 +136,14 @@ export async function DELETE(_request: Request, { params }: { params: { id: stri
   }
 
   if (venue._count.orders > 0) {
-    return NextResponse.json({ message: "Cannot delete a venue with orders" }, { status: 400 });
+    return NextResponse.json({ message: "Cannot delete a venue with orders (including orders in the trash)" }, { status: 400 });
   }
 
-  await prisma.venue.delete({ where: { id: venueId } });
+  const { _count, ...before } = venue;
+  await prisma.$transaction(async (tx) => {
+    await tx.venue.delete({ where: { id: venueId } });
+    await recordAuditEvent(session, { action: "delete", entityType: "Venue", entityId: venueId, before }, tx);
+  });
 
   return NextResponse.json(null, { status: 204 });
 }
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { slugify } from "@/lib/order-utils";
+import { buildVenueStatement, renderStatementHtml } from "@/lib/venue-statement";
+import { renderStatementPdf } from "@/lib/statement-pdf";
+import { BUSINESS_MONTH_PATTERN } from "@/lib/business-calendar";
+
+const statementSchema = z.object({
+  month: z.string().regex(BUSINESS_MONTH_PATTERN, "Month must be YYYY-MM"),
+  format: z.enum(["html", "pdf"]).default("html"),
+  download: z.enum(["0", "1"]).optional()
+});
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const venueId = Number(params.id);
+  if (Number.isNaN(venueId)) {
+    return NextResponse.json({ message: "Invalid venue id" }, { status: 400 });
+  }
+
+  const isAdmin = session.user.role === "ADMIN";
+  const venueIds = (session.user.venueIds ?? []).map((id) => Number(id));
+  if (!isAdmin && !venueIds.includes(venueId)) {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsed = statementSchema.safeParse({
+    month: searchParams.get("month") ?? undefined,
+    format: searchParams.get("format") ?? undefined,
+    download: searchParams.get("download") ?? undefined
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid payload", issues: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { month, format, download } = parsed.data;
+
+  try {
+    const statement = await buildVenueStatement(venueId, month);
+    if (!statement) {
+      return NextResponse.json({ message: "Venue not found" }, { status: 404 });
+    }
+
+    const filename = `${slugify(statement.venue.name)}-statement-${month}`;
+
+    if (format === "pdf") {
+      const bytes = await renderStatementPdf(statement);
+      return new NextResponse(Buffer.from(bytes), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `${download === "0" ? "inline" : "attachment"}; filename="${filename}.pdf"`
+        }
+      });
+    }
+
+    return new NextResponse(renderStatementHtml(statement), {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        ...(download === "1" ? { "Content-Disposition": `attachment; filename="${filename}.html"` } : {})
+      }
+    });
+  } catch (error) {
+    console.error("Failed to build venue statement", error);
+    return NextResponse.json({ message: "Failed to build statement" }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
 import { slugify } from "@/lib/order-utils";
 
 const venueSchema = z.object({
@@ -21,7 +22,7 @@ export async function GET() {
       _count: {
         select: {
           users: true,
-          orders: true
+          orders: { where: { deletedAt: null } }
         }
       }
     }
@@ -32,6 +33,8 @@ export async function GET() {
       id: venue.id,
       name: venue.name,
       slug: venue.slug,
+      timezone: venue.timezone,
+      businessDayCutoffHour: venue.businessDayCutoffHour,
       createdAt: venue.createdAt.toISOString(),
       updatedAt: venue.updatedAt.toISOString(),
       userCount: venue._count.users,
@@ -68,12 +71,16 @@ export async function POST(request: Request) {
     }
   });
 
+  await recordAuditEvent(session, { action: "create", entityType: "Venue", entityId: venue.id, after: venue });
+
   return NextResponse.json(
     {
       venue: {
         id: venue.id,
         name: venue.name,
         slug: venue.slug,
+        timezone: venue.timezone,
+        businessDayCutoffHour: venue.businessDayCutoffHour,
         createdAt: venue.createdAt.toISOString(),
         updatedAt: venue.updatedAt.toISOString(),
         userCount: 0,
@@ -7,7 +7,7 @@ import { useSession } from "next-auth/react";
 import useSWR, { useSWRConfig } from "swr";
 import { toast } from "sonner";
 import { OrderDrawer } from "@/components/orders/order-drawer";
-import { CLIENT_COMMISSION_RATE } from "@/lib/constants";
+import { calculateNetAedPayout } from "@/lib/order-rates";
 import type { OrderDto } from "@/types/orders";
 
 type OrdersResponse = { orders: OrderDto[] };
@@ -61,31 +61,10 @@ function fmtUSD(n: number) {
   }).format(n);
 }
 
-function getOrderAedRate(order: OrderDto) {
-  if (typeof order.aedEgpRate === "number" && order.aedEgpRate > 0) {
-    return order.aedEgpRate;
-  }
-
-  if (typeof order.exchangeRate === "number" && order.exchangeRate > 0 && order.exchangeRate <= 20) {
-    return order.exchangeRate;
-  }
-
-  return null;
-}
-
-function calculateNetAedPayout(order: OrderDto) {
-  const rate = getOrderAedRate(order);
-  if (typeof order.originalAmount === "number" && order.originalAmount > 0 && rate) {
-    return order.originalAmount * (1 - CLIENT_COMMISSION_RATE) / rate;
-  }
-  return 0;
-}
-
 export function DayOrdersPanel({ open, date, dateLabel, onClose }: DayOrdersPanelProps) {
   const { data: session } = useSession();
   const { mutate: mutateGlobal } = useSWRConfig();
   const isAdmin = session?.user.role === "ADMIN";
-  const tzOffset = new Date().getTimezoneOffset();
 
   const [selectedOrder, setSelectedOrder] = useState<OrderDto | null>(null);
   const [orderDrawerOpen, setOrderDrawerOpen] = useState(false);
@@ -96,7 +75,7 @@ export function DayOrdersPanel({ open, date, dateLabel, onClose }: DayOrdersPane
 
   const param = date ? toDayParam(date) : null;
   const { data, isLoading } = useSWR<OrdersResponse>(
-    open && param ? `/api/orders?startDate=${param}&endDate=${param}&page=all&tzOffset=${tzOffset}` : null,
+    open && param ? `/api/orders?startDate=${param}&endDate=${param}&page=all` : null,
     fetcher
   );
   const deductionsKey = open && date && isAdmin ? `/api/daily-deductions?date=${date}` : null;
@@ -113,7 +92,7 @@ export function DayOrdersPanel({ open, date, dateLabel, onClose }: DayOrdersPane
   const deductions = deductionsData?.deductions ?? [];
   const totalEGP = orders.reduce((s, o) => s + (o.originalAmount ?? 0), 0);
   const totalUSD = orders.reduce((s, o) => s + o.totalAmount, 0);
-  const grossAED = orders.reduce((s, o) => s + calculateNetAedPayout(o), 0);
+  const grossAED = orders.reduce((s, o) => s + calculateNetAedPayout(o, o.feeTerms), 0);
   const totalDeductions = deductionsData?.totalAmount ?? 0;
   const totalAED = grossAED - totalDeductions;
 
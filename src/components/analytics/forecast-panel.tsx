@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { AlertTriangle } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+type Metric = "orders" | "egpTotal" | "revenue" | "aedPayout";
+type Metrics = Record<Metric, number>;
+
+type ForecastSeries = {
+  months: Array<{ month: string; label: string; actual: Metrics; projected: Metrics; low: Metrics; high: Metrics }>;
+  days: Array<{ date: string; actual: Metrics | null; expected: Metrics; low: Metrics; high: Metrics; outside: Metric[] }>;
+  outliers: Array<{ date: string; metrics: Metric[]; actual: Metrics; low: Metrics; high: Metrics }>;
+};
+
+type ForecastResponse = {
+  today: string;
+  lookbackFrom: string;
+  venues: Array<ForecastSeries & { venueId: number; venueName: string }>;
+  total: ForecastSeries;
+};
+
+type ForecastPanelProps = {
+  venueIds: number[];
+  isAdmin: boolean;
+};
+
+const fetcher = (url: string) =>
+  fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error("Request failed");
+    }
+    return response.json();
+  });
+
+const METRIC_LABELS: Record<Metric, string> = {
+  orders: "Orders",
+  egpTotal: "EGP volume",
+  revenue: "Revenue (USD)",
+  aedPayout: "AED payout liability"
+};
+
+const formatMetric = (metric: Metric, value: number) => {
+  if (metric === "revenue") {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(value);
+  }
+  const formatted = new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(value);
+  return metric === "egpTotal" ? `${formatted} EGP` : metric === "aedPayout" ? `${formatted} AED` : formatted;
+};
+
+const formatDay = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00.000Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC"
+  });
+
+export function ForecastPanel({ venueIds, isAdmin }: ForecastPanelProps) {
+  const [scope, setScope] = useState("total");
+  const [metric, setMetric] = useState<Metric>("egpTotal");
+
+  const params = new URLSearchParams();
+  venueIds.forEach((id) => params.append("venueId", String(id)));
+  const { data, isLoading, error } = useSWR<ForecastResponse>(`/api/analytics/forecast?${params.toString()}`, fetcher);
+
+  const metrics: Metric[] = isAdmin ? ["orders", "egpTotal", "revenue", "aedPayout"] : ["orders", "egpTotal", "revenue"];
+  const series =
+    scope === "total" ? data?.total : data?.venues.find((venue) => String(venue.venueId) === scope) ?? data?.total;
+  const days = series?.days ?? [];
+  const maxValue = Math.max(...days.map((day) => Math.max(day.actual?.[metric] ?? 0, day.high[metric])), 1);
+
+  const inputClass =
+    "rounded-lg border border-synvora-border bg-white px-3 py-1.5 text-sm shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-semibold text-synvora-text">Forecast</h2>
+          <p className="mt-0.5 text-xs text-synvora-text-secondary">
+            This business month and the next, from each weekday&apos;s pattern over the last 12 weeks
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {(data?.venues.length ?? 0) > 1 && (
+            <select value={scope} onChange={(e) => setScope(e.target.value)} className={inputClass}>
+              <option value="total">All venues</option>
+              {data!.venues.map((venue) => (
+                <option key={venue.venueId} value={venue.venueId}>
+                  {venue.venueName}
+                </option>
+              ))}
+            </select>
+          )}
+          <select value={metric} onChange={(e) => setMetric(e.target.value as Metric)} className={inputClass}>
+            {metrics.map((value) => (
+              <option key={value} value={value}>
+                {METRIC_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="rounded-2xl border border-synvora-border bg-white p-10 text-center text-sm text-rose-600">
+          Failed to load the forecast
+        </div>
+      ) : isLoading || !series ? (
+        <div className="grid gap-4 lg:grid-cols-3">
+          {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-48 rounded-2xl" />)}
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Month projections */}
+          <div className="space-y-4">
+            {series.months.map((month, index) => (
+              <div key={month.month} className="rounded-2xl border border-synvora-border bg-white p-5 shadow-sm">
+                <div className="flex items-baseline justify-between">
+                  <h3 className="text-sm font-semibold text-synvora-text">{month.label}</h3>
+                  <span className="text-xs text-synvora-text-secondary">{index === 0 ? "This month" : "Next month"}</span>
+                </div>
+                <dl className="mt-3 space-y-2 text-sm">
+                  {metrics.map((key) => (
+                    <div key={key} className="flex items-baseline justify-between gap-3">
+                      <dt className="text-synvora-text-secondary">{METRIC_LABELS[key]}</dt>
+                      <dd className="text-right">
+                        <span className="font-semibold text-synvora-text tabular-nums">
+                          {formatMetric(key, month.projected[key])}
+                        </span>
+                        <span className="block text-[11px] text-synvora-text-secondary tabular-nums">
+                          {formatMetric(key, month.low[key])} – {formatMetric(key, month.high[key])}
+                          {index === 0 && ` · ${formatMetric(key, month.actual[key])} so far`}
+                        </span>
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            ))}
+          </div>
+
+          {/* Daily actuals against the expected range */}
+          <div className="rounded-2xl border border-synvora-border bg-white p-6 shadow-sm lg:col-span-2">
+            <h3 className="text-sm font-semibold text-synvora-text">{METRIC_LABELS[metric]} per day</h3>
+            <div className="mt-2 flex flex-wrap gap-3 text-[11px] text-synvora-text-secondary">
+              <span className="inline-flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-synvora-primary" /> Actual
+              </span>
+              <span className="inline-flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-synvora-primary/20" /> Expected
+              </span>
+              <span className="inline-flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-rose-500" /> Outside the expected range
+              </span>
+            </div>
+
+            <div className="mt-4 flex h-44 items-end gap-px">
+              {days.map((day) => {
+                const value = day.actual ? day.actual[metric] : day.expected[metric];
+                const flagged = day.outside.includes(metric);
+                return (
+                  <div
+                    key={day.date}
+                    className="group relative flex h-full flex-1 flex-col justify-end"
+                    title={`${formatDay(day.date)}: ${day.actual ? formatMetric(metric, day.actual[metric]) : "expected"} (range ${formatMetric(metric, day.low[metric])} – ${formatMetric(metric, day.high[metric])})`}
+                  >
+                    {/* Expected range */}
+                    <div
+                      className="absolute inset-x-0 rounded-sm bg-synvora-border/60"
+                      style={{
+                        bottom: `${(day.low[metric] / maxValue) * 100}%`,
+                        height: `${Math.max(((day.high[metric] - day.low[metric]) / maxValue) * 100, 1)}%`
+                      }}
+                    />
+                    <div
+                      className={cn(
+                        "relative w-full rounded-t",
+                        !day.actual
+                          ? "bg-synvora-primary/20"
+                          : flagged
+                            ? "bg-rose-500"
+                            : day.date === data?.today
+                              ? "bg-synvora-primary/70"
+                              : "bg-synvora-primary"
+                      )}
+                      style={{ height: `${Math.max((value / maxValue) * 100, 1)}%` }}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            {days.length > 0 && (
+              <div className="mt-1 flex justify-between text-[10px] text-synvora-text-secondary">
+                <span>{formatDay(days[0].date)}</span>
+                <span>{formatDay(days[days.length - 1].date)}</span>
+              </div>
+            )}
+
+            {series.outliers.length > 0 && (
+              <div className="mt-5 border-t border-synvora-border pt-4">
+                <p className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+                  <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />
+                  Unusual days in the last 4 weeks
+                </p>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {series.outliers.map((outlier) => (
+                    <li key={outlier.date} className="flex flex-wrap gap-x-3">
+                      <span className="w-28 font-medium text-synvora-text">{formatDay(outlier.date)}</span>
+                      {outlier.metrics.map((key) => (
+                        <span key={key} className="text-synvora-text-secondary">
+                          {METRIC_LABELS[key]}{" "}
+                          <span
+                            className={cn(
+                              "font-semibold",
+                              outlier.actual[key] > outlier.high[key] ? "text-emerald-600" : "text-rose-600"
+                            )}
+                          >
+                            {formatMetric(key, outlier.actual[key])}
+                          </span>{" "}
+                          (expected {formatMetric(key, outlier.low[key])} – {formatMetric(key, outlier.high[key])})
+                        </span>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
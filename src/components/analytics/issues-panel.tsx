@@ -0,0 +1,201 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import { toast } from "sonner";
+import { AlertCircle, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { OrderDrawer } from "@/components/orders/order-drawer";
+import { cn } from "@/lib/utils";
+import type { OrderDto } from "@/types/orders";
+
+type AnomalyKind = "order_amount" | "order_rate" | "missing_rate" | "rate_jump" | "rate_market";
+
+type Anomaly = {
+  kind: AnomalyKind;
+  severity: "warning" | "error";
+  venueId: number;
+  venueName: string;
+  date: string;
+  orderId: number | null;
+  orderNumber: string | null;
+  value: number | null;
+  expected: number | null;
+  message: string;
+};
+
+type IssuesResponse = { days: number; anomalies: Anomaly[] };
+
+type IssuesPanelProps = {
+  venueIds: number[];
+};
+
+const fetcher = (url: string) =>
+  fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error("Request failed");
+    }
+    return response.json();
+  });
+
+const KIND_LABELS: Record<AnomalyKind, string> = {
+  order_amount: "Unusual amount",
+  order_rate: "Order rate",
+  missing_rate: "Missing rate",
+  rate_jump: "Rate jump",
+  rate_market: "Off market"
+};
+
+const PERIODS = [7, 30, 90];
+
+const formatDay = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00.000Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC"
+  });
+
+export function IssuesPanel({ venueIds }: IssuesPanelProps) {
+  const [days, setDays] = useState(30);
+  const [kind, setKind] = useState<AnomalyKind | "">("");
+  const [selectedOrder, setSelectedOrder] = useState<OrderDto | null>(null);
+  const [orderDrawerOpen, setOrderDrawerOpen] = useState(false);
+  const [openingOrderId, setOpeningOrderId] = useState<number | null>(null);
+
+  const params = new URLSearchParams({ days: String(days) });
+  venueIds.forEach((id) => params.append("venueId", String(id)));
+  const { data, isLoading, error, mutate } = useSWR<IssuesResponse>(`/api/analytics/issues?${params.toString()}`, fetcher);
+
+  const anomalies = (data?.anomalies ?? []).filter((anomaly) => !kind || anomaly.kind === kind);
+
+  const openOrder = async (orderId: number) => {
+    setOpeningOrderId(orderId);
+    try {
+      const response = await fetch(`/api/orders/${orderId}`);
+      if (!response.ok) {
+        throw new Error("Request failed");
+      }
+      setSelectedOrder((await response.json()) as OrderDto);
+      setOrderDrawerOpen(true);
+    } catch {
+      toast.error("Failed to load order.");
+    } finally {
+      setOpeningOrderId(null);
+    }
+  };
+
+  const inputClass =
+    "rounded-lg border border-synvora-border bg-white px-3 py-1.5 text-sm shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-semibold text-synvora-text">Issues</h2>
+          <p className="mt-0.5 text-xs text-synvora-text-secondary">
+            Orders and daily rates that look like data-entry mistakes
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={kind} onChange={(e) => setKind(e.target.value as AnomalyKind | "")} className={inputClass}>
+            <option value="">All issues</option>
+            {(Object.keys(KIND_LABELS) as AnomalyKind[]).map((value) => (
+              <option key={value} value={value}>
+                {KIND_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))} className={inputClass}>
+            {PERIODS.map((value) => (
+              <option key={value} value={value}>
+                Last {value} days
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-synvora-border bg-white shadow-sm">
+        {error ? (
+          <div className="p-10 text-center text-sm text-rose-600">Failed to load issues</div>
+        ) : isLoading ? (
+          <div className="space-y-2 p-4">
+            {Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} className="h-8 rounded-lg" />)}
+          </div>
+        ) : anomalies.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 p-10 text-sm text-synvora-text-secondary">
+            <CheckCircle2 className="h-4 w-4 text-emerald-500" />
+            No issues found
+          </div>
+        ) : (
+          <ul className="divide-y divide-synvora-border">
+            {anomalies.map((anomaly, index) => (
+              <li key={`${anomaly.kind}-${anomaly.venueId}-${anomaly.date}-${anomaly.orderId ?? index}`} className="flex items-start gap-3 px-5 py-3 text-sm">
+                {anomaly.severity === "error" ? (
+                  <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-rose-500" />
+                ) : (
+                  <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-baseline gap-x-2">
+                    <span
+                      className={cn(
+                        "text-xs font-semibold uppercase tracking-wide",
+                        anomaly.severity === "error" ? "text-rose-600" : "text-amber-600"
+                      )}
+                    >
+                      {KIND_LABELS[anomaly.kind]}
+                    </span>
+                    <span className="text-xs text-synvora-text-secondary">
+                      {anomaly.venueName} · {formatDay(anomaly.date)}
+                    </span>
+                  </div>
+                  <p className="mt-0.5 text-synvora-text">{anomaly.message}</p>
+                </div>
+                {anomaly.orderId !== null ? (
+                  <button
+                    type="button"
+                    onClick={() => openOrder(anomaly.orderId!)}
+                    disabled={openingOrderId !== null}
+                    className="shrink-0 text-xs font-medium text-synvora-primary hover:underline disabled:opacity-50"
+                  >
+                    {openingOrderId === anomaly.orderId ? "Opening…" : `Order ${anomaly.orderNumber}`}
+                  </button>
+                ) : (
+                  <Link
+                    href="/admin/finance/daily-rates"
+                    className="shrink-0 text-xs font-medium text-synvora-primary hover:underline"
+                  >
+                    Daily rates
+                  </Link>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <OrderDrawer
+        open={orderDrawerOpen}
+        order={selectedOrder}
+        onClose={() => {
+          setOrderDrawerOpen(false);
+          setSelectedOrder(null);
+        }}
+        onOrderUpdated={(order) => {
+          setSelectedOrder(order);
+          mutate();
+        }}
+        onOrderDeleted={() => {
+          setOrderDrawerOpen(false);
+          setSelectedOrder(null);
+          mutate();
+        }}
+        canManage
+        isAdmin
+      />
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { Package } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+type ProductSales = {
+  orders: number;
+  units: number;
+  egpRevenue: number;
+  usdRevenue: number;
+};
+
+type ProductRow = ProductSales & {
+  productId: number | null;
+  name: string;
+  sku: string | null;
+  venueId: number;
+  venueName: string;
+  trend: Array<ProductSales & { month: string }>;
+};
+
+type ProductPerformanceResponse = {
+  from: string;
+  to: string;
+  months: Array<{ month: string; label: string }>;
+  venues: Array<ProductSales & { venueId: number; venueName: string; products: number }>;
+  products: ProductRow[];
+  topSellers: Array<Omit<ProductRow, "trend">>;
+};
+
+type ProductPerformanceProps = {
+  isAdmin: boolean;
+};
+
+const fetcher = (url: string) =>
+  fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error("Request failed");
+    }
+    return response.json();
+  });
+
+const fmtUSD = (n: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 2 }).format(n);
+
+const fmtNum = (n: number) =>
+  new Intl.NumberFormat("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(n);
+
+const toKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// Default to the last six business months, this one included; business months are calendar months of business days
+const defaultFrom = () => {
+  const now = new Date();
+  return toKey(new Date(now.getFullYear(), now.getMonth() - 5, 1));
+};
+
+export function ProductPerformance({ isAdmin }: ProductPerformanceProps) {
+  const [from, setFrom] = useState(defaultFrom);
+  const [to, setTo] = useState(() => toKey(new Date()));
+  const [venueId, setVenueId] = useState("");
+
+  const params = new URLSearchParams({ from, to });
+  if (venueId) params.set("venueId", venueId);
+
+  const { data, isLoading, error } = useSWR<ProductPerformanceResponse>(
+    from && to && from <= to ? `/api/analytics/products?${params.toString()}` : null,
+    fetcher
+  );
+  const { data: venuesData } = useSWR<{ venues: Array<{ id: number; name: string }> }>(
+    isAdmin ? "/api/venues" : null,
+    fetcher
+  );
+
+  const products = data?.products ?? [];
+  const topSellers = data?.topSellers ?? [];
+  const months = data?.months ?? [];
+  const maxTopUnits = Math.max(...topSellers.map((row) => row.units), 1);
+  const showVenue = (data?.venues.length ?? 0) > 1;
+
+  const inputClass =
+    "rounded-lg border border-synvora-border bg-white px-3 py-1.5 text-sm shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-semibold text-synvora-text">Product performance</h2>
+          <p className="mt-0.5 text-xs text-synvora-text-secondary">
+            Units and revenue per product, with a trend per business month
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          {isAdmin && (
+            <select value={venueId} onChange={(e) => setVenueId(e.target.value)} className={inputClass}>
+              <option value="">All venues</option>
+              {(venuesData?.venues ?? []).map((venue) => (
+                <option key={venue.id} value={venue.id}>
+                  {venue.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          <span className="pb-2 text-xs text-synvora-text-secondary">to</span>
+          <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      {error ? (
+        <div className="rounded-2xl border border-synvora-border bg-white p-10 text-center text-sm text-rose-600">
+          Failed to load product performance
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Top sellers */}
+          <div className="rounded-2xl border border-synvora-border bg-white p-6 shadow-sm">
+            <h3 className="text-sm font-semibold text-synvora-text">Top sellers</h3>
+            <p className="mt-0.5 text-xs text-synvora-text-secondary">By units sold</p>
+
+            {isLoading ? (
+              <div className="mt-6 space-y-3">
+                {Array.from({ length: 5 }).map((_, i) => <Skeleton key={i} className="h-8 w-full rounded-lg" />)}
+              </div>
+            ) : topSellers.length === 0 ? (
+              <p className="mt-6 text-sm text-synvora-text-secondary">No product sales in this range.</p>
+            ) : (
+              <ol className="mt-6 space-y-3">
+                {topSellers.map((row) => (
+                  <li key={`${row.venueId}:${row.productId}`}>
+                    <div className="mb-1 flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate font-medium text-synvora-text">{row.name}</span>
+                      <span className="flex-shrink-0 text-xs font-medium text-synvora-text tabular-nums">
+                        {fmtNum(row.units)} <span className="text-synvora-text-secondary">units</span>
+                      </span>
+                    </div>
+                    <div className="h-1.5 w-full overflow-hidden rounded-full bg-synvora-surface">
+                      <div
+                        className="h-full rounded-full bg-synvora-primary"
+                        style={{ width: `${(row.units / maxTopUnits) * 100}%` }}
+                      />
+                    </div>
+                    {showVenue && <p className="mt-0.5 text-xs text-synvora-text-secondary">{row.venueName}</p>}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          {/* Per-product table */}
+          <div className="overflow-hidden rounded-2xl border border-synvora-border bg-white shadow-sm lg:col-span-2">
+            {isLoading ? (
+              <div className="space-y-2 p-6">
+                {Array.from({ length: 6 }).map((_, i) => <Skeleton key={i} className="h-8 w-full rounded-lg" />)}
+              </div>
+            ) : products.length === 0 ? (
+              <div className="flex flex-col items-center gap-3 px-6 py-12 text-center">
+                <Package className="h-6 w-6 text-synvora-text-secondary/50" />
+                <p className="text-sm text-synvora-text-secondary">No orders in this range.</p>
+              </div>
+            ) : (
+              <div className="max-h-[28rem] overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="sticky top-0 border-b border-synvora-border bg-synvora-surface">
+                    <tr className="text-left text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+                      <th className="px-5 py-3">Product</th>
+                      <th className="px-3 py-3 text-right">Units</th>
+                      <th className="px-3 py-3 text-right">EGP</th>
+                      <th className="px-3 py-3 text-right">USD</th>
+                      <th className="px-5 py-3">Trend</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-synvora-border">
+                    {products.map((row) => {
+                      const maxUnits = Math.max(...row.trend.map((point) => point.units), 1);
+                      return (
+                        <tr key={`${row.venueId}:${row.productId}`}>
+                          <td className="px-5 py-3">
+                            <div
+                              className={cn(
+                                "font-medium",
+                                row.productId === null ? "italic text-synvora-text-secondary" : "text-synvora-text"
+                              )}
+                            >
+                              {row.name}
+                            </div>
+                            <div className="text-xs text-synvora-text-secondary">
+                              {[showVenue && row.venueName, row.sku && `SKU ${row.sku}`].filter(Boolean).join(" · ")}
+                            </div>
+                          </td>
+                          <td className="px-3 py-3 text-right text-synvora-text tabular-nums">{fmtNum(row.units)}</td>
+                          <td className="px-3 py-3 text-right text-synvora-text tabular-nums">
+                            {row.productId === null ? "—" : fmtNum(row.egpRevenue)}
+                          </td>
+                          <td className="px-3 py-3 text-right text-synvora-text-secondary tabular-nums">
+                            {fmtUSD(row.usdRevenue)}
+                          </td>
+                          <td className="px-5 py-3">
+                            <div className="flex h-6 items-end gap-0.5">
+                              {row.trend.map((point, index) => (
+                                <div
+                                  key={point.month}
+                                  title={`${months[index]?.label ?? point.month}: ${fmtNum(point.units)} units`}
+                                  className="w-2 rounded-t bg-synvora-primary/40"
+                                  style={{ height: `${Math.max((point.units / maxUnits) * 100, 4)}%` }}
+                                />
+                              ))}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+
+type PeriodTotals = {
+  orders: number;
+  egpTotal: number;
+  aedTotal: number | null;
+  revenue: number;
+  payout: number;
+};
+
+export type VenueComparisonEntry = {
+  venueId: number;
+  venueName: string;
+  totals: PeriodTotals;
+  series: Array<PeriodTotals & { period: string; label: string }>;
+};
+
+type VenueComparisonProps = {
+  venues: VenueComparisonEntry[];
+  isAdmin: boolean;
+};
+
+const fmt = (n: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 2 }).format(n);
+
+const fmtNum = (n: number) =>
+  new Intl.NumberFormat("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(n);
+
+export function VenueComparison({ venues, isAdmin }: VenueComparisonProps) {
+  // One scale for every venue so the bars compare across cards
+  const maxPayout = Math.max(...venues.flatMap((venue) => venue.series.map((point) => point.payout)), 1);
+  const bestPayout = Math.max(...venues.map((venue) => venue.totals.payout));
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+      {venues.map((venue) => (
+        <div
+          key={venue.venueId}
+          className={cn(
+            "rounded-2xl border bg-white p-5 shadow-sm",
+            venue.totals.payout > 0 && venue.totals.payout === bestPayout
+              ? "border-synvora-primary/40"
+              : "border-synvora-border"
+          )}
+        >
+          <div className="flex items-baseline justify-between gap-2">
+            <h3 className="truncate text-sm font-semibold text-synvora-text">{venue.venueName}</h3>
+            <span className="text-xs text-synvora-text-secondary">{venue.totals.orders} orders</span>
+          </div>
+
+          <dl className="mt-3 grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+            <div>
+              <dt className="text-xs text-synvora-text-secondary">{isAdmin ? "Payout" : "Earnings"}</dt>
+              <dd className="font-semibold text-synvora-primary tabular-nums">{fmt(venue.totals.payout)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-synvora-text-secondary">Revenue</dt>
+              <dd className="font-semibold text-synvora-text tabular-nums">{fmt(venue.totals.revenue)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-synvora-text-secondary">EGP</dt>
+              <dd className="text-synvora-text tabular-nums">{fmtNum(venue.totals.egpTotal)}</dd>
+            </div>
+            {isAdmin && (
+              <div>
+                <dt className="text-xs text-synvora-text-secondary">AED</dt>
+                <dd className="text-synvora-text tabular-nums">{fmtNum(venue.totals.aedTotal ?? 0)}</dd>
+              </div>
+            )}
+          </dl>
+
+          <div className="mt-4 flex h-20 items-end gap-0.5">
+            {venue.series.map((point) => (
+              <div
+                key={point.period}
+                title={`${point.label}: ${fmt(point.payout)} · ${point.orders} orders`}
+                className="flex-1 rounded-t bg-synvora-primary/30 hover:bg-synvora-primary/60"
+                style={{ height: `${Math.max((point.payout / maxPayout) * 100, 2)}%` }}
+              />
+            ))}
+          </div>
+          {venue.series.length > 0 && (
+            <div className="mt-1 flex justify-between text-[10px] text-synvora-text-secondary">
+              <span>{venue.series[0].label}</span>
+              <span>{venue.series[venue.series.length - 1].label}</span>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
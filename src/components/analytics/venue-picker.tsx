@@ -0,0 +1,65 @@
+"use client";
+
+import { Fragment } from "react";
+import { Listbox, Transition } from "@headlessui/react";
+import { Check, ChevronDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type VenuePickerProps = {
+  venues: Array<{ id: number; name: string }>;
+  value: number[]; // empty: every venue
+  onChange: (venueIds: number[]) => void;
+};
+
+export function VenuePicker({ venues, value, onChange }: VenuePickerProps) {
+  const selectedNames = venues.filter((venue) => value.includes(venue.id)).map((venue) => venue.name);
+  const summary =
+    selectedNames.length === 0
+      ? "All venues"
+      : selectedNames.length <= 2
+        ? selectedNames.join(", ")
+        : `${selectedNames.length} venues`;
+
+  return (
+    <Listbox value={value} onChange={onChange} multiple>
+      <div className="relative">
+        <Listbox.Button className="inline-flex w-48 items-center justify-between gap-2 rounded-lg border border-synvora-border bg-white px-3 py-1.5 text-sm text-synvora-text shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary">
+          <span className="truncate">{summary}</span>
+          <ChevronDown className="h-4 w-4 flex-shrink-0 text-synvora-text-secondary" />
+        </Listbox.Button>
+        <Transition
+          as={Fragment}
+          leave="transition ease-in duration-75"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <Listbox.Options className="absolute right-0 z-20 mt-1 max-h-64 w-56 overflow-auto rounded-lg border border-synvora-border bg-white py-1 text-sm shadow-lg focus:outline-none">
+            {venues.map((venue) => (
+              <Listbox.Option
+                key={venue.id}
+                value={venue.id}
+                className={({ active }) =>
+                  cn("flex cursor-pointer items-center gap-2 px-3 py-1.5", active && "bg-synvora-surface")
+                }
+              >
+                {({ selected }) => (
+                  <>
+                    <span
+                      className={cn(
+                        "flex h-4 w-4 items-center justify-center rounded border",
+                        selected ? "border-synvora-primary bg-synvora-primary text-white" : "border-synvora-border"
+                      )}
+                    >
+                      {selected && <Check className="h-3 w-3" />}
+                    </span>
+                    <span className="truncate text-synvora-text">{venue.name}</span>
+                  </>
+                )}
+              </Listbox.Option>
+            ))}
+          </Listbox.Options>
+        </Transition>
+      </div>
+    </Listbox>
+  );
+}
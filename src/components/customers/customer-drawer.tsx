@@ -0,0 +1,217 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import useSWR from "swr";
+import { Dialog, Transition } from "@headlessui/react";
+import { X, Mail, Phone, Store, Loader2, Unlink } from "lucide-react";
+import { toast } from "sonner";
+import type { CustomerDto, CustomerOrderDto } from "@/types/customers";
+import { formatCurrency, formatDate, formatDateTime } from "@/lib/utils";
+
+type CustomerDrawerProps = {
+  open: boolean;
+  customer: CustomerDto | null;
+  onClose: () => void;
+  onChanged: () => void;
+};
+
+const fetcher = (url: string) =>
+  fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error("Request failed");
+    }
+    return response.json();
+  });
+
+const formatEGP = (value: number) =>
+  `${value.toLocaleString("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 0 })} EGP`;
+
+export function CustomerDrawer({ open, customer, onClose, onChanged }: CustomerDrawerProps) {
+  const [unmerging, setUnmerging] = useState<string | null>(null);
+
+  const { data, isLoading } = useSWR<{ orders: CustomerOrderDto[] }>(
+    open && customer ? `/api/customers/orders?key=${encodeURIComponent(customer.key)}` : null,
+    fetcher
+  );
+
+  const handleUnmerge = async (name: string) => {
+    setUnmerging(name);
+    const response = await fetch("/api/customers/merge", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name })
+    });
+    setUnmerging(null);
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      toast.error(payload?.message ?? "Failed to unmerge customer.");
+      return;
+    }
+
+    toast.success(payload?.message ?? "Customer unmerged.");
+    onChanged();
+    onClose();
+  };
+
+  return (
+    <Transition show={open} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-in-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in-out duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 flex justify-end">
+          <Transition.Child
+            as={Fragment}
+            enter="transform transition ease-in-out duration-300"
+            enterFrom="translate-x-full"
+            enterTo="translate-x-0"
+            leave="transform transition ease-in-out duration-200"
+            leaveFrom="translate-x-0"
+            leaveTo="translate-x-full"
+          >
+            <Dialog.Panel className="relative flex h-full w-full max-w-lg flex-col bg-white shadow-2xl">
+              {customer && (
+                <>
+                  <div className="flex-none border-b border-synvora-border px-6 py-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <Dialog.Title className="text-xl font-semibold text-synvora-text">{customer.name}</Dialog.Title>
+                        <p className="mt-1 text-sm text-synvora-text-secondary">
+                          Customer since {formatDate(customer.firstVisit)}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={onClose}
+                        className="inline-flex h-9 w-9 flex-none items-center justify-center rounded-full border border-synvora-border text-synvora-text-secondary transition hover:bg-synvora-surface-hover"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="flex-1 space-y-6 overflow-y-auto px-6 py-5">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="rounded-xl border border-synvora-border bg-synvora-surface px-4 py-3">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">Lifetime</p>
+                        <p className="mt-1 text-lg font-semibold text-synvora-text">{formatCurrency(customer.lifetimeUSD)}</p>
+                        <p className="text-xs text-synvora-text-secondary">{formatEGP(customer.lifetimeEGP)}</p>
+                      </div>
+                      <div className="rounded-xl border border-synvora-border bg-synvora-surface px-4 py-3">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">Orders</p>
+                        <p className="mt-1 text-lg font-semibold text-synvora-text">{customer.orderCount}</p>
+                        <p className="text-xs text-synvora-text-secondary">
+                          Last visit {formatDate(customer.lastVisit)}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2 text-sm text-synvora-text">
+                      {customer.favouriteVenue && (
+                        <p className="flex items-center gap-2">
+                          <Store className="h-4 w-4 text-synvora-text-secondary" />
+                          {customer.favouriteVenue.name}
+                          <span className="text-synvora-text-secondary">
+                            ({customer.favouriteVenue.orderCount} of {customer.orderCount} orders)
+                          </span>
+                        </p>
+                      )}
+                      {customer.email && (
+                        <p className="flex items-center gap-2">
+                          <Mail className="h-4 w-4 text-synvora-text-secondary" />
+                          {customer.email}
+                        </p>
+                      )}
+                      {customer.phone && (
+                        <p className="flex items-center gap-2">
+                          <Phone className="h-4 w-4 text-synvora-text-secondary" />
+                          {customer.phone}
+                        </p>
+                      )}
+                      {customer.pendingOrders > 0 && (
+                        <p className="text-xs text-amber-700">
+                          {customer.pendingOrders} order{customer.pendingOrders !== 1 ? "s" : ""} waiting in Pending Imports
+                        </p>
+                      )}
+                    </div>
+
+                    {customer.mergedNames.length > 0 && (
+                      <div>
+                        <h3 className="text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+                          Merged names
+                        </h3>
+                        <ul className="mt-2 space-y-1.5">
+                          {customer.mergedNames.map((name) => (
+                            <li
+                              key={name}
+                              className="flex items-center justify-between rounded-lg border border-synvora-border px-3 py-2 text-sm"
+                            >
+                              <span className="text-synvora-text">{name}</span>
+                              <button
+                                type="button"
+                                onClick={() => handleUnmerge(name)}
+                                disabled={unmerging !== null}
+                                className="inline-flex items-center gap-1 text-xs font-medium text-synvora-text-secondary transition hover:text-rose-600 disabled:opacity-50"
+                              >
+                                {unmerging === name ? (
+                                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                ) : (
+                                  <Unlink className="h-3.5 w-3.5" />
+                                )}
+                                Unmerge
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    <div>
+                      <h3 className="text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">Orders</h3>
+                      {isLoading ? (
+                        <div className="flex justify-center py-8">
+                          <Loader2 className="h-5 w-5 animate-spin text-synvora-text-secondary" />
+                        </div>
+                      ) : (
+                        <ul className="mt-2 divide-y divide-synvora-border rounded-lg border border-synvora-border">
+                          {(data?.orders ?? []).map((order) => (
+                            <li key={order.id} className="flex items-center justify-between gap-3 px-3 py-2.5 text-sm">
+                              <div className="min-w-0">
+                                <p className="font-medium text-synvora-text">{order.orderNumber}</p>
+                                <p className="truncate text-xs text-synvora-text-secondary">
+                                  {formatDateTime(order.processedAt)} · {order.venue.name}
+                                </p>
+                              </div>
+                              <div className="flex-none text-right">
+                                <p className="font-semibold text-synvora-text">
+                                  {formatCurrency(order.totalAmount, order.currency)}
+                                </p>
+                                {order.originalAmount !== null && (
+                                  <p className="text-xs text-synvora-text-secondary">{formatEGP(order.originalAmount)}</p>
+                                )}
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                </>
+              )}
+            </Dialog.Panel>
+          </Transition.Child>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
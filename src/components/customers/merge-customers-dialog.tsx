@@ -0,0 +1,154 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { X, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { CustomerDto } from "@/types/customers";
+import { cn, formatCurrency } from "@/lib/utils";
+
+type MergeCustomersDialogProps = {
+  open: boolean;
+  customers: CustomerDto[];
+  onClose: () => void;
+  onMerged: () => void;
+};
+
+export function MergeCustomersDialog({ open, customers, onClose, onMerged }: MergeCustomersDialogProps) {
+  const [targetKey, setTargetKey] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      // Default to the profile with the most orders
+      const [first] = [...customers].sort((a, b) => b.orderCount - a.orderCount);
+      setTargetKey(first?.key ?? null);
+    }
+  }, [open, customers]);
+
+  const target = customers.find((customer) => customer.key === targetKey) ?? null;
+
+  const handleMerge = async () => {
+    if (!target) {
+      return;
+    }
+
+    setSaving(true);
+    const response = await fetch("/api/customers/merge", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        names: customers.map((customer) => customer.name),
+        canonicalName: target.name
+      })
+    });
+    setSaving(false);
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      toast.error(payload?.message ?? "Failed to merge customers.");
+      return;
+    }
+
+    toast.success(payload?.message ?? "Customers merged.");
+    onMerged();
+    onClose();
+  };
+
+  return (
+    <Transition show={open} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-200"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-150"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Transition.Child
+            as={Fragment}
+            enter="transform transition ease-out duration-200"
+            enterFrom="translate-y-6 opacity-0"
+            enterTo="translate-y-0 opacity-100"
+            leave="transform transition ease-in duration-150"
+            leaveFrom="translate-y-0 opacity-100"
+            leaveTo="translate-y-4 opacity-0"
+          >
+            <Dialog.Panel className="w-full max-w-md overflow-hidden rounded-xl bg-white shadow-2xl">
+              <div className="flex items-center justify-between border-b border-synvora-border px-6 py-4">
+                <div>
+                  <Dialog.Title className="text-lg font-semibold text-synvora-text">Merge Customers</Dialog.Title>
+                  <p className="text-sm text-synvora-text-secondary">Pick the name to keep.</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="inline-flex h-9 w-9 items-center justify-center rounded-full border border-synvora-border text-synvora-text-secondary transition hover:bg-synvora-surface-hover"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="space-y-2 px-6 py-4">
+                {customers.map((customer) => (
+                  <label
+                    key={customer.key}
+                    className={cn(
+                      "flex cursor-pointer items-center justify-between gap-3 rounded-lg border px-4 py-3 text-sm transition",
+                      customer.key === targetKey
+                        ? "border-synvora-primary bg-synvora-primary/5"
+                        : "border-synvora-border hover:bg-synvora-surface-hover"
+                    )}
+                  >
+                    <span className="flex items-center gap-3">
+                      <input
+                        type="radio"
+                        name="merge-target"
+                        checked={customer.key === targetKey}
+                        onChange={() => setTargetKey(customer.key)}
+                        className="h-4 w-4 text-synvora-primary focus:ring-synvora-primary"
+                      />
+                      <span className="font-medium text-synvora-text">{customer.name}</span>
+                    </span>
+                    <span className="text-xs text-synvora-text-secondary">
+                      {customer.orderCount} orders · {formatCurrency(customer.lifetimeUSD)}
+                    </span>
+                  </label>
+                ))}
+                <p className="pt-2 text-xs text-synvora-text-secondary">
+                  Orders keep their original customer name. Merged names can be split again from the customer drawer.
+                </p>
+              </div>
+
+              <div className="flex items-center justify-end gap-3 border-t border-synvora-border bg-synvora-surface-active px-6 py-4">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  disabled={saving}
+                  className="rounded-lg border border-synvora-border px-4 py-2 text-sm font-semibold text-synvora-text-secondary transition hover:bg-slate-50 hover:text-synvora-text"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleMerge}
+                  disabled={!target || saving}
+                  className="inline-flex items-center gap-2 rounded-lg bg-synvora-primary px-5 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-synvora-primary/90 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-400"
+                >
+                  {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Merge {customers.length} Customers
+                </button>
+              </div>
+            </Dialog.Panel>
+          </Transition.Child>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
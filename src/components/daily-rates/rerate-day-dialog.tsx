@@ -0,0 +1,263 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { X, Loader2, AlertTriangle, ArrowRight } from "lucide-react";
+import { toast } from "sonner";
+import { formatCurrency, formatDateTime } from "@/lib/utils";
+import type { RerateDayPlan } from "@/lib/rerate-day";
+
+type RerateDayDialogProps = {
+  open: boolean;
+  venue: { id: number; name: string } | null;
+  date: string | null; // YYYY-MM-DD
+  currentRate: number | null;
+  onClose: () => void;
+  onApplied: () => void;
+};
+
+const fmtDelta = (before: number, after: number, currency = "USD") => {
+  const delta = after - before;
+  if (Math.abs(delta) < 0.005) return "—";
+  return `${delta > 0 ? "+" : "−"}${formatCurrency(Math.abs(delta), currency)}`;
+};
+
+export function RerateDayDialog({ open, venue, date, currentRate, onClose, onApplied }: RerateDayDialogProps) {
+  const [rate, setRate] = useState("");
+  const [plan, setPlan] = useState<RerateDayPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setRate(currentRate ? String(currentRate) : "");
+      setPlan(null);
+    }
+  }, [open, currentRate]);
+
+  if (!venue || !date) return null;
+
+  const dateLabel = new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "short",
+    day: "numeric",
+    year: "numeric"
+  });
+
+  const request = async (apply: boolean) => {
+    const value = Number(rate);
+    if (!rate || Number.isNaN(value) || value <= 0) {
+      toast.error("Enter a valid AED/EGP rate.");
+      return null;
+    }
+
+    const response = await fetch("/api/daily-rates/rerate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        venueId: venue.id,
+        date,
+        aedEgpRate: value,
+        apply
+      })
+    });
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      toast.error(payload?.message ?? "Failed to re-rate day.");
+      return null;
+    }
+    return payload;
+  };
+
+  const handlePreview = async () => {
+    setLoading(true);
+    const payload = await request(false);
+    setLoading(false);
+    if (payload) setPlan(payload.plan);
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    const payload = await request(true);
+    setApplying(false);
+    if (!payload) return;
+    toast.success(payload.message);
+    onApplied();
+    onClose();
+  };
+
+  const previewStale = plan !== null && Number(rate) !== plan.aedEgpRate;
+
+  return (
+    <Transition show={open} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-200" enterFrom="opacity-0" enterTo="opacity-100"
+          leave="ease-in duration-150" leaveFrom="opacity-100" leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Transition.Child
+            as={Fragment}
+            enter="transform transition ease-out duration-200"
+            enterFrom="translate-y-6 opacity-0" enterTo="translate-y-0 opacity-100"
+            leave="transform transition ease-in duration-150"
+            leaveFrom="translate-y-0 opacity-100" leaveTo="translate-y-4 opacity-0"
+          >
+            <Dialog.Panel className="w-full max-w-4xl max-h-[90vh] overflow-hidden rounded-xl bg-white shadow-2xl flex flex-col">
+              <div className="flex items-center justify-between border-b border-synvora-border px-6 py-4 flex-none">
+                <div>
+                  <Dialog.Title className="text-lg font-semibold text-synvora-text">Re-rate Day</Dialog.Title>
+                  <p className="text-sm text-synvora-text-secondary">
+                    <span className="font-medium">{venue.name}</span> · {dateLabel}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  disabled={applying}
+                  className="inline-flex h-9 w-9 items-center justify-center rounded-full border border-synvora-border text-synvora-text-secondary transition hover:bg-synvora-surface-hover"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="flex-none flex flex-wrap items-end gap-3 px-6 pt-4">
+                <label className="flex flex-col gap-1.5 text-sm font-medium text-synvora-text">
+                  New AED/EGP rate
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={rate}
+                    onChange={(e) => setRate(e.target.value)}
+                    placeholder="e.g. 13.15"
+                    className="w-40 rounded-lg border border-synvora-border px-3 py-2 text-sm shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary"
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={handlePreview}
+                  disabled={loading || applying}
+                  className="inline-flex items-center gap-2 rounded-lg border border-synvora-border px-4 py-2 text-sm font-medium text-synvora-text-secondary transition hover:border-synvora-primary hover:text-synvora-primary disabled:opacity-50"
+                >
+                  {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Preview
+                </button>
+                {currentRate !== null && (
+                  <p className="pb-2 text-xs text-synvora-text-secondary">Ledger rate: {currentRate} EGP/AED</p>
+                )}
+              </div>
+
+              <div className="flex-1 overflow-auto px-6 py-4">
+                {!plan ? (
+                  <p className="py-10 text-center text-sm text-synvora-text-secondary">
+                    Enter the corrected rate and preview the effect on this day&apos;s orders.
+                  </p>
+                ) : plan.orders.length === 0 ? (
+                  <p className="py-10 text-center text-sm text-synvora-text-secondary">
+                    No orders on this day. Applying will only update the ledger rate.
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="grid gap-3 sm:grid-cols-3">
+                      {([
+                        ["Revenue", plan.totals.before.revenue, plan.totals.after.revenue, "USD"],
+                        ["Payout (USD)", plan.totals.before.payout, plan.totals.after.payout, "USD"],
+                        ["Payout (AED)", plan.totals.before.payoutAED, plan.totals.after.payoutAED, "AED"]
+                      ] as const).map(([label, before, after, currency]) => (
+                        <div key={label} className="rounded-xl border border-synvora-border bg-synvora-surface px-4 py-3">
+                          <p className="text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">{label}</p>
+                          <p className="mt-1 flex items-center gap-2 text-sm font-semibold text-synvora-text">
+                            {formatCurrency(before, currency)}
+                            <ArrowRight className="h-3.5 w-3.5 text-synvora-text-secondary" />
+                            {formatCurrency(after, currency)}
+                          </p>
+                          <p className="text-xs text-synvora-text-secondary">{fmtDelta(before, after, currency)}</p>
+                        </div>
+                      ))}
+                    </div>
+
+                    {plan.skipped > 0 && (
+                      <div className="flex items-start gap-3 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                        <AlertTriangle className="h-4 w-4 flex-none mt-0.5 text-amber-600" />
+                        <p>{plan.skipped} order{plan.skipped !== 1 ? "s have" : " has"} no EGP amount and will not be changed.</p>
+                      </div>
+                    )}
+
+                    <table className="w-full text-sm">
+                      <thead className="border-b border-synvora-border">
+                        <tr className="text-left text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+                          <th className="px-3 py-2">Order</th>
+                          <th className="px-3 py-2">Time</th>
+                          <th className="px-3 py-2 text-right">EGP</th>
+                          <th className="px-3 py-2 text-right">Rate</th>
+                          <th className="px-3 py-2 text-right">Revenue</th>
+                          <th className="px-3 py-2 text-right">Payout (AED)</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-synvora-border/60">
+                        {plan.orders.map((order) => (
+                          <tr key={order.id} className={order.after ? "" : "opacity-50"}>
+                            <td className="px-3 py-2">
+                              <p className="font-medium text-synvora-text">{order.orderNumber}</p>
+                              <p className="text-xs text-synvora-text-secondary">{order.customerName}</p>
+                            </td>
+                            <td className="px-3 py-2 text-synvora-text-secondary whitespace-nowrap">{formatDateTime(order.processedAt)}</td>
+                            <td className="px-3 py-2 text-right">{order.originalAmount?.toLocaleString("en-US") ?? "—"}</td>
+                            <td className="px-3 py-2 text-right whitespace-nowrap">
+                              {order.before.aedEgpRate ?? "—"} → {order.after?.aedEgpRate ?? "—"}
+                            </td>
+                            <td className="px-3 py-2 text-right whitespace-nowrap">
+                              {formatCurrency(order.before.totalAmount)} → {order.after ? formatCurrency(order.after.totalAmount) : "—"}
+                            </td>
+                            <td className="px-3 py-2 text-right whitespace-nowrap">
+                              {formatCurrency(order.before.payoutAED, "AED")} → {order.after ? formatCurrency(order.after.payoutAED, "AED") : "—"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex-none flex items-center justify-between border-t border-synvora-border bg-synvora-surface-active px-6 py-4">
+                <p className="text-sm text-synvora-text-secondary">
+                  {plan
+                    ? previewStale
+                      ? "Rate changed since the preview — preview again before applying."
+                      : `${plan.orders.length - plan.skipped} order${plan.orders.length - plan.skipped !== 1 ? "s" : ""} will be updated in one transaction.`
+                    : "Nothing is written until you apply."}
+                </p>
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    disabled={applying}
+                    className="rounded-lg border border-synvora-border px-4 py-2 text-sm font-semibold text-synvora-text-secondary transition hover:bg-slate-50 hover:text-synvora-text"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleApply}
+                    disabled={!plan || previewStale || applying}
+                    className="inline-flex items-center gap-2 rounded-lg bg-synvora-primary px-5 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-synvora-primary/90 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-400"
+                  >
+                    {applying && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Apply New Rate
+                  </button>
+                </div>
+              </div>
+            </Dialog.Panel>
+          </Transition.Child>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -5,7 +5,7 @@ import { usePathname } from "next/navigation";
 import { signOut } from "next-auth/react";
 import type { ComponentType } from "react";
 import { cn } from "@/lib/utils";
-import { ClipboardList, Clock, Package, BarChart3, Users, Settings, Store, CreditCard, UserCircle, LogOut } from "lucide-react";
+import { ClipboardList, Clock, Package, BarChart3, Users, Settings, Store, CreditCard, CalendarDays, UserCircle, LogOut, History, Trash2, Webhook, ArrowLeftRight } from "lucide-react";
 import type { Route } from "next";
 import type { Session } from "next-auth";
 import { SynvoraLogo } from "@/components/ui/logo";
@@ -27,6 +27,7 @@ const NAV_GROUPS: NavGroup[] = [
     items: [
       { href: "/admin/orders", label: "Orders", icon: ClipboardList },
       { href: "/admin/orders/pending" as any, label: "Pending Imports", icon: Clock },
+      { href: "/admin/orders/trash" as any, label: "Trash", icon: Trash2 },
       { href: "/admin/products", label: "Products", icon: Package },
       { href: "/admin/customers", label: "Customers", icon: Users },
       { href: "/admin/analytics", label: "Analytics", icon: BarChart3 },
@@ -34,13 +35,19 @@ const NAV_GROUPS: NavGroup[] = [
   },
   {
     title: "Finance",
-    items: [{ href: "/admin/finance/payouts", label: "Payouts", icon: CreditCard }]
+    items: [
+      { href: "/admin/finance/payouts", label: "Payouts", icon: CreditCard },
+      { href: "/admin/finance/daily-rates" as any, label: "Daily Rates", icon: CalendarDays },
+      { href: "/admin/finance/rate-migration" as any, label: "Rate Migration", icon: ArrowLeftRight },
+    ]
   },
   {
     title: "Settings",
     items: [
       { href: "/admin/settings", label: "Admin Settings", icon: Settings },
       { href: "/admin/settings/shopify-stores", label: "Shopify Stores", icon: Store },
+      { href: "/admin/settings/webhooks" as any, label: "Webhooks", icon: Webhook },
+      { href: "/admin/activity" as any, label: "Activity", icon: History },
       { href: "/admin/settings/user", label: "My Account", icon: UserCircle },
     ]
   }
@@ -48,10 +55,15 @@ const NAV_GROUPS: NavGroup[] = [
 
 const ADMIN_ONLY_PATHS = new Set<Route>([
   "/admin/orders/pending",
+  "/admin/orders/trash",
   "/admin/products",
   "/admin/customers",
+  "/admin/finance/daily-rates",
+  "/admin/finance/rate-migration",
   "/admin/settings",
-  "/admin/settings/shopify-stores"
+  "/admin/settings/shopify-stores",
+  "/admin/settings/webhooks",
+  "/admin/activity"
 ] as Route[]);
 
 type SideNavProps = {
@@ -6,7 +6,7 @@ import { useForm } from "react-hook-form";
 import { Save, X } from "lucide-react";
 import type { OrderDto } from "@/types/orders";
 import { formatCurrency, formatDateTimeForInput } from "@/lib/utils";
-import { PLATFORM_FEE_MULTIPLIER } from "@/lib/constants";
+import { DEFAULT_FEE_TERMS } from "@/lib/fee-terms";
 
 type CreateOrderDialogProps = {
   open: boolean;
@@ -37,7 +37,7 @@ const mapOrderToForm = (order: OrderDto): CreateOrderValues => {
   const base =
     originalAmount !== null ? originalAmount / exchangeRate : order.totalAmount;
   const totalAmount =
-    originalAmount !== null ? Number((base * PLATFORM_FEE_MULTIPLIER).toFixed(2)) : order.totalAmount;
+    originalAmount !== null ? Number((base * order.feeTerms.platformFeeMultiplier).toFixed(2)) : order.totalAmount;
 
   return {
     orderNumber: "",
@@ -104,23 +104,27 @@ export function CreateOrderDialog({ open, initialOrder, onClose, onOrderCreated
     }
   }, [open, initialOrder, reset]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // A preview; the server prices the order at the venue's fee terms when it is saved
+  const feeTerms = initialOrder?.feeTerms ?? DEFAULT_FEE_TERMS;
+  const platformFeeMultiplier = feeTerms.platformFeeMultiplier;
+  const payoutShare = Number((1 - feeTerms.commissionRate).toFixed(6));
   useEffect(() => {
     if (typeof originalAmount === "number" && originalAmount >= 0 && typeof exchangeRate === "number" && exchangeRate > 0) {
       const base = originalAmount / exchangeRate;
-      const total = Number.isFinite(base) ? Number((base * PLATFORM_FEE_MULTIPLIER).toFixed(2)) : 0;
+      const total = Number.isFinite(base) ? Number((base * platformFeeMultiplier).toFixed(2)) : 0;
       setValue("totalAmount", total, { shouldDirty: false, shouldValidate: true });
     } else {
       setValue("totalAmount", 0, { shouldDirty: false, shouldValidate: true });
     }
-  }, [originalAmount, exchangeRate, setValue]);
+  }, [originalAmount, exchangeRate, platformFeeMultiplier, setValue]);
 
   const payoutAmount = useMemo(() => {
     if (typeof originalAmount === "number" && originalAmount >= 0 && typeof exchangeRate === "number" && exchangeRate > 0) {
       const base = originalAmount / exchangeRate;
-      return Number((base * 0.9825).toFixed(2));
+      return Number((base * payoutShare).toFixed(2));
     }
     return 0;
-  }, [originalAmount, exchangeRate]);
+  }, [originalAmount, exchangeRate, payoutShare]);
 
   const submit = handleSubmit(async (values) => {
     const trimmedCustomer = values.customerName?.trim();
@@ -269,7 +273,7 @@ export function CreateOrderDialog({ open, initialOrder, onClose, onOrderCreated
                       className="rounded-lg border border-synvora-border bg-synvora-surface-active px-3 py-2 text-sm text-synvora-text shadow-sm focus-visible:outline-none cursor-not-allowed"
                     />
                     <span className="text-xs font-normal text-synvora-text-secondary">
-                      Auto-calculated from EGP amount × {PLATFORM_FEE_MULTIPLIER} / rate.
+                      Auto-calculated from EGP amount × {platformFeeMultiplier} / rate; saved at the venue&apos;s platform fee.
                     </span>
                   </label>
                   <label className="flex flex-col gap-1.5 text-sm font-medium text-synvora-text">
@@ -314,7 +318,7 @@ export function CreateOrderDialog({ open, initialOrder, onClose, onOrderCreated
                     {formatCurrency(payoutAmount, "USD")}
                   </p>
                   <p className="text-xs text-synvora-text-secondary">
-                    Calculated as 0.9825 × (EGP ÷ rate).
+                    Calculated as {payoutShare} × (EGP ÷ rate).
                   </p>
                 </div>
 
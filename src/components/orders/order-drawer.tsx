@@ -6,7 +6,9 @@ import { X, Edit3, Save, Trash2, ArrowLeft } from "lucide-react";
 import { useForm } from "react-hook-form";
 import type { OrderDto } from "@/types/orders";
 import { formatCurrency, formatDateTime, formatDateTimeForInput, cn } from "@/lib/utils";
-import { PLATFORM_FEE_MULTIPLIER, CLIENT_COMMISSION_RATE } from "@/lib/constants";
+import { AED_USD_PEG } from "@/lib/constants";
+import { calculatePayoutFromOrder, resolveAedEgpRate } from "@/lib/order-rates";
+import { DEFAULT_FEE_TERMS } from "@/lib/fee-terms";
 
 type OrderDrawerProps = {
   open: boolean;
@@ -35,6 +37,8 @@ type OrderFormValues = {
   exchangeRate: number;
 };
 
+const formatEgp = (amount: number) => amount.toLocaleString("en-US", { minimumFractionDigits: 2 });
+
 const STATUS_OPTIONS = ["Open", "Closed", "Archived"];
 const PAYMENT_OPTIONS = ["Paid", "Pending", "Refunded", "Partially paid"];
 const FULFILLMENT_OPTIONS = ["Fulfilled", "Unfulfilled", "Partial", "Returned"];
@@ -106,7 +110,8 @@ export function OrderDrawer({
   const originalAmount = watch("originalAmount");
   const exchangeRate = watch("exchangeRate");
 
-  // Keep totalAmount in sync while editing
+  // Keep totalAmount in sync while editing, at the venue's fee terms when the order was loaded
+  const platformFeeMultiplier = (order?.feeTerms ?? DEFAULT_FEE_TERMS).platformFeeMultiplier;
   useEffect(() => {
     if (
       typeof originalAmount === "number" &&
@@ -115,25 +120,21 @@ export function OrderDrawer({
       exchangeRate > 0
     ) {
       const base = originalAmount / exchangeRate;
-      const total = Number.isFinite(base) ? Number((base * PLATFORM_FEE_MULTIPLIER).toFixed(2)) : 0;
+      const total = Number.isFinite(base) ? Number((base * platformFeeMultiplier).toFixed(2)) : 0;
       setValue("totalAmount", total, { shouldDirty: false });
     } else {
       setValue("totalAmount", 0, { shouldDirty: false });
     }
-  }, [originalAmount, exchangeRate, setValue]);
+  }, [originalAmount, exchangeRate, platformFeeMultiplier, setValue]);
 
-  // Payout preview while editing
+  // Payout preview while editing; the exchange rate only moves it for orders priced in USD/EGP
   const editPayoutPreview = useMemo(() => {
-    if (
-      typeof originalAmount === "number" &&
-      originalAmount > 0 &&
-      typeof exchangeRate === "number" &&
-      exchangeRate > 0
-    ) {
-      return Number(((originalAmount / exchangeRate) * (1 - CLIENT_COMMISSION_RATE)).toFixed(2));
+    if (!order || typeof originalAmount !== "number" || Number.isNaN(originalAmount)) {
+      return null;
     }
-    return null;
-  }, [originalAmount, exchangeRate]);
+    const rated = { ...order, originalAmount, exchangeRate };
+    return resolveAedEgpRate(rated) ? Number(calculatePayoutFromOrder(rated, order.feeTerms).toFixed(2)) : null;
+  }, [order, originalAmount, exchangeRate]);
 
   useEffect(() => {
     if (order) reset(mapOrderToForm(order));
@@ -156,14 +157,16 @@ export function OrderDrawer({
 
   const isEditing = mode === "edit" && canManage;
 
-  // Payout derived directly from order data for view mode
+  // Payout as the ledger credits it, for view mode
+  const viewRate = resolveAedEgpRate(order);
   const viewPayout =
-    typeof order.originalAmount === "number" &&
-    order.originalAmount > 0 &&
-    typeof order.exchangeRate === "number" &&
-    order.exchangeRate > 0
-      ? Number(((order.originalAmount / order.exchangeRate) * (1 - CLIENT_COMMISSION_RATE)).toFixed(2))
-      : null;
+    typeof order.originalAmount === "number" && viewRate ? Number(calculatePayoutFromOrder(order, order.feeTerms).toFixed(2)) : null;
+
+  // How originalAmount was built from the catalog, for orders priced since line items kept their EGP amounts
+  const lineItems = order.lineItems ?? [];
+  const hasEgpBreakdown = lineItems.some((item) => item.egpTotal != null);
+  const unpricedItems = lineItems.filter((item) => item.egpTotal == null).length;
+  const catalogEgp = lineItems.reduce((sum, item) => sum + (item.egpTotal ?? 0), 0);
 
   const onSubmit = handleSubmit(async (values) => {
     const trimmedOrderNumber = values.orderNumber?.trim();
@@ -484,10 +487,10 @@ export function OrderDrawer({
                       <p className="mt-1 text-3xl font-bold text-synvora-primary">
                         {viewPayout != null ? formatCurrency(viewPayout, "USD") : "—"}
                       </p>
-                      {isAdmin && order.originalAmount != null && order.exchangeRate != null && (
+                      {isAdmin && order.originalAmount != null && viewRate != null && (
                         <p className="mt-1.5 text-xs text-synvora-primary/60">
                           EGP {order.originalAmount.toLocaleString("en-US", { minimumFractionDigits: 2 })}
-                          {" "}÷ {order.exchangeRate} × {((1 - CLIENT_COMMISSION_RATE) * 100).toFixed(2)}%
+                          {" "}÷ {Number(viewRate.toFixed(4))} AED/EGP ÷ {AED_USD_PEG} × {((1 - order.feeTerms.commissionRate) * 100).toFixed(2)}%
                           {" "}= {viewPayout != null ? formatCurrency(viewPayout, "USD") : "—"}
                         </p>
                       )}
@@ -535,6 +538,9 @@ export function OrderDrawer({
                               <th className="px-4 py-2.5 text-xs font-semibold text-synvora-text-secondary">Product</th>
                               <th className="px-4 py-2.5 text-center text-xs font-semibold text-synvora-text-secondary">Qty</th>
                               <th className="px-4 py-2.5 text-right text-xs font-semibold text-synvora-text-secondary">Total</th>
+                              {hasEgpBreakdown && (
+                                <th className="px-4 py-2.5 text-right text-xs font-semibold text-synvora-text-secondary">EGP</th>
+                              )}
                             </tr>
                           </thead>
                           <tbody className="divide-y divide-synvora-border/60 bg-white">
@@ -550,11 +556,34 @@ export function OrderDrawer({
                                 <td className="px-4 py-3 text-right font-medium text-synvora-text">
                                   {formatCurrency(item.total, order.currency)}
                                 </td>
+                                {hasEgpBreakdown && (
+                                  <td className="px-4 py-3 text-right">
+                                    {item.egpTotal != null ? (
+                                      <>
+                                        <p className="font-medium text-synvora-text">{formatEgp(item.egpTotal)}</p>
+                                        <p className="mt-0.5 text-xs text-synvora-text-secondary">
+                                          {item.quantity} × {formatEgp(item.egpUnitPrice ?? 0)}
+                                        </p>
+                                      </>
+                                    ) : (
+                                      <span className="text-xs text-synvora-text-secondary">Not in catalog</span>
+                                    )}
+                                  </td>
+                                )}
                               </tr>
                             ))}
                           </tbody>
                         </table>
                       </div>
+                      {hasEgpBreakdown && (
+                        <p className="mt-2 text-xs text-synvora-text-secondary">
+                          {unpricedItems
+                            ? "Some items aren't in the catalog, so Amount (EGP) was derived from the Shopify total or entered by hand."
+                            : order.originalAmount != null && Math.abs(catalogEgp - order.originalAmount) > 0.005
+                              ? `Items come to EGP ${formatEgp(catalogEgp)} at catalog prices; Amount (EGP) has since been adjusted, e.g. for a refund.`
+                              : "Amount (EGP) is the sum of the items at the catalog prices in effect when the order was placed."}
+                        </p>
+                      )}
                     </div>
                   )}
 
@@ -617,7 +646,7 @@ export function OrderDrawer({
                     <div className="px-6 py-5">
                       {deleteConfirm ? (
                         <div className="flex items-center gap-3 rounded-lg border border-rose-100 bg-rose-50 px-4 py-3">
-                          <p className="flex-1 text-sm text-rose-700">Delete this order? This cannot be undone.</p>
+                          <p className="flex-1 text-sm text-rose-700">Move this order to the trash? You can restore it from Trash.</p>
                           <button
                             type="button"
                             onClick={handleDelete}
@@ -1,5 +1,5 @@
 import { formatCurrency, formatDateTime, cn } from "@/lib/utils";
-import { PLATFORM_FEE_MULTIPLIER } from "@/lib/constants";
+import { calculatePayoutFromOrder } from "@/lib/order-rates";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { OrderDto } from "@/types/orders";
 import { Edit, Copy, Trash2, MoreVertical } from "lucide-react";
@@ -143,13 +143,7 @@ export function OrderTable({
         </thead>
         <tbody className="divide-y divide-slate-100 bg-white [&_tr:last-child_td:first-child]:rounded-bl-2xl [&_tr:last-child_td:last-child]:rounded-br-2xl">
           {orders.map((order) => {
-            const payoutBase =
-              typeof order.originalAmount === "number" && order.originalAmount >= 0 && typeof order.exchangeRate === "number" && order.exchangeRate > 0
-                ? order.originalAmount / order.exchangeRate
-                : order.totalAmount / PLATFORM_FEE_MULTIPLIER;
-            const payoutValue = Number.isFinite(payoutBase)
-              ? Number(payoutBase.toFixed(2))
-              : 0;
+            const payoutValue = Number(calculatePayoutFromOrder(order, order.feeTerms).toFixed(2));
 
             const isSelected = editMode && selectedOrders.has(order.id);
 
@@ -5,6 +5,7 @@ import { Dialog, Transition } from "@headlessui/react";
 import { CloudDownload, X } from "lucide-react";
 import useSWR from "swr";
 import { OrderReviewDialog } from "@/components/shopify/order-review-dialog";
+import type { FeeTerms } from "@/lib/fee-terms";
 
 type SyncShopifyDialogProps = {
   open: boolean;
@@ -31,6 +32,8 @@ type TransformedOrder = {
   fulfillmentStatus: string | null;
   totalAmount: number;
   originalAmount: number | null;
+  aedEgpRate: number | null;
+  feeTerms: FeeTerms; // the venue's fee terms at processedAt
   shopifyUSD: number;
   currency: string;
   processedAt: string;
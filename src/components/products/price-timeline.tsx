@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { formatDate } from "@/lib/utils";
+
+type PricePeriod = {
+  id: number;
+  egpPrice: number;
+  validFrom: string;
+  validTo: string | null;
+};
+
+type PriceTimelineProps = {
+  productId: number;
+  onChange: () => void;
+};
+
+const fetcher = (url: string) => fetch(url).then((r) => r.json());
+
+const formatEGP = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(amount);
+
+const todayKey = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+};
+
+export function PriceTimeline({ productId, onChange }: PriceTimelineProps) {
+  const [egpPrice, setEgpPrice] = useState("");
+  const [validFrom, setValidFrom] = useState(todayKey());
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading, mutate } = useSWR<{ prices: PricePeriod[] }>(`/api/products/${productId}/prices`, fetcher);
+  const prices = data?.prices ?? [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      // The date is a local calendar day; the price applies from its start
+      const response = await fetch(`/api/products/${productId}/prices`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          egpPrice: parseFloat(egpPrice),
+          validFrom: validFrom === todayKey() ? new Date().toISOString() : new Date(`${validFrom}T00:00`).toISOString()
+        })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.message || "Failed to set price");
+        return;
+      }
+
+      setEgpPrice("");
+      mutate();
+      onChange();
+    } catch (err) {
+      console.error("Set price error:", err);
+      setError("Failed to set price");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500">Price history</h4>
+
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading prices...</p>
+      ) : prices.length === 0 ? (
+        <p className="text-sm text-slate-500">No price history recorded.</p>
+      ) : (
+        <ol className="space-y-1">
+          {prices.map((price) => (
+            <li key={price.id} className="flex items-center gap-3 text-sm">
+              <span className="w-28 font-semibold text-slate-900">EGP {formatEGP(price.egpPrice)}</span>
+              <span className="text-slate-600">
+                {formatDate(price.validFrom)} → {price.validTo ? formatDate(price.validTo) : "now"}
+              </span>
+              {!price.validTo && (
+                <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-semibold text-green-800">
+                  Current
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-2">
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+          New price (EGP)
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            required
+            value={egpPrice}
+            onChange={(e) => setEgpPrice(e.target.value)}
+            className="w-32 rounded-lg border border-slate-200 px-3 py-1.5 text-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+          Effective from
+          <input
+            type="date"
+            required
+            max={todayKey()}
+            value={validFrom}
+            onChange={(e) => setValidFrom(e.target.value)}
+            className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="rounded-lg bg-synvora-primary px-3 py-1.5 text-sm font-semibold text-white shadow-sm transition hover:bg-synvora-primary/90 disabled:opacity-50"
+        >
+          {submitting ? "Saving..." : "Set Price"}
+        </button>
+        {error && <p className="w-full text-sm text-red-600">{error}</p>}
+      </form>
+      <p className="text-xs text-slate-500">
+        Orders are priced at the price in effect when they were placed. Back-dating a price only affects orders
+        imported or re-priced afterwards.
+      </p>
+    </div>
+  );
+}
@@ -15,12 +15,17 @@ type ShopifyStore = {
   };
 };
 
-type ShopifyProduct = {
-  shopifyProductId: string;
+type CatalogDiffItem = {
+  key: string;
+  kind: "new" | "changed" | "removed";
+  productId: number | null;
   name: string;
   sku: string | null;
-  price: number;
-  status: string;
+  shopifyProductId: string | null;
+  shopifyStatus: string | null;
+  shopifyPrice: number | null;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  conflict: string | null;
 };
 
 type ShopifySyncDialogProps = {
@@ -28,16 +33,40 @@ type ShopifySyncDialogProps = {
   onClose: () => void;
 };
 
+const KIND_LABELS: Record<CatalogDiffItem["kind"], string> = {
+  new: "New in Shopify",
+  changed: "Changed",
+  removed: "Removed from Shopify"
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  sku: "SKU",
+  shopifyProductId: "Variant ID",
+  shopifyParentId: "Shopify product",
+  variantTitle: "Variant",
+  shopifyStatus: "Status",
+  active: "Active"
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
 const fetcher = (url: string) => fetch(url).then((r) => r.json());
 
 export function ShopifySyncDialog({ open, onClose }: ShopifySyncDialogProps) {
   const [selectedStoreId, setSelectedStoreId] = useState<number | null>(null);
-  const [products, setProducts] = useState<ShopifyProduct[]>([]);
+  const [items, setItems] = useState<CatalogDiffItem[]>([]);
+  const [unchanged, setUnchanged] = useState(0);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
   const [productPrices, setProductPrices] = useState<Record<string, string>>({});
   const [fetching, setFetching] = useState(false);
   const [importing, setImporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [step, setStep] = useState<"select-store" | "set-prices">("select-store");
+  const [step, setStep] = useState<"select-store" | "review">("select-store");
 
   const { data: storesData } = useSWR<{ stores: ShopifyStore[] }>(
     open ? "/api/shopify-stores" : null,
@@ -48,7 +77,8 @@ export function ShopifySyncDialog({ open, onClose }: ShopifySyncDialogProps) {
   useEffect(() => {
     if (!open) {
       setSelectedStoreId(null);
-      setProducts([]);
+      setItems([]);
+      setSelectedKeys(new Set());
       setProductPrices({});
       setStep("select-store");
       setError(null);
@@ -72,17 +102,22 @@ export function ShopifySyncDialog({ open, onClose }: ShopifySyncDialogProps) {
 
       if (response.ok) {
         const data = await response.json();
-        setProducts(data.products);
+        const diffItems: CatalogDiffItem[] = data.items;
+        setItems(diffItems);
+        setUnchanged(data.unchanged);
+        setSelectedKeys(new Set(diffItems.filter((item) => !item.conflict).map((item) => item.key)));
 
-        // Initialize prices with Shopify prices (in USD, will need conversion)
+        // Initialize prices of new products with Shopify prices (in USD, will need conversion)
         const initialPrices: Record<string, string> = {};
-        data.products.forEach((p: ShopifyProduct) => {
-          // Convert USD to EGP using approximate rate (48.5) as starting point
-          initialPrices[p.shopifyProductId] = (p.price * 48.5).toFixed(2);
+        diffItems.forEach((item) => {
+          if (item.kind === "new") {
+            // Convert USD to EGP using approximate rate (48.5) as starting point
+            initialPrices[item.key] = ((item.shopifyPrice ?? 0) * 48.5).toFixed(2);
+          }
         });
         setProductPrices(initialPrices);
 
-        setStep("set-prices");
+        setStep("review");
       } else {
         const data = await response.json();
         setError(data.message || "Failed to fetch products");
@@ -102,12 +137,10 @@ export function ShopifySyncDialog({ open, onClose }: ShopifySyncDialogProps) {
     setError(null);
 
     try {
-      const productsToImport = products.map((p) => ({
-        shopifyProductId: p.shopifyProductId,
-        name: p.name,
-        sku: p.sku,
-        egpPrice: parseFloat(productPrices[p.shopifyProductId] || "0")
-      }));
+      const keys = Array.from(selectedKeys);
+      const egpPrices = Object.fromEntries(
+        keys.filter((key) => key in productPrices).map((key) => [key, parseFloat(productPrices[key] || "0")])
+      );
 
       const response = await fetch("/api/shopify/products/import", {
         method: "POST",
@@ -116,7 +149,8 @@ export function ShopifySyncDialog({ open, onClose }: ShopifySyncDialogProps) {
         },
         body: JSON.stringify({
           storeId: selectedStoreId,
-          products: productsToImport
+          keys,
+          egpPrices
         })
       });
 
@@ -145,13 +179,25 @@ export function ShopifySyncDialog({ open, onClose }: ShopifySyncDialogProps) {
     }
   };
 
-  const updatePrice = (productId: string, value: string) => {
+  const updatePrice = (key: string, value: string) => {
     setProductPrices((prev) => ({
       ...prev,
-      [productId]: value
+      [key]: value
     }));
   };
 
+  const toggleItem = (key: string) => {
+    setSelectedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
   return (
     <Transition show={open} as={Fragment}>
       <Dialog as="div" className="relative z-50" onClose={onClose}>
@@ -180,7 +226,7 @@ export function ShopifySyncDialog({ open, onClose }: ShopifySyncDialogProps) {
             <Dialog.Panel className="w-full max-w-4xl rounded-3xl bg-white shadow-2xl max-h-[90vh] flex flex-col">
               <div className="flex items-center justify-between border-b border-slate-200 px-6 py-4">
                 <Dialog.Title className="text-lg font-semibold text-slate-900">
-                  Sync Products from Shopify
+                  Sync Catalog with Shopify
                 </Dialog.Title>
                 <button
                   type="button"
@@ -228,11 +274,12 @@ export function ShopifySyncDialog({ open, onClose }: ShopifySyncDialogProps) {
                   </div>
                 )}
 
-                {step === "set-prices" && (
+                {step === "review" && (
                   <div className="space-y-4">
                     <div className="flex items-center justify-between">
                       <p className="text-sm text-slate-600">
-                        Found <strong>{products.length}</strong> products. Set EGP prices for each:
+                        <strong>{items.length}</strong> difference(s) with Shopify, {unchanged} product(s) already in
+                        sync. Choose what to apply:
                       </p>
                       <button
                         onClick={() => setStep("select-store")}
@@ -242,54 +289,77 @@ export function ShopifySyncDialog({ open, onClose }: ShopifySyncDialogProps) {
                       </button>
                     </div>
 
-                    <div className="max-h-96 overflow-y-auto border border-slate-200 rounded-lg">
-                      <table className="min-w-full divide-y divide-slate-200">
-                        <thead className="bg-slate-50 sticky top-0">
-                          <tr>
-                            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-slate-500">
-                              Product
-                            </th>
-                            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-slate-500">
-                              SKU
-                            </th>
-                            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-slate-500">
-                              Shopify Price (USD)
-                            </th>
-                            <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-slate-500">
-                              EGP Price
-                            </th>
-                          </tr>
-                        </thead>
-                        <tbody className="divide-y divide-slate-200 bg-white">
-                          {products.map((product) => (
-                            <tr key={product.shopifyProductId}>
-                              <td className="px-4 py-3 text-sm text-slate-900">
-                                {product.name}
-                              </td>
-                              <td className="px-4 py-3 text-sm text-slate-600">
-                                {product.sku || "-"}
-                              </td>
-                              <td className="px-4 py-3 text-sm text-slate-600">
-                                ${product.price.toFixed(2)}
-                              </td>
-                              <td className="px-4 py-3">
-                                <input
-                                  type="number"
-                                  step="0.01"
-                                  min="0"
-                                  value={productPrices[product.shopifyProductId] || ""}
-                                  onChange={(e) =>
-                                    updatePrice(product.shopifyProductId, e.target.value)
-                                  }
-                                  className="w-32 rounded-lg border border-slate-200 px-2 py-1 text-sm text-slate-900 focus:border-synvora-primary focus:outline-none focus:ring-2 focus:ring-synvora-primary/30"
-                                  placeholder="0.00"
-                                />
-                              </td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    </div>
+                    {items.length === 0 ? (
+                      <div className="rounded-lg border-2 border-dashed border-slate-200 p-8 text-center text-sm text-slate-600">
+                        The catalog matches Shopify.
+                      </div>
+                    ) : (
+                      <div className="max-h-96 space-y-4 overflow-y-auto">
+                        {(["new", "changed", "removed"] as const).map((kind) => {
+                          const kindItems = items.filter((item) => item.kind === kind);
+                          if (!kindItems.length) return null;
+
+                          return (
+                            <div key={kind} className="rounded-lg border border-slate-200">
+                              <h3 className="border-b border-slate-200 bg-slate-50 px-4 py-2 text-xs font-medium uppercase tracking-wide text-slate-500">
+                                {KIND_LABELS[kind]} ({kindItems.length})
+                              </h3>
+                              <ul className="divide-y divide-slate-200">
+                                {kindItems.map((item) => (
+                                  <li key={item.key} className="flex items-start gap-3 px-4 py-3">
+                                    <input
+                                      type="checkbox"
+                                      checked={selectedKeys.has(item.key)}
+                                      onChange={() => toggleItem(item.key)}
+                                      disabled={Boolean(item.conflict)}
+                                      className="mt-1 rounded border-slate-300 text-synvora-primary focus:ring-synvora-primary disabled:opacity-50"
+                                    />
+                                    <div className="min-w-0 flex-1">
+                                      <div className="text-sm font-medium text-slate-900">{item.name}</div>
+                                      <div className="text-xs text-slate-500">
+                                        {item.sku ? `SKU ${item.sku}` : "No SKU"}
+                                        {item.shopifyProductId && ` · Variant ${item.shopifyProductId}`}
+                                        {item.shopifyPrice !== null && ` · $${item.shopifyPrice.toFixed(2)}`}
+                                      </div>
+                                      {kind !== "new" && (
+                                        <ul className="mt-1 space-y-0.5 text-xs text-slate-600">
+                                          {Object.entries(item.changes).map(([field, change]) => (
+                                            <li key={field}>
+                                              {FIELD_LABELS[field] ?? field}: {formatValue(change.from)} →{" "}
+                                              <strong>{formatValue(change.to)}</strong>
+                                            </li>
+                                          ))}
+                                        </ul>
+                                      )}
+                                      {item.conflict && (
+                                        <p className="mt-1 flex items-center gap-1 text-xs text-red-600">
+                                          <AlertCircle className="h-3.5 w-3.5" />
+                                          {item.conflict}
+                                        </p>
+                                      )}
+                                    </div>
+                                    {kind === "new" && (
+                                      <label className="flex flex-col gap-1 text-xs text-slate-500">
+                                        EGP Price
+                                        <input
+                                          type="number"
+                                          step="0.01"
+                                          min="0"
+                                          value={productPrices[item.key] || ""}
+                                          onChange={(e) => updatePrice(item.key, e.target.value)}
+                                          className="w-32 rounded-lg border border-slate-200 px-2 py-1 text-sm text-slate-900 focus:border-synvora-primary focus:outline-none focus:ring-2 focus:ring-synvora-primary/30"
+                                          placeholder="0.00"
+                                        />
+                                      </label>
+                                    )}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
 
                     <div className="flex items-center justify-end gap-3 pt-4 border-t border-slate-200">
                       <button
@@ -301,11 +371,11 @@ export function ShopifySyncDialog({ open, onClose }: ShopifySyncDialogProps) {
                       </button>
                       <button
                         onClick={handleImport}
-                        disabled={importing}
+                        disabled={importing || selectedKeys.size === 0}
                         className="inline-flex items-center gap-2 rounded-xl bg-synvora-primary px-4 py-2 text-sm font-semibold text-white shadow transition hover:bg-synvora-primary/90 disabled:cursor-not-allowed disabled:opacity-50"
                       >
                         <Download className={`h-4 w-4 ${importing ? "animate-bounce" : ""}`} />
-                        {importing ? "Importing..." : `Import ${products.length} Products`}
+                        {importing ? "Applying..." : `Apply ${selectedKeys.size} Changes`}
                       </button>
                     </div>
                   </div>
@@ -4,7 +4,8 @@ import { Fragment, useState } from "react";
 import { Dialog, Transition } from "@headlessui/react";
 import { X, ChevronDown, ChevronRight, Loader2, CheckCircle2, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
-import { PLATFORM_FEE_MULTIPLIER, CLIENT_COMMISSION_RATE, AED_USD_PEG } from "@/lib/constants";
+import { AED_USD_PEG } from "@/lib/constants";
+import type { FeeTerms } from "@/lib/fee-terms";
 
 type TransformedOrder = {
   externalId: string;
@@ -17,6 +18,8 @@ type TransformedOrder = {
   fulfillmentStatus: string | null;
   totalAmount: number;
   originalAmount: number | null;
+  aedEgpRate: number | null;
+  feeTerms: FeeTerms; // the venue's fee terms at processedAt
   shopifyUSD: number;
   currency: string;
   processedAt: string;
@@ -48,11 +51,11 @@ type OrderReviewDialogProps = {
   onImportComplete: () => void;
 };
 
-/** Derive all amounts for an order given its EGP and the daily AED/EGP rate */
-function deriveAmounts(egp: number, aedEgpRate: number) {
+/** Derive all amounts for an order given its EGP, the daily AED/EGP rate and the venue's fee terms */
+function deriveAmounts(egp: number, aedEgpRate: number, terms: FeeTerms) {
   const aedBase = egp / aedEgpRate;
-  const revenueUSD = Number(((aedBase / AED_USD_PEG) * PLATFORM_FEE_MULTIPLIER).toFixed(2));
-  const payoutAED = Number((aedBase * (1 - CLIENT_COMMISSION_RATE)).toFixed(2));
+  const revenueUSD = Number(((aedBase / AED_USD_PEG) * terms.platformFeeMultiplier).toFixed(2));
+  const payoutAED = Number((aedBase * (1 - terms.commissionRate)).toFixed(2));
   return { revenueUSD, payoutAED, aedBase };
 }
 
@@ -74,7 +77,8 @@ export function OrderReviewDialog({
     skipped: number;
   } | null>(null);
 
-  // Daily AED/EGP rate per day group (key = "Jan 13, 2026" etc.)
+  // Daily AED/EGP rate typed in per day group (key = "2026-01-13" etc.).
+  // Days without an entry fall back to the rate pre-filled from the DailyRate ledger.
   const [dailyRates, setDailyRates] = useState<Record<string, number>>({});
   // Per-order EGP override (for custom sales or manual corrections)
   const [egpOverrides, setEgpOverrides] = useState<Record<string, number>>({});
@@ -90,6 +94,12 @@ export function OrderReviewDialog({
       day: "numeric",
     });
 
+  /** Local business-day key ("YYYY-MM-DD") used by the DailyRate ledger */
+  const getOrderDateKey = (order: TransformedOrder) => {
+    const date = new Date(order.processedAt);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+  };
+
   /** Get the effective EGP for an order (override > catalog > auto-derive from Shopify USD) */
   const getEGP = (order: TransformedOrder): number | null => {
     if (egpOverrides[order.externalId] !== undefined) return egpOverrides[order.externalId];
@@ -100,17 +110,16 @@ export function OrderReviewDialog({
     return null;
   };
 
-  /** Get the daily rate for an order's date */
+  /** Get the daily rate for an order's date (typed rate > ledger rate) */
   const getRateForOrder = (order: TransformedOrder): number | null => {
-    const date = getOrderDate(order);
-    return dailyRates[date] ?? null;
+    return dailyRates[getOrderDateKey(order)] ?? order.aedEgpRate ?? null;
   };
 
   /** Get computed USD revenue and AED payout for display */
   const getComputedAmounts = (order: TransformedOrder) => {
     const egp = getEGP(order);
     const rate = getRateForOrder(order);
-    if (egp !== null && rate) return deriveAmounts(egp, rate);
+    if (egp !== null && rate) return deriveAmounts(egp, rate, order.feeTerms);
     return null;
   };
 
@@ -153,14 +162,32 @@ export function OrderReviewDialog({
   const sortedOrders = [...orders].sort(
     (a, b) => new Date(b.processedAt).getTime() - new Date(a.processedAt).getTime()
   );
-  const groups: { date: string; orders: TransformedOrder[] }[] = [];
+  const groups: { date: string; key: string; orders: TransformedOrder[] }[] = [];
   for (const order of sortedOrders) {
-    const date = getOrderDate(order);
+    const key = getOrderDateKey(order);
     const last = groups[groups.length - 1];
-    if (last && last.date === date) last.orders.push(order);
-    else groups.push({ date, orders: [order] });
+    if (last && last.key === key) last.orders.push(order);
+    else groups.push({ date: getOrderDate(order), key, orders: [order] });
   }
 
+  /** Save the rates typed in this session to the venue's DailyRate ledger */
+  const saveDailyRates = async () => {
+    if (!store) return;
+    const entries = Object.entries(dailyRates);
+    const results = await Promise.all(
+      entries.map(([date, aedEgpRate]) =>
+        fetch("/api/daily-rates", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ venueId: store.venue.id, date, aedEgpRate }),
+        }).then((res) => res.ok).catch(() => false)
+      )
+    );
+    if (results.some((ok) => !ok)) {
+      toast.error("Orders imported, but some daily rates could not be saved to the ledger.");
+    }
+  };
+
   const handleImport = async () => {
     if (selectedOrders.size === 0) return;
 
@@ -190,7 +217,7 @@ export function OrderReviewDialog({
       .map((order) => {
         const egp = getEGP(order)!;
         const rate = getRateForOrder(order)!;
-        const { revenueUSD } = deriveAmounts(egp, rate);
+        const { revenueUSD } = deriveAmounts(egp, rate, order.feeTerms);
         return {
           ...order,
           originalAmount: egp,
@@ -215,6 +242,7 @@ export function OrderReviewDialog({
       }
 
       const result = await response.json();
+      await saveDailyRates();
       setImportResult(result);
       toast.success(`Imported ${result.imported} orders successfully!`);
       setTimeout(() => onImportComplete(), 2000);
@@ -344,7 +372,9 @@ export function OrderReviewDialog({
                     </thead>
                     <tbody className="divide-y divide-synvora-border/60">
                       {groups.flatMap((group) => {
-                        const rate = dailyRates[group.date];
+                        const ledgerRate = group.orders.find((o) => o.aedEgpRate)?.aedEgpRate ?? null;
+                        const rate = dailyRates[group.key] ?? ledgerRate;
+                        const isLedgerRate = dailyRates[group.key] === undefined && ledgerRate !== null;
                         const selectedInGroup = group.orders.filter((o) => selectedOrders.has(o.externalId));
                         const groupEGP = selectedInGroup.reduce((s, o) => s + (getEGP(o) ?? 0), 0);
                         const groupUSD = selectedInGroup.reduce((s, o) => {
@@ -497,8 +527,8 @@ export function OrderReviewDialog({
                                     const val = e.target.value ? parseFloat(e.target.value) : undefined;
                                     setDailyRates((prev) => {
                                       const next = { ...prev };
-                                      if (val === undefined) delete next[group.date];
-                                      else next[group.date] = val;
+                                      if (val === undefined) delete next[group.key];
+                                      else next[group.key] = val;
                                       return next;
                                     });
                                   }}
@@ -510,6 +540,9 @@ export function OrderReviewDialog({
                                   disabled={importing}
                                 />
                                 <span className="text-[10px] text-synvora-text-secondary uppercase">EGP/AED</span>
+                                {isLedgerRate && (
+                                  <span className="text-[10px] font-semibold text-synvora-primary uppercase">Ledger</span>
+                                )}
                               </div>
                             </td>
                             <td className="px-3 py-3 text-right text-xs font-bold text-synvora-text">
@@ -18,6 +18,7 @@ type StoreDialogProps = {
     id: number;
     storeDomain: string;
     nickname: string | null;
+    hasWebhookSecret: boolean;
     venue: {
       id: number;
       name: string;
@@ -31,6 +32,7 @@ export function StoreDialog({ open, onClose, store }: StoreDialogProps) {
   const [formData, setFormData] = useState({
     storeDomain: "",
     accessToken: "",
+    webhookSecret: "",
     nickname: "",
     venueId: ""
   });
@@ -47,6 +49,7 @@ export function StoreDialog({ open, onClose, store }: StoreDialogProps) {
       setFormData({
         storeDomain: store.storeDomain,
         accessToken: "", // Don't show existing token for security
+        webhookSecret: "",
         nickname: store.nickname || "",
         venueId: String(store.venue.id)
       });
@@ -54,6 +57,7 @@ export function StoreDialog({ open, onClose, store }: StoreDialogProps) {
       setFormData({
         storeDomain: "",
         accessToken: "",
+        webhookSecret: "",
         nickname: "",
         venueId: venuesData?.venues[0]?.id ? String(venuesData.venues[0].id) : ""
       });
@@ -123,6 +127,10 @@ export function StoreDialog({ open, onClose, store }: StoreDialogProps) {
         payload.accessToken = formData.accessToken;
       }
 
+      if (formData.webhookSecret) {
+        payload.webhookSecret = formData.webhookSecret;
+      }
+
       const response = await fetch(url, {
         method,
         headers: { "Content-Type": "application/json" },
@@ -204,6 +212,25 @@ export function StoreDialog({ open, onClose, store }: StoreDialogProps) {
             )}
           </div>
 
+          {/* Webhook Secret */}
+          <div>
+            <label className="block text-sm font-medium text-synvora-text mb-1">
+              Webhook Secret (optional)
+            </label>
+            <input
+              type="password"
+              value={formData.webhookSecret}
+              onChange={(e) => setFormData({ ...formData, webhookSecret: e.target.value })}
+              placeholder="API secret key of the custom app"
+              className="w-full rounded-lg border border-synvora-border px-3 py-2 text-sm focus:border-synvora-primary focus:outline-none focus:ring-2 focus:ring-synvora-primary/30"
+            />
+            <p className="mt-1 text-xs text-synvora-text-secondary">
+              {store?.hasWebhookSecret
+                ? "Leave blank to keep existing secret"
+                : "Used to verify this store's webhooks. Without it the shared SHOPIFY_WEBHOOK_SECRET is used."}
+            </p>
+          </div>
+
           {/* Help Button */}
           <button
             type="button"
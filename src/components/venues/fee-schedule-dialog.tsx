@@ -0,0 +1,270 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import useSWR from "swr";
+import { Dialog, Transition } from "@headlessui/react";
+import { X, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { FeeTerms } from "@/lib/fee-terms";
+
+type FeeScheduleDto = FeeTerms & {
+  id: number;
+  effectiveFrom: string;
+  notes: string | null;
+};
+
+type FeeSchedulesResponse = { schedules: FeeScheduleDto[]; defaults: FeeTerms };
+
+type FeeScheduleDialogProps = {
+  open: boolean;
+  venue: { id: number; name: string } | null;
+  onClose: () => void;
+};
+
+const fetcher = (url: string) =>
+  fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error("Request failed");
+    }
+    return response.json();
+  });
+
+// Terms are entered as percentages: a 1.035 multiplier is a 3.5% platform fee
+const toPercent = (value: number) => Number((value * 100).toFixed(4));
+const platformFeePercent = (terms: FeeTerms) => toPercent(terms.platformFeeMultiplier - 1);
+const commissionPercent = (terms: FeeTerms) => toPercent(terms.commissionRate);
+
+const formatDay = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+const inputClass =
+  "rounded-lg border border-synvora-border px-3 py-2 text-sm shadow-sm focus:border-synvora-primary focus:outline-none focus:ring-1 focus:ring-synvora-primary";
+
+export function FeeScheduleDialog({ open, venue, onClose }: FeeScheduleDialogProps) {
+  const { data, isLoading, mutate } = useSWR<FeeSchedulesResponse>(
+    open && venue ? `/api/venues/${venue.id}/fee-schedules` : null,
+    fetcher
+  );
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [platformFee, setPlatformFee] = useState("");
+  const [commission, setCommission] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setEffectiveFrom("");
+      setPlatformFee("");
+      setCommission("");
+      setNotes("");
+    }
+  }, [open]);
+
+  if (!venue) return null;
+
+  const schedules = data?.schedules ?? [];
+
+  const handleAdd = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const fee = Number(platformFee);
+    const rate = Number(commission);
+    if (!effectiveFrom || !platformFee || !commission || Number.isNaN(fee) || Number.isNaN(rate)) {
+      toast.error("Enter a start date, platform fee and commission.");
+      return;
+    }
+
+    setSaving(true);
+    const response = await fetch(`/api/venues/${venue.id}/fee-schedules`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        // Starts at local midnight, so it covers the whole business day
+        effectiveFrom: new Date(`${effectiveFrom}T00:00:00`).toISOString(),
+        platformFeeMultiplier: 1 + fee / 100,
+        commissionRate: rate / 100,
+        notes: notes.trim() || null
+      })
+    });
+    setSaving(false);
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      toast.error(payload?.message ?? "Failed to add fee schedule.");
+      return;
+    }
+
+    toast.success("Fee schedule added. Payouts from that date were updated.");
+    setEffectiveFrom("");
+    setPlatformFee("");
+    setCommission("");
+    setNotes("");
+    mutate();
+  };
+
+  const handleDelete = async (schedule: FeeScheduleDto) => {
+    if (!confirm(`Delete the schedule starting ${formatDay(schedule.effectiveFrom)}? Its orders fall back to the terms before it.`)) {
+      return;
+    }
+
+    setDeletingId(schedule.id);
+    const response = await fetch(`/api/venues/${venue.id}/fee-schedules/${schedule.id}`, { method: "DELETE" });
+    setDeletingId(null);
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      toast.error(payload?.message ?? "Failed to delete fee schedule.");
+      return;
+    }
+
+    toast.success("Fee schedule deleted.");
+    mutate();
+  };
+
+  return (
+    <Transition show={open} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-200" enterFrom="opacity-0" enterTo="opacity-100"
+          leave="ease-in duration-150" leaveFrom="opacity-100" leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Transition.Child
+            as={Fragment}
+            enter="transform transition ease-out duration-200"
+            enterFrom="translate-y-6 opacity-0" enterTo="translate-y-0 opacity-100"
+            leave="transform transition ease-in duration-150"
+            leaveFrom="translate-y-0 opacity-100" leaveTo="translate-y-4 opacity-0"
+          >
+            <Dialog.Panel className="w-full max-w-2xl max-h-[90vh] overflow-hidden rounded-xl bg-white shadow-2xl flex flex-col">
+              <div className="flex items-center justify-between border-b border-synvora-border px-6 py-4 flex-none">
+                <div>
+                  <Dialog.Title className="text-lg font-semibold text-synvora-text">Fee Schedule</Dialog.Title>
+                  <p className="text-sm text-synvora-text-secondary">
+                    <span className="font-medium">{venue.name}</span> · terms apply to orders processed from their start date
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="inline-flex h-9 w-9 items-center justify-center rounded-full border border-synvora-border text-synvora-text-secondary transition hover:bg-synvora-surface-hover"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+
+              <form onSubmit={handleAdd} className="flex-none flex flex-wrap items-end gap-3 px-6 pt-4">
+                <label className="flex flex-col gap-1.5 text-sm font-medium text-synvora-text">
+                  Starts
+                  <input
+                    type="date"
+                    value={effectiveFrom}
+                    onChange={(e) => setEffectiveFrom(e.target.value)}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-1.5 text-sm font-medium text-synvora-text">
+                  Platform fee %
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={platformFee}
+                    onChange={(e) => setPlatformFee(e.target.value)}
+                    placeholder={data ? String(platformFeePercent(data.defaults)) : ""}
+                    className={`w-28 ${inputClass}`}
+                  />
+                </label>
+                <label className="flex flex-col gap-1.5 text-sm font-medium text-synvora-text">
+                  Commission %
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="99.99"
+                    value={commission}
+                    onChange={(e) => setCommission(e.target.value)}
+                    placeholder={data ? String(commissionPercent(data.defaults)) : ""}
+                    className={`w-28 ${inputClass}`}
+                  />
+                </label>
+                <label className="flex flex-1 flex-col gap-1.5 text-sm font-medium text-synvora-text">
+                  Notes
+                  <input
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="e.g. 2027 contract"
+                    className={inputClass}
+                  />
+                </label>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="inline-flex items-center gap-2 rounded-lg bg-synvora-primary px-4 py-2 text-sm font-semibold text-white shadow transition hover:bg-synvora-primary/90 disabled:opacity-50"
+                >
+                  {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Add
+                </button>
+              </form>
+
+              <div className="flex-1 overflow-y-auto px-6 py-4">
+                <table className="min-w-full divide-y divide-synvora-border text-sm">
+                  <thead className="text-left text-xs font-semibold uppercase tracking-wide text-synvora-text-secondary">
+                    <tr>
+                      <th className="py-2 pr-4">Starts</th>
+                      <th className="py-2 pr-4">Platform fee</th>
+                      <th className="py-2 pr-4">Commission</th>
+                      <th className="py-2 pr-4">Notes</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-synvora-border">
+                    {isLoading ? (
+                      <tr>
+                        <td colSpan={5} className="py-6 text-center text-synvora-text-secondary">
+                          Loading fee schedules…
+                        </td>
+                      </tr>
+                    ) : null}
+                    {schedules.map((schedule) => (
+                      <tr key={schedule.id}>
+                        <td className="py-2 pr-4 font-medium text-synvora-text">{formatDay(schedule.effectiveFrom)}</td>
+                        <td className="py-2 pr-4 text-synvora-text">{platformFeePercent(schedule)}%</td>
+                        <td className="py-2 pr-4 text-synvora-text">{commissionPercent(schedule)}%</td>
+                        <td className="py-2 pr-4 text-synvora-text-secondary">{schedule.notes ?? "—"}</td>
+                        <td className="py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(schedule)}
+                            disabled={deletingId !== null}
+                            className="inline-flex h-8 w-8 items-center justify-center rounded-lg text-rose-600 transition hover:bg-rose-50 disabled:opacity-50"
+                            title="Delete schedule"
+                          >
+                            {deletingId === schedule.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                    {data ? (
+                      <tr>
+                        <td className="py-2 pr-4 text-synvora-text-secondary">{schedules.length ? "Before that" : "Always"}</td>
+                        <td className="py-2 pr-4 text-synvora-text-secondary">{platformFeePercent(data.defaults)}%</td>
+                        <td className="py-2 pr-4 text-synvora-text-secondary">{commissionPercent(data.defaults)}%</td>
+                        <td className="py-2 pr-4 text-synvora-text-secondary">Default terms</td>
+                        <td />
+                      </tr>
+                    ) : null}
+                  </tbody>
+                </table>
+              </div>
+            </Dialog.Panel>
+          </Transition.Child>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
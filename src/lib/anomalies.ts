@@ -0,0 +1,225 @@
+import { prisma } from "./prisma";
+import { AED_USD_PEG } from "./constants";
+import { calendarOf, loadBusinessCalendars, todayBusinessDayKey, toBusinessDayKey, toUtcDate } from "./business-calendar";
+import { DEFAULT_EXCHANGE_RATE, getCurrentExchangeRate } from "./exchange-rate";
+import { resolveAedEgpRate } from "./order-rates";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ANOMALY_KINDS = ["order_amount", "order_rate", "missing_rate", "rate_jump", "rate_market"] as const;
+export type AnomalyKind = (typeof ANOMALY_KINDS)[number];
+
+export type Anomaly = {
+  kind: AnomalyKind;
+  severity: "warning" | "error";
+  venueId: number;
+  venueName: string;
+  date: string; // business day
+  orderId: number | null; // set for order findings
+  orderNumber: string | null;
+  value: number | null;
+  expected: number | null;
+  message: string;
+};
+
+/** Days of orders a venue's typical order amount is learned from, at least */
+const AMOUNT_BASELINE_DAYS = 180;
+/** Orders a venue needs in its baseline before its amounts are judged */
+const AMOUNT_MIN_SAMPLE = 20;
+/** An amount is flagged when it is this many robust deviations from the venue's median, on a log scale... */
+const AMOUNT_MAX_DEVIATIONS = 3.5;
+/** ...and at least this many times larger or smaller than it, so tight venues don't flag ordinary orders */
+const AMOUNT_MIN_FACTOR = 5;
+
+/** Relative gap between an order's AED/EGP rate and the venue's daily rate for its day */
+const ORDER_RATE_TOLERANCE = 0.05;
+/** Daily rates compared with a rate on either side, how far away they may be, and the relative gap to their median that is flagged */
+const RATE_NEIGHBOURS = 3;
+const RATE_NEIGHBOUR_MAX_DAYS = 14;
+const RATE_NEIGHBOUR_TOLERANCE = 0.05;
+/** Daily rates this recent are also compared with the market rate, and the relative gap that is flagged */
+const MARKET_CHECK_DAYS = 7;
+const MARKET_TOLERANCE = 0.1;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const formatNumber = (value: number, digits = 0) =>
+  new Intl.NumberFormat("en-US", { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+
+const percentOff = (value: number, expected: number) => `${formatNumber((Math.abs(value - expected) / expected) * 100, 1)}%`;
+
+/**
+ * Look for likely data-entry mistakes in the given venues over the last `days` business days, each venue on its
+ * own calendar:
+ * - order_amount: an order's EGP amount far from the venue's typical order (median and MAD of log amounts)
+ * - missing_rate: an order with an EGP amount but no rate to pay out at
+ * - order_rate: an order priced in AED/EGP whose rate is off the venue's daily rate for that day
+ * - rate_jump: a daily rate off the median of the rates recorded around it
+ * - rate_market: a recent daily rate off the market USD/EGP rate converted at the AED peg
+ * Newest first.
+ */
+export async function detectAnomalies(venueIds: number[], days = 30): Promise<Anomaly[]> {
+  const calendars = await loadBusinessCalendars(venueIds);
+  const today = todayBusinessDayKey(calendars);
+  const windowStart = new Date(toUtcDate(today).getTime() - (days - 1) * DAY_MS);
+  const windowStartKey = windowStart.toISOString().slice(0, 10);
+  const baselineStart = new Date(Date.now() - Math.max(days, AMOUNT_BASELINE_DAYS) * DAY_MS);
+
+  const [venues, orders, rates, usdEgp] = await Promise.all([
+    prisma.venue.findMany({ where: { id: { in: venueIds } }, select: { id: true, name: true } }),
+    prisma.order.findMany({
+      where: { venueId: { in: venueIds }, deletedAt: null, processedAt: { gte: baselineStart } },
+      select: {
+        id: true,
+        orderNumber: true,
+        venueId: true,
+        processedAt: true,
+        originalAmount: true,
+        rateType: true,
+        aedEgpRate: true,
+        exchangeRate: true
+      }
+    }),
+    prisma.dailyRate.findMany({
+      where: { venueId: { in: venueIds } },
+      select: { venueId: true, date: true, aedEgpRate: true },
+      orderBy: { date: "asc" }
+    }),
+    getCurrentExchangeRate("USD", "EGP")
+  ]);
+
+  const venueNames = new Map(venues.map((venue) => [venue.id, venue.name]));
+  const anomalies: Anomaly[] = [];
+  const base = (venueId: number, date: string) => ({
+    venueId,
+    venueName: venueNames.get(venueId) ?? "",
+    date,
+    orderId: null,
+    orderNumber: null
+  });
+
+  // --- Orders ---
+  const ratesByDay = new Map(
+    rates.map((rate) => [`${rate.venueId}:${rate.date.toISOString().slice(0, 10)}`, rate.aedEgpRate])
+  );
+
+  for (const venueId of venueIds) {
+    const venueOrders = orders.filter((order) => order.venueId === venueId);
+    const logAmounts = venueOrders
+      .filter((order) => typeof order.originalAmount === "number" && order.originalAmount > 0)
+      .map((order) => Math.log(order.originalAmount!));
+    const typicalLog = logAmounts.length >= AMOUNT_MIN_SAMPLE ? median(logAmounts) : null;
+    const spread = typicalLog !== null ? 1.4826 * median(logAmounts.map((value) => Math.abs(value - typicalLog))) : 0;
+
+    for (const order of venueOrders) {
+      const date = toBusinessDayKey(order.processedAt, calendarOf(calendars, venueId));
+      if (date < windowStartKey) {
+        continue;
+      }
+      const orderBase = { ...base(venueId, date), orderId: order.id, orderNumber: order.orderNumber };
+      const amount = order.originalAmount;
+      if (typeof amount !== "number" || amount <= 0) {
+        continue;
+      }
+
+      if (typicalLog !== null) {
+        const distance = Math.abs(Math.log(amount) - typicalLog);
+        const typical = Math.exp(typicalLog);
+        if (distance >= Math.log(AMOUNT_MIN_FACTOR) && (spread === 0 || distance / spread >= AMOUNT_MAX_DEVIATIONS)) {
+          const factor = amount > typical ? `${formatNumber(amount / typical, 1)}× above` : `${formatNumber(typical / amount, 1)}× below`;
+          anomalies.push({
+            ...orderBase,
+            kind: "order_amount",
+            severity: "warning",
+            value: amount,
+            expected: typical,
+            message: `EGP ${formatNumber(amount)} is ${factor} this venue's typical order of EGP ${formatNumber(typical)}`
+          });
+        }
+      }
+
+      const dailyRate = ratesByDay.get(`${venueId}:${date}`) ?? null;
+      if (resolveAedEgpRate(order) === null) {
+        anomalies.push({
+          ...orderBase,
+          kind: "missing_rate",
+          severity: "error",
+          value: null,
+          expected: dailyRate,
+          message:
+            order.rateType === null
+              ? "No AED/EGP rate and not yet classified by the rate migration, so the order pays out nothing"
+              : "No AED/EGP rate, so the order pays out nothing"
+        });
+      } else if (
+        order.rateType !== "USD_EGP" &&
+        order.aedEgpRate !== null &&
+        dailyRate !== null &&
+        Math.abs(order.aedEgpRate - dailyRate) / dailyRate > ORDER_RATE_TOLERANCE
+      ) {
+        anomalies.push({
+          ...orderBase,
+          kind: "order_rate",
+          severity: "warning",
+          value: order.aedEgpRate,
+          expected: dailyRate,
+          message: `AED/EGP rate ${formatNumber(order.aedEgpRate, 4)} is ${percentOff(order.aedEgpRate, dailyRate)} off the day's rate of ${formatNumber(dailyRate, 4)}`
+        });
+      }
+    }
+  }
+
+  // --- Daily rates ---
+  // The fallback rate means the market rate is unknown, not that it is 48.5
+  const marketAedEgp = usdEgp !== DEFAULT_EXCHANGE_RATE ? usdEgp / AED_USD_PEG : null;
+  const marketFrom = new Date(toUtcDate(today).getTime() - (MARKET_CHECK_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+
+  for (const venueId of venueIds) {
+    const venueRates = rates.filter((rate) => rate.venueId === venueId);
+    venueRates.forEach((rate, index) => {
+      const date = rate.date.toISOString().slice(0, 10);
+      if (date < windowStartKey) {
+        return;
+      }
+
+      const neighbours = [
+        ...venueRates.slice(Math.max(index - RATE_NEIGHBOURS, 0), index),
+        ...venueRates.slice(index + 1, index + 1 + RATE_NEIGHBOURS)
+      ]
+        .filter((neighbour) => Math.abs(neighbour.date.getTime() - rate.date.getTime()) <= RATE_NEIGHBOUR_MAX_DAYS * DAY_MS)
+        .map((neighbour) => neighbour.aedEgpRate);
+      if (neighbours.length >= 2) {
+        const expected = median(neighbours);
+        if (Math.abs(rate.aedEgpRate - expected) / expected > RATE_NEIGHBOUR_TOLERANCE) {
+          anomalies.push({
+            ...base(venueId, date),
+            kind: "rate_jump",
+            severity: "warning",
+            value: rate.aedEgpRate,
+            expected,
+            message: `Daily rate ${formatNumber(rate.aedEgpRate, 4)} is ${percentOff(rate.aedEgpRate, expected)} off the rates around it (${formatNumber(expected, 4)})`
+          });
+        }
+      }
+
+      if (marketAedEgp !== null && date >= marketFrom) {
+        if (Math.abs(rate.aedEgpRate - marketAedEgp) / marketAedEgp > MARKET_TOLERANCE) {
+          anomalies.push({
+            ...base(venueId, date),
+            kind: "rate_market",
+            severity: "warning",
+            value: rate.aedEgpRate,
+            expected: marketAedEgp,
+            message: `Daily rate ${formatNumber(rate.aedEgpRate, 4)} is ${percentOff(rate.aedEgpRate, marketAedEgp)} off the market rate of ${formatNumber(marketAedEgp, 4)}`
+          });
+        }
+      }
+    });
+  }
+
+  return anomalies.sort((a, b) => b.date.localeCompare(a.date) || (a.orderId ?? 0) - (b.orderId ?? 0));
+}
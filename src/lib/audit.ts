@@ -0,0 +1,63 @@
+import { Prisma } from "@prisma/client";
+import type { Session } from "next-auth";
+import { prisma } from "./prisma";
+
+export const AUDIT_ENTITY_TYPES = ["Order", "Payout", "Venue", "FeeSchedule", "User"] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+export type AuditAction = "create" | "update" | "delete" | "restore" | "purge";
+
+type AuditClient = Prisma.TransactionClient | typeof prisma;
+
+type AuditEventInput = {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: number | null;
+  before?: unknown;
+  after?: unknown;
+};
+
+// Never persist credentials into the log
+const REDACTED_KEYS = new Set(["password", "accessToken", "apiKey"]);
+
+/** Plain-JSON copy of a record (dates → ISO strings) with secrets stripped */
+export const toAuditSnapshot = (value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull => {
+  if (value === undefined || value === null) {
+    return Prisma.JsonNull;
+  }
+
+  return JSON.parse(
+    JSON.stringify(value, (key, field) => (REDACTED_KEYS.has(key) ? undefined : field))
+  );
+};
+
+// A null session means a scheduled job acted, not a user
+const toAuditRow = (session: Session | null, event: AuditEventInput) => {
+  const actorId = session ? Number(session.user.id) : Number.NaN;
+
+  return {
+    action: event.action,
+    entityType: event.entityType,
+    entityId: event.entityId,
+    actorId: Number.isNaN(actorId) ? null : actorId,
+    actorEmail: session?.user.email ?? null,
+    before: toAuditSnapshot(event.before),
+    after: toAuditSnapshot(event.after)
+  };
+};
+
+/**
+ * Append one audit event for a mutation made by the session's user.
+ * Pass the transaction client when the mutation runs inside $transaction.
+ */
+export async function recordAuditEvent(session: Session | null, event: AuditEventInput, client: AuditClient = prisma) {
+  await client.auditEvent.create({ data: toAuditRow(session, event) });
+}
+
+/** Append several audit events at once, e.g. one per order in a bulk delete */
+export async function recordAuditEvents(session: Session | null, events: AuditEventInput[], client: AuditClient = prisma) {
+  if (!events.length) {
+    return;
+  }
+
+  await client.auditEvent.createMany({ data: events.map((event) => toAuditRow(session, event)) });
+}
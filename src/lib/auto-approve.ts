@@ -0,0 +1,123 @@
+import type { AutoApproveRule } from "@prisma/client";
+import { prisma } from "./prisma";
+import { calculateEGPFromLineItems } from "./product-pricing";
+import { getDailyRate } from "./daily-rates";
+import { getBusinessCalendar, toBusinessDayKey } from "./business-calendar";
+import { importQueuedShopifyOrders } from "./shopify-import";
+import type { ShopifyOrder } from "./shopify";
+
+export type AutoApproveResult = "imported" | "held" | "manual";
+
+/**
+ * The rule governing a store: its own, else its venue's.
+ * A disabled store rule still wins, which is how one store opts out of its venue's rule.
+ */
+export async function findAutoApproveRule(store: { id: number; venueId: number }) {
+  const rules = await prisma.autoApproveRule.findMany({
+    where: { OR: [{ storeId: store.id }, { venueId: store.venueId }] }
+  });
+
+  return rules.find((rule) => rule.storeId === store.id) ?? rules.find((rule) => rule.venueId === store.venueId) ?? null;
+}
+
+/** Why the order fails the rule's checks; empty when it can be imported */
+async function checkAutoApproveRule(rule: AutoApproveRule, order: ShopifyOrder, venueId: number) {
+  const reasons: string[] = [];
+
+  if (rule.requirePaid && order.financial_status !== "paid") {
+    reasons.push(`Financial status is ${order.financial_status ?? "unknown"}, not paid`);
+  }
+
+  const processedAt = new Date(order.processed_at ?? Date.now());
+
+  if (rule.requireCatalogMatch) {
+    const lineItems = order.line_items.map((item) => ({
+      productName: item.name,
+      quantity: item.quantity,
+      sku: item.sku ?? null,
+      shopifyProductId: item.variant_id ? String(item.variant_id) : item.product_id ? String(item.product_id) : null
+    }));
+    if ((await calculateEGPFromLineItems(lineItems, venueId, processedAt)) === null) {
+      reasons.push("Not every line item matches the product catalog");
+    }
+  }
+
+  if (rule.requireDailyRate) {
+    const dateKey = toBusinessDayKey(processedAt, await getBusinessCalendar(venueId));
+    if ((await getDailyRate(venueId, dateKey)) === null) {
+      reasons.push(`No daily rate for ${dateKey}`);
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Apply the governing rule to one queued order. It is imported into the store's venue when every enabled check
+ * passes; otherwise the reasons are kept on the queue entry and it waits for manual review.
+ */
+export async function autoApproveQueuedOrder(queueId: number): Promise<AutoApproveResult> {
+  const entry = await prisma.shopifyImportQueue.findUnique({ where: { id: queueId } });
+  // An admin ignoring an order overrides any rule
+  if (!entry || entry.triageState === "ignored") {
+    return "manual";
+  }
+
+  const store = await prisma.shopifyStore.findUnique({
+    where: { storeDomain: entry.storeDomain },
+    select: { id: true, venueId: true }
+  });
+  const rule = store ? await findAutoApproveRule(store) : null;
+
+  const hold = (holdReason: string | null) =>
+    prisma.shopifyImportQueue.update({ where: { id: queueId }, data: { holdReason } });
+
+  if (!store || !rule?.enabled) {
+    if (entry.holdReason) {
+      await hold(null);
+    }
+    return "manual";
+  }
+
+  const reasons = await checkAutoApproveRule(rule, entry.orderData as unknown as ShopifyOrder, store.venueId);
+  if (reasons.length) {
+    await hold(reasons.join("; "));
+    return "held";
+  }
+
+  const { imported, errors } = await importQueuedShopifyOrders([queueId], store.venueId);
+  if (!imported.length) {
+    await hold(errors[0] ?? "Import failed");
+    return "held";
+  }
+
+  return "imported";
+}
+
+/** Re-run the rules over everything waiting in the queue, e.g. after adding a missing daily rate */
+export async function autoApproveQueue() {
+  const entries = await prisma.shopifyImportQueue.findMany({
+    where: { triageState: { not: "ignored" } },
+    select: { id: true, shopifyOrderId: true },
+    orderBy: { createdAt: "asc" }
+  });
+
+  // Entries whose order was imported another way are cleaned up by the Pending Imports list, never re-imported
+  const existing = new Set(
+    (
+      await prisma.order.findMany({
+        where: { externalId: { in: entries.map((entry) => entry.shopifyOrderId) } },
+        select: { externalId: true }
+      })
+    ).map((order) => order.externalId)
+  );
+
+  const counts: Record<AutoApproveResult, number> = { imported: 0, held: 0, manual: 0 };
+  for (const entry of entries) {
+    if (!existing.has(entry.shopifyOrderId)) {
+      counts[await autoApproveQueuedOrder(entry.id)]++;
+    }
+  }
+
+  return counts;
+}
@@ -0,0 +1,229 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+type CalendarClient = Prisma.TransactionClient | typeof prisma;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * When a venue's business day turns over. A venue open past midnight closes its day at cutoffHour the next
+ * morning in its own timezone, so a 2am sale belongs to the night before with a cutoff of 4 or 6.
+ */
+export type BusinessCalendar = {
+  timezone: string; // IANA, e.g. "Africa/Cairo"
+  cutoffHour: number; // 0-12, local hour the next business day starts at
+};
+
+/** Matches the Venue column defaults */
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = { timezone: "Africa/Cairo", cutoffHour: 6 };
+
+export const MAX_BUSINESS_DAY_CUTOFF_HOUR = 12;
+
+/** "YYYY-MM-DD" → midnight UTC, the form DailyRate.date and DailyDeduction.date are stored in */
+export const toUtcDate = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+/** A business month ("YYYY-MM") with a real month number */
+export const BUSINESS_MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/** Whether a "YYYY-MM-DD" key names a real calendar day; 2026-02-30 and 2026-13-01 don't */
+export const isDateKey = (value: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = toUtcDate(value);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+/** Whether a "DD/MM/YYYY" filter date names a real calendar day */
+export const isFilterDate = (value: string) =>
+  /^\d{2}\/\d{2}\/\d{4}$/.test(value) && isDateKey(value.split("/").reverse().join("-"));
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** The wall-clock time at `value` in `timezone`, as the UTC timestamp with the same fields */
+const wallClockMs = (value: Date, timezone: string) => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit"
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(value).map((part) => [part.type, Number(part.value)]));
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, value.getUTCMilliseconds());
+};
+
+/** The instant a wall-clock time (as wallClockMs returns it) happens in `timezone`; the second pass settles DST */
+const fromWallClock = (wallMs: number, timezone: string) => {
+  let utc = wallMs - (wallClockMs(new Date(wallMs), timezone) - wallMs);
+  utc = wallMs - (wallClockMs(new Date(utc), timezone) - utc);
+  return utc;
+};
+
+/** Business day ("YYYY-MM-DD") a timestamp belongs to in a venue's calendar */
+export const toBusinessDayKey = (value: Date, calendar: BusinessCalendar) =>
+  new Date(wallClockMs(value, calendar.timezone) - calendar.cutoffHour * HOUR_MS).toISOString().slice(0, 10);
+
+/** UTC bounds of a business day ("YYYY-MM-DD"): from its cutoff to the millisecond before the next day's */
+export const getBusinessDayWindow = (dateKey: string, calendar: BusinessCalendar) =>
+  getBusinessRangeWindow(dateKey, dateKey, calendar);
+
+/** UTC bounds of the business days from fromKey to toKey (inclusive) */
+export const getBusinessRangeWindow = (fromKey: string, toKey: string, calendar: BusinessCalendar) => {
+  const cutoffMs = calendar.cutoffHour * HOUR_MS;
+  return {
+    start: new Date(fromWallClock(toUtcDate(fromKey).getTime() + cutoffMs, calendar.timezone)),
+    end: new Date(fromWallClock(toUtcDate(toKey).getTime() + DAY_MS + cutoffMs, calendar.timezone) - 1)
+  };
+};
+
+/** First and last business day of a business month ("YYYY-MM"), and their UTC bounds in a venue's calendar */
+export const getBusinessMonthWindow = (month: string, calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR) => {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const startKey = `${month}-01`;
+  const endKey = new Date(Date.UTC(year, monthNumber, 0)).toISOString().slice(0, 10);
+
+  return { ...getBusinessRangeWindow(startKey, endKey, calendar), startKey, endKey };
+};
+
+/**
+ * Business days ("YYYY-MM-DD" keys) picked by the orders list and export filters: a DD/MM/YYYY start and/or
+ * end date in either order, or else a business month ("YYYY-MM"). Null when neither is set.
+ */
+export const businessDayRangeOf = (filters: { month?: string; startDate?: string; endDate?: string }) => {
+  const toKey = (value?: string) => (value ? value.split("/").reverse().join("-") : undefined);
+  const start = toKey(filters.startDate) ?? toKey(filters.endDate);
+  const end = toKey(filters.endDate) ?? start;
+
+  if (start && end) {
+    return start <= end ? { fromKey: start, toKey: end } : { fromKey: end, toKey: start };
+  }
+  if (filters.month) {
+    const { startKey, endKey } = getBusinessMonthWindow(filters.month);
+    return { fromKey: startKey, toKey: endKey };
+  }
+  return null;
+};
+
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December"
+];
+
+/**
+ * Business month of a business day ("YYYY-MM-DD") or month ("YYYY-MM"). Business days already hold the
+ * after-midnight sales of the night they started, so a business month is the calendar month of its days.
+ */
+export const getBusinessMonth = (key: string) => {
+  const [year, month] = key.split("-").map(Number);
+  return {
+    year,
+    monthIndex: month - 1,
+    key: key.slice(0, 7),
+    label: `${MONTH_NAMES[month - 1]} ${year}`
+  };
+};
+
+/** The business month `count` months after `month` ("YYYY-MM"); negative counts go back */
+export const shiftBusinessMonth = (month: string, count: number) => {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1 + count, 1)).toISOString().slice(0, 7);
+};
+
+/** Business month ("YYYY-MM") a timestamp falls in, in a venue's calendar */
+export const toBusinessMonthKey = (value: Date, calendar: BusinessCalendar) =>
+  toBusinessDayKey(value, calendar).slice(0, 7);
+
+export const BUSINESS_PERIOD_GRANULARITIES = ["day", "week", "month", "quarter"] as const;
+export type BusinessPeriodGranularity = (typeof BUSINESS_PERIOD_GRANULARITIES)[number];
+
+/**
+ * Period a business day ("YYYY-MM-DD") falls in. Weeks start on Monday and are keyed by it;
+ * months and quarters are business ones, e.g. "2026-01" and "2026-Q1".
+ */
+export const getBusinessPeriod = (dateKey: string, granularity: BusinessPeriodGranularity) => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+
+  switch (granularity) {
+    case "day":
+      return { key: dateKey, label: `${MONTH_NAMES[month - 1].slice(0, 3)} ${day}, ${year}` };
+    case "week": {
+      const date = toUtcDate(dateKey);
+      const monday = new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+      return {
+        key: monday.toISOString().slice(0, 10),
+        label: `Week of ${MONTH_NAMES[monday.getUTCMonth()].slice(0, 3)} ${monday.getUTCDate()}, ${monday.getUTCFullYear()}`
+      };
+    }
+    case "month": {
+      const { key, label } = getBusinessMonth(dateKey);
+      return { key, label };
+    }
+    case "quarter": {
+      const quarter = Math.floor((month - 1) / 3) + 1;
+      return { key: `${year}-Q${quarter}`, label: `Q${quarter} ${year}` };
+    }
+  }
+};
+
+export type VenueCalendars = Map<number, BusinessCalendar>;
+
+/** Calendars of the given venues, or of every venue when none are given. Pass the transaction client inside $transaction. */
+export async function loadBusinessCalendars(venueIds?: number[], client: CalendarClient = prisma): Promise<VenueCalendars> {
+  const venues = await client.venue.findMany({
+    where: venueIds ? { id: { in: Array.from(new Set(venueIds)) } } : undefined,
+    select: { id: true, timezone: true, businessDayCutoffHour: true }
+  });
+
+  return new Map(
+    venues.map((venue) => [venue.id, { timezone: venue.timezone, cutoffHour: venue.businessDayCutoffHour }])
+  );
+}
+
+export const calendarOf = (calendars: VenueCalendars, venueId: number) =>
+  calendars.get(venueId) ?? DEFAULT_BUSINESS_CALENDAR;
+
+export async function getBusinessCalendar(venueId: number, client: CalendarClient = prisma) {
+  return calendarOf(await loadBusinessCalendars([venueId], client), venueId);
+}
+
+/**
+ * Today's business day across venues: the earliest of their todays, so a combined view never runs ahead of
+ * a venue still trading on the previous day.
+ */
+export const todayBusinessDayKey = (calendars: VenueCalendars) => {
+  const now = new Date();
+  const keys = Array.from(calendars.values()).map((calendar) => toBusinessDayKey(now, calendar));
+  return keys.length ? keys.sort()[0] : toBusinessDayKey(now, DEFAULT_BUSINESS_CALENDAR);
+};
+
+/** Orders processed on the business days from fromKey to toKey (inclusive), each venue on its own calendar */
+export const businessDaysWhere = (calendars: VenueCalendars, fromKey: string, toKey: string): Prisma.OrderWhereInput => ({
+  OR: Array.from(calendars.entries()).map(([venueId, calendar]) => {
+    const { start, end } = getBusinessRangeWindow(fromKey, toKey, calendar);
+    return { venueId, processedAt: { gte: start, lte: end } };
+  })
+});
+
+/** SQL twin of toBusinessDayKey for an order aliased `o` joined to its venue aliased `v` */
+export const businessDateSql = Prisma.sql`(
+  (o."processedAt" AT TIME ZONE 'UTC') AT TIME ZONE v."timezone" - v."businessDayCutoffHour" * INTERVAL '1 hour'
+)::date`;
@@ -0,0 +1,235 @@
+import type { Product, ShopifyStore } from "@prisma/client";
+import { prisma } from "./prisma";
+import { decrypt } from "./encryption";
+import { fetchShopifyProducts } from "./shopify";
+import { setProductPrice } from "./product-prices";
+
+export type CatalogChangeKind = "new" | "changed" | "removed";
+
+// Product fields the catalog sync keeps in step with Shopify
+const SYNCED_FIELDS = ["name", "sku", "shopifyProductId", "shopifyParentId", "variantTitle", "shopifyStatus", "active"] as const;
+type SyncedField = (typeof SYNCED_FIELDS)[number];
+type SyncedValues = Pick<Product, SyncedField>;
+
+export type CatalogDiffItem = {
+  key: string; // stable across fetches: the Shopify variant, or the local product for removals
+  kind: CatalogChangeKind;
+  productId: number | null;
+  name: string;
+  sku: string | null;
+  shopifyProductId: string | null;
+  shopifyStatus: string | null;
+  shopifyPrice: number | null; // in the shop's currency
+  changes: Partial<Record<SyncedField, { from: unknown; to: unknown }>>;
+  conflict: string | null; // items with a SKU conflict can't be applied until it's resolved
+};
+
+export type CatalogDiff = {
+  items: CatalogDiffItem[];
+  unchanged: number;
+  matchedProductIds: number[];
+};
+
+// Shopify names a line item "Title - Variant" unless the product has only the default variant
+const variantName = (title: string, variantTitle: string) =>
+  variantTitle && variantTitle !== "Default Title" ? `${title} - ${variantTitle}` : title;
+
+const normalizeSku = (sku: string | null | undefined) => (sku && sku.trim() !== "" ? sku.trim() : null);
+
+/**
+ * Compare a store's Shopify catalog (every status) with the venue's products, one product per variant.
+ * - new: an active variant no product matches, by variant ID or else by SKU on a product not linked to Shopify yet
+ * - changed: a matched product whose name, SKU, variant details or status drifted; archived and draft deactivate it
+ * - removed: a product linked to the store whose variant no longer exists in Shopify; it is deactivated
+ * SKU conflicts (a SKU shared by two variants, or held by another product of the venue) are flagged on the item.
+ */
+export async function buildCatalogDiff(
+  store: Pick<ShopifyStore, "id" | "storeDomain" | "accessToken" | "venueId">
+): Promise<CatalogDiff> {
+  const [shopifyProducts, products, storeCount] = await Promise.all([
+    fetchShopifyProducts({ storeDomain: store.storeDomain, accessToken: decrypt(store.accessToken) }),
+    prisma.product.findMany({ where: { venueId: store.venueId } }),
+    prisma.shopifyStore.count({ where: { venueId: store.venueId } })
+  ]);
+
+  const byVariantId = new Map(
+    products.filter((product) => product.shopifyProductId).map((product) => [product.shopifyProductId!, product])
+  );
+  const bySku = new Map(products.filter((product) => product.sku).map((product) => [product.sku!, product]));
+
+  const variants = shopifyProducts.flatMap((shopifyProduct) =>
+    shopifyProduct.variants.map((variant) => ({ shopifyProduct, variant, sku: normalizeSku(variant.sku) }))
+  );
+  const variantsBySku = new Map<string, typeof variants>();
+  for (const entry of variants) {
+    if (entry.sku) {
+      variantsBySku.set(entry.sku, [...(variantsBySku.get(entry.sku) ?? []), entry]);
+    }
+  }
+
+  const items: CatalogDiffItem[] = [];
+  const seenProductIds = new Set<number>();
+  let unchanged = 0;
+
+  for (const { shopifyProduct, variant, sku } of variants) {
+    const variantId = String(variant.id);
+    const skuMatch = sku ? bySku.get(sku) : undefined;
+    const local = byVariantId.get(variantId) ?? (skuMatch && !skuMatch.shopifyProductId ? skuMatch : undefined);
+    if (local) {
+      seenProductIds.add(local.id);
+    }
+
+    const target: SyncedValues = {
+      name: variantName(shopifyProduct.title, variant.title),
+      sku,
+      shopifyProductId: variantId,
+      shopifyParentId: String(shopifyProduct.id),
+      variantTitle: variant.title && variant.title !== "Default Title" ? variant.title : null,
+      shopifyStatus: shopifyProduct.status,
+      active: shopifyProduct.status === "active"
+    };
+
+    if (!local && !target.active) {
+      continue; // archived and draft products aren't worth importing
+    }
+
+    let conflict: string | null = null;
+    const sharing = sku ? variantsBySku.get(sku)!.filter((entry) => entry.variant.id !== variant.id) : [];
+    if (sharing.length) {
+      conflict = `SKU ${sku} is also used in Shopify by ${sharing
+        .map((entry) => variantName(entry.shopifyProduct.title, entry.variant.title))
+        .join(", ")}`;
+    } else if (skuMatch && skuMatch.id !== local?.id) {
+      conflict = `SKU ${sku} belongs to the product "${skuMatch.name}"`;
+    }
+
+    const changes: CatalogDiffItem["changes"] = {};
+    for (const field of SYNCED_FIELDS) {
+      if (!local || local[field] !== target[field]) {
+        changes[field] = { from: local ? local[field] : null, to: target[field] };
+      }
+    }
+    if (!Object.keys(changes).length) {
+      unchanged++;
+      continue;
+    }
+
+    items.push({
+      key: `variant:${variantId}`,
+      kind: local ? "changed" : "new",
+      productId: local?.id ?? null,
+      name: target.name,
+      sku,
+      shopifyProductId: variantId,
+      shopifyStatus: shopifyProduct.status,
+      shopifyPrice: parseFloat(variant.price),
+      changes,
+      conflict
+    });
+  }
+
+  // Products synced before stores were recorded belong to the venue's store, if it has only one
+  for (const product of products) {
+    const linked =
+      product.shopifyProductId &&
+      (product.shopifyStoreId === store.id || (product.shopifyStoreId === null && storeCount === 1));
+    if (!linked || seenProductIds.has(product.id) || product.shopifyStatus === "deleted") {
+      continue;
+    }
+
+    const changes: CatalogDiffItem["changes"] = { shopifyStatus: { from: product.shopifyStatus, to: "deleted" } };
+    if (product.active) {
+      changes.active = { from: true, to: false };
+    }
+    items.push({
+      key: `product:${product.id}`,
+      kind: "removed",
+      productId: product.id,
+      name: product.name,
+      sku: product.sku,
+      shopifyProductId: product.shopifyProductId,
+      shopifyStatus: "deleted",
+      shopifyPrice: null,
+      changes,
+      conflict: null
+    });
+  }
+
+  return { items, unchanged, matchedProductIds: [...seenProductIds] };
+}
+
+/**
+ * Apply the chosen items of a freshly built diff. New products need an EGP price, keyed like the item;
+ * conflicting items are skipped. Matched products are tied to the store so later removals are detected.
+ */
+export async function applyCatalogDiff(
+  store: Pick<ShopifyStore, "id" | "storeDomain" | "accessToken" | "venueId">,
+  keys: string[],
+  egpPrices: Record<string, number>
+) {
+  const { items, matchedProductIds } = await buildCatalogDiff(store);
+  const selected = new Set(keys);
+
+  let created = 0;
+  let updated = 0;
+  let skipped = 0;
+  const errors: string[] = [];
+
+  for (const item of items) {
+    if (!selected.has(item.key)) {
+      continue;
+    }
+
+    if (item.conflict) {
+      errors.push(`${item.name}: ${item.conflict}`);
+      skipped += 1;
+      continue;
+    }
+
+    const values = Object.fromEntries(
+      Object.entries(item.changes).map(([field, change]) => [field, change.to])
+    ) as Partial<SyncedValues>;
+
+    try {
+      if (item.kind === "new") {
+        const egpPrice = egpPrices[item.key];
+        if (egpPrice === undefined) {
+          errors.push(`${item.name}: no EGP price set`);
+          skipped += 1;
+          continue;
+        }
+
+        await prisma.$transaction(async (tx) => {
+          const product = await tx.product.create({
+            data: {
+              ...(values as SyncedValues),
+              shopifyStoreId: store.id,
+              egpPrice,
+              venueId: store.venueId
+            }
+          });
+          await setProductPrice(product.id, egpPrice, product.createdAt, tx);
+        });
+        created += 1;
+      } else {
+        await prisma.product.update({
+          where: { id: item.productId! },
+          data: { ...values, shopifyStoreId: store.id }
+        });
+        updated += 1;
+      }
+    } catch (error: any) {
+      console.error(`Failed to sync product ${item.name}:`, error);
+      errors.push(`${item.name}: ${error.message}`);
+      skipped += 1;
+    }
+  }
+
+  await prisma.product.updateMany({
+    where: { id: { in: matchedProductIds }, shopifyStoreId: null },
+    data: { shopifyStoreId: store.id }
+  });
+  await prisma.shopifyStore.update({ where: { id: store.id }, data: { catalogSyncedAt: new Date() } });
+
+  return { created, updated, skipped, errors };
+}
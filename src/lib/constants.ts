@@ -7,10 +7,8 @@ export const CLIENT_COMMISSION_RATE = 0.0175;
 /** AED/USD fixed peg rate (Central Bank of the UAE) */
 export const AED_USD_PEG = 3.6725;
 
-/**
- * Business month start day.
- * The club operates past midnight, so orders placed after 00:00 on day N+1
- * belong to day N's session. This shifts the month filter window by 1 day:
- *   "January 2026" = Jan 2 00:00 → Feb 1 23:59 in Shopify timestamps.
- */
-export const BUSINESS_MONTH_START_DAY = 2;
+/** Days a deleted order stays in the trash before the purge job removes it for good */
+export const ORDER_TRASH_RETENTION_DAYS = 30;
+
+/** Scheduled Shopify sync intervals offered per store, in minutes */
+export const SHOPIFY_SYNC_INTERVALS = [15, 30, 60, 180, 360, 1440] as const;
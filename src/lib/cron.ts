@@ -0,0 +1,12 @@
+/**
+ * Scheduled jobs are called by Vercel Cron, which sends `Authorization: Bearer $CRON_SECRET`.
+ * Without a configured secret every cron request is rejected.
+ */
+export const isAuthorizedCronRequest = (request: Request) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  return request.headers.get("authorization") === `Bearer ${secret}`;
+};
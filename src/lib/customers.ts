@@ -0,0 +1,222 @@
+import { prisma } from "./prisma";
+import { formatShopifyCustomerName, type ShopifyCustomer } from "./shopify";
+import type { CustomerDto, CustomerOrderDto } from "@/types/customers";
+
+export const NO_CUSTOMER = "No Customer";
+
+/** Case/whitespace-insensitive key used to group spellings of the same name */
+export const normalizeCustomerName = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+const isPlaceholderName = (name: string) => {
+  const key = normalizeCustomerName(name);
+  return !key || key === normalizeCustomerName(NO_CUSTOMER);
+};
+
+/** Merged names: normalized alias → canonical display name */
+export async function getCustomerAliasMap(): Promise<Map<string, string>> {
+  const aliases = await prisma.customerAlias.findMany({
+    select: { alias: true, canonicalName: true }
+  });
+
+  return new Map(aliases.map((entry) => [entry.alias, entry.canonicalName]));
+}
+
+export const resolveCustomerKey = (name: string, aliases: Map<string, string>) =>
+  normalizeCustomerName(aliases.get(normalizeCustomerName(name)) ?? name);
+
+type CustomerAccumulator = CustomerDto & {
+  spellings: Map<string, number>;
+  venues: Map<number, { id: number; name: string; orderCount: number }>;
+};
+
+/**
+ * Aggregate every order into one profile per customer.
+ * Shopify customer details (email, phone, id) come from the pending import queue.
+ */
+export async function buildCustomerDirectory(): Promise<CustomerDto[]> {
+  const [aliases, orders, queue] = await Promise.all([
+    getCustomerAliasMap(),
+    prisma.order.findMany({
+      where: { deletedAt: null },
+      select: {
+        externalId: true,
+        customerName: true,
+        totalAmount: true,
+        originalAmount: true,
+        processedAt: true,
+        venue: { select: { id: true, name: true } }
+      }
+    }),
+    prisma.shopifyImportQueue.findMany({
+      select: { shopifyOrderId: true, orderData: true },
+      orderBy: { createdAt: "asc" }
+    })
+  ]);
+
+  const canonicalNames = new Map(
+    Array.from(aliases.values()).map((name) => [normalizeCustomerName(name), name])
+  );
+  const customers = new Map<string, CustomerAccumulator>();
+
+  for (const order of orders) {
+    if (isPlaceholderName(order.customerName)) {
+      continue;
+    }
+
+    const key = resolveCustomerKey(order.customerName, aliases);
+    let customer = customers.get(key);
+    if (!customer) {
+      customer = {
+        key,
+        name: order.customerName,
+        mergedNames: [],
+        orderCount: 0,
+        lifetimeEGP: 0,
+        lifetimeUSD: 0,
+        firstVisit: null,
+        lastVisit: null,
+        favouriteVenue: null,
+        email: null,
+        phone: null,
+        shopifyCustomerId: null,
+        pendingOrders: 0,
+        spellings: new Map(),
+        venues: new Map()
+      };
+      customers.set(key, customer);
+    }
+
+    const spelling = order.customerName.trim();
+    customer.spellings.set(spelling, (customer.spellings.get(spelling) ?? 0) + 1);
+    customer.orderCount += 1;
+    customer.lifetimeUSD += order.totalAmount;
+    customer.lifetimeEGP += order.originalAmount ?? 0;
+
+    const processedAt = order.processedAt.toISOString();
+    if (!customer.firstVisit || processedAt < customer.firstVisit) customer.firstVisit = processedAt;
+    if (!customer.lastVisit || processedAt > customer.lastVisit) customer.lastVisit = processedAt;
+
+    const venue = customer.venues.get(order.venue.id) ?? { ...order.venue, orderCount: 0 };
+    venue.orderCount += 1;
+    customer.venues.set(order.venue.id, venue);
+  }
+
+  // Enrich with Shopify customer details; later queue entries win
+  const importedIds = new Set(orders.map((order) => order.externalId).filter(Boolean));
+  for (const entry of queue) {
+    const shopifyCustomer = (entry.orderData as { customer?: ShopifyCustomer | null } | null)?.customer;
+    const name = formatShopifyCustomerName(shopifyCustomer);
+    if (!shopifyCustomer || isPlaceholderName(name)) {
+      continue;
+    }
+
+    const customer = customers.get(resolveCustomerKey(name, aliases));
+    if (!customer) {
+      continue;
+    }
+
+    customer.email = shopifyCustomer.email || customer.email;
+    customer.phone = shopifyCustomer.phone || customer.phone;
+    customer.shopifyCustomerId = shopifyCustomer.id ? String(shopifyCustomer.id) : customer.shopifyCustomerId;
+    if (!importedIds.has(entry.shopifyOrderId)) {
+      customer.pendingOrders += 1;
+    }
+  }
+
+  return Array.from(customers.values())
+    .map(({ spellings, venues, ...customer }) => {
+      const ranked = Array.from(spellings.entries()).sort((a, b) => b[1] - a[1]);
+      const name = canonicalNames.get(customer.key) ?? ranked[0][0];
+      const favouriteVenue = Array.from(venues.values()).sort((a, b) => b.orderCount - a.orderCount)[0] ?? null;
+
+      return {
+        ...customer,
+        name,
+        mergedNames: ranked
+          .map(([spelling]) => spelling)
+          .filter((spelling) => normalizeCustomerName(spelling) !== customer.key),
+        favouriteVenue
+      };
+    })
+    .sort((a, b) => (b.lastVisit ?? "").localeCompare(a.lastVisit ?? ""));
+}
+
+/** Every order placed under any spelling that resolves to the customer key */
+export async function getCustomerOrders(key: string): Promise<CustomerOrderDto[]> {
+  const [aliases, names] = await Promise.all([
+    getCustomerAliasMap(),
+    prisma.order.groupBy({ by: ["customerName"], where: { deletedAt: null } })
+  ]);
+
+  const matching = names
+    .map((entry) => entry.customerName)
+    .filter((name) => !isPlaceholderName(name) && resolveCustomerKey(name, aliases) === key);
+
+  if (!matching.length) {
+    return [];
+  }
+
+  const orders = await prisma.order.findMany({
+    where: { customerName: { in: matching }, deletedAt: null },
+    include: { venue: { select: { id: true, name: true } } },
+    orderBy: { processedAt: "desc" }
+  });
+
+  return orders.map((order) => ({
+    id: order.id,
+    orderNumber: order.orderNumber,
+    customerName: order.customerName,
+    processedAt: order.processedAt.toISOString(),
+    totalAmount: order.totalAmount,
+    originalAmount: order.originalAmount,
+    currency: order.currency,
+    financialStatus: order.financialStatus,
+    venue: order.venue
+  }));
+}
+
+/**
+ * Fold several customer names into one canonical name.
+ * Orders keep their original customerName; the alias table does the grouping, so merges can be undone.
+ */
+export async function mergeCustomers(names: string[], canonicalName: string) {
+  const target = canonicalName.trim();
+  const targetKey = normalizeCustomerName(target);
+  const sourceKeys = Array.from(new Set(names.map(normalizeCustomerName))).filter(
+    (key) => key && key !== targetKey
+  );
+
+  const existing = await prisma.customerAlias.findMany({
+    select: { id: true, canonicalName: true }
+  });
+  // Aliases that pointed at a merged-away name now point at the new target
+  const repointIds = existing
+    .filter((entry) => sourceKeys.includes(normalizeCustomerName(entry.canonicalName)))
+    .map((entry) => entry.id);
+
+  await prisma.$transaction([
+    prisma.customerAlias.deleteMany({ where: { alias: targetKey } }),
+    prisma.customerAlias.updateMany({
+      where: { id: { in: repointIds } },
+      data: { canonicalName: target }
+    }),
+    ...sourceKeys.map((alias) =>
+      prisma.customerAlias.upsert({
+        where: { alias },
+        update: { canonicalName: target },
+        create: { alias, canonicalName: target }
+      })
+    )
+  ]);
+
+  return sourceKeys.length;
+}
+
+/** Split a previously merged spelling back into its own profile */
+export async function unmergeCustomerName(name: string) {
+  const { count } = await prisma.customerAlias.deleteMany({
+    where: { alias: normalizeCustomerName(name) }
+  });
+
+  return count > 0;
+}
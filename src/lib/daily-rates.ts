@@ -0,0 +1,52 @@
+import { prisma } from "./prisma";
+import { toUtcDate } from "./business-calendar";
+
+/**
+ * Look up the AED/EGP rate recorded for a venue on a business day.
+ * Returns null when the ledger has no entry for that day.
+ */
+export async function getDailyRate(venueId: number, dateKey: string): Promise<number | null> {
+  const entry = await prisma.dailyRate.findUnique({
+    where: {
+      venueId_date: {
+        venueId,
+        date: toUtcDate(dateKey)
+      }
+    },
+    select: { aedEgpRate: true }
+  });
+
+  return entry?.aedEgpRate ?? null;
+}
+
+/**
+ * Load every ledger rate for the given venues between two business days (inclusive).
+ * Keys are `${venueId}:${YYYY-MM-DD}`.
+ */
+export async function getDailyRateMap(
+  venueIds: number[],
+  fromKey: string,
+  toKey: string
+): Promise<Map<string, number>> {
+  if (!venueIds.length) {
+    return new Map();
+  }
+
+  const entries = await prisma.dailyRate.findMany({
+    where: {
+      venueId: { in: venueIds },
+      date: {
+        gte: toUtcDate(fromKey),
+        lte: toUtcDate(toKey)
+      }
+    },
+    select: { venueId: true, date: true, aedEgpRate: true }
+  });
+
+  return new Map(
+    entries.map((entry) => [
+      `${entry.venueId}:${entry.date.toISOString().slice(0, 10)}`,
+      entry.aedEgpRate
+    ])
+  );
+}
@@ -0,0 +1,143 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { AED_USD_PEG } from "./constants";
+import { commissionRateSql } from "./fee-schedules";
+import { businessDateSql, toUtcDate } from "./business-calendar";
+
+type StatsClient = Prisma.TransactionClient | typeof prisma;
+
+/** One business day ("YYYY-MM-DD") of a venue's rollup */
+export type VenueBusinessDay = { venueId: number; date: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SQL twin of resolveAedEgpRate, and of the payouts worked out from it at the venue's fee terms; keep them in step
+const aedRateSql = Prisma.sql`CASE
+  WHEN o."rateType" = 'USD_EGP' THEN o."exchangeRate" / ${AED_USD_PEG}::double precision
+  ELSE o."aedEgpRate"
+END`;
+const aedPayoutSql = Prisma.sql`CASE
+  WHEN o."originalAmount" > 0 AND ${aedRateSql} > 0
+  THEN o."originalAmount" * (1 - ${commissionRateSql}) / ${aedRateSql}
+  ELSE 0
+END`;
+const payoutSql = Prisma.sql`(${aedPayoutSql}) / ${AED_USD_PEG}::double precision`;
+
+// Every day of the venues, or only the given days when there are any
+async function rebuildWithin(tx: Prisma.TransactionClient, venueIds: number[], days?: VenueBusinessDay[]) {
+  const venues = Prisma.join(venueIds);
+  let statsFilter = Prisma.empty;
+  let orderFilter = Prisma.empty;
+  let deductionFilter = Prisma.empty;
+
+  if (days) {
+    const pairs = Prisma.join(days.map((day) => Prisma.sql`(${day.venueId}::int, ${toUtcDate(day.date)}::date)`));
+    const keys = days.map((day) => day.date).sort();
+    // Whatever the calendar, a business day lies within a day before and two days after its date at UTC midnight
+    const from = new Date(toUtcDate(keys[0]).getTime() - DAY_MS);
+    const to = new Date(toUtcDate(keys[keys.length - 1]).getTime() + 2 * DAY_MS);
+
+    statsFilter = Prisma.sql`AND ("venueId", "date") IN (${pairs})`;
+    orderFilter = Prisma.sql`AND o."processedAt" BETWEEN ${from} AND ${to} AND (o."venueId", ${businessDateSql}) IN (${pairs})`;
+    deductionFilter = Prisma.sql`AND (d."venueId", d."date") IN (${pairs})`;
+  }
+
+  await tx.$executeRaw`DELETE FROM "DailyVenueStats" WHERE "venueId" IN (${venues}) ${statsFilter}`;
+
+  // Orders land on their business day in the venue's calendar; deductions are stored against one
+  await tx.$executeRaw`
+    INSERT INTO "DailyVenueStats"
+      ("venueId", "date", "ordersCount", "revenue", "payout", "egpTotal", "aedPayout", "deductions", "updatedAt")
+    SELECT "venueId", "date", SUM("ordersCount")::int, SUM("revenue"), SUM("payout"),
+      SUM("egpTotal"), SUM("aedPayout"), SUM("deductions"), NOW()
+    FROM (
+      SELECT
+        o."venueId",
+        ${businessDateSql} AS "date",
+        1 AS "ordersCount",
+        o."totalAmount" AS "revenue",
+        ${payoutSql} AS "payout",
+        CASE WHEN o."originalAmount" > 0 THEN o."originalAmount" ELSE 0 END AS "egpTotal",
+        ${aedPayoutSql} AS "aedPayout",
+        0::double precision AS "deductions"
+      FROM "Order" o
+      JOIN "Venue" v ON v."id" = o."venueId"
+      WHERE o."venueId" IN (${venues}) AND o."deletedAt" IS NULL ${orderFilter}
+      UNION ALL
+      SELECT d."venueId", d."date", 0, 0, 0, 0, 0, d."amount"
+      FROM "DailyDeduction" d
+      WHERE d."venueId" IN (${venues}) ${deductionFilter}
+    ) AS "rows"
+    GROUP BY "venueId", "date"
+    ON CONFLICT ("venueId", "date") DO UPDATE SET
+      "ordersCount" = EXCLUDED."ordersCount",
+      "revenue" = EXCLUDED."revenue",
+      "payout" = EXCLUDED."payout",
+      "egpTotal" = EXCLUDED."egpTotal",
+      "aedPayout" = EXCLUDED."aedPayout",
+      "deductions" = EXCLUDED."deductions",
+      "updatedAt" = EXCLUDED."updatedAt"`;
+}
+
+async function rebuild(client: StatsClient, venueIds: number[], days?: VenueBusinessDay[]) {
+  if ("$transaction" in client) {
+    return client.$transaction((tx) => rebuildWithin(tx, venueIds, days));
+  }
+
+  return rebuildWithin(client, venueIds, days);
+}
+
+/**
+ * Rebuild the analytics rollup of the given venues, e.g. after their orders or calendar changed.
+ * Pass the transaction client inside $transaction.
+ */
+export async function refreshDailyVenueStats(venueIds: number[], client: StatsClient = prisma) {
+  const ids = Array.from(new Set(venueIds));
+  if (!ids.length) {
+    return;
+  }
+
+  await rebuild(client, ids);
+}
+
+/**
+ * Rebuild only the given business days of the rollup, e.g. the days an edited order left and landed on.
+ * Pass the transaction client inside $transaction.
+ */
+export async function refreshDailyVenueStatsDays(days: VenueBusinessDay[], client: StatsClient = prisma) {
+  const unique = Array.from(new Map(days.map((day) => [`${day.venueId}:${day.date}`, day])).values());
+  if (!unique.length) {
+    return;
+  }
+
+  await rebuild(client, Array.from(new Set(unique.map((day) => day.venueId))), unique);
+}
+
+/**
+ * Per-venue, per-business-day rollup rows for the given venues, with days drawn in each venue's calendar,
+ * optionally between two business days (inclusive). Venues without rows are rolled up first.
+ */
+export async function loadDailyVenueStats(venueIds: number[], range?: { from: string; to: string }) {
+  if (!venueIds.length) {
+    return [];
+  }
+
+  const built = await prisma.dailyVenueStats.findMany({
+    where: { venueId: { in: venueIds } },
+    distinct: ["venueId"],
+    select: { venueId: true }
+  });
+  const builtIds = new Set(built.map((row) => row.venueId));
+  const missing = venueIds.filter((id) => !builtIds.has(id));
+  if (missing.length) {
+    await rebuild(prisma, missing);
+  }
+
+  return prisma.dailyVenueStats.findMany({
+    where: {
+      venueId: { in: venueIds },
+      ...(range ? { date: { gte: toUtcDate(range.from), lte: toUtcDate(range.to) } } : {})
+    },
+    orderBy: { date: "asc" }
+  });
+}
@@ -0,0 +1,60 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { DEFAULT_FEE_TERMS, feeTermsAt, type FeeTerms } from "./fee-terms";
+
+type FeeClient = Prisma.TransactionClient | typeof prisma;
+
+export type FeeTermsLookup = (venueId: number, at: Date) => FeeTerms;
+
+/**
+ * Load the fee schedules of the given venues once and resolve the terms in force for any of their orders.
+ * Pass the transaction client inside $transaction.
+ */
+export async function loadFeeTerms(venueIds: number[], client: FeeClient = prisma): Promise<FeeTermsLookup> {
+  const ids = Array.from(new Set(venueIds));
+  const schedules = ids.length
+    ? await client.feeSchedule.findMany({
+        where: { venueId: { in: ids } },
+        select: { venueId: true, effectiveFrom: true, platformFeeMultiplier: true, commissionRate: true }
+      })
+    : [];
+
+  const byVenue = new Map<number, typeof schedules>();
+  for (const schedule of schedules) {
+    byVenue.set(schedule.venueId, [...(byVenue.get(schedule.venueId) ?? []), schedule]);
+  }
+
+  return (venueId, at) => {
+    const venueSchedules = byVenue.get(venueId);
+    return venueSchedules ? feeTermsAt(venueSchedules, at) : DEFAULT_FEE_TERMS;
+  };
+}
+
+/** The terms in force for one venue at `at` */
+export async function getFeeTerms(venueId: number, at: Date, client: FeeClient = prisma): Promise<FeeTerms> {
+  return (await loadFeeTerms([venueId], client))(venueId, at);
+}
+
+/**
+ * Orders whose payout follows a schedule change at `from`: the venue's orders processed since, trashed ones included
+ * so their rollup stays put. Sync them through the ledger after the change.
+ */
+export async function ordersAffectedByFeeSchedule(venueId: number, from: Date, client: FeeClient = prisma) {
+  const orders = await client.order.findMany({
+    where: { venueId, processedAt: { gte: from } },
+    select: { id: true }
+  });
+
+  return orders.map((order) => order.id);
+}
+
+/** SQL twin of feeTermsAt for an order aliased `o`: the commission of its venue's schedule at processedAt */
+export const commissionRateSql = Prisma.sql`COALESCE(
+  (
+    SELECT f."commissionRate" FROM "FeeSchedule" f
+    WHERE f."venueId" = o."venueId" AND f."effectiveFrom" <= o."processedAt"
+    ORDER BY f."effectiveFrom" DESC
+    LIMIT 1
+  ),
+  ${DEFAULT_FEE_TERMS.commissionRate}::double precision
+)`;
@@ -0,0 +1,32 @@
+import { CLIENT_COMMISSION_RATE, PLATFORM_FEE_MULTIPLIER } from "./constants";
+
+/** The fee and commission an order is priced and paid out with */
+export type FeeTerms = {
+  platformFeeMultiplier: number;
+  commissionRate: number;
+};
+
+/** Terms for venues, and periods, without a fee schedule */
+export const DEFAULT_FEE_TERMS: FeeTerms = {
+  platformFeeMultiplier: PLATFORM_FEE_MULTIPLIER,
+  commissionRate: CLIENT_COMMISSION_RATE
+};
+
+/** The terms of the latest schedule that took effect at or before `at`; the defaults before the first one */
+export function feeTermsAt(
+  schedules: Array<FeeTerms & { effectiveFrom: Date | string }>,
+  at: Date | string
+): FeeTerms {
+  const time = new Date(at).getTime();
+  let current: (FeeTerms & { effectiveFrom: Date | string }) | null = null;
+  for (const schedule of schedules) {
+    const from = new Date(schedule.effectiveFrom).getTime();
+    if (from <= time && (!current || from > new Date(current.effectiveFrom).getTime())) {
+      current = schedule;
+    }
+  }
+
+  return current
+    ? { platformFeeMultiplier: current.platformFeeMultiplier, commissionRate: current.commissionRate }
+    : DEFAULT_FEE_TERMS;
+}
@@ -0,0 +1,246 @@
+import { prisma } from "./prisma";
+import {
+  getBusinessMonth,
+  getBusinessMonthWindow,
+  loadBusinessCalendars,
+  shiftBusinessMonth,
+  todayBusinessDayKey,
+  toUtcDate
+} from "./business-calendar";
+import { loadDailyVenueStats } from "./daily-venue-stats";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Weeks of history the day-of-week model is fitted on */
+export const FORECAST_LOOKBACK_WEEKS = 12;
+
+/** Half-width of the expected range, in standard deviations */
+const EXPECTED_RANGE_SIGMAS = 2;
+
+/** Days back from today whose actuals are checked against the expected range */
+const OUTLIER_WINDOW_DAYS = 28;
+
+const METRICS = ["orders", "egpTotal", "revenue", "aedPayout"] as const;
+export type ForecastMetric = (typeof METRICS)[number];
+type Metrics = Record<ForecastMetric, number>;
+// AED payout is an admin figure and is left out of everyone else's forecast
+export type ForecastMetrics = Omit<Metrics, "aedPayout"> & { aedPayout?: number };
+
+export type ForecastDay = {
+  date: string;
+  actual: ForecastMetrics | null; // null for days still to come
+  expected: ForecastMetrics;
+  low: ForecastMetrics;
+  high: ForecastMetrics;
+  outside: ForecastMetric[]; // metrics whose actual landed outside [low, high]
+};
+
+export type ForecastMonth = {
+  month: string;
+  label: string;
+  actual: ForecastMetrics; // to date
+  projected: ForecastMetrics; // actual to date plus the expected rest of the month
+  low: ForecastMetrics;
+  high: ForecastMetrics;
+};
+
+export type VenueForecast = {
+  venueId: number;
+  venueName: string;
+  months: ForecastMonth[]; // the current business month, then the next
+  days: ForecastDay[]; // every day of both months
+  outliers: Array<{ date: string; metrics: ForecastMetric[]; actual: ForecastMetrics; low: ForecastMetrics; high: ForecastMetrics }>;
+};
+
+export type Forecast = {
+  today: string;
+  lookbackFrom: string;
+  venues: VenueForecast[];
+  total: Omit<VenueForecast, "venueId" | "venueName">;
+};
+
+type DayModel = { mean: Metrics; variance: Metrics };
+
+const zeroMetrics = (): Metrics => ({ orders: 0, egpTotal: 0, revenue: 0, aedPayout: 0 });
+
+const mapMetrics = (fn: (metric: ForecastMetric) => number): Metrics =>
+  Object.fromEntries(METRICS.map((metric) => [metric, fn(metric)])) as Metrics;
+
+const omitAed = ({ aedPayout: _aedPayout, ...metrics }: ForecastMetrics): ForecastMetrics => metrics;
+
+function omitAedFromSeries(series: Omit<VenueForecast, "venueId" | "venueName">) {
+  return {
+    months: series.months.map((month) => ({
+      ...month,
+      actual: omitAed(month.actual),
+      projected: omitAed(month.projected),
+      low: omitAed(month.low),
+      high: omitAed(month.high)
+    })),
+    days: series.days.map((day) => ({
+      ...day,
+      actual: day.actual && omitAed(day.actual),
+      expected: omitAed(day.expected),
+      low: omitAed(day.low),
+      high: omitAed(day.high)
+    })),
+    outliers: series.outliers.map((outlier) => ({
+      ...outlier,
+      actual: omitAed(outlier.actual),
+      low: omitAed(outlier.low),
+      high: omitAed(outlier.high)
+    }))
+  };
+}
+
+const addDays = (dateKey: string, days: number) =>
+  new Date(toUtcDate(dateKey).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+const daysBetween = (from: string, to: string) => {
+  const keys: string[] = [];
+  for (let key = from; key <= to; key = addDays(key, 1)) keys.push(key);
+  return keys;
+};
+
+const dayOfWeek = (dateKey: string) => toUtcDate(dateKey).getUTCDay();
+
+// Mean and variance per weekday over the lookback; days without orders count as zero
+function fitDayOfWeekModel(history: Map<string, Metrics>, lookback: string[]): DayModel[] {
+  return Array.from({ length: 7 }, (_, weekday) => {
+    const samples = lookback.filter((key) => dayOfWeek(key) === weekday).map((key) => history.get(key) ?? zeroMetrics());
+    const mean = mapMetrics((metric) =>
+      samples.length ? samples.reduce((sum, sample) => sum + sample[metric], 0) / samples.length : 0
+    );
+    const variance = mapMetrics((metric) =>
+      samples.length > 1
+        ? samples.reduce((sum, sample) => sum + (sample[metric] - mean[metric]) ** 2, 0) / (samples.length - 1)
+        : 0
+    );
+    return { mean, variance };
+  });
+}
+
+function forecastSeries(
+  history: Map<string, Metrics>,
+  models: DayModel[],
+  today: string,
+  monthKeys: string[],
+  checkedMetrics: readonly ForecastMetric[]
+): Omit<VenueForecast, "venueId" | "venueName"> {
+  const band = (model: DayModel) => ({
+    low: mapMetrics((metric) => Math.max(model.mean[metric] - EXPECTED_RANGE_SIGMAS * Math.sqrt(model.variance[metric]), 0)),
+    high: mapMetrics((metric) => model.mean[metric] + EXPECTED_RANGE_SIGMAS * Math.sqrt(model.variance[metric]))
+  });
+
+  const describeDay = (date: string) => {
+    const model = models[dayOfWeek(date)];
+    const actual = date <= today ? history.get(date) ?? zeroMetrics() : null;
+    const { low, high } = band(model);
+    // Today is still under way, so it can only land above the range
+    const outside = actual
+      ? checkedMetrics.filter((metric) => actual[metric] > high[metric] || (date < today && actual[metric] < low[metric]))
+      : [];
+    return { date, actual, expected: model.mean, low, high, outside };
+  };
+
+  const days: Array<ReturnType<typeof describeDay>> = [];
+  const months = monthKeys.map((month): ForecastMonth => {
+    const { startKey, endKey } = getBusinessMonthWindow(month);
+    const monthDays = daysBetween(startKey, endKey).map(describeDay);
+    days.push(...monthDays);
+
+    const actual = zeroMetrics();
+    const projected = zeroMetrics();
+    const variance = zeroMetrics();
+    for (const day of monthDays) {
+      const model = models[dayOfWeek(day.date)];
+      for (const metric of METRICS) {
+        if (day.actual) {
+          actual[metric] += day.actual[metric];
+        }
+        // Today's remainder is left out: a day under way is taken as it stands
+        if (day.date > today) {
+          projected[metric] += model.mean[metric];
+          variance[metric] += model.variance[metric];
+        }
+      }
+    }
+
+    return {
+      month,
+      label: getBusinessMonth(month).label,
+      actual,
+      projected: mapMetrics((metric) => actual[metric] + projected[metric]),
+      low: mapMetrics((metric) =>
+        Math.max(actual[metric] + projected[metric] - EXPECTED_RANGE_SIGMAS * Math.sqrt(variance[metric]), actual[metric])
+      ),
+      high: mapMetrics(
+        (metric) => actual[metric] + projected[metric] + EXPECTED_RANGE_SIGMAS * Math.sqrt(variance[metric])
+      )
+    };
+  });
+
+  const outlierFrom = addDays(today, -OUTLIER_WINDOW_DAYS);
+  const checked = daysBetween(outlierFrom, today).map(describeDay);
+  const outliers = checked
+    .filter((day) => day.outside.length)
+    .reverse()
+    .map((day) => ({ date: day.date, metrics: day.outside, actual: day.actual!, low: day.low, high: day.high }));
+
+  return { months, days, outliers };
+}
+
+/**
+ * Project orders, EGP volume, USD revenue and net AED payout for the current and next business month, per venue and
+ * combined. Each weekday's mean and spread over the last FORECAST_LOOKBACK_WEEKS full weeks is applied to the days
+ * still to come; the expected range is ±2 standard deviations, summed over days as if they were independent.
+ * Days of the last four weeks whose actuals land outside their range are flagged. AED payout is only checked and
+ * returned when includeAed.
+ * Deductions are not forecast.
+ */
+export async function buildForecast(venueIds: number[], includeAed = true): Promise<Forecast> {
+  const checkedMetrics = includeAed ? METRICS : METRICS.filter((metric) => metric !== "aedPayout");
+  const today = todayBusinessDayKey(await loadBusinessCalendars(venueIds));
+  const lookbackFrom = addDays(today, -FORECAST_LOOKBACK_WEEKS * 7);
+  const lookback = daysBetween(lookbackFrom, addDays(today, -1));
+
+  const current = getBusinessMonth(today).key;
+  const monthKeys = [current, shiftBusinessMonth(current, 1)];
+
+  const [venues, stats] = await Promise.all([
+    prisma.venue.findMany({ where: { id: { in: venueIds } }, select: { id: true, name: true }, orderBy: { name: "asc" } }),
+    loadDailyVenueStats(venueIds, { from: lookbackFrom, to: today })
+  ]);
+
+  const histories = new Map<number, Map<string, Metrics>>(venues.map((venue) => [venue.id, new Map()]));
+  const combined = new Map<string, Metrics>();
+  for (const row of stats) {
+    const dateKey = row.date.toISOString().slice(0, 10);
+    const metrics: Metrics = {
+      orders: row.ordersCount,
+      egpTotal: row.egpTotal,
+      revenue: row.revenue,
+      aedPayout: row.aedPayout
+    };
+    histories.get(row.venueId)?.set(dateKey, metrics);
+    const total = combined.get(dateKey) ?? zeroMetrics();
+    combined.set(dateKey, mapMetrics((metric) => total[metric] + metrics[metric]));
+  }
+
+  const seriesOf = (history: Map<string, Metrics>) => {
+    const series = forecastSeries(history, fitDayOfWeekModel(history, lookback), today, monthKeys, checkedMetrics);
+    return includeAed ? series : omitAedFromSeries(series);
+  };
+  const venueForecasts = venues.map((venue) => ({
+    venueId: venue.id,
+    venueName: venue.name,
+    ...seriesOf(histories.get(venue.id)!)
+  }));
+
+  return {
+    today,
+    lookbackFrom,
+    venues: venueForecasts,
+    total: seriesOf(combined)
+  };
+}
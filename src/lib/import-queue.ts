@@ -0,0 +1,152 @@
+import type { Prisma, ShopifyImportQueue } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getDailyRateMap } from "./daily-rates";
+import { calendarOf, loadBusinessCalendars, toBusinessDayKey, type VenueCalendars } from "./business-calendar";
+import { matchLineItemsToProducts } from "./product-pricing";
+import type { ShopifyOrder } from "./shopify";
+
+export const QUEUE_ISSUES = [
+  "unknown_store",
+  "unmatched_products",
+  "missing_daily_rate",
+  "currency_mismatch",
+  "duplicate_order"
+] as const;
+export type QueueIssue = (typeof QUEUE_ISSUES)[number];
+
+/** new and needs_attention follow from the issues; snoozed and ignored are set by an admin */
+export const QUEUE_TRIAGE_STATES = ["new", "needs_attention", "snoozed", "ignored"] as const;
+export type QueueTriageState = (typeof QUEUE_TRIAGE_STATES)[number];
+
+// Shopify totals are treated as USD when pricing falls back to the AED peg
+const EXPECTED_CURRENCY = "USD";
+
+type Classification = {
+  issues: QueueIssue[];
+  issueDetails: Partial<Record<QueueIssue, string>>;
+};
+
+/** Business day a queued order was processed on, in its store venue's calendar (the default for unknown stores) */
+export const queuedBusinessDayKey = (entry: ShopifyImportQueue, venueId: number | undefined, calendars: VenueCalendars) =>
+  toBusinessDayKey(
+    new Date((entry.orderData as unknown as ShopifyOrder)?.processed_at ?? entry.createdAt),
+    calendarOf(calendars, venueId ?? 0)
+  );
+
+/** The state an entry settles in when nobody has snoozed or ignored it */
+export const derivedTriageState = (issues: string[]): QueueTriageState => (issues.length ? "needs_attention" : "new");
+
+/**
+ * Classify queued orders against current data and persist what changed. Catalog, daily rates and orders are
+ * loaded once for the whole batch. Snoozed entries whose time is up drop back into the inbox.
+ */
+export async function classifyQueuedOrders(entries: ShopifyImportQueue[], now = new Date()) {
+  if (!entries.length) {
+    return entries;
+  }
+
+  const stores = await prisma.shopifyStore.findMany({
+    where: { storeDomain: { in: [...new Set(entries.map((entry) => entry.storeDomain))] } },
+    select: { storeDomain: true, venueId: true }
+  });
+  const venueByDomain = new Map(stores.map((store) => [store.storeDomain, store.venueId]));
+  const venueIds = [...new Set(venueByDomain.values())];
+
+  const calendars = await loadBusinessCalendars(venueIds);
+  const dateKeys = entries.map((entry) =>
+    queuedBusinessDayKey(entry, venueByDomain.get(entry.storeDomain), calendars)
+  );
+  const sortedKeys = [...dateKeys].sort();
+
+  const [products, rateMap, orders] = await Promise.all([
+    prisma.product.findMany({ where: { venueId: { in: venueIds }, active: true }, include: { aliases: true } }),
+    getDailyRateMap(venueIds, sortedKeys[0], sortedKeys[sortedKeys.length - 1]),
+    prisma.order.findMany({
+      where: { externalId: { in: entries.map((entry) => entry.shopifyOrderId) } },
+      select: { externalId: true, orderNumber: true, deletedAt: true }
+    })
+  ]);
+  const orderByExternalId = new Map(orders.map((order) => [order.externalId, order]));
+
+  const classify = (entry: ShopifyImportQueue, dateKey: string): Classification => {
+    const issues: QueueIssue[] = [];
+    const issueDetails: Classification["issueDetails"] = {};
+    const flag = (issue: QueueIssue, detail: string) => {
+      issues.push(issue);
+      issueDetails[issue] = detail;
+    };
+
+    const order = entry.orderData as unknown as ShopifyOrder;
+    const venueId = venueByDomain.get(entry.storeDomain);
+
+    if (venueId === undefined) {
+      flag("unknown_store", `No Shopify store is set up for ${entry.storeDomain}`);
+    } else {
+      const lineItems = (order.line_items ?? []).map((item) => ({
+        productName: item.name,
+        quantity: item.quantity,
+        sku: item.sku ?? null,
+        shopifyProductId: item.variant_id ? String(item.variant_id) : item.product_id ? String(item.product_id) : null
+      }));
+      const { unmatched } = matchLineItemsToProducts(
+        lineItems,
+        products.filter((product) => product.venueId === venueId)
+      );
+      if (unmatched.length) {
+        flag("unmatched_products", unmatched.map((item) => item.productName).join(", "));
+      }
+
+      if (!rateMap.has(`${venueId}:${dateKey}`)) {
+        flag("missing_daily_rate", `No daily rate for ${dateKey}`);
+      }
+    }
+
+    if (entry.currency !== EXPECTED_CURRENCY) {
+      flag("currency_mismatch", `Order is in ${entry.currency}, expected ${EXPECTED_CURRENCY}`);
+    }
+
+    const existing = orderByExternalId.get(entry.shopifyOrderId);
+    if (existing) {
+      flag(
+        "duplicate_order",
+        `Already imported as ${existing.orderNumber}${existing.deletedAt ? " (in the trash)" : ""}`
+      );
+    }
+
+    return { issues, issueDetails };
+  };
+
+  return Promise.all(
+    entries.map(async (entry, index) => {
+      const { issues, issueDetails } = classify(entry, dateKeys[index]);
+
+      let triageState = entry.triageState as QueueTriageState;
+      let snoozedUntil = entry.snoozedUntil;
+      if (triageState === "snoozed" && (!snoozedUntil || snoozedUntil <= now)) {
+        triageState = derivedTriageState(issues);
+        snoozedUntil = null;
+      } else if (triageState === "new" || triageState === "needs_attention") {
+        triageState = derivedTriageState(issues);
+      }
+
+      const unchanged =
+        triageState === entry.triageState &&
+        snoozedUntil === entry.snoozedUntil &&
+        JSON.stringify(issues) === JSON.stringify(entry.issues) &&
+        JSON.stringify(issueDetails) === JSON.stringify(entry.issueDetails);
+      if (unchanged) {
+        return entry;
+      }
+
+      return prisma.shopifyImportQueue.update({
+        where: { id: entry.id },
+        data: {
+          issues,
+          issueDetails: issueDetails as Prisma.InputJsonObject,
+          triageState,
+          snoozedUntil
+        }
+      });
+    })
+  );
+}
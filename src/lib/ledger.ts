@@ -0,0 +1,357 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { AED_USD_PEG } from "./constants";
+import { calculatePayoutFromOrder } from "./order-utils";
+import { refreshDailyVenueStatsDays, type VenueBusinessDay } from "./daily-venue-stats";
+import { loadFeeTerms } from "./fee-schedules";
+import { calendarOf, getBusinessDayWindow, loadBusinessCalendars, toBusinessDayKey } from "./business-calendar";
+
+export const LEDGER_ENTRY_TYPES = ["ORDER", "PAYOUT", "DEDUCTION", "ADJUSTMENT"] as const;
+export type LedgerEntryType = (typeof LEDGER_ENTRY_TYPES)[number];
+
+type LedgerClient = Prisma.TransactionClient | typeof prisma;
+
+/** Sources whose ledger position should be brought up to date, by id (venue id for adjustments) */
+export type LedgerSources = {
+  orders?: number[];
+  payouts?: number[];
+  deductions?: number[];
+  adjustments?: number[];
+  /** Where edited orders were before the edit moved their venue or processedAt, so the rollup days they left are rebuilt */
+  previousOrders?: Array<{ venueId: number; processedAt: Date }>;
+};
+
+type Position = {
+  venueId: number;
+  amount: number;
+  description: string;
+  occurredAt: Date;
+};
+
+// Sub-cent differences are float noise, not money
+const LEDGER_EPSILON = 0.005;
+
+/** A payout in USD: AED payouts convert at the peg, any other currency is booked as entered. Statements use it too. */
+export const payoutAmountUSD = (payout: { amount: number; currency: string }) =>
+  payout.currency === "AED" ? payout.amount / AED_USD_PEG : payout.amount;
+
+const positionKey = (type: LedgerEntryType, sourceId: number, venueId: number) => `${type}:${sourceId}:${venueId}`;
+
+/** What each source should currently contribute to its venue's balance, in USD */
+async function loadPositions(tx: Prisma.TransactionClient, sources: LedgerSources) {
+  const positions = new Map<string, Position & { type: LedgerEntryType; sourceId: number }>();
+  const add = (type: LedgerEntryType, sourceId: number, position: Position) =>
+    positions.set(positionKey(type, sourceId, position.venueId), { ...position, type, sourceId });
+
+  const [orders, payouts, deductions, venues] = await Promise.all([
+    sources.orders?.length
+      ? tx.order.findMany({
+          where: { id: { in: sources.orders }, deletedAt: null },
+          select: { id: true, venueId: true, orderNumber: true, processedAt: true, originalAmount: true, rateType: true, aedEgpRate: true, exchangeRate: true, totalAmount: true }
+        })
+      : [],
+    sources.payouts?.length
+      ? tx.payout.findMany({
+          where: { id: { in: sources.payouts } },
+          select: { id: true, venueId: true, description: true, processedAt: true, amount: true, currency: true }
+        })
+      : [],
+    sources.deductions?.length
+      ? tx.dailyDeduction.findMany({
+          where: { id: { in: sources.deductions } },
+          select: { id: true, venueId: true, date: true, amount: true, note: true }
+        })
+      : [],
+    sources.adjustments?.length
+      ? tx.venue.findMany({
+          where: { id: { in: sources.adjustments } },
+          select: { id: true, balanceAdjustment: true }
+        })
+      : []
+  ]);
+
+  const feeTerms = await loadFeeTerms(orders.map((order) => order.venueId), tx);
+  const calendars = deductions.length
+    ? await loadBusinessCalendars(deductions.map((deduction) => deduction.venueId), tx)
+    : new Map();
+  for (const order of orders) {
+    add("ORDER", order.id, {
+      venueId: order.venueId,
+      amount: calculatePayoutFromOrder(order, feeTerms(order.venueId, order.processedAt)),
+      description: `Order ${order.orderNumber}`,
+      occurredAt: order.processedAt
+    });
+  }
+  for (const payout of payouts) {
+    add("PAYOUT", payout.id, {
+      venueId: payout.venueId,
+      amount: -payoutAmountUSD(payout),
+      description: payout.description,
+      occurredAt: payout.processedAt
+    });
+  }
+  for (const deduction of deductions) {
+    add("DEDUCTION", deduction.id, {
+      venueId: deduction.venueId,
+      amount: -deduction.amount / AED_USD_PEG,
+      description: deduction.note ? `Deduction: ${deduction.note}` : "Deduction",
+      // Deductions are taken from the start of their business day
+      occurredAt: getBusinessDayWindow(
+        deduction.date.toISOString().slice(0, 10),
+        calendarOf(calendars, deduction.venueId)
+      ).start
+    });
+  }
+  for (const venue of venues) {
+    add("ADJUSTMENT", venue.id, {
+      venueId: venue.id,
+      amount: venue.balanceAdjustment,
+      description: "Balance adjustment",
+      occurredAt: new Date()
+    });
+  }
+
+  return positions;
+}
+
+/** Venues the sources belong to now, trashed orders included, plus the venues they were posted to before */
+async function loadSourceVenueIds(
+  tx: Prisma.TransactionClient,
+  sources: LedgerSources,
+  postedWhere: Prisma.LedgerEntryWhereInput
+) {
+  const [orders, payouts, deductions, posted] = await Promise.all([
+    sources.orders?.length
+      ? tx.order.findMany({ where: { id: { in: sources.orders } }, select: { venueId: true } })
+      : [],
+    sources.payouts?.length
+      ? tx.payout.findMany({ where: { id: { in: sources.payouts } }, select: { venueId: true } })
+      : [],
+    sources.deductions?.length
+      ? tx.dailyDeduction.findMany({ where: { id: { in: sources.deductions } }, select: { venueId: true } })
+      : [],
+    tx.ledgerEntry.findMany({ where: postedWhere, distinct: ["venueId"], select: { venueId: true } })
+  ]);
+
+  return [
+    ...[...orders, ...payouts, ...deductions, ...posted].map((row) => row.venueId),
+    ...(sources.adjustments ?? []),
+    ...(sources.previousOrders ?? []).map((order) => order.venueId)
+  ];
+}
+
+/** Rollup days the orders and deductions sit on now, and sat on when they were last posted or before an edit */
+async function loadRollupDays(tx: Prisma.TransactionClient, sources: LedgerSources): Promise<VenueBusinessDay[]> {
+  const scopes = [
+    { type: "ORDER", sourceId: { in: sources.orders ?? [] } },
+    { type: "DEDUCTION", sourceId: { in: sources.deductions ?? [] } }
+  ];
+  const [orders, deductions, posted] = await Promise.all([
+    sources.orders?.length
+      ? tx.order.findMany({ where: { id: { in: sources.orders } }, select: { venueId: true, processedAt: true } })
+      : [],
+    sources.deductions?.length
+      ? tx.dailyDeduction.findMany({ where: { id: { in: sources.deductions } }, select: { venueId: true, date: true } })
+      : [],
+    tx.ledgerEntry.findMany({
+      where: { OR: scopes },
+      distinct: ["venueId", "occurredAt"],
+      select: { venueId: true, occurredAt: true }
+    })
+  ]);
+
+  const moments = [
+    ...orders.map((order) => ({ venueId: order.venueId, at: order.processedAt })),
+    ...(sources.previousOrders ?? []).map((order) => ({ venueId: order.venueId, at: order.processedAt })),
+    ...posted.map((entry) => ({ venueId: entry.venueId, at: entry.occurredAt }))
+  ];
+  const calendars = await loadBusinessCalendars(moments.map((moment) => moment.venueId), tx);
+
+  return [
+    ...moments.map((moment) => ({
+      venueId: moment.venueId,
+      date: toBusinessDayKey(moment.at, calendarOf(calendars, moment.venueId))
+    })),
+    ...deductions.map((deduction) => ({ venueId: deduction.venueId, date: deduction.date.toISOString().slice(0, 10) }))
+  ];
+}
+
+async function syncWithin(tx: Prisma.TransactionClient, sources: LedgerSources) {
+  const scopes = [
+    { type: "ORDER" as const, ids: sources.orders ?? [] },
+    { type: "PAYOUT" as const, ids: sources.payouts ?? [] },
+    { type: "DEDUCTION" as const, ids: sources.deductions ?? [] },
+    { type: "ADJUSTMENT" as const, ids: sources.adjustments ?? [] }
+  ].filter((scope) => scope.ids.length);
+
+  if (!scopes.length) {
+    return 0;
+  }
+
+  const postedWhere = { OR: scopes.map((scope) => ({ type: scope.type, sourceId: { in: scope.ids } })) };
+
+  // Lock every affected venue before reading, so concurrent syncs of a source see each other's postings
+  const locked = new Set<number>();
+  const lockVenues = async (ids: number[]) => {
+    const missing = Array.from(new Set(ids)).filter((id) => !locked.has(id));
+    if (missing.length) {
+      await tx.$queryRaw`SELECT "id" FROM "Venue" WHERE "id" IN (${Prisma.join(missing)}) ORDER BY "id" FOR UPDATE`;
+      missing.forEach((id) => locked.add(id));
+    }
+    return missing.length;
+  };
+  await lockVenues(await loadSourceVenueIds(tx, sources, postedWhere));
+
+  const readState = async () => ({
+    positions: await loadPositions(tx, sources),
+    posted: await tx.ledgerEntry.groupBy({
+      by: ["type", "sourceId", "venueId"],
+      where: postedWhere,
+      _sum: { amount: true }
+    })
+  });
+
+  // A source moved to another venue between the first read and the lock: lock that venue too and read again
+  let { positions, posted } = await readState();
+  while (
+    await lockVenues([...Array.from(positions.values()).map((position) => position.venueId), ...posted.map((row) => row.venueId)])
+  ) {
+    ({ positions, posted } = await readState());
+  }
+
+  const entries: Array<Position & { type: LedgerEntryType; sourceId: number }> = [];
+
+  for (const row of posted) {
+    const key = positionKey(row.type as LedgerEntryType, row.sourceId ?? 0, row.venueId);
+    const current = positions.get(key);
+    const postedAmount = row._sum.amount ?? 0;
+    const delta = (current?.amount ?? 0) - postedAmount;
+    positions.delete(key);
+
+    if (Math.abs(delta) < LEDGER_EPSILON) {
+      continue;
+    }
+
+    // Source changed, moved venue, was trashed or was removed
+    const label = current?.description ?? (await describeRemovedSource(tx, row.type as LedgerEntryType, row.sourceId, row.venueId));
+    entries.push({
+      type: row.type as LedgerEntryType,
+      sourceId: row.sourceId ?? 0,
+      venueId: row.venueId,
+      amount: delta,
+      description: current ? `${label} (corrected)` : `${label} (reversed)`,
+      occurredAt: current?.occurredAt ?? new Date()
+    });
+  }
+
+  // Sources that have never been posted for this venue
+  for (const position of Array.from(positions.values())) {
+    if (Math.abs(position.amount) >= LEDGER_EPSILON) {
+      entries.push(position);
+    }
+  }
+
+  for (const entry of entries) {
+    const { ledgerBalance } = await tx.venue.update({
+      where: { id: entry.venueId },
+      data: { ledgerBalance: { increment: entry.amount } },
+      select: { ledgerBalance: true }
+    });
+
+    await tx.ledgerEntry.create({
+      data: {
+        venueId: entry.venueId,
+        type: entry.type,
+        sourceId: entry.sourceId,
+        description: entry.description,
+        amount: entry.amount,
+        balanceAfter: ledgerBalance,
+        occurredAt: entry.occurredAt
+      }
+    });
+  }
+
+  // Keep the analytics rollup in step on the days touched, including those of orders just trashed
+  if (sources.orders?.length || sources.deductions?.length) {
+    await refreshDailyVenueStatsDays(await loadRollupDays(tx, sources), tx);
+  }
+
+  return entries.length;
+}
+
+// Reversal entries reuse the wording of the source's first entry
+async function describeRemovedSource(
+  tx: Prisma.TransactionClient,
+  type: LedgerEntryType,
+  sourceId: number | null,
+  venueId: number
+) {
+  const first = await tx.ledgerEntry.findFirst({
+    where: { type, sourceId, venueId },
+    orderBy: { id: "asc" },
+    select: { description: true }
+  });
+
+  return first?.description ?? type.toLowerCase();
+}
+
+/**
+ * Post whatever entries are needed so the ledger matches the current state of the given sources:
+ * a credit or debit for new sources, a correction for edited ones and a reversal for removed or trashed ones.
+ * Idempotent — syncing an unchanged source posts nothing. Returns the number of entries posted.
+ * The analytics rollup is rebuilt in the same transaction, on the business days the sources touch.
+ * Pass the transaction client when the mutation runs inside $transaction.
+ */
+export async function syncLedger(sources: LedgerSources, client: LedgerClient = prisma) {
+  if ("$transaction" in client) {
+    return client.$transaction((tx) => syncWithin(tx, sources));
+  }
+
+  return syncWithin(client, sources);
+}
+
+// Sources per transaction when syncing many at once, so a venue's whole history isn't synced under one long lock
+const SYNC_BATCH_SIZE = 200;
+
+/** Sync many orders, one transaction per batch; e.g. every order a back-dated fee schedule re-prices */
+export async function syncOrdersInBatches(orderIds: number[]) {
+  let postedCount = 0;
+  for (let index = 0; index < orderIds.length; index += SYNC_BATCH_SIZE) {
+    postedCount += await syncLedger({ orders: orderIds.slice(index, index + SYNC_BATCH_SIZE) });
+  }
+  return postedCount;
+}
+
+/** Re-check every source that has ever touched the venue's balance; repairs drift from out-of-band writes */
+export async function reconcileVenueLedger(venueId: number) {
+  const [orders, payouts, deductions, posted] = await Promise.all([
+    prisma.order.findMany({ where: { venueId }, select: { id: true } }),
+    prisma.payout.findMany({ where: { venueId }, select: { id: true } }),
+    prisma.dailyDeduction.findMany({ where: { venueId }, select: { id: true } }),
+    prisma.ledgerEntry.findMany({
+      where: { venueId },
+      distinct: ["type", "sourceId"],
+      select: { type: true, sourceId: true }
+    })
+  ]);
+
+  const postedIds = (type: LedgerEntryType) =>
+    posted.filter((entry) => entry.type === type && entry.sourceId !== null).map((entry) => entry.sourceId as number);
+  const merge = (ids: number[], type: LedgerEntryType) => Array.from(new Set([...ids, ...postedIds(type)]));
+
+  const batches: LedgerSources[] = [{ adjustments: [venueId] }];
+  const addBatches = (key: "orders" | "payouts" | "deductions", ids: number[]) => {
+    for (let index = 0; index < ids.length; index += SYNC_BATCH_SIZE) {
+      batches.push({ [key]: ids.slice(index, index + SYNC_BATCH_SIZE) });
+    }
+  };
+  addBatches("orders", merge(orders.map((order) => order.id), "ORDER"));
+  addBatches("payouts", merge(payouts.map((payout) => payout.id), "PAYOUT"));
+  addBatches("deductions", merge(deductions.map((deduction) => deduction.id), "DEDUCTION"));
+
+  let postedCount = 0;
+  for (const batch of batches) {
+    postedCount += await syncLedger(batch);
+  }
+  return postedCount;
+}
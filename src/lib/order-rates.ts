@@ -0,0 +1,48 @@
+import { AED_USD_PEG } from "./constants";
+import type { FeeTerms } from "./fee-terms";
+
+/**
+ * Which rate an order's payout is worked out at:
+ * - AED_EGP: aedEgpRate, the venue's daily AED/EGP rate (Shopify imports and re-rated days)
+ * - USD_EGP: exchangeRate, a USD/EGP rate, converted to AED/EGP at the peg
+ * Legacy orders have no rateType until the rate migration classifies them.
+ */
+export const ORDER_RATE_TYPES = ["AED_EGP", "USD_EGP"] as const;
+export type OrderRateType = (typeof ORDER_RATE_TYPES)[number];
+
+type RatedOrder = {
+  rateType?: string | null;
+  aedEgpRate?: number | null;
+  exchangeRate?: number | null;
+};
+
+/**
+ * The AED/EGP rate an order pays out at, or null when it has none. Unclassified legacy orders only count their
+ * aedEgpRate; whatever their exchangeRate holds is left to the rate migration to decide.
+ * SQL twin in daily-venue-stats; keep the two in step.
+ */
+export function resolveAedEgpRate(order: RatedOrder): number | null {
+  if (order.rateType === "USD_EGP") {
+    return typeof order.exchangeRate === "number" && order.exchangeRate > 0 ? order.exchangeRate / AED_USD_PEG : null;
+  }
+
+  return typeof order.aedEgpRate === "number" && order.aedEgpRate > 0 ? order.aedEgpRate : null;
+}
+
+/**
+ * Net payout in AED: EGP × (1 - commission) / AED/EGP rate; 0 without an EGP amount or a rate.
+ * `terms` are the venue's fee terms at the order's processedAt.
+ */
+export function calculateNetAedPayout(order: RatedOrder & { originalAmount?: number | null }, terms: FeeTerms) {
+  const rate = resolveAedEgpRate(order);
+  if (typeof order.originalAmount === "number" && order.originalAmount > 0 && rate) {
+    return (order.originalAmount * (1 - terms.commissionRate)) / rate;
+  }
+
+  return 0;
+}
+
+/** Payout in USD: the net AED payout at the AED/USD peg */
+export function calculatePayoutFromOrder(order: RatedOrder & { originalAmount?: number | null }, terms: FeeTerms) {
+  return calculateNetAedPayout(order, terms) / AED_USD_PEG;
+}
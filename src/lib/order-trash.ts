@@ -0,0 +1,116 @@
+import type { Session } from "next-auth";
+import { prisma } from "./prisma";
+import { recordAuditEvents } from "./audit";
+import { syncLedger } from "./ledger";
+import { ORDER_TRASH_RETENTION_DAYS } from "./constants";
+
+/** Cut-off before which trashed orders are eligible for the permanent purge */
+export const getTrashPurgeCutoff = (now = new Date()) =>
+  new Date(now.getTime() - ORDER_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Move orders into the trash. Already-trashed ids are ignored.
+ * Returns the number of orders trashed.
+ */
+export async function trashOrders(ids: number[], session: Session) {
+  const orders = await prisma.order.findMany({
+    where: { id: { in: ids }, deletedAt: null },
+    include: { lineItems: true }
+  });
+
+  if (!orders.length) {
+    return 0;
+  }
+
+  const actorId = Number(session.user.id);
+  const deletedAt = new Date();
+
+  await prisma.$transaction(async (tx) => {
+    await tx.order.updateMany({
+      where: { id: { in: orders.map((order) => order.id) } },
+      data: { deletedAt, deletedById: Number.isNaN(actorId) ? null : actorId }
+    });
+
+    await recordAuditEvents(
+      session,
+      orders.map((order) => ({
+        action: "delete" as const,
+        entityType: "Order" as const,
+        entityId: order.id,
+        before: order
+      })),
+      tx
+    );
+    await syncLedger({ orders: orders.map((order) => order.id) }, tx);
+  });
+
+  return orders.length;
+}
+
+/** Bring trashed orders back. Returns the number of orders restored. */
+export async function restoreOrders(ids: number[], session: Session) {
+  const orders = await prisma.order.findMany({
+    where: { id: { in: ids }, deletedAt: { not: null } },
+    select: { id: true, orderNumber: true, deletedAt: true, deletedById: true }
+  });
+
+  if (!orders.length) {
+    return 0;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.order.updateMany({
+      where: { id: { in: orders.map((order) => order.id) } },
+      data: { deletedAt: null, deletedById: null }
+    });
+
+    await recordAuditEvents(
+      session,
+      orders.map((order) => ({
+        action: "restore" as const,
+        entityType: "Order" as const,
+        entityId: order.id,
+        before: order,
+        after: { orderNumber: order.orderNumber, deletedAt: null, deletedById: null }
+      })),
+      tx
+    );
+    await syncLedger({ orders: orders.map((order) => order.id) }, tx);
+  });
+
+  return orders.length;
+}
+
+/**
+ * Permanently delete orders that have sat in the trash longer than the retention period.
+ * Line items go with them via the cascade. Returns the number of orders purged.
+ */
+export async function purgeExpiredOrders(now = new Date()) {
+  const expired = await prisma.order.findMany({
+    where: { deletedAt: { lt: getTrashPurgeCutoff(now) } },
+    include: { lineItems: true }
+  });
+
+  if (!expired.length) {
+    return 0;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.order.deleteMany({
+      where: { id: { in: expired.map((order) => order.id) } }
+    });
+
+    await recordAuditEvents(
+      null,
+      expired.map((order) => ({
+        action: "purge" as const,
+        entityType: "Order" as const,
+        entityId: order.id,
+        before: order
+      })),
+      tx
+    );
+  });
+
+  return expired.length;
+}
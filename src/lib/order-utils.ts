@@ -1,11 +1,12 @@
 import { prisma } from "./prisma";
-import { PLATFORM_FEE_MULTIPLIER, CLIENT_COMMISSION_RATE, AED_USD_PEG } from "./constants";
+import type { FeeTerms } from "./fee-terms";
 
 export const DEFAULT_EXCHANGE_RATE = 48.5;
 
 export const calculateFromOriginalAmount = (
   originalAmount: number | null,
-  exchangeRate: number
+  exchangeRate: number,
+  terms: FeeTerms
 ) => {
   if (originalAmount === null || Number.isNaN(originalAmount) || exchangeRate <= 0) {
     return {
@@ -15,7 +16,7 @@ export const calculateFromOriginalAmount = (
   }
 
   const baseAmount = originalAmount / exchangeRate;
-  const totalAmount = Number((baseAmount * PLATFORM_FEE_MULTIPLIER).toFixed(2));
+  const totalAmount = Number((baseAmount * terms.platformFeeMultiplier).toFixed(2));
 
   return {
     baseAmount,
@@ -23,24 +24,7 @@ export const calculateFromOriginalAmount = (
   };
 };
 
-// Returns payout in USD: EGP × (1 - commission) / aedEgpRate / AED_USD_PEG
-export const calculatePayoutFromOrder = (order: {
-  originalAmount?: number | null;
-  aedEgpRate?: number | null;
-  totalAmount: number;
-}) => {
-  if (
-    typeof order.originalAmount === "number" &&
-    order.originalAmount > 0 &&
-    typeof order.aedEgpRate === "number" &&
-    order.aedEgpRate > 0
-  ) {
-    return order.originalAmount * (1 - CLIENT_COMMISSION_RATE) / order.aedEgpRate / AED_USD_PEG;
-  }
-
-  // Fallback for orders without rate data: return 0
-  return 0;
-};
+export { calculatePayoutFromOrder } from "./order-rates";
 
 export const slugify = (value: string) =>
   value
@@ -0,0 +1,249 @@
+import type { Product } from "@prisma/client";
+import type { Session } from "next-auth";
+import { prisma } from "./prisma";
+import { recordAuditEvents } from "./audit";
+import { syncLedger } from "./ledger";
+import { loadFeeTerms } from "./fee-schedules";
+import { resolveAedEgpRate } from "./order-rates";
+import {
+  calculateAmountsFromEGP,
+  lineItemIdentifiers,
+  matchLineItemsToProducts,
+  priceLineItems,
+  type LineItemPricing,
+  type PricingLineItem,
+  type ProductAliasKind
+} from "./product-pricing";
+import type { ShopifyOrder } from "./shopify";
+
+export type UnmatchedLineItem = {
+  venueId: number;
+  venueName: string;
+  productName: string;
+  sku: string | null;
+  shopifyProductId: string | null;
+  orderCount: number;
+  queuedCount: number;
+  quantity: number;
+  lastSeenAt: string;
+};
+
+type AliasKey = { kind: ProductAliasKind; value: string };
+
+const toPricingLineItem = (item: ShopifyOrder["line_items"][number]): PricingLineItem => ({
+  productName: item.name,
+  quantity: item.quantity,
+  sku: item.sku ?? null,
+  shopifyProductId: item.variant_id ? String(item.variant_id) : item.product_id ? String(item.product_id) : null
+});
+
+/**
+ * Line items that match no product (nor alias), across imported Shopify orders and the pending queue,
+ * grouped per venue by identifiers. Ignored queue entries are left out. Most frequent first.
+ */
+export async function buildMatchingReport(venueId?: number): Promise<UnmatchedLineItem[]> {
+  const [venues, stores] = await Promise.all([
+    prisma.venue.findMany({ where: venueId ? { id: venueId } : undefined, select: { id: true, name: true } }),
+    prisma.shopifyStore.findMany({
+      where: venueId ? { venueId } : undefined,
+      select: { storeDomain: true, venueId: true }
+    })
+  ]);
+  const venueIds = venues.map((venue) => venue.id);
+  const venueNames = new Map(venues.map((venue) => [venue.id, venue.name]));
+  const venueByDomain = new Map(stores.map((store) => [store.storeDomain, store.venueId]));
+
+  const [products, orders, queued] = await Promise.all([
+    prisma.product.findMany({ where: { venueId: { in: venueIds }, active: true }, include: { aliases: true } }),
+    prisma.order.findMany({
+      where: { venueId: { in: venueIds }, deletedAt: null, shopifyStoreId: { not: null } },
+      select: {
+        venueId: true,
+        processedAt: true,
+        lineItems: { select: { productName: true, quantity: true, sku: true, shopifyProductId: true } }
+      }
+    }),
+    prisma.shopifyImportQueue.findMany({
+      where: { storeDomain: { in: [...venueByDomain.keys()] }, triageState: { not: "ignored" } },
+      select: { storeDomain: true, orderData: true, createdAt: true }
+    })
+  ]);
+
+  const groups = new Map<string, UnmatchedLineItem>();
+  const collect = (
+    venue: number,
+    lineItems: PricingLineItem[],
+    seenAt: Date,
+    field: "orderCount" | "queuedCount"
+  ) => {
+    const { unmatched } = matchLineItemsToProducts(
+      lineItems,
+      products.filter((product) => product.venueId === venue)
+    );
+
+    // Count each order once per group, however many of its lines share the identifiers
+    const counted = new Set<string>();
+    for (const item of unmatched) {
+      const key = JSON.stringify([venue, lineItemIdentifiers(item)]);
+      const group = groups.get(key) ?? {
+        venueId: venue,
+        venueName: venueNames.get(venue) ?? "",
+        productName: item.productName,
+        sku: item.sku ?? null,
+        shopifyProductId: item.shopifyProductId ?? null,
+        orderCount: 0,
+        queuedCount: 0,
+        quantity: 0,
+        lastSeenAt: seenAt.toISOString()
+      };
+      if (!counted.has(key)) {
+        group[field]++;
+        counted.add(key);
+      }
+      group.quantity += item.quantity;
+      if (seenAt.toISOString() > group.lastSeenAt) {
+        group.lastSeenAt = seenAt.toISOString();
+      }
+      groups.set(key, group);
+    }
+  };
+
+  for (const order of orders) {
+    collect(order.venueId, order.lineItems, order.processedAt, "orderCount");
+  }
+
+  for (const entry of queued) {
+    const shopifyOrder = entry.orderData as unknown as ShopifyOrder;
+    const seenAt = new Date(shopifyOrder?.processed_at ?? entry.createdAt);
+    collect(
+      venueByDomain.get(entry.storeDomain)!,
+      (shopifyOrder?.line_items ?? []).map(toPricingLineItem),
+      seenAt,
+      "queuedCount"
+    );
+  }
+
+  return [...groups.values()].sort(
+    (a, b) => b.orderCount + b.queuedCount - (a.orderCount + a.queuedCount) || b.lastSeenAt.localeCompare(a.lastSeenAt)
+  );
+}
+
+/** The identifier an alias for this line item is keyed on: the most precise one it carries, unless one is asked for */
+export function aliasForLineItem(item: PricingLineItem, kind?: ProductAliasKind): AliasKey | null {
+  const identifiers = lineItemIdentifiers(item);
+  return (kind ? identifiers.find((identifier) => identifier.kind === kind) : identifiers[0]) ?? null;
+}
+
+const lineItemFilter = ({ kind, value }: AliasKey) =>
+  kind === "shopify_id"
+    ? { shopifyProductId: value }
+    : kind === "sku"
+      ? { sku: value }
+      : { productName: { equals: value, mode: "insensitive" as const } };
+
+/**
+ * Re-price a venue's imported Shopify orders with a line item carrying the identifier, e.g. after aliasing it to a
+ * product, at the prices in effect when each was placed. Only orders whose every line now matches are changed; refunded or zeroed orders keep their amount,
+ * since it no longer follows from the line items alone. Audited and posted to the ledger in one transaction.
+ */
+export async function repriceOrdersWithIdentifier(venueId: number, identifier: AliasKey, session: Session | null) {
+  const orders = await prisma.order.findMany({
+    where: {
+      venueId,
+      deletedAt: null,
+      shopifyStoreId: { not: null },
+      lineItems: { some: lineItemFilter(identifier) }
+    },
+    include: { lineItems: true }
+  });
+
+  const [products, feeTerms] = await Promise.all([
+    prisma.product.findMany({
+      where: { venueId, active: true },
+      include: { aliases: true, prices: true }
+    }),
+    loadFeeTerms([venueId])
+  ]);
+
+  type Amounts = { originalAmount: number | null; totalAmount: number };
+  const updates: Array<{
+    id: number;
+    before: Amounts;
+    after: Amounts;
+    lineItems: Array<{ id: number } & LineItemPricing>;
+  }> = [];
+  let skipped = 0;
+
+  for (const order of orders) {
+    const { items, total: originalAmount } = priceLineItems(order.lineItems, products, order.processedAt);
+    if (order.refundedAmount > 0 || order.originalAmount === 0 || originalAmount === null) {
+      skipped++;
+      continue;
+    }
+
+    const lineItems = order.lineItems
+      .map((line, index) => ({ id: line.id, ...items[index] }))
+      .filter(
+        (line, index) =>
+          line.productId !== order.lineItems[index].productId || line.egpTotal !== order.lineItems[index].egpTotal
+      );
+    if (originalAmount === order.originalAmount && !lineItems.length) {
+      continue;
+    }
+
+    const rate = resolveAedEgpRate(order);
+    const totalAmount = rate
+      ? calculateAmountsFromEGP(originalAmount, rate, feeTerms(venueId, order.processedAt)).revenueUSD
+      : order.totalAmount;
+    updates.push({
+      id: order.id,
+      before: { originalAmount: order.originalAmount, totalAmount: order.totalAmount },
+      after: { originalAmount, totalAmount },
+      lineItems
+    });
+  }
+
+  if (updates.length) {
+    await prisma.$transaction(async (tx) => {
+      for (const update of updates) {
+        await tx.order.update({ where: { id: update.id }, data: update.after });
+        for (const { id, ...pricing } of update.lineItems) {
+          await tx.orderLineItem.update({ where: { id }, data: pricing });
+        }
+      }
+
+      await recordAuditEvents(
+        session,
+        updates.map((update) => ({
+          action: "update" as const,
+          entityType: "Order" as const,
+          entityId: update.id,
+          before: update.before,
+          after: update.after
+        })),
+        tx
+      );
+      await syncLedger({ orders: updates.map((update) => update.id) }, tx);
+    });
+  }
+
+  return { repriced: updates.length, skipped };
+}
+
+/**
+ * Link an unmatched line item to a product: store the alias, then re-price the venue's orders that carry it.
+ * Queued orders pick the alias up the next time Pending Imports is classified.
+ */
+export async function linkLineItemToProduct(
+  product: Pick<Product, "id" | "venueId">,
+  alias: AliasKey,
+  session: Session | null
+) {
+  const created = await prisma.productAlias.create({
+    data: { productId: product.id, venueId: product.venueId, kind: alias.kind, value: alias.value }
+  });
+
+  const { repriced, skipped } = await repriceOrdersWithIdentifier(product.venueId, alias, session);
+
+  return { alias: created, repriced, skipped };
+}
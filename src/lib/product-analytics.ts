@@ -0,0 +1,210 @@
+import { prisma } from "./prisma";
+import {
+  businessDaysWhere,
+  calendarOf,
+  getBusinessMonth,
+  loadBusinessCalendars,
+  shiftBusinessMonth,
+  toBusinessMonthKey
+} from "./business-calendar";
+import { priceLineItems } from "./product-pricing";
+
+export type ProductSales = {
+  orders: number;
+  units: number;
+  egpRevenue: number;
+  usdRevenue: number;
+};
+
+export type ProductTrendPoint = ProductSales & { month: string };
+
+export type ProductPerformance = ProductSales & {
+  productId: number | null; // null: the venue's line items that match no product
+  name: string;
+  sku: string | null;
+  venueId: number;
+  venueName: string;
+  trend: ProductTrendPoint[]; // one point per business month in the range, oldest first
+};
+
+export type VenueProductSales = ProductSales & {
+  venueId: number;
+  venueName: string;
+  products: number;
+};
+
+export type ProductPerformanceReport = {
+  from: string;
+  to: string;
+  months: Array<{ month: string; label: string }>;
+  venues: VenueProductSales[];
+  products: ProductPerformance[];
+  topSellers: Array<Omit<ProductPerformance, "trend">>;
+};
+
+const TOP_SELLERS = 10;
+
+const emptySales = (): ProductSales => ({ orders: 0, units: 0, egpRevenue: 0, usdRevenue: 0 });
+
+/** Business months ("YYYY-MM") from the one holding `from` to the one holding `to`, both "YYYY-MM-DD" */
+const businessMonthsBetween = (from: string, to: string) => {
+  const last = getBusinessMonth(to).key;
+
+  const months: Array<{ month: string; label: string }> = [];
+  for (let month = getBusinessMonth(from).key; month <= last; month = shiftBusinessMonth(month, 1)) {
+    months.push({ month, label: getBusinessMonth(month).label });
+  }
+  return months;
+};
+
+/**
+ * Units, EGP and USD sold per product between two business days (inclusive), with a business-month trend each.
+ * Lines use the product and EGP total stored when their order was priced; lines stored without one are matched
+ * against the catalog now, at the price in effect when the order was placed. An order's USD is spread over its lines
+ * by EGP, or by Shopify line total when some line has no EGP price. Units are as ordered, refunds aside.
+ */
+export async function buildProductPerformance(
+  venueIds: number[],
+  from: string,
+  to: string
+): Promise<ProductPerformanceReport> {
+  const months = businessMonthsBetween(from, to);
+  const calendars = await loadBusinessCalendars(venueIds);
+
+  const [venues, products, orders] = await Promise.all([
+    prisma.venue.findMany({ where: { id: { in: venueIds } }, select: { id: true, name: true } }),
+    prisma.product.findMany({ where: { venueId: { in: venueIds } }, include: { aliases: true, prices: true } }),
+    prisma.order.findMany({
+      where: {
+        venueId: { in: venueIds },
+        deletedAt: null,
+        ...businessDaysWhere(calendars, from, to)
+      },
+      select: {
+        venueId: true,
+        processedAt: true,
+        totalAmount: true,
+        lineItems: {
+          select: {
+            productName: true,
+            quantity: true,
+            sku: true,
+            shopifyProductId: true,
+            total: true,
+            productId: true,
+            egpTotal: true
+          }
+        }
+      }
+    })
+  ]);
+
+  const venueNames = new Map(venues.map((venue) => [venue.id, venue.name]));
+  const productsById = new Map(products.map((product) => [product.id, product]));
+  const activeProducts = products.filter((product) => product.active);
+
+  const rows = new Map<string, ProductPerformance>();
+  const ensureRow = (venueId: number, productId: number | null) => {
+    const key = `${venueId}:${productId ?? "unmatched"}`;
+    let row = rows.get(key);
+    if (!row) {
+      const product = productId !== null ? productsById.get(productId) : undefined;
+      row = {
+        productId,
+        name: product?.name ?? "Unmatched line items",
+        sku: product?.sku ?? null,
+        venueId,
+        venueName: venueNames.get(venueId) ?? "",
+        ...emptySales(),
+        trend: months.map(({ month }) => ({ month, ...emptySales() }))
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  for (const order of orders) {
+    const matched = order.lineItems.some((line) => line.productId === null)
+      ? priceLineItems(
+          order.lineItems,
+          activeProducts.filter((product) => product.venueId === order.venueId),
+          order.processedAt
+        ).items
+      : null;
+
+    const lines = order.lineItems.map((line, index) => ({
+      quantity: line.quantity,
+      shopifyTotal: line.total,
+      productId: line.productId ?? matched?.[index].productId ?? null,
+      egpTotal: line.productId !== null ? line.egpTotal : matched?.[index].egpTotal ?? null
+    }));
+
+    const byEgp = lines.every((line) => line.egpTotal !== null);
+    const weights = lines.map((line) => (byEgp ? line.egpTotal! : line.shopifyTotal));
+    const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+    const quantitySum = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+    const month = toBusinessMonthKey(order.processedAt, calendarOf(calendars, order.venueId));
+    const counted = new Set<ProductPerformance>();
+
+    lines.forEach((line, index) => {
+      const share = weightSum > 0 ? weights[index] / weightSum : quantitySum > 0 ? line.quantity / quantitySum : 0;
+      const row = ensureRow(order.venueId, line.productId);
+      const point = row.trend.find((entry) => entry.month === month);
+
+      for (const sales of point ? [row, point] : [row]) {
+        if (!counted.has(row)) {
+          sales.orders++;
+        }
+        sales.units += line.quantity;
+        sales.egpRevenue += line.egpTotal ?? 0;
+        sales.usdRevenue += order.totalAmount * share;
+      }
+      counted.add(row);
+    });
+  }
+
+  const productRows = [...rows.values()].sort(
+    (a, b) => b.egpRevenue - a.egpRevenue || b.units - a.units || a.name.localeCompare(b.name)
+  );
+
+  const venueRows = new Map<number, VenueProductSales>();
+  for (const row of productRows) {
+    const venue = venueRows.get(row.venueId) ?? {
+      venueId: row.venueId,
+      venueName: row.venueName,
+      products: 0,
+      ...emptySales()
+    };
+    if (row.productId !== null) {
+      venue.products++;
+    }
+    venue.units += row.units;
+    venue.egpRevenue += row.egpRevenue;
+    venue.usdRevenue += row.usdRevenue;
+    venueRows.set(row.venueId, venue);
+  }
+
+  // An order counts once per venue, however many of its products it holds
+  for (const order of orders) {
+    const venue = venueRows.get(order.venueId);
+    if (venue) {
+      venue.orders++;
+    }
+  }
+
+  const topSellers = productRows
+    .filter((row) => row.productId !== null)
+    .sort((a, b) => b.units - a.units || b.egpRevenue - a.egpRevenue)
+    .slice(0, TOP_SELLERS)
+    .map(({ trend: _trend, ...row }) => row);
+
+  return {
+    from,
+    to,
+    months,
+    venues: [...venueRows.values()].sort((a, b) => b.egpRevenue - a.egpRevenue),
+    products: productRows,
+    topSellers
+  };
+}
@@ -0,0 +1,48 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { pricePeriodAt, priceInEffect } from "./product-pricing";
+
+type PriceClient = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Record a product's EGP price from validFrom on (default: now). The period it lands in is cut short at validFrom
+ * and the new one runs until the next recorded change, so back-dated corrections keep later prices intact.
+ * Product.egpPrice is kept in step with the price in effect now. Pass the transaction client inside $transaction.
+ */
+export async function setProductPrice(
+  productId: number,
+  egpPrice: number,
+  validFrom = new Date(),
+  client: PriceClient = prisma
+) {
+  const prices = await client.productPrice.findMany({
+    where: { productId },
+    orderBy: { validFrom: "asc" }
+  });
+
+  const current = pricePeriodAt(prices, validFrom);
+  if (current?.egpPrice === egpPrice) {
+    return current;
+  }
+
+  let period;
+  if (current && current.validFrom.getTime() === validFrom.getTime()) {
+    period = await client.productPrice.update({ where: { id: current.id }, data: { egpPrice } });
+  } else {
+    const next = prices.find((price) => price.validFrom > validFrom);
+    if (current) {
+      await client.productPrice.update({ where: { id: current.id }, data: { validTo: validFrom } });
+    }
+    period = await client.productPrice.create({
+      data: { productId, egpPrice, validFrom, validTo: next?.validFrom ?? null }
+    });
+  }
+
+  const timeline = await client.productPrice.findMany({ where: { productId } });
+  await client.product.update({
+    where: { id: productId },
+    data: { egpPrice: priceInEffect(timeline, new Date()) ?? egpPrice }
+  });
+
+  return period;
+}
@@ -1,21 +1,24 @@
+import type { Product, ProductPrice } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
-import { PLATFORM_FEE_MULTIPLIER, CLIENT_COMMISSION_RATE, AED_USD_PEG } from "@/lib/constants";
-
-export { PLATFORM_FEE_MULTIPLIER, CLIENT_COMMISSION_RATE, AED_USD_PEG };
+import { AED_USD_PEG } from "@/lib/constants";
+import { getDailyRate } from "@/lib/daily-rates";
+import { getFeeTerms } from "@/lib/fee-schedules";
+import type { FeeTerms } from "@/lib/fee-terms";
 
 /**
- * Core payout formula:
+ * Core payout formula, with the venue's fee terms at the order's processedAt (1.035 and 0.0175 by default):
  *   aedBase    = EGP / aedEgpRate
- *   revenueUSD = (aedBase / AED_USD_PEG) * 1.035   — shown in Synvora as "Total order value"
- *   payoutAED  = aedBase * 0.9825                   — what the client receives
+ *   revenueUSD = (aedBase / AED_USD_PEG) * platformFeeMultiplier   — shown in Synvora as "Total order value"
+ *   payoutAED  = aedBase * (1 - commissionRate)                     — what the client receives
  */
 export function calculateAmountsFromEGP(
   egpAmount: number,
-  aedEgpRate: number
+  aedEgpRate: number,
+  terms: FeeTerms
 ): { revenueUSD: number; payoutAED: number; aedBase: number } {
   const aedBase = egpAmount / aedEgpRate;
-  const revenueUSD = Number(((aedBase / AED_USD_PEG) * PLATFORM_FEE_MULTIPLIER).toFixed(2));
-  const payoutAED = Number((aedBase * (1 - CLIENT_COMMISSION_RATE)).toFixed(2));
+  const revenueUSD = Number(((aedBase / AED_USD_PEG) * terms.platformFeeMultiplier).toFixed(2));
+  const payoutAED = Number((aedBase * (1 - terms.commissionRate)).toFixed(2));
   return { revenueUSD, payoutAED, aedBase };
 }
 
@@ -26,23 +29,140 @@ export const formatEGP = (amount: number): string => {
   }).format(amount);
 };
 
+export type PricingLineItem = {
+  productName: string;
+  quantity: number;
+  sku?: string | null;
+  shopifyProductId?: string | null;
+};
+
+export const PRODUCT_ALIAS_KINDS = ["shopify_id", "sku", "name"] as const;
+export type ProductAliasKind = (typeof PRODUCT_ALIAS_KINDS)[number];
+
+/** The form a line item identifier is compared in: names ignore case, IDs and SKUs only surrounding spaces */
+export const normalizeAliasValue = (kind: ProductAliasKind, value: string) =>
+  kind === "name" ? value.toLowerCase().trim() : value.trim();
+
+/** A line item's identifiers, most precise first */
+export const lineItemIdentifiers = (item: PricingLineItem) =>
+  (
+    [
+      ["shopify_id", item.shopifyProductId],
+      ["sku", item.sku],
+      ["name", item.productName]
+    ] as Array<[ProductAliasKind, string | null | undefined]>
+  )
+    .filter((entry): entry is [ProductAliasKind, string] => Boolean(entry[1]?.trim()))
+    .map(([kind, value]) => ({ kind, value: normalizeAliasValue(kind, value) }));
+
+export type ProductPricePeriod = Pick<ProductPrice, "egpPrice" | "validFrom" | "validTo">;
+
+/** The price period covering the moment, if any; validTo is exclusive */
+export const pricePeriodAt = <T extends ProductPricePeriod>(prices: T[], at: Date) =>
+  prices.find((price) => price.validFrom <= at && (!price.validTo || at < price.validTo));
+
 /**
- * Calculate EGP amount from line items using database product prices
+ * The EGP price in effect at the moment. Before a product's history starts, its first price applies,
+ * so orders from before the product was added still price.
+ */
+export function priceInEffect(prices: ProductPricePeriod[], at: Date) {
+  const period =
+    pricePeriodAt(prices, at) ??
+    [...prices].sort((a, b) => a.validFrom.getTime() - b.validFrom.getTime()).find((price) => at < price.validFrom);
+  return period?.egpPrice ?? null;
+}
+
+type MatchableProduct = Pick<Product, "name" | "sku" | "shopifyProductId" | "egpPrice"> & {
+  aliases?: Array<{ kind: string; value: string }>;
+  prices?: ProductPricePeriod[];
+};
+
+const productIdentifier = (product: MatchableProduct, kind: ProductAliasKind) => {
+  const value = kind === "shopify_id" ? product.shopifyProductId : kind === "sku" ? product.sku : product.name;
+  return value ? normalizeAliasValue(kind, value) : null;
+};
+
+/**
+ * Pair line items with catalog products: Shopify variant/product ID first (most precise), then SKU,
+ * then case-insensitive name. At each step a product's own identifier wins over an alias.
+ * Pure, so callers can load products (with their aliases) once for many orders.
+ */
+export function matchLineItemsToProducts<T extends PricingLineItem, P extends MatchableProduct>(
+  lineItems: T[],
+  products: P[]
+) {
+  const matched: Array<{ item: T; product: P }> = [];
+  const unmatched: T[] = [];
+
+  for (const item of lineItems) {
+    let matchedProduct: P | undefined;
+
+    for (const { kind, value } of lineItemIdentifiers(item)) {
+      matchedProduct =
+        products.find((p) => productIdentifier(p, kind) === value) ??
+        products.find((p) => p.aliases?.some((alias) => alias.kind === kind && alias.value === value));
+      if (matchedProduct) {
+        break;
+      }
+    }
+
+    if (matchedProduct) {
+      matched.push({ item, product: matchedProduct });
+    } else {
+      unmatched.push(item);
+    }
+  }
+
+  return { matched, unmatched };
+}
+
+export type LineItemPricing = {
+  productId: number | null;
+  egpUnitPrice: number | null;
+  egpTotal: number | null;
+};
+
+/**
+ * EGP pricing of each line item, in the same order, from the products it matches. With pricedAt, each product is
+ * priced from its history at that moment (products loaded without history fall back to their current price);
+ * without it, at the current price. total is null when any line is unmatched.
+ */
+export function priceLineItems<T extends PricingLineItem>(
+  lineItems: T[],
+  products: Array<MatchableProduct & { id: number }>,
+  pricedAt?: Date
+) {
+  const { matched, unmatched } = matchLineItemsToProducts(lineItems, products);
+  const productByItem = new Map(matched.map(({ item, product }) => [item, product]));
+
+  const items = lineItems.map((item): LineItemPricing => {
+    const product = productByItem.get(item);
+    if (!product) {
+      return { productId: null, egpUnitPrice: null, egpTotal: null };
+    }
+    const egpUnitPrice =
+      (pricedAt && product.prices ? priceInEffect(product.prices, pricedAt) : null) ?? product.egpPrice;
+    return { productId: product.id, egpUnitPrice, egpTotal: egpUnitPrice * item.quantity };
+  });
+
+  const total = unmatched.length ? null : items.reduce((sum, item) => sum + item.egpTotal!, 0);
+  return { items, unmatched, total };
+}
+
+/**
+ * Price line items against the venue's catalog, keeping what each line contributed.
  * @param lineItems - Array of order line items with SKU or product ID
  * @param venueId - The venue ID to fetch products for
- * @returns Total EGP amount or null if any product is not found
+ * @param pricedAt - When the order was placed; prices come from the history in effect then (default: current)
+ * @returns Per-line pricing, and the EGP total or null if any product is not found
  */
-export async function calculateEGPFromLineItems(
-  lineItems: Array<{
-    productName: string;
-    quantity: number;
-    sku?: string | null;
-    shopifyProductId?: string | null;
-  }>,
-  venueId: number
-): Promise<number | null> {
+export async function calculateLineItemPricing(
+  lineItems: PricingLineItem[],
+  venueId: number,
+  pricedAt?: Date
+): Promise<{ items: LineItemPricing[]; total: number | null }> {
   if (!lineItems.length) {
-    return 0;
+    return { items: [], total: 0 };
   }
 
   // Fetch all products for this venue
@@ -50,71 +170,52 @@ export async function calculateEGPFromLineItems(
     where: {
       venueId,
       active: true
-    }
+    },
+    include: { aliases: true, prices: Boolean(pricedAt) }
   });
 
   if (!products.length) {
     console.warn(`[Product Matching] ⚠️ No active products found for venue ${venueId}. Pricing calculations will fail.`);
-    return null;
   }
 
-  let totalEGP = 0;
-  const unmatchedItems: string[] = [];
-
-  for (const item of lineItems) {
-    let matchedProduct = null;
-
-    // 1. Try to match by Shopify ID first (now contains Variant ID - most precise)
-    if (item.shopifyProductId) {
-      matchedProduct = products.find((p) => p.shopifyProductId === item.shopifyProductId);
-    }
+  const { items, unmatched, total } = priceLineItems(lineItems, products, pricedAt);
 
-    // 2. Try to match by SKU if not matched yet
-    if (!matchedProduct && item.sku) {
-      const normalizedSku = item.sku.trim();
-      matchedProduct = products.find((p) => p.sku === normalizedSku);
-    }
-
-    // 3. Try to match by product name (case-insensitive, trimmed)
-    if (!matchedProduct) {
-      const normalizedName = item.productName.toLowerCase().trim();
-      matchedProduct = products.find(
-        (p) => p.name.toLowerCase().trim() === normalizedName
-      );
-    }
-
-    if (matchedProduct) {
-      totalEGP += matchedProduct.egpPrice * item.quantity;
-    } else {
-      console.error(`[Product Matching] ✗ NO MATCH for: ${item.productName} (SKU: ${item.sku || "N/A"}, Shopify ID: ${item.shopifyProductId || "N/A"})`);
-      unmatchedItems.push(
-        `${item.productName} (SKU: ${item.sku || "N/A"}, ID: ${item.shopifyProductId || "N/A"})`
-      );
-    }
-  }
-
-  // If any items couldn't be matched, return null to indicate incomplete calculation
-  if (unmatchedItems.length > 0) {
+  // If any items couldn't be matched, the total is null to indicate incomplete calculation
+  if (unmatched.length > 0 && products.length) {
     console.error(
-      `[Product Matching] FAILED: Could not match ${unmatchedItems.length} product(s) for venue ${venueId}:`,
-      unmatchedItems
+      `[Product Matching] FAILED: Could not match ${unmatched.length} product(s) for venue ${venueId}:`,
+      unmatched.map((item) => `${item.productName} (SKU: ${item.sku || "N/A"}, ID: ${item.shopifyProductId || "N/A"})`)
     );
-    return null;
   }
 
-  return totalEGP;
+  return { items, total };
+}
+
+/**
+ * Calculate EGP amount from line items using database product prices
+ * @returns Total EGP amount or null if any product is not found
+ */
+export async function calculateEGPFromLineItems(
+  lineItems: PricingLineItem[],
+  venueId: number,
+  pricedAt?: Date
+): Promise<number | null> {
+  return (await calculateLineItemPricing(lineItems, venueId, pricedAt)).total;
 }
 
 /**
  * Calculate order amounts from line items.
  * When aedEgpRate is provided (set during import review), full calculation is performed.
- * When not provided (fetch preview before rate is known), only EGP is resolved.
+ * When not provided, the venue's DailyRate ledger is consulted for rateDate; if the
+ * ledger has no entry either (fetch preview before rate is known), only EGP is resolved.
  *
  * @param lineItems     - Order line items
  * @param venueId       - Venue to look up product EGP prices for
  * @param shopifyUSD    - The total_price from Shopify in USD (used as custom-sale fallback)
  * @param aedEgpRate    - Daily AED/EGP rate set by admin (optional at fetch time)
- * @returns originalAmount (EGP), totalAmount (USD revenue), aedEgpRate used
+ * @param rateDate      - Business day ("YYYY-MM-DD") to look up in the DailyRate ledger
+ * @param pricedAt      - When the order was placed, to pick product prices and fee terms in effect then
+ * @returns originalAmount (EGP), totalAmount (USD revenue), aedEgpRate used, each line's catalog pricing and the fee terms applied
  */
 export async function calculateOrderAmounts(
   lineItems: Array<{
@@ -125,31 +226,38 @@ export async function calculateOrderAmounts(
   }>,
   venueId: number,
   shopifyUSD: number,
-  aedEgpRate?: number
+  aedEgpRate?: number,
+  rateDate?: string,
+  pricedAt?: Date
 ): Promise<{
   originalAmount: number | null;
   totalAmount: number;
+  aedEgpRate: number | null;
+  lineItemPricing: LineItemPricing[];
+  feeTerms: FeeTerms;
 }> {
-  const egpAmount = await calculateEGPFromLineItems(lineItems, venueId);
+  const { items: lineItemPricing, total: egpAmount } = await calculateLineItemPricing(lineItems, venueId, pricedAt);
+  const rate = aedEgpRate || (rateDate ? await getDailyRate(venueId, rateDate) : null);
+  const feeTerms = await getFeeTerms(venueId, pricedAt ?? new Date());
 
   // EGP resolved from product catalog
   if (egpAmount !== null) {
-    if (!aedEgpRate) {
+    if (!rate) {
       // Rate not yet known (fetch preview) — return EGP only, amounts calculated in dialog
-      return { originalAmount: egpAmount, totalAmount: 0 };
+      return { originalAmount: egpAmount, totalAmount: 0, aedEgpRate: null, lineItemPricing, feeTerms };
     }
-    const { revenueUSD } = calculateAmountsFromEGP(egpAmount, aedEgpRate);
-    return { originalAmount: egpAmount, totalAmount: revenueUSD };
+    const { revenueUSD } = calculateAmountsFromEGP(egpAmount, rate, feeTerms);
+    return { originalAmount: egpAmount, totalAmount: revenueUSD, aedEgpRate: rate, lineItemPricing, feeTerms };
   }
 
   // Custom sale — no product match
-  if (!aedEgpRate) {
+  if (!rate) {
     // Rate not yet known — mark as needing manual EGP entry
-    return { originalAmount: null, totalAmount: 0 };
+    return { originalAmount: null, totalAmount: 0, aedEgpRate: null, lineItemPricing, feeTerms };
   }
 
   // Derive EGP from Shopify USD: USD → AED (peg) → EGP (daily rate)
-  const derivedEGP = Number((shopifyUSD * AED_USD_PEG * aedEgpRate).toFixed(2));
-  const { revenueUSD } = calculateAmountsFromEGP(derivedEGP, aedEgpRate);
-  return { originalAmount: derivedEGP, totalAmount: revenueUSD };
+  const derivedEGP = Number((shopifyUSD * AED_USD_PEG * rate).toFixed(2));
+  const { revenueUSD } = calculateAmountsFromEGP(derivedEGP, rate, feeTerms);
+  return { originalAmount: derivedEGP, totalAmount: revenueUSD, aedEgpRate: rate, lineItemPricing, feeTerms };
 }
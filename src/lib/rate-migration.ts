@@ -0,0 +1,264 @@
+import type { Session } from "next-auth";
+import { prisma } from "./prisma";
+import { recordAuditEvents } from "./audit";
+import { syncLedger } from "./ledger";
+import { AED_USD_PEG } from "./constants";
+import { DEFAULT_EXCHANGE_RATE } from "./exchange-rate";
+import { calendarOf, loadBusinessCalendars, toBusinessDayKey } from "./business-calendar";
+import { calculatePayoutFromOrder, type OrderRateType } from "./order-rates";
+import { loadFeeTerms } from "./fee-schedules";
+import type { FeeTerms } from "./fee-terms";
+
+/** Legacy rates at or below this are AED/EGP; above it, USD/EGP */
+export const LEGACY_AED_RATE_MAX = 20;
+
+/** A legacy AED/EGP rate further than this from the venue's daily rate for the day needs review */
+const DAILY_RATE_TOLERANCE = 0.05;
+
+/** Orders rewritten per transaction when a migration is applied */
+const APPLY_BATCH_SIZE = 100;
+
+type LegacyOrder = {
+  originalAmount: number | null;
+  aedEgpRate: number | null;
+  exchangeRate: number;
+};
+
+export type RateClassification = {
+  rateType: OrderRateType;
+  aedEgpRate: number | null;
+  exchangeRate: number;
+  needsReview: boolean;
+  reason: string;
+};
+
+export type RateProposal = {
+  id: number;
+  orderNumber: string;
+  venueId: number;
+  venueName: string;
+  date: string; // business day
+  originalAmount: number | null;
+  current: { aedEgpRate: number | null; exchangeRate: number };
+  dailyRate: number | null;
+  proposed: RateClassification;
+  feeTerms: FeeTerms; // the venue's terms at processedAt
+  payoutBefore: number;
+  payoutAfter: number;
+};
+
+export type RateMigrationPlan = {
+  proposals: RateProposal[];
+  totals: { orders: number; review: number; payoutBefore: number; payoutAfter: number };
+};
+
+export type RateDecision = {
+  orderId: number;
+  rateType: OrderRateType;
+  rate: number; // aedEgpRate for AED_EGP, exchangeRate for USD_EGP
+};
+
+const round4 = (value: number) => Number(value.toFixed(4));
+
+const percentOff = (value: number, expected: number) => `${((Math.abs(value - expected) / expected) * 100).toFixed(1)}%`;
+
+/**
+ * Decide which rate a legacy order's payout should use. Older code paths stored an AED/EGP rate in exchangeRate
+ * (which otherwise holds USD/EGP, default 48.5) or a USD/EGP rate in aedEgpRate; the size of the number tells them
+ * apart. The venue's daily rate for the order's business day fills in orders that only have a USD/EGP rate.
+ * Anything that would change a payout on a guess is left for review.
+ */
+export function classifyLegacyRate(order: LegacyOrder, dailyRate: number | null): RateClassification {
+  // An AED/EGP rate kept in exchangeRate moves to aedEgpRate; exchangeRate gets the USD/EGP equivalent
+  const legacyAedInExchange = order.exchangeRate > 0 && order.exchangeRate <= LEGACY_AED_RATE_MAX;
+  const exchangeRate = legacyAedInExchange ? round4(order.exchangeRate * AED_USD_PEG) : order.exchangeRate;
+  const hasAed = typeof order.aedEgpRate === "number" && order.aedEgpRate > 0;
+
+  if (typeof order.originalAmount !== "number" || order.originalAmount <= 0) {
+    return {
+      rateType: "AED_EGP",
+      aedEgpRate: order.aedEgpRate,
+      exchangeRate,
+      needsReview: false,
+      reason: "No EGP amount, so nothing to pay out"
+    };
+  }
+
+  if (hasAed && order.aedEgpRate! <= LEGACY_AED_RATE_MAX) {
+    return {
+      rateType: "AED_EGP",
+      aedEgpRate: order.aedEgpRate,
+      exchangeRate,
+      needsReview: false,
+      reason: "AED/EGP rate already set"
+    };
+  }
+
+  if (hasAed) {
+    return {
+      rateType: "AED_EGP",
+      aedEgpRate: dailyRate ?? round4(order.aedEgpRate! / AED_USD_PEG),
+      exchangeRate,
+      needsReview: true,
+      reason:
+        `AED/EGP rate ${order.aedEgpRate} looks like a USD/EGP rate; ` +
+        (dailyRate !== null ? "proposing the day's rate" : "proposing it converted at the peg")
+    };
+  }
+
+  if (legacyAedInExchange) {
+    const offDaily = dailyRate !== null && Math.abs(order.exchangeRate - dailyRate) / dailyRate > DAILY_RATE_TOLERANCE;
+    return {
+      rateType: "AED_EGP",
+      aedEgpRate: order.exchangeRate,
+      exchangeRate,
+      needsReview: offDaily,
+      reason: offDaily
+        ? `AED/EGP rate ${order.exchangeRate} was kept as the exchange rate and is ${percentOff(order.exchangeRate, dailyRate!)} off the day's rate of ${dailyRate}`
+        : `AED/EGP rate ${order.exchangeRate} was kept as the exchange rate`
+    };
+  }
+
+  if (dailyRate !== null) {
+    return {
+      rateType: "AED_EGP",
+      aedEgpRate: dailyRate,
+      exchangeRate,
+      needsReview: false,
+      reason: "Only a USD/EGP rate; uses the venue's daily rate for the day"
+    };
+  }
+
+  return {
+    rateType: "USD_EGP",
+    aedEgpRate: null,
+    exchangeRate,
+    needsReview: true,
+    reason:
+      order.exchangeRate === DEFAULT_EXCHANGE_RATE
+        ? `No AED/EGP rate and no daily rate for the day; ${order.exchangeRate} is the default USD/EGP rate, not a recorded one`
+        : `No AED/EGP rate and no daily rate for the day; proposing its USD/EGP rate ${order.exchangeRate}`
+  };
+}
+
+async function loadLegacyOrders(orderIds?: number[]) {
+  const orders = await prisma.order.findMany({
+    where: { rateType: null, ...(orderIds ? { id: { in: orderIds } } : {}) },
+    select: {
+      id: true,
+      orderNumber: true,
+      venueId: true,
+      processedAt: true,
+      originalAmount: true,
+      rateType: true,
+      aedEgpRate: true,
+      exchangeRate: true,
+      venue: { select: { name: true } }
+    },
+    orderBy: [{ processedAt: "asc" }, { id: "asc" }]
+  });
+
+  const venueIds = Array.from(new Set(orders.map((order) => order.venueId)));
+  const [rates, feeTermsFor, calendars] = await Promise.all([
+    prisma.dailyRate.findMany({
+      where: { venueId: { in: venueIds } },
+      select: { venueId: true, date: true, aedEgpRate: true }
+    }),
+    loadFeeTerms(venueIds),
+    loadBusinessCalendars(venueIds)
+  ]);
+  const dateKeys = orders.map((order) => toBusinessDayKey(order.processedAt, calendarOf(calendars, order.venueId)));
+  const rateMap = new Map(rates.map((rate) => [`${rate.venueId}:${rate.date.toISOString().slice(0, 10)}`, rate.aedEgpRate]));
+
+  return orders.map((order, index): RateProposal => {
+    const dailyRate = rateMap.get(`${order.venueId}:${dateKeys[index]}`) ?? null;
+    const proposed = classifyLegacyRate(order, dailyRate);
+    const feeTerms = feeTermsFor(order.venueId, order.processedAt);
+    return {
+      id: order.id,
+      orderNumber: order.orderNumber,
+      venueId: order.venueId,
+      venueName: order.venue.name,
+      date: dateKeys[index],
+      originalAmount: order.originalAmount,
+      current: { aedEgpRate: order.aedEgpRate, exchangeRate: order.exchangeRate },
+      dailyRate,
+      proposed,
+      feeTerms,
+      payoutBefore: calculatePayoutFromOrder(order, feeTerms),
+      payoutAfter: calculatePayoutFromOrder({ originalAmount: order.originalAmount, ...proposed }, feeTerms)
+    };
+  });
+}
+
+/**
+ * Classify every order that has no rateType yet, trashed ones included, looking up each order's daily rate
+ * on its business day in its venue's calendar.
+ */
+export async function buildRateMigrationPlan(): Promise<RateMigrationPlan> {
+  const proposals = await loadLegacyOrders();
+
+  return {
+    proposals,
+    totals: {
+      orders: proposals.length,
+      review: proposals.filter((proposal) => proposal.proposed.needsReview).length,
+      payoutBefore: proposals.reduce((sum, proposal) => sum + proposal.payoutBefore, 0),
+      payoutAfter: proposals.reduce((sum, proposal) => sum + proposal.payoutAfter, 0)
+    }
+  };
+}
+
+/**
+ * Rewrite legacy orders with an explicit rateType: the reviewed decisions as given, and every order that needs no
+ * review as proposed when includeAutomatic. Orders classified in the meantime are skipped. USD revenue is left as
+ * it was charged; only the rate fields change. Returns the number of orders rewritten.
+ */
+export async function applyRateMigration(
+  decisions: RateDecision[],
+  includeAutomatic: boolean,
+  session: Session
+) {
+  const decided = new Map(decisions.map((decision) => [decision.orderId, decision]));
+  const proposals = await loadLegacyOrders(includeAutomatic ? undefined : Array.from(decided.keys()));
+
+  const updates = proposals.flatMap((proposal) => {
+    const decision = decided.get(proposal.id);
+    if (decision) {
+      const data =
+        decision.rateType === "AED_EGP"
+          ? { rateType: decision.rateType, aedEgpRate: decision.rate, exchangeRate: proposal.proposed.exchangeRate }
+          : { rateType: decision.rateType, aedEgpRate: proposal.current.aedEgpRate, exchangeRate: decision.rate };
+      return [{ proposal, data }];
+    }
+    if (includeAutomatic && !proposal.proposed.needsReview) {
+      const { rateType, aedEgpRate, exchangeRate } = proposal.proposed;
+      return [{ proposal, data: { rateType, aedEgpRate, exchangeRate } }];
+    }
+    return [];
+  });
+
+  for (let index = 0; index < updates.length; index += APPLY_BATCH_SIZE) {
+    const batch = updates.slice(index, index + APPLY_BATCH_SIZE);
+    await prisma.$transaction(async (tx) => {
+      for (const { proposal, data } of batch) {
+        await tx.order.update({ where: { id: proposal.id }, data });
+      }
+
+      await recordAuditEvents(
+        session,
+        batch.map(({ proposal, data }) => ({
+          action: "update" as const,
+          entityType: "Order" as const,
+          entityId: proposal.id,
+          before: { rateType: null, ...proposal.current },
+          after: data
+        })),
+        tx
+      );
+      await syncLedger({ orders: batch.map(({ proposal }) => proposal.id) }, tx);
+    });
+  }
+
+  return updates.length;
+}
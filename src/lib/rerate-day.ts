@@ -0,0 +1,161 @@
+import type { Session } from "next-auth";
+import { prisma } from "./prisma";
+import { recordAuditEvents } from "./audit";
+import { syncLedger } from "./ledger";
+import { AED_USD_PEG } from "./constants";
+import { calculatePayoutFromOrder } from "./order-utils";
+import { calculateAmountsFromEGP } from "./product-pricing";
+import { loadFeeTerms } from "./fee-schedules";
+import { getDailyRate } from "./daily-rates";
+import { getBusinessCalendar, getBusinessDayWindow, toUtcDate } from "./business-calendar";
+
+export type RerateOrderChange = {
+  id: number;
+  orderNumber: string;
+  customerName: string;
+  processedAt: string;
+  originalAmount: number | null;
+  before: { rateType: string | null; aedEgpRate: number | null; totalAmount: number; payout: number; payoutAED: number };
+  after: { aedEgpRate: number; totalAmount: number; payout: number; payoutAED: number } | null;
+};
+
+export type RerateDayPlan = {
+  venueId: number;
+  date: string;
+  aedEgpRate: number;
+  previousRate: number | null;
+  orders: RerateOrderChange[];
+  totals: {
+    before: { revenue: number; payout: number; payoutAED: number };
+    after: { revenue: number; payout: number; payoutAED: number };
+  };
+  skipped: number;
+};
+
+/**
+ * Work out what re-rating a venue's business day would do to its orders.
+ * Orders without an EGP amount cannot be re-rated and are left untouched.
+ */
+export async function buildRerateDayPlan(
+  venueId: number,
+  dateKey: string,
+  aedEgpRate: number
+): Promise<RerateDayPlan> {
+  const { start, end } = getBusinessDayWindow(dateKey, await getBusinessCalendar(venueId));
+
+  const [orders, previousRate, feeTerms] = await Promise.all([
+    prisma.order.findMany({
+      where: { venueId, deletedAt: null, processedAt: { gte: start, lte: end } },
+      select: {
+        id: true,
+        orderNumber: true,
+        customerName: true,
+        processedAt: true,
+        originalAmount: true,
+        rateType: true,
+        aedEgpRate: true,
+        exchangeRate: true,
+        totalAmount: true
+      },
+      orderBy: [{ processedAt: "asc" }, { id: "asc" }]
+    }),
+    getDailyRate(venueId, dateKey),
+    loadFeeTerms([venueId])
+  ]);
+
+  const totals = {
+    before: { revenue: 0, payout: 0, payoutAED: 0 },
+    after: { revenue: 0, payout: 0, payoutAED: 0 }
+  };
+  let skipped = 0;
+
+  const changes = orders.map((order): RerateOrderChange => {
+    const terms = feeTerms(venueId, order.processedAt);
+    const beforePayout = calculatePayoutFromOrder(order, terms);
+    const before = {
+      rateType: order.rateType,
+      aedEgpRate: order.aedEgpRate,
+      totalAmount: order.totalAmount,
+      payout: beforePayout,
+      payoutAED: beforePayout * AED_USD_PEG
+    };
+
+    let after: RerateOrderChange["after"] = null;
+    if (typeof order.originalAmount === "number" && order.originalAmount > 0) {
+      const { revenueUSD } = calculateAmountsFromEGP(order.originalAmount, aedEgpRate, terms);
+      const afterPayout = calculatePayoutFromOrder({
+        originalAmount: order.originalAmount,
+        rateType: "AED_EGP",
+        aedEgpRate
+      }, terms);
+      after = { aedEgpRate, totalAmount: revenueUSD, payout: afterPayout, payoutAED: afterPayout * AED_USD_PEG };
+    } else {
+      skipped++;
+    }
+
+    totals.before.revenue += before.totalAmount;
+    totals.before.payout += before.payout;
+    totals.before.payoutAED += before.payoutAED;
+    totals.after.revenue += after?.totalAmount ?? before.totalAmount;
+    totals.after.payout += after?.payout ?? before.payout;
+    totals.after.payoutAED += after?.payoutAED ?? before.payoutAED;
+
+    return {
+      id: order.id,
+      orderNumber: order.orderNumber,
+      customerName: order.customerName,
+      processedAt: order.processedAt.toISOString(),
+      originalAmount: order.originalAmount,
+      before,
+      after
+    };
+  });
+
+  return { venueId, date: dateKey, aedEgpRate, previousRate, orders: changes, totals, skipped };
+}
+
+/**
+ * Apply a re-rate plan: update every re-ratable order and the ledger entry in one transaction.
+ */
+export async function applyRerateDayPlan(plan: RerateDayPlan, session: Session) {
+  const updates = plan.orders.filter((order) => order.after !== null);
+
+  await prisma.$transaction(async (tx) => {
+    for (const order of updates) {
+      await tx.order.update({
+        where: { id: order.id },
+        data: {
+          rateType: "AED_EGP",
+          aedEgpRate: order.after!.aedEgpRate,
+          totalAmount: order.after!.totalAmount
+        }
+      });
+    }
+
+    await tx.dailyRate.upsert({
+      where: {
+        venueId_date: {
+          venueId: plan.venueId,
+          date: toUtcDate(plan.date)
+        }
+      },
+      update: { aedEgpRate: plan.aedEgpRate },
+      create: { venueId: plan.venueId, date: toUtcDate(plan.date), aedEgpRate: plan.aedEgpRate }
+    });
+
+    await recordAuditEvents(
+      session,
+      updates.map((order) => ({
+        action: "update" as const,
+        entityType: "Order" as const,
+        entityId: order.id,
+        before: { rateType: order.before.rateType, aedEgpRate: order.before.aedEgpRate, totalAmount: order.before.totalAmount },
+        after: { rateType: "AED_EGP", aedEgpRate: order.after!.aedEgpRate, totalAmount: order.after!.totalAmount }
+      })),
+      tx
+    );
+    await syncLedger({ orders: updates.map((order) => order.id) }, tx);
+  });
+
+  return updates.length;
+}
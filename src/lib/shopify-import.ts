@@ -0,0 +1,100 @@
+import type { Order } from "@prisma/client";
+import type { Session } from "next-auth";
+import { prisma } from "./prisma";
+import { transformShopifyOrders } from "./shopify";
+import { syncLedger } from "./ledger";
+import { recordAuditEvent } from "./audit";
+
+type ImportOptions = {
+  session?: Session | null; // null when an auto-approve rule imports
+};
+
+/**
+ * Turn queued Shopify orders into Orders for a venue and take them off the queue.
+ * Shared by manual approval on Pending Imports and by auto-approve rules; one failing order doesn't stop the rest.
+ */
+export async function importQueuedShopifyOrders(
+  queueIds: number[],
+  venueId: number,
+  { session = null }: ImportOptions = {}
+) {
+  const queuedOrders = await prisma.shopifyImportQueue.findMany({
+    where: { id: { in: queueIds } }
+  });
+
+  const domains = [...new Set(queuedOrders.map((o) => o.storeDomain))];
+  const stores = await prisma.shopifyStore.findMany({
+    where: { storeDomain: { in: domains } }
+  });
+
+  const storeMap = new Map(stores.map((s) => [s.storeDomain, s.id]));
+
+  const imported: Order[] = [];
+  const successfulIds: number[] = [];
+  const errors: string[] = [];
+
+  for (const queueItem of queuedOrders) {
+    const storeId = storeMap.get(queueItem.storeDomain);
+    if (!storeId) {
+      const msg = `Store not found for domain: ${queueItem.storeDomain} (Order ID: ${queueItem.id})`;
+      console.error(msg);
+      errors.push(msg);
+      continue;
+    }
+
+    try {
+      // queueItem.orderData is the raw shopify object.
+      const rawOrder = queueItem.orderData as any;
+
+      // Transform single order
+      const [transformed] = await transformShopifyOrders([rawOrder], venueId, storeId);
+
+      if (transformed) {
+        // Create the Order in DB (shopifyUSD and feeTerms are preview-only and not persisted)
+        const { shopifyUSD: _shopifyUSD, feeTerms: _feeTerms, ...orderFields } = transformed;
+        const orderData = {
+          ...orderFields,
+          tags: Array.isArray(transformed.tags) ? transformed.tags.join(", ") : transformed.tags || "",
+          rateType: "AED_EGP",
+          shopifyStoreId: storeId,
+          venueId: venueId
+        };
+
+        const { lineItems, ...rest } = orderData;
+
+        const createdOrder = await prisma.order.create({
+          data: {
+            ...rest,
+            lineItems: {
+              create: lineItems
+            }
+          }
+        });
+        await recordAuditEvent(session, {
+          action: "create",
+          entityType: "Order",
+          entityId: createdOrder.id,
+          after: createdOrder
+        });
+        imported.push(createdOrder);
+        successfulIds.push(queueItem.id);
+      } else {
+        errors.push(`Transformation failed for Order ID: ${queueItem.id}`);
+      }
+    } catch (err: any) {
+      console.error(`Error processing order ${queueItem.id}:`, err);
+      errors.push(`Error processing Order ID ${queueItem.id}: ${err.message}`);
+    }
+  }
+
+  await syncLedger({ orders: imported.map((order) => order.id) });
+
+  // Delete ONLY successfully imported orders from Queue
+  if (successfulIds.length > 0) {
+    await prisma.shopifyImportQueue.deleteMany({
+      where: { id: { in: successfulIds } }
+    });
+  }
+
+  return { found: queuedOrders.length, imported, errors };
+}
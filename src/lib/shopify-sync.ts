@@ -0,0 +1,198 @@
+import { prisma } from "./prisma";
+import { decrypt } from "./encryption";
+import { fetchShopifyOrders, type ShopifyOrder } from "./shopify";
+import { autoApproveQueuedOrder } from "./auto-approve";
+import { classifyQueuedOrders } from "./import-queue";
+
+export type ShopifySyncTrigger = "cron" | "manual";
+
+// A store with nothing imported yet starts this far back instead of pulling its whole history
+const BOOTSTRAP_LOOKBACK_DAYS = 7;
+
+// A run still "running" after this long is assumed to have died with its function
+const STALE_RUN_MINUTES = 15;
+
+// Cron ticks land a little before the interval is fully up; don't push those stores to the next tick
+const SCHEDULE_SLACK_MS = 60 * 1000;
+
+type QueueResult = "queued" | "updated" | "imported" | "approved";
+
+/**
+ * Put a Shopify order into the pending import queue unless it is already an Order (trashed ones included).
+ * Orders already waiting in the queue get their payload refreshed. Either way the entry is re-classified and the
+ * store's auto-approve rule applied, which may import the order straight away ("approved").
+ */
+export async function queueShopifyOrder(storeDomain: string, order: ShopifyOrder): Promise<QueueResult> {
+  const shopifyOrderId = String(order.id);
+
+  const existingOrder = await prisma.order.findFirst({
+    where: { externalId: shopifyOrderId },
+    select: { id: true }
+  });
+
+  if (existingOrder) {
+    return "imported";
+  }
+
+  const fields = {
+    orderData: order as unknown as object,
+    totalAmount: parseFloat(order.total_price),
+    currency: order.currency,
+    financialStatus: order.financial_status ?? null
+  };
+
+  const queued = await prisma.shopifyImportQueue.findUnique({
+    where: { shopifyOrderId },
+    select: { id: true }
+  });
+
+  const entry = await prisma.shopifyImportQueue.upsert({
+    where: { shopifyOrderId },
+    update: { ...fields, updatedAt: new Date() },
+    create: {
+      ...fields,
+      shopifyOrderId,
+      storeDomain,
+      orderNumber: String(order.order_number)
+    }
+  });
+
+  await classifyQueuedOrders([entry]);
+
+  if ((await autoApproveQueuedOrder(entry.id)) === "imported") {
+    return "approved";
+  }
+
+  return queued ? "updated" : "queued";
+}
+
+// Highest Shopify order id the app already knows about for this store
+async function findKnownSinceId(store: { id: number; storeDomain: string }) {
+  const [orders, queue] = await Promise.all([
+    prisma.order.findMany({
+      where: { shopifyStoreId: store.id, externalId: { not: null } },
+      select: { externalId: true }
+    }),
+    prisma.shopifyImportQueue.findMany({
+      where: { storeDomain: store.storeDomain },
+      select: { shopifyOrderId: true }
+    })
+  ]);
+
+  const ids = [...orders.map((order) => order.externalId), ...queue.map((entry) => entry.shopifyOrderId)]
+    .filter((id): id is string => Boolean(id) && /^\d+$/.test(id as string))
+    .map((id) => BigInt(id));
+
+  return ids.length ? ids.reduce((max, id) => (id > max ? id : max)).toString() : null;
+}
+
+/**
+ * Poll one store for orders newer than its cursor and drop them into the import queue.
+ * Every run is recorded, including failures; returns the finished run.
+ */
+export async function runShopifySync(storeId: number, trigger: ShopifySyncTrigger) {
+  const store = await prisma.shopifyStore.findUnique({ where: { id: storeId } });
+  if (!store) {
+    throw new Error(`Shopify store ${storeId} not found`);
+  }
+
+  const running = await prisma.shopifySyncRun.findFirst({
+    where: {
+      storeId,
+      status: "running",
+      startedAt: { gt: new Date(Date.now() - STALE_RUN_MINUTES * 60 * 1000) }
+    }
+  });
+  if (running) {
+    return running;
+  }
+
+  const sinceId = store.syncSinceId ?? (await findKnownSinceId(store));
+  const run = await prisma.shopifySyncRun.create({
+    data: { storeId, trigger, sinceId }
+  });
+
+  try {
+    const orders = await fetchShopifyOrders({
+      storeDomain: store.storeDomain,
+      accessToken: decrypt(store.accessToken),
+      ...(sinceId
+        ? { sinceId }
+        : { createdAtMin: new Date(Date.now() - BOOTSTRAP_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString() })
+    });
+
+    let queued = 0;
+    let skipped = 0;
+    let cursor = sinceId ? BigInt(sinceId) : null;
+
+    for (const order of orders) {
+      const result = await queueShopifyOrder(store.storeDomain, order);
+      if (result === "queued" || result === "approved") {
+        queued++;
+      } else {
+        skipped++;
+      }
+
+      const id = BigInt(order.id);
+      if (cursor === null || id > cursor) {
+        cursor = id;
+      }
+    }
+
+    const finishedAt = new Date();
+    const [finished] = await prisma.$transaction([
+      prisma.shopifySyncRun.update({
+        where: { id: run.id },
+        data: { status: "success", fetched: orders.length, queued, skipped, finishedAt }
+      }),
+      prisma.shopifyStore.update({
+        where: { id: storeId },
+        data: { syncSinceId: cursor?.toString() ?? null, lastSyncedAt: finishedAt }
+      })
+    ]);
+
+    return finished;
+  } catch (error) {
+    console.error(`Shopify sync failed for ${store.storeDomain}:`, error);
+    const finishedAt = new Date();
+
+    // Failed runs still count as an attempt so a broken store is retried on its interval, not every tick
+    const [finished] = await prisma.$transaction([
+      prisma.shopifySyncRun.update({
+        where: { id: run.id },
+        data: {
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt
+        }
+      }),
+      prisma.shopifyStore.update({
+        where: { id: storeId },
+        data: { lastSyncedAt: finishedAt }
+      })
+    ]);
+
+    return finished;
+  }
+}
+
+/** Run every enabled store whose interval has elapsed, one after another */
+export async function runDueShopifySyncs(now = new Date()) {
+  const stores = await prisma.shopifyStore.findMany({
+    where: { syncEnabled: true },
+    select: { id: true, syncIntervalMinutes: true, lastSyncedAt: true }
+  });
+
+  const due = stores.filter(
+    (store) =>
+      !store.lastSyncedAt ||
+      store.lastSyncedAt.getTime() + store.syncIntervalMinutes * 60 * 1000 - SCHEDULE_SLACK_MS <= now.getTime()
+  );
+
+  const runs = [];
+  for (const store of due) {
+    runs.push(await runShopifySync(store.id, "cron"));
+  }
+
+  return runs;
+}
@@ -0,0 +1,409 @@
+import crypto from "crypto";
+import type { Session } from "next-auth";
+import { prisma } from "./prisma";
+import { decrypt } from "./encryption";
+import { recordAuditEvent } from "./audit";
+import { syncLedger } from "./ledger";
+import { calculateAmountsFromEGP, calculateLineItemPricing } from "./product-pricing";
+import { getFeeTerms } from "./fee-schedules";
+import { resolveAedEgpRate } from "./order-rates";
+import {
+  createShopifyWebhook,
+  fetchShopifyOrder,
+  fetchShopifyWebhooks,
+  titleCase,
+  type ShopifyOrder,
+  type ShopifyWebhookSubscription
+} from "./shopify";
+import { queueShopifyOrder } from "./shopify-sync";
+
+export const SHOPIFY_WEBHOOK_TOPICS = [
+  "orders/create",
+  "orders/updated",
+  "orders/cancelled",
+  "orders/edited",
+  "refunds/create"
+] as const;
+export type ShopifyWebhookTopic = (typeof SHOPIFY_WEBHOOK_TOPICS)[number];
+
+export const WEBHOOK_DELIVERY_STATUSES = ["received", "processed", "ignored", "failed", "rejected"] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export const isShopifyWebhookTopic = (topic: string): topic is ShopifyWebhookTopic =>
+  (SHOPIFY_WEBHOOK_TOPICS as readonly string[]).includes(topic);
+
+export type WebhookHmacStatus = "verified" | "invalid" | "missing" | "unchecked";
+
+type WebhookStore = { storeDomain: string; accessToken: string };
+
+function verifyShopifyHmac(body: string, hmac: string, secret: string): boolean {
+  const generatedHash = crypto.createHmac("sha256", secret).update(body, "utf8").digest("base64");
+  // Use timingSafeEqual to prevent timing attacks
+  try {
+    return crypto.timingSafeEqual(Buffer.from(generatedHash), Buffer.from(hmac));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a delivery's signature with the store's own webhook secret (custom apps each sign with their
+ * API secret), falling back to the shared SHOPIFY_WEBHOOK_SECRET. With neither set it is "unchecked",
+ * and the delivery is rejected until a secret is configured.
+ */
+export async function verifyShopifyWebhook(
+  rawBody: string,
+  hmac: string | null,
+  shopDomain: string | null
+): Promise<WebhookHmacStatus> {
+  if (!hmac) {
+    return "missing";
+  }
+
+  const store = shopDomain
+    ? await prisma.shopifyStore.findUnique({ where: { storeDomain: shopDomain }, select: { webhookSecret: true } })
+    : null;
+  const secret = store?.webhookSecret ? decrypt(store.webhookSecret) : process.env.SHOPIFY_WEBHOOK_SECRET;
+
+  if (!secret) {
+    return "unchecked";
+  }
+
+  return verifyShopifyHmac(rawBody, hmac, secret) ? "verified" : "invalid";
+}
+
+// Sub-cent differences are rounding, not refunds
+const REFUND_EPSILON = 0.005;
+
+/** Successful refund transactions on the order, in shop currency */
+const sumRefunds = (order: ShopifyOrder) =>
+  (order.refunds ?? [])
+    .flatMap((refund) => refund.transactions ?? [])
+    .filter((transaction) => transaction.kind === "refund" && transaction.status === "success")
+    .reduce((total, transaction) => total + Number(transaction.amount || 0), 0);
+
+// Refund and edit payloads don't carry the whole order, so read it back from Shopify
+async function resolveShopifyOrder(store: WebhookStore, topic: ShopifyWebhookTopic, payload: any): Promise<ShopifyOrder> {
+  if (topic === "refunds/create" || topic === "orders/edited") {
+    const orderId = topic === "refunds/create" ? payload.order_id : payload.order_edit?.order_id;
+    if (!orderId) {
+      throw new Error(`${topic} payload has no order id`);
+    }
+    return fetchShopifyOrder({
+      storeDomain: store.storeDomain,
+      accessToken: decrypt(store.accessToken),
+      orderId: String(orderId)
+    });
+  }
+
+  return payload as ShopifyOrder;
+}
+
+/**
+ * Bring an imported order in line with Shopify after an update, cancellation, refund or edit.
+ * - Statuses follow Shopify; a cancelled or fully refunded order is closed.
+ * - New refunds shrink the EGP amount by the refunded share of what was still unrefunded.
+ * - Edits re-price the order from its current line items when every product matches the catalog.
+ * The change is audited (as the system, or the admin replaying the delivery) and posted to the venue ledger.
+ * Returns false when nothing changed.
+ */
+async function applyShopifyOrderChange(
+  orderId: number,
+  shopifyOrder: ShopifyOrder,
+  topic: ShopifyWebhookTopic,
+  session: Session | null
+) {
+  const existing = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { lineItems: true }
+  });
+  if (!existing) {
+    return false;
+  }
+
+  const financialStatus = shopifyOrder.financial_status ?? null;
+  const refundedTotal = sumRefunds(shopifyOrder);
+  const cancelled = Boolean(shopifyOrder.cancelled_at);
+  let originalAmount = existing.originalAmount;
+
+  const currentItems =
+    topic === "orders/edited"
+      ? shopifyOrder.line_items
+          .map((item) => ({ ...item, quantity: item.current_quantity ?? item.quantity }))
+          .filter((item) => item.quantity > 0)
+          .map((item) => ({
+            productName: item.name,
+            quantity: item.quantity,
+            sku: item.sku ?? null,
+            shopifyProductId: item.variant_id ? String(item.variant_id) : item.product_id ? String(item.product_id) : null,
+            price: Number(item.price ?? 0),
+            total: Number(item.price ?? 0) * item.quantity
+          }))
+      : null;
+
+  // Current quantities already leave out refunded items
+  const pricing = currentItems
+    ? await calculateLineItemPricing(currentItems, existing.venueId, existing.processedAt)
+    : null;
+
+  if (financialStatus === "refunded" || financialStatus === "voided") {
+    originalAmount = 0;
+  } else if (pricing) {
+    if (pricing.total !== null) {
+      originalAmount = pricing.total;
+    } else {
+      console.warn(`Order ${existing.orderNumber} was edited in Shopify but could not be re-priced from the catalog`);
+    }
+  } else if (refundedTotal > existing.refundedAmount + REFUND_EPSILON && originalAmount !== null) {
+    const unrefunded = Number(shopifyOrder.total_price || 0) - existing.refundedAmount;
+    const share = unrefunded > 0 ? Math.min(1, (refundedTotal - existing.refundedAmount) / unrefunded) : 1;
+    originalAmount = Number((originalAmount * (1 - share)).toFixed(2));
+  }
+
+  const rate = resolveAedEgpRate(existing);
+  const totalAmount =
+    originalAmount !== null && rate
+      ? calculateAmountsFromEGP(
+          originalAmount,
+          rate,
+          await getFeeTerms(existing.venueId, existing.processedAt)
+        ).revenueUSD
+      : existing.totalAmount;
+  const closed = cancelled || financialStatus === "refunded";
+
+  const data = {
+    financialStatus: financialStatus ? titleCase(financialStatus) : existing.financialStatus,
+    fulfillmentStatus: shopifyOrder.fulfillment_status
+      ? titleCase(shopifyOrder.fulfillment_status)
+      : existing.fulfillmentStatus,
+    status: closed ? "Closed" : existing.status,
+    closedAt: closed ? existing.closedAt ?? new Date(shopifyOrder.cancelled_at ?? Date.now()) : existing.closedAt,
+    originalAmount,
+    totalAmount,
+    refundedAmount: Math.max(existing.refundedAmount, refundedTotal)
+  };
+
+  // orders/updated also fires for changes we don't track, e.g. tags or fulfillment notes
+  const unchanged =
+    !currentItems &&
+    (Object.keys(data) as Array<keyof typeof data>).every((key) => {
+      const before = existing[key];
+      const after = data[key];
+      return before instanceof Date && after instanceof Date ? before.getTime() === after.getTime() : before === after;
+    });
+  if (unchanged) {
+    return false;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const saved = await tx.order.update({
+      where: { id: orderId },
+      data
+    });
+
+    if (currentItems) {
+      await tx.orderLineItem.deleteMany({ where: { orderId } });
+      if (currentItems.length) {
+        await tx.orderLineItem.createMany({
+          data: currentItems.map((item, index) => ({
+            orderId,
+            productName: item.productName,
+            quantity: item.quantity,
+            sku: item.sku,
+            shopifyProductId: item.shopifyProductId,
+            price: item.price,
+            total: item.total,
+            ...pricing?.items[index]
+          }))
+        });
+      }
+    }
+
+    await recordAuditEvent(
+      session,
+      {
+        action: "update",
+        entityType: "Order",
+        entityId: orderId,
+        before: existing,
+        after: { ...saved, webhookTopic: topic }
+      },
+      tx
+    );
+    await syncLedger({ orders: [orderId] }, tx);
+  });
+
+  return true;
+}
+
+/**
+ * Route a verified webhook by topic. Orders not imported yet only have their queue entry refreshed
+ * (new ones are queued on create/update); imported orders get the change applied.
+ * Returns a short message for the webhook response.
+ */
+export async function handleShopifyWebhook(
+  store: WebhookStore,
+  topic: ShopifyWebhookTopic,
+  payload: any,
+  session: Session | null = null
+) {
+  const shopifyOrder = await resolveShopifyOrder(store, topic, payload);
+  const shopifyOrderId = String(shopifyOrder.id);
+
+  const order = await prisma.order.findFirst({
+    where: { externalId: shopifyOrderId },
+    select: { id: true }
+  });
+
+  if (!order) {
+    if (topic === "orders/create" || topic === "orders/updated") {
+      const result = await queueShopifyOrder(store.storeDomain, shopifyOrder);
+      return result === "approved" ? "Order auto-approved and imported" : "Order queued for import";
+    }
+
+    const { count } = await prisma.shopifyImportQueue.updateMany({
+      where: { shopifyOrderId },
+      data: {
+        orderData: shopifyOrder as unknown as object,
+        totalAmount: parseFloat(shopifyOrder.total_price),
+        financialStatus: shopifyOrder.financial_status ?? null
+      }
+    });
+    return count ? "Queued order refreshed" : "Order not imported";
+  }
+
+  if (topic === "orders/create") {
+    return "Order already imported";
+  }
+
+  const changed = await applyShopifyOrderChange(order.id, shopifyOrder, topic, session);
+  return changed ? "Order updated" : "No changes";
+}
+
+/**
+ * Run a logged delivery through the handler and record the outcome on it.
+ * Used for live deliveries and for replays; signature checks happen before a delivery gets here.
+ * `error` is only set when the handler threw, which is what Shopify should retry.
+ */
+export async function processShopifyWebhookDelivery(deliveryId: number, session: Session | null = null) {
+  const delivery = await prisma.shopifyWebhookDelivery.findUnique({ where: { id: deliveryId } });
+  if (!delivery) {
+    throw new Error(`Webhook delivery ${deliveryId} not found`);
+  }
+
+  const finish = (status: WebhookDeliveryStatus, message: string | null, error: string | null = null) =>
+    prisma.shopifyWebhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status, message, error, processedAt: new Date() }
+    });
+
+  if (!isShopifyWebhookTopic(delivery.topic)) {
+    return finish("ignored", "Topic ignored");
+  }
+
+  const store = delivery.shopDomain
+    ? await prisma.shopifyStore.findUnique({ where: { storeDomain: delivery.shopDomain } })
+    : null;
+  if (!store) {
+    console.error(`Received webhook for unknown store: ${delivery.shopDomain}`);
+    // Not an exception, so the endpoint still acknowledges it; replay once the store has been added
+    return finish("failed", "Store not found");
+  }
+
+  try {
+    const message = await handleShopifyWebhook(store, delivery.topic, JSON.parse(delivery.rawBody), session);
+    return finish("processed", message);
+  } catch (error) {
+    console.error(`Webhook delivery ${deliveryId} (${delivery.topic}) failed:`, error);
+    return finish("failed", null, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** Where Shopify should deliver webhooks for this deployment */
+export const getShopifyWebhookAddress = () =>
+  `${(process.env.NEXTAUTH_URL ?? "http://localhost:3000").replace(/\/$/, "")}/api/webhooks/shopify`;
+
+export type WebhookDrift = {
+  topic: string;
+  issue: "missing" | "other_address" | "not_json" | "unhandled_topic";
+  detail: string;
+};
+
+export type WebhookRegistrationReport = {
+  address: string;
+  subscriptions: ShopifyWebhookSubscription[];
+  drift: WebhookDrift[];
+  created: string[];
+  errors: Array<{ topic: string; message: string }>;
+};
+
+/**
+ * Compare a store's subscriptions against the topics we handle at this deployment's address.
+ * Subscriptions pointing elsewhere (an old deployment, another environment) are reported, never touched.
+ */
+const findWebhookDrift = (subscriptions: ShopifyWebhookSubscription[], address: string): WebhookDrift[] => {
+  const drift: WebhookDrift[] = [];
+
+  for (const topic of SHOPIFY_WEBHOOK_TOPICS) {
+    const forTopic = subscriptions.filter((subscription) => subscription.topic === topic);
+    const ours = forTopic.find((subscription) => subscription.address === address);
+
+    if (ours && ours.format !== "json") {
+      drift.push({ topic, issue: "not_json", detail: `Delivered as ${ours.format}` });
+    } else if (!ours && forTopic.length) {
+      drift.push({
+        topic,
+        issue: "other_address",
+        detail: `Delivered to ${forTopic.map((subscription) => subscription.address).join(", ")}`
+      });
+    } else if (!ours) {
+      drift.push({ topic, issue: "missing", detail: "Not subscribed" });
+    }
+  }
+
+  for (const subscription of subscriptions) {
+    if (subscription.address === address && !isShopifyWebhookTopic(subscription.topic)) {
+      drift.push({ topic: subscription.topic, issue: "unhandled_topic", detail: "Delivered here but ignored" });
+    }
+  }
+
+  return drift;
+};
+
+/**
+ * List a store's webhook subscriptions and how they differ from what we need.
+ * With `register`, missing topics are subscribed first; failures are reported per topic.
+ */
+export async function getShopifyWebhookRegistration(
+  store: WebhookStore,
+  { register = false }: { register?: boolean } = {}
+): Promise<WebhookRegistrationReport> {
+  const credentials = { storeDomain: store.storeDomain, accessToken: decrypt(store.accessToken) };
+  const address = getShopifyWebhookAddress();
+  const created: string[] = [];
+  const errors: WebhookRegistrationReport["errors"] = [];
+
+  let subscriptions = await fetchShopifyWebhooks(credentials);
+
+  if (register) {
+    // Shopify refuses a second subscription for the same topic and address, so only fill real gaps
+    const missing = SHOPIFY_WEBHOOK_TOPICS.filter(
+      (topic) => !subscriptions.some((subscription) => subscription.topic === topic && subscription.address === address)
+    );
+
+    for (const topic of missing) {
+      try {
+        await createShopifyWebhook({ ...credentials, topic, address });
+        created.push(topic);
+      } catch (error) {
+        errors.push({ topic, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    if (created.length) {
+      subscriptions = await fetchShopifyWebhooks(credentials);
+    }
+  }
+
+  return { address, subscriptions, drift: findWebhookDrift(subscriptions, address), created, errors };
+}
@@ -1,8 +1,17 @@
 import { calculateOrderAmounts } from "./product-pricing";
+import { getBusinessCalendar, toBusinessDayKey } from "./business-calendar";
 
 export const SHOPIFY_API_VERSION = "2025-10";
 
-type ShopifyOrder = {
+export type ShopifyCustomer = {
+  id?: number | null;
+  email?: string | null;
+  phone?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+};
+
+export type ShopifyOrder = {
   id: number;
   name: string;
   order_number: number;
@@ -14,10 +23,8 @@ type ShopifyOrder = {
   tags?: string;
   financial_status?: string | null;
   fulfillment_status?: string | null;
-  customer?: {
-    first_name?: string | null;
-    last_name?: string | null;
-  } | null;
+  cancelled_at?: string | null;
+  customer?: ShopifyCustomer | null;
   billing_address?: {
     city?: string | null;
     country?: string | null;
@@ -35,6 +42,11 @@ type ShopifyOrder = {
     sku?: string | null;
     price: string;
     total_discount?: string;
+    current_quantity?: number; // quantity after edits and refunds
+  }>;
+  refunds?: Array<{
+    id: number;
+    transactions?: Array<{ kind: string; status: string; amount: string }>;
   }>;
 };
 
@@ -93,12 +105,157 @@ export async function fetchShopifyOrders({
   return allOrders;
 }
 
-export async function transformShopifyOrders(orders: ShopifyOrder[], venueId: number, shopifyStoreId?: number) {
+/** Fetch a single order, e.g. to get the full picture after a refund or edit webhook */
+export async function fetchShopifyOrder({
+  storeDomain,
+  accessToken,
+  orderId
+}: {
+  storeDomain: string;
+  accessToken: string;
+  orderId: string;
+}) {
+  const response = await fetch(`https://${storeDomain}/admin/api/${SHOPIFY_API_VERSION}/orders/${orderId}.json`, {
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken
+    },
+    cache: "no-store"
+  });
+
+  if (!response.ok) {
+    const message = await response.text();
+    throw new Error(`Shopify request failed: ${response.status} ${message}`);
+  }
+
+  const data = (await response.json()) as { order: ShopifyOrder };
+  return data.order;
+}
+
+export type ShopifyWebhookSubscription = {
+  id: number;
+  topic: string;
+  address: string;
+  format: string;
+  api_version?: string;
+  created_at?: string;
+};
+
+/** Webhook subscriptions the access token's app has registered on the store */
+export async function fetchShopifyWebhooks({ storeDomain, accessToken }: { storeDomain: string; accessToken: string }) {
+  const response = await fetch(`https://${storeDomain}/admin/api/${SHOPIFY_API_VERSION}/webhooks.json?limit=250`, {
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken
+    },
+    cache: "no-store"
+  });
+
+  if (!response.ok) {
+    const message = await response.text();
+    throw new Error(`Shopify request failed: ${response.status} ${message}`);
+  }
+
+  const data = (await response.json()) as { webhooks: ShopifyWebhookSubscription[] };
+  return data.webhooks;
+}
+
+export async function createShopifyWebhook({
+  storeDomain,
+  accessToken,
+  topic,
+  address
+}: {
+  storeDomain: string;
+  accessToken: string;
+  topic: string;
+  address: string;
+}) {
+  const response = await fetch(`https://${storeDomain}/admin/api/${SHOPIFY_API_VERSION}/webhooks.json`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Shopify-Access-Token": accessToken
+    },
+    body: JSON.stringify({ webhook: { topic, address, format: "json" } }),
+    cache: "no-store"
+  });
+
+  if (!response.ok) {
+    const message = await response.text();
+    throw new Error(`Shopify request failed: ${response.status} ${message}`);
+  }
+
+  const data = (await response.json()) as { webhook: ShopifyWebhookSubscription };
+  return data.webhook;
+}
+
+export type ShopifyProduct = {
+  id: number;
+  title: string;
+  status: string; // active | archived | draft
+  variants: Array<{
+    id: number;
+    product_id: number;
+    title: string;
+    sku: string | null;
+    price: string;
+  }>;
+};
+
+/** Every product on the store, whatever its status, with its variants */
+export async function fetchShopifyProducts({ storeDomain, accessToken }: { storeDomain: string; accessToken: string }) {
+  let allProducts: ShopifyProduct[] = [];
+  let nextUrl: string | null = `https://${storeDomain}/admin/api/${SHOPIFY_API_VERSION}/products.json?limit=250&status=active,archived,draft`;
+
+  while (nextUrl) {
+    const response: Response = await fetch(nextUrl, {
+      headers: {
+        "Content-Type": "application/json",
+        "X-Shopify-Access-Token": accessToken
+      },
+      cache: "no-store"
+    });
+
+    if (!response.ok) {
+      const message = await response.text();
+      throw new Error(`Shopify request failed: ${response.status} ${message}`);
+    }
+
+    const data = (await response.json()) as { products: ShopifyProduct[] };
+    allProducts = allProducts.concat(data.products);
+
+    // Parse Link header for pagination
+    const linkHeader = response.headers.get("Link");
+    nextUrl = null;
+    if (linkHeader) {
+      const links: string[] = linkHeader.split(",");
+      const nextLink: string | undefined = links.find(link => link.includes('rel="next"'));
+      if (nextLink) {
+        const match: RegExpMatchArray | null = nextLink.match(/<(.*)>/);
+        if (match) nextUrl = match[1];
+      }
+    }
+  }
+
+  return allProducts;
+}
+
+export const formatShopifyCustomerName = (customer?: ShopifyCustomer | null) =>
+  customer
+    ? [customer.first_name, customer.last_name].filter(Boolean).join(" ") || "No Customer"
+    : "No Customer";
+
+export async function transformShopifyOrders(
+  orders: ShopifyOrder[],
+  venueId: number,
+  shopifyStoreId?: number
+) {
+  const calendar = await getBusinessCalendar(venueId);
+
   return Promise.all(
     orders.map(async (order) => {
-      const customerName = order.customer
-        ? [order.customer.first_name, order.customer.last_name].filter(Boolean).join(" ") || "No Customer"
-        : "No Customer";
+      const customerName = formatShopifyCustomerName(order.customer);
 
       const tags = order.tags
         ? order.tags
@@ -121,13 +278,18 @@ export async function transformShopifyOrders(orders: ShopifyOrder[], venueId: nu
         total: Number(item.price ?? 0) * item.quantity
       }));
 
-      // At fetch time the daily AED/EGP rate is not yet known.
-      // We resolve EGP from the product catalog; USD/AED amounts are calculated
-      // in the import review dialog once the admin enters the daily rate.
+      // The daily AED/EGP rate is taken from the venue's DailyRate ledger when one
+      // was recorded for the order's business day. Otherwise only EGP is resolved
+      // and USD/AED amounts are calculated in the import review dialog once the
+      // admin enters the daily rate.
+      const processedAt = new Date(order.processed_at ?? Date.now());
       const amounts = await calculateOrderAmounts(
         lineItems,
         venueId,
-        Number(order.total_price || 0)
+        Number(order.total_price || 0),
+        undefined,
+        toBusinessDayKey(processedAt, calendar),
+        processedAt
       );
 
       return {
@@ -140,20 +302,23 @@ export async function transformShopifyOrders(orders: ShopifyOrder[], venueId: nu
         fulfillmentStatus: order.fulfillment_status ? titleCase(order.fulfillment_status) : null,
         totalAmount: amounts.totalAmount,
         originalAmount: amounts.originalAmount,
+        aedEgpRate: amounts.aedEgpRate,
+        feeTerms: amounts.feeTerms,
         shopifyUSD: Number(order.total_price || 0),
         currency: order.currency ?? "USD",
-        processedAt: new Date(order.processed_at ?? Date.now()),
+        processedAt,
         shippingCity,
         shippingCountry,
         tags,
         notes: order.note ?? null,
-        lineItems
+        // Each line keeps the product and EGP amounts it was priced with (null when unmatched)
+        lineItems: lineItems.map((item, index) => ({ ...item, ...amounts.lineItemPricing[index] }))
       };
     })
   );
 }
 
-function titleCase(value: string) {
+export function titleCase(value: string) {
   return value
     .split(/[_\s]/)
     .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
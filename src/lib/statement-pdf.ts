@@ -0,0 +1,218 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import { AED_USD_PEG } from "./constants";
+import {
+  formatStatementDay,
+  formatStatementMoney,
+  formatStatementMonth,
+  formatStatementNumber,
+  formatStatementRate,
+  type VenueStatement
+} from "./venue-statement";
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const ROW_HEIGHT = 16;
+
+const TEXT = rgb(0.06, 0.09, 0.16);
+const MUTED = rgb(0.39, 0.45, 0.55);
+const RULE = rgb(0.89, 0.91, 0.94);
+
+type Column = { header: string; width: number; align?: "left" | "right" };
+
+// Standard fonts only cover WinAnsi; anything else (e.g. Arabic venue names) prints as "?"
+const safeText = (value: string) =>
+  value.replace(/\u2212/g, "-").replace(/[^\x20-\x7E\u00A0-\u00FF\u2013\u2014\u2019\u201C\u201D]/g, "?");
+
+/** Render a statement as a paginated A4 PDF using the built-in Helvetica fonts */
+export async function renderStatementPdf(statement: VenueStatement) {
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const monthLabel = formatStatementMonth(statement.month);
+
+  doc.setTitle(safeText(`${statement.venue.name} statement ${monthLabel}`));
+
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  const text = (
+    value: string,
+    x: number,
+    options: { font?: PDFFont; size?: number; color?: typeof TEXT; width?: number; align?: "left" | "right" } = {}
+  ) => {
+    const font = options.font ?? regular;
+    const size = options.size ?? 9;
+    const content = safeText(value);
+    const offset = options.align === "right" && options.width ? options.width - font.widthOfTextAtSize(content, size) : 0;
+    page.drawText(content, { x: x + offset, y, font, size, color: options.color ?? TEXT });
+  };
+
+  const rule = (thickness = 0.5, color = RULE) => {
+    page.drawLine({
+      start: { x: MARGIN, y: y - 4 },
+      end: { x: PAGE_WIDTH - MARGIN, y: y - 4 },
+      thickness,
+      color
+    });
+  };
+
+  const heading = (value: string) => {
+    ensureSpace(ROW_HEIGHT * 3);
+    y -= ROW_HEIGHT * 1.5;
+    text(value.toUpperCase(), MARGIN, { font: bold, size: 9, color: MUTED });
+    y -= ROW_HEIGHT;
+  };
+
+  const table = (columns: Column[], rows: string[][], footer?: string[]) => {
+    const drawRow = (cells: string[], font: PDFFont, color = TEXT) => {
+      let x = MARGIN;
+      cells.forEach((cell, index) => {
+        const column = columns[index];
+        text(cell, x, { font, color, width: column.width, align: column.align });
+        x += column.width;
+      });
+    };
+
+    const drawHeader = () => {
+      drawRow(columns.map((column) => column.header.toUpperCase()), bold, MUTED);
+      rule();
+      y -= ROW_HEIGHT;
+    };
+
+    drawHeader();
+    if (!rows.length) {
+      text("None this month.", MARGIN, { color: MUTED });
+      y -= ROW_HEIGHT;
+    }
+    for (const row of rows) {
+      if (y - ROW_HEIGHT < MARGIN) {
+        ensureSpace(ROW_HEIGHT * 2);
+        drawHeader();
+      }
+      drawRow(row, regular);
+      rule();
+      y -= ROW_HEIGHT;
+    }
+
+    if (footer) {
+      ensureSpace(ROW_HEIGHT);
+      drawRow(footer, bold);
+      y -= ROW_HEIGHT;
+    }
+  };
+
+  // Header
+  text(`${statement.venue.name} - Statement`, MARGIN, { font: bold, size: 18 });
+  y -= ROW_HEIGHT * 1.4;
+  text(
+    `${monthLabel} · ${formatStatementDay(statement.periodStart)} to ${formatStatementDay(statement.periodEnd)} (business days)`,
+    MARGIN,
+    { color: MUTED, size: 10 }
+  );
+  y -= ROW_HEIGHT;
+
+  // Summary
+  heading("Summary");
+  const summaryWidth = PAGE_WIDTH - MARGIN * 2;
+  const summaryLines: Array<[string, string]> = [
+    ["Opening balance", formatStatementMoney(statement.openingBalance)],
+    [`Order payouts (${statement.totals.orderCount} orders)`, `+ ${formatStatementMoney(statement.totals.payoutUSD)}`],
+    ["Deductions", `- ${formatStatementMoney(statement.deductionsUSD)}`],
+    ["Payouts made", `- ${formatStatementMoney(statement.payoutsTotal)}`]
+  ];
+  for (const [label, value] of summaryLines) {
+    text(label, MARGIN, { size: 10 });
+    text(value, MARGIN, { size: 10, width: summaryWidth, align: "right" });
+    y -= ROW_HEIGHT;
+  }
+  rule(1.5, TEXT);
+  y -= ROW_HEIGHT;
+  text("Closing balance", MARGIN, { font: bold, size: 12 });
+  text(formatStatementMoney(statement.closingBalance), MARGIN, { font: bold, size: 12, width: summaryWidth, align: "right" });
+  y -= ROW_HEIGHT;
+
+  // Orders by day
+  heading("Orders by day");
+  table(
+    [
+      { header: "Day", width: 110 },
+      { header: "Orders", width: 55, align: "right" },
+      { header: "EGP", width: 80, align: "right" },
+      { header: "AED/EGP", width: 65, align: "right" },
+      { header: "Revenue (USD)", width: 95, align: "right" },
+      { header: "Payout (AED)", width: 94, align: "right" }
+    ],
+    statement.days.map((day) => [
+      formatStatementDay(day.date),
+      String(day.orderCount),
+      formatStatementNumber(day.egp),
+      formatStatementRate(day),
+      formatStatementMoney(day.revenueUSD),
+      formatStatementMoney(day.payoutAED, "AED")
+    ]),
+    [
+      "Total",
+      String(statement.totals.orderCount),
+      formatStatementNumber(statement.totals.egp),
+      "",
+      formatStatementMoney(statement.totals.revenueUSD),
+      formatStatementMoney(statement.totals.payoutAED, "AED")
+    ]
+  );
+  if (statement.days.some((day) => day.mixedRates)) {
+    text("* Orders on this day were booked at more than one rate; the first is shown.", MARGIN, { color: MUTED, size: 8 });
+    y -= ROW_HEIGHT;
+  }
+
+  // Deductions
+  heading("Deductions");
+  table(
+    [
+      { header: "Day", width: 110 },
+      { header: "Note", width: 199 },
+      { header: "AED", width: 95, align: "right" },
+      { header: "USD", width: 95, align: "right" }
+    ],
+    statement.deductions.map((deduction) => [
+      formatStatementDay(deduction.date),
+      deduction.note ?? "",
+      formatStatementMoney(deduction.amountAED, "AED"),
+      formatStatementMoney(deduction.amountUSD)
+    ])
+  );
+
+  // Payouts
+  heading("Payouts");
+  table(
+    [
+      { header: "Date", width: 110 },
+      { header: "Description", width: 294 },
+      { header: "Amount", width: 95, align: "right" }
+    ],
+    statement.payouts.map((payout) => [
+      formatStatementDay(payout.processedAt.slice(0, 10)),
+      `${payout.description}${payout.bank ? ` · ${payout.bank}` : ""}`,
+      formatStatementMoney(payout.amount, payout.currency)
+    ])
+  );
+
+  ensureSpace(ROW_HEIGHT * 3);
+  y -= ROW_HEIGHT;
+  text(
+    `Balances are in USD. AED amounts convert at the ${AED_USD_PEG} AED/USD peg. The opening balance includes the venue's standing balance adjustment of ${formatStatementMoney(statement.balanceAdjustment)}.`,
+    MARGIN,
+    { color: MUTED, size: 8 }
+  );
+  y -= ROW_HEIGHT * 0.8;
+  text(`Generated ${new Date(statement.generatedAt).toUTCString()}`, MARGIN, { color: MUTED, size: 8 });
+
+  return doc.save();
+}
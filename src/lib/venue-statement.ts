@@ -0,0 +1,341 @@
+import { prisma } from "./prisma";
+import { AED_USD_PEG } from "./constants";
+import { calculatePayoutFromOrder } from "./order-utils";
+import { resolveAedEgpRate } from "./order-rates";
+import { loadFeeTerms } from "./fee-schedules";
+import { payoutAmountUSD } from "./ledger";
+import { getBusinessCalendar, getBusinessMonthWindow, toBusinessDayKey, toUtcDate } from "./business-calendar";
+
+export type StatementDay = {
+  date: string;
+  orderCount: number;
+  egp: number;
+  rate: number | null; // null when the day has no rated orders
+  mixedRates: boolean;
+  revenueUSD: number;
+  payoutAED: number;
+  payoutUSD: number;
+};
+
+export type VenueStatement = {
+  venue: { id: number; name: string };
+  month: string;
+  periodStart: string;
+  periodEnd: string;
+  generatedAt: string;
+  openingBalance: number;
+  days: StatementDay[];
+  totals: { orderCount: number; egp: number; revenueUSD: number; payoutAED: number; payoutUSD: number };
+  deductions: Array<{ date: string; amountAED: number; amountUSD: number; note: string | null }>;
+  deductionsUSD: number;
+  payouts: Array<{
+    id: number;
+    processedAt: string;
+    description: string;
+    bank: string | null;
+    amount: number;
+    currency: string;
+    amountUSD: number;
+  }>;
+  payoutsTotal: number;
+  balanceAdjustment: number;
+  closingBalance: number;
+};
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Collect everything a monthly venue statement shows. All balances are USD;
+ * deductions and AED payouts are converted at the peg, the same way the ledger books them. The venue's standing
+ * balance adjustment is carried in the opening balance so each month closes
+ * where the next one opens.
+ */
+export async function buildVenueStatement(
+  venueId: number,
+  month: string
+): Promise<VenueStatement | null> {
+  const venue = await prisma.venue.findUnique({
+    where: { id: venueId },
+    select: { id: true, name: true, balanceAdjustment: true }
+  });
+
+  if (!venue) {
+    return null;
+  }
+
+  const calendar = await getBusinessCalendar(venueId);
+
+  const { start, end, startKey, endKey } = getBusinessMonthWindow(month, calendar);
+  const orderSelect = {
+    processedAt: true,
+    originalAmount: true,
+    rateType: true,
+    aedEgpRate: true,
+    exchangeRate: true,
+    totalAmount: true
+  };
+
+  const [priorOrders, priorDeductions, priorPayouts, orders, deductions, payouts, feeTerms] = await Promise.all([
+    prisma.order.findMany({
+      where: { venueId, deletedAt: null, processedAt: { lt: start } },
+      select: orderSelect
+    }),
+    prisma.dailyDeduction.aggregate({
+      where: { venueId, date: { lt: toUtcDate(startKey) } },
+      _sum: { amount: true }
+    }),
+    prisma.payout.groupBy({
+      by: ["currency"],
+      where: { venueId, processedAt: { lt: start } },
+      _sum: { amount: true }
+    }),
+    prisma.order.findMany({
+      where: { venueId, deletedAt: null, processedAt: { gte: start, lte: end } },
+      select: orderSelect,
+      orderBy: { processedAt: "asc" }
+    }),
+    prisma.dailyDeduction.findMany({
+      where: { venueId, date: { gte: toUtcDate(startKey), lte: toUtcDate(endKey) } },
+      orderBy: { date: "asc" }
+    }),
+    prisma.payout.findMany({
+      where: { venueId, processedAt: { gte: start, lte: end } },
+      orderBy: { processedAt: "asc" }
+    }),
+    loadFeeTerms([venueId])
+  ]);
+  const payoutOf = (order: (typeof orders)[number]) =>
+    calculatePayoutFromOrder(order, feeTerms(venueId, order.processedAt));
+
+  const openingBalance =
+    venue.balanceAdjustment +
+    sum(priorOrders.map(payoutOf)) -
+    (priorDeductions._sum.amount ?? 0) / AED_USD_PEG -
+    sum(priorPayouts.map((group) => payoutAmountUSD({ amount: group._sum.amount ?? 0, currency: group.currency })));
+
+  const dayMap = new Map<string, StatementDay & { rates: Set<number> }>();
+  for (const order of orders) {
+    const date = toBusinessDayKey(order.processedAt, calendar);
+    const day = dayMap.get(date) ?? {
+      date,
+      orderCount: 0,
+      egp: 0,
+      rate: null,
+      mixedRates: false,
+      revenueUSD: 0,
+      payoutAED: 0,
+      payoutUSD: 0,
+      rates: new Set<number>()
+    };
+    const payoutUSD = payoutOf(order);
+
+    day.orderCount += 1;
+    day.egp += order.originalAmount ?? 0;
+    day.revenueUSD += order.totalAmount;
+    day.payoutUSD += payoutUSD;
+    day.payoutAED += payoutUSD * AED_USD_PEG;
+    const rate = resolveAedEgpRate(order);
+    if (rate) day.rates.add(rate);
+    dayMap.set(date, day);
+  }
+
+  const days = Array.from(dayMap.values()).map(({ rates, ...day }) => ({
+    ...day,
+    rate: rates.size ? Array.from(rates)[0] : null,
+    mixedRates: rates.size > 1
+  }));
+
+  const totals = {
+    orderCount: sum(days.map((day) => day.orderCount)),
+    egp: sum(days.map((day) => day.egp)),
+    revenueUSD: sum(days.map((day) => day.revenueUSD)),
+    payoutAED: sum(days.map((day) => day.payoutAED)),
+    payoutUSD: sum(days.map((day) => day.payoutUSD))
+  };
+
+  const statementDeductions = deductions.map((deduction) => ({
+    date: deduction.date.toISOString().slice(0, 10),
+    amountAED: deduction.amount,
+    amountUSD: deduction.amount / AED_USD_PEG,
+    note: deduction.note
+  }));
+  const deductionsUSD = sum(statementDeductions.map((deduction) => deduction.amountUSD));
+
+  const statementPayouts = payouts.map((payout) => ({
+    id: payout.id,
+    processedAt: payout.processedAt.toISOString(),
+    description: payout.description,
+    bank: payout.bank,
+    amount: payout.amount,
+    currency: payout.currency,
+    amountUSD: payoutAmountUSD(payout)
+  }));
+  const payoutsTotal = sum(statementPayouts.map((payout) => payout.amountUSD));
+
+  return {
+    venue: { id: venue.id, name: venue.name },
+    month,
+    periodStart: startKey,
+    periodEnd: endKey,
+    generatedAt: new Date().toISOString(),
+    openingBalance,
+    days,
+    totals,
+    deductions: statementDeductions,
+    deductionsUSD,
+    payouts: statementPayouts,
+    payoutsTotal,
+    balanceAdjustment: venue.balanceAdjustment,
+    closingBalance: openingBalance + totals.payoutUSD - deductionsUSD - payoutsTotal
+  };
+}
+
+export const formatStatementMoney = (value: number, currency = "USD") =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency, minimumFractionDigits: 2 }).format(value);
+
+export const formatStatementNumber = (value: number, fractionDigits = 0) =>
+  new Intl.NumberFormat("en-US", { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }).format(value);
+
+export const formatStatementMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00.000Z`).toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+
+export const formatStatementDay = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00.000Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC"
+  });
+
+export const formatStatementRate = (day: StatementDay) =>
+  day.rate === null ? "—" : `${formatStatementNumber(day.rate, 2)}${day.mixedRates ? "*" : ""}`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** Standalone, printable HTML document for a statement */
+export function renderStatementHtml(statement: VenueStatement) {
+  const money = formatStatementMoney;
+  const monthLabel = formatStatementMonth(statement.month);
+  const hasMixedRates = statement.days.some((day) => day.mixedRates);
+
+  const dayRows = statement.days.length
+    ? statement.days
+      .map(
+        (day) => `
+        <tr>
+          <td>${formatStatementDay(day.date)}</td>
+          <td class="num">${day.orderCount}</td>
+          <td class="num">${formatStatementNumber(day.egp)}</td>
+          <td class="num">${formatStatementRate(day)}</td>
+          <td class="num">${money(day.revenueUSD)}</td>
+          <td class="num">${money(day.payoutAED, "AED")}</td>
+        </tr>`
+      )
+      .join("")
+    : `<tr><td colspan="6" class="empty">No orders this month.</td></tr>`;
+
+  const deductionRows = statement.deductions.length
+    ? statement.deductions
+      .map(
+        (deduction) => `
+        <tr>
+          <td>${formatStatementDay(deduction.date)}</td>
+          <td>${escapeHtml(deduction.note ?? "")}</td>
+          <td class="num">${money(deduction.amountAED, "AED")}</td>
+          <td class="num">${money(deduction.amountUSD)}</td>
+        </tr>`
+      )
+      .join("")
+    : `<tr><td colspan="4" class="empty">No deductions this month.</td></tr>`;
+
+  const payoutRows = statement.payouts.length
+    ? statement.payouts
+      .map(
+        (payout) => `
+        <tr>
+          <td>${formatStatementDay(payout.processedAt.slice(0, 10))}</td>
+          <td>${escapeHtml(payout.description)}${payout.bank ? ` · ${escapeHtml(payout.bank)}` : ""}</td>
+          <td class="num">${money(payout.amount, payout.currency)}</td>
+        </tr>`
+      )
+      .join("")
+    : `<tr><td colspan="3" class="empty">No payouts this month.</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(statement.venue.name)} · Statement ${monthLabel}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #0f172a; margin: 40px auto; max-width: 820px; padding: 0 24px; font-size: 13px; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 14px; text-transform: uppercase; letter-spacing: .05em; color: #475569; margin: 32px 0 8px; }
+  .muted { color: #64748b; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e2e8f0; text-align: left; }
+  th { font-size: 11px; text-transform: uppercase; letter-spacing: .05em; color: #64748b; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  .empty { text-align: center; color: #94a3b8; }
+  tfoot td { font-weight: 600; border-top: 2px solid #cbd5e1; }
+  .summary td { border: none; padding: 4px 8px; }
+  .summary .total td { border-top: 2px solid #0f172a; font-size: 15px; font-weight: 700; padding-top: 8px; }
+  .print { margin-top: 24px; }
+  @media print { body { margin: 0; } .print { display: none; } }
+</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(statement.venue.name)} — Statement</h1>
+    <p class="muted">${monthLabel} · ${formatStatementDay(statement.periodStart)} to ${formatStatementDay(statement.periodEnd)} (business days)</p>
+  </header>
+
+  <h2>Summary</h2>
+  <table class="summary">
+    <tr><td>Opening balance</td><td class="num">${money(statement.openingBalance)}</td></tr>
+    <tr><td>Order payouts (${statement.totals.orderCount} orders)</td><td class="num">+ ${money(statement.totals.payoutUSD)}</td></tr>
+    <tr><td>Deductions</td><td class="num">− ${money(statement.deductionsUSD)}</td></tr>
+    <tr><td>Payouts made</td><td class="num">− ${money(statement.payoutsTotal)}</td></tr>
+    <tr class="total"><td>Closing balance</td><td class="num">${money(statement.closingBalance)}</td></tr>
+  </table>
+
+  <h2>Orders by day</h2>
+  <table>
+    <thead>
+      <tr><th>Day</th><th class="num">Orders</th><th class="num">EGP</th><th class="num">AED/EGP</th><th class="num">Revenue (USD)</th><th class="num">Payout (AED)</th></tr>
+    </thead>
+    <tbody>${dayRows}</tbody>
+    <tfoot>
+      <tr>
+        <td>Total</td>
+        <td class="num">${statement.totals.orderCount}</td>
+        <td class="num">${formatStatementNumber(statement.totals.egp)}</td>
+        <td></td>
+        <td class="num">${money(statement.totals.revenueUSD)}</td>
+        <td class="num">${money(statement.totals.payoutAED, "AED")}</td>
+      </tr>
+    </tfoot>
+  </table>
+  ${hasMixedRates ? `<p class="muted">* Orders on this day were booked at more than one rate; the first is shown.</p>` : ""}
+
+  <h2>Deductions</h2>
+  <table>
+    <thead><tr><th>Day</th><th>Note</th><th class="num">AED</th><th class="num">USD</th></tr></thead>
+    <tbody>${deductionRows}</tbody>
+  </table>
+
+  <h2>Payouts</h2>
+  <table>
+    <thead><tr><th>Date</th><th>Description</th><th class="num">Amount</th></tr></thead>
+    <tbody>${payoutRows}</tbody>
+  </table>
+
+  <p class="muted" style="margin-top:32px">
+    Balances are in USD. AED amounts convert at the ${AED_USD_PEG} AED/USD peg.
+    The opening balance includes the venue's standing balance adjustment of ${money(statement.balanceAdjustment)}.
+    Generated ${new Date(statement.generatedAt).toUTCString()}.
+  </p>
+  <button class="print" onclick="window.print()">Print</button>
+</body>
+</html>`;
+}
@@ -0,0 +1,11 @@
+export type AuditEventDto = {
+  id: number;
+  action: "create" | "update" | "delete" | "restore" | "purge";
+  entityType: "Order" | "Payout" | "Venue" | "FeeSchedule" | "User";
+  entityId: number | null;
+  actorId: number | null;
+  actorEmail: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+};
@@ -0,0 +1,34 @@
+export type CustomerDto = {
+  key: string;
+  name: string;
+  mergedNames: string[]; // other spellings folded in via a merge
+  orderCount: number;
+  lifetimeEGP: number;
+  lifetimeUSD: number;
+  firstVisit: string | null;
+  lastVisit: string | null;
+  favouriteVenue: {
+    id: number;
+    name: string;
+    orderCount: number;
+  } | null;
+  email: string | null;
+  phone: string | null;
+  shopifyCustomerId: string | null;
+  pendingOrders: number;
+};
+
+export type CustomerOrderDto = {
+  id: number;
+  orderNumber: string;
+  customerName: string;
+  processedAt: string;
+  totalAmount: number;
+  originalAmount: number | null;
+  currency: string;
+  financialStatus: string | null;
+  venue: {
+    id: number;
+    name: string;
+  };
+};
@@ -1,3 +1,5 @@
+import type { FeeTerms } from "@/lib/fee-terms";
+
 export type VenueDto = {
   id: number;
   name: string;
@@ -11,6 +13,9 @@ export type OrderLineItemDto = {
   sku?: string | null;
   price: number;
   total: number;
+  productId?: number | null;
+  egpUnitPrice?: number | null; // catalog EGP price the line was priced at; null when it matched no product
+  egpTotal?: number | null;
 };
 
 export type OrderDto = {
@@ -35,6 +40,8 @@ export type OrderDto = {
   originalAmount?: number | null;
   exchangeRate?: number | null;
   aedEgpRate?: number | null;
+  rateType?: string | null;
+  feeTerms: FeeTerms; // the venue's fee terms at processedAt
   lineItems: OrderLineItemDto[];
   shopifyStoreId?: number | null;
 };
@@ -33,5 +33,17 @@ export type VenueBalance = {
   balanceAdjustment: number;
   totalOrdersPayout: number;
   totalPaidOut: number;
+  totalDeductions: number;
   pendingBalance: number;
 };
+
+export type LedgerEntryDto = {
+  id: number;
+  type: "ORDER" | "PAYOUT" | "DEDUCTION" | "ADJUSTMENT";
+  sourceId: number | null;
+  description: string;
+  amount: number;
+  balanceAfter: number;
+  occurredAt: string;
+  createdAt: string;
+};